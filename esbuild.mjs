@@ -6,7 +6,9 @@
  *
  * WHAT DOES THIS DO?
  * ------------------
- * 1. Bundles all source files (src/**\/*.ts) into a single output file (out/extension.js)
+ * 1. Bundles all source files (src/**\/*.ts) into a single output file per entry point
+ *    (out/extension.js, plus out/server.js for the language server the extension starts and
+ *    out/cli.js for the command-line docs generator)
  * 2. Includes only the code actually used from dependencies (tree-shaking)
  * 3. Removes unused exports, dead code, and development-only code
  * 4. Generates source maps for debugging production issues
@@ -30,9 +32,10 @@
  *
  * CONFIGURATION EXPLAINED:
  * ------------------------
- * - entryPoints: Starting point of the extension (extension.ts)
+ * - entryPoints: Starting points of the extension (extension.ts), language server (server.ts)
+ *   and CLI (cli.ts)
  * - bundle: Combine all imports into single file
- * - outfile: Where to write the bundled output
+ * - outdir: Where to write the bundled output (one file per entry point)
  * - external: Don't bundle VS Code API (provided by VS Code runtime)
  * - format: CommonJS module format (required for Node.js/VS Code)
  * - platform: Target Node.js runtime
@@ -48,14 +51,19 @@ const watch = process.argv.includes('--watch');
 
 async function main() {
 	const ctx = await esbuild.context({
-		// Entry point - where bundling starts
-		entryPoints: ['src/extension.ts'],
+		// Entry points - where bundling starts
+		// The language server and CLI run outside VS Code, so they must not import 'vscode'
+		entryPoints: {
+			extension: 'src/extension.ts',
+			server: 'src/server.ts',
+			cli: 'src/cli.ts'
+		},
 
 		// Bundle all dependencies into a single file
 		bundle: true,
 
 		// Output configuration
-		outfile: 'out/extension.js',
+		outdir: 'out',
 
 		// External dependencies (not bundled)
 		// vscode API is provided by VS Code runtime, don't bundle it
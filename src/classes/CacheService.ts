@@ -41,6 +41,14 @@ export class CacheService {
 		this.propCache.set(componentPath, result);
 	}
 
+	/**
+	 * Get the file modification time recorded when a component's result was cached.
+	 * @param componentPath Absolute file path of the component
+	 */
+	public getMtime(componentPath: string): number | undefined {
+		return this.propCache.getMtime(componentPath);
+	}
+
 	//#endregion
 
 	//#region Hover State Cache Delegation
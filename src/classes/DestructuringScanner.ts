@@ -16,6 +16,7 @@ import { BaseScanner } from './BaseScanner';
 export type DestructuredItem = {
 	name: string; // External prop name (exposed on component)
 	defaultValue?: string; // Raw default value string (preserved as-is)
+	offset: number; // Position of the name within the scanned content
 };
 
 export class DestructuringScanner extends BaseScanner {
@@ -23,6 +24,7 @@ export class DestructuringScanner extends BaseScanner {
 
 	// Current item being built
 	private currentName: string = '';
+	private currentNameOffset: number = 0;
 	private currentValue: string = '';
 	private parsingValue: boolean = false;
 
@@ -118,7 +120,10 @@ export class DestructuringScanner extends BaseScanner {
 			}
 
 			// Regular property name character
-			if (/[a-zA-Z_$0-9]/.test(ch)) this.currentName += ch;
+			if (/[a-zA-Z_$0-9]/.test(ch)) {
+				if (!this.currentName) this.currentNameOffset = this.pos;
+				this.currentName += ch;
+			}
 		}
 
 		this.advance();
@@ -194,7 +199,8 @@ export class DestructuringScanner extends BaseScanner {
 
 		const item: DestructuredItem = {
 			name,
-			defaultValue
+			defaultValue,
+			offset: this.currentNameOffset
 		};
 
 		this.items.push(item);
@@ -0,0 +1,177 @@
+import * as fs from 'node:fs';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver/node';
+import { findComponentUsages } from '../parsers/tagParser';
+import type { PropExtractionResult, PropValidationIssue } from '../types';
+import { t } from '../utils/localization';
+import { validateComponentUsages } from '../utils/propValidation';
+import type { CacheService } from './CacheService';
+import { LspDocument } from './LspDocument';
+
+/**
+ * Publishes prop validation diagnostics for open Svelte documents.
+ * Tracks which component files each document depends on so diagnostics can be
+ * refreshed when those components change.
+ */
+export class DiagnosticsService {
+	private cache: CacheService;
+	private getProps: (document: LspDocument, tagName: string) => PropExtractionResult;
+	private getDocuments: () => TextDocument[];
+	private publish: (uri: string, diagnostics: Diagnostic[]) => void;
+	private enabled: boolean;
+
+	// Document URI -> (component path -> mtime at validation time)
+	private dependencies: Map<string, Map<string, number>> = new Map<string, Map<string, number>>();
+
+	/**
+	 * Create a new DiagnosticsService.
+	 * @param cache CacheService used to read the cached mtime of each component
+	 * @param getProps Callback returning the extraction result for a tag in a document
+	 * @param getDocuments Callback returning the open documents
+	 * @param publish Callback sending the diagnostics of a document to the client
+	 * @param enabled Whether diagnostics are enabled
+	 */
+	public constructor(
+		cache: CacheService,
+		getProps: (document: LspDocument, tagName: string) => PropExtractionResult,
+		getDocuments: () => TextDocument[],
+		publish: (uri: string, diagnostics: Diagnostic[]) => void,
+		enabled: boolean = true
+	) {
+		this.cache = cache;
+		this.getProps = getProps;
+		this.getDocuments = getDocuments;
+		this.publish = publish;
+		this.enabled = enabled;
+	}
+
+	/**
+	 * Validate all component usages in a document and publish the diagnostics.
+	 * Only files on disk are validated: imports in git, diff and other virtual documents can't be
+	 * resolved relative to their URI.
+	 * @param document The Svelte document to validate
+	 */
+	public validate(document: TextDocument): void {
+		if (!document.uri.startsWith('file:') || !document.uri.endsWith('.svelte')) return;
+		if (!this.enabled) {
+			this.clear(document.uri);
+			return;
+		}
+
+		const source = new LspDocument(document);
+		const componentPaths = new Set<string>();
+		const usages = findComponentUsages(document.getText());
+		const issues = validateComponentUsages(usages, (tagName) => {
+			const result = this.getProps(source, tagName);
+			if (result.componentPath && result.success) {
+				componentPaths.add(result.componentPath);
+				// Imported type files affect the props just like the component itself
+				for (const dependency of result.dependencies ?? []) componentPaths.add(dependency);
+			}
+			return result;
+		});
+
+		const diagnostics = issues.map((issue) => {
+			const deprecation =
+				issue.kind === 'deprecatedProp' || issue.kind === 'deprecatedComponent';
+			// Deprecations are hints rendered with a strikethrough, like TypeScript's
+			const diagnostic = Diagnostic.create(
+				{ start: document.positionAt(issue.start), end: document.positionAt(issue.end) },
+				DiagnosticsService.getMessage(issue),
+				deprecation ? DiagnosticSeverity.Hint : DiagnosticSeverity.Warning,
+				undefined,
+				'SvelteDoc'
+			);
+			if (deprecation) diagnostic.tags = [DiagnosticTag.Deprecated];
+			return diagnostic;
+		});
+
+		this.publish(document.uri, diagnostics);
+
+		// Remember the mtime of each component this document depends on
+		const mtimes = new Map<string, number>();
+		for (const componentPath of componentPaths)
+			mtimes.set(
+				componentPath,
+				this.cache.getMtime(componentPath) ?? DiagnosticsService.readMtime(componentPath)
+			);
+		this.dependencies.set(document.uri, mtimes);
+	}
+
+	/**
+	 * Revalidate open documents that depend on a component file that changed.
+	 * @param componentPath Absolute path of the changed component
+	 */
+	public componentChanged(componentPath: string): void {
+		for (const document of this.getDocuments())
+			if (this.dependencies.get(document.uri)?.has(componentPath)) this.validate(document);
+	}
+
+	/**
+	 * Revalidate open documents whose component dependencies have a different mtime
+	 * than when they were last validated (e.g., changed outside of the editor).
+	 */
+	public refreshStale(): void {
+		for (const document of this.getDocuments()) {
+			const mtimes = this.dependencies.get(document.uri);
+			if (!mtimes) continue;
+
+			for (const [componentPath, mtime] of mtimes)
+				if (DiagnosticsService.readMtime(componentPath) !== mtime) {
+					this.validate(document);
+					break;
+				}
+		}
+	}
+
+	/**
+	 * Revalidate all open Svelte documents.
+	 */
+	public validateAll(): void {
+		for (const document of this.getDocuments()) this.validate(document);
+	}
+
+	/**
+	 * Remove diagnostics and dependency tracking for a document.
+	 * @param uri URI of the document to clear
+	 */
+	public clear(uri: string): void {
+		this.publish(uri, []);
+		this.dependencies.delete(uri);
+	}
+
+	/**
+	 * Update the enabled setting and revalidate open documents.
+	 * @param enabled Whether diagnostics are enabled
+	 */
+	public setEnabled(enabled: boolean): void {
+		this.enabled = enabled;
+		this.validateAll();
+	}
+
+	private static getMessage(issue: PropValidationIssue): string {
+		const propName = issue.propName ?? '';
+		switch (issue.kind) {
+			case 'missingRequired':
+				return t('diagnostics.missingRequiredProp', propName, issue.tagName);
+			case 'unknownAttribute':
+				return t('diagnostics.unknownProp', propName, issue.tagName);
+			case 'deprecatedProp':
+			case 'deprecatedComponent': {
+				const message =
+					issue.kind === 'deprecatedProp'
+						? t('diagnostics.deprecatedProp', propName, issue.tagName)
+						: t('diagnostics.deprecatedComponent', issue.tagName);
+				return issue.reason ? `${message}: ${issue.reason}` : message;
+			}
+		}
+	}
+
+	private static readMtime(filePath: string): number {
+		try {
+			return fs.statSync(filePath).mtimeMs;
+		} catch {
+			return 0;
+		}
+	}
+}
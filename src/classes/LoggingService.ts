@@ -1,31 +1,30 @@
-import * as vscode from 'vscode';
+import type { ResolverLogger } from '../types';
 import { t } from '../utils/localization';
 
 /**
- * Lightweight (Singleton) logging service for SvelteDoc diagnostics.
- * Logs to a dedicated OUTPUT channel in VS Code.
+ * Lightweight logging service for SvelteDoc diagnostics.
+ * Writes timestamped lines through the language server connection, which VS Code shows in the
+ * SvelteDoc OUTPUT channel (and other clients in their server log).
  */
-export class LoggingService {
-	private static instance: LoggingService | undefined;
-	private outputChannel: vscode.OutputChannel;
+export class LoggingService implements ResolverLogger {
+	private write: (line: string) => void;
 
-	private constructor() {
-		this.outputChannel = vscode.window.createOutputChannel('SvelteDoc');
-	}
-
-	public static getInstance(): LoggingService {
-		LoggingService.instance ??= new LoggingService();
-		return LoggingService.instance;
+	/**
+	 * Create a new LoggingService.
+	 * @param write Callback writing a line to the log
+	 */
+	public constructor(write: (line: string) => void) {
+		this.write = write;
 	}
 
 	private log(message: string): void {
 		const timestamp = new Date().toISOString();
-		this.outputChannel.appendLine(`[${timestamp}] ${message}`);
+		this.write(`[${timestamp}] ${message}`);
 	}
 
 	//#region Public Logging Methods
 
-	/** Log that the extension has started */
+	/** Log that the language server has started */
 	public logStarted(): void {
 		this.log(t('extension.log.started'));
 	}
@@ -121,14 +120,4 @@ export class LoggingService {
 	}
 
 	//#endregion
-
-	/** Show (focus) the output channel */
-	public show(): void {
-		this.outputChannel.show(true);
-	}
-
-	/** Dispose the output channel */
-	public dispose(): void {
-		this.outputChannel.dispose();
-	}
 }
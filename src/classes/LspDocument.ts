@@ -0,0 +1,80 @@
+import { fileURLToPath } from 'node:url';
+import type { TextDocument as LspTextDocument } from 'vscode-languageserver-textdocument';
+import type { Position, TextDocument } from '../interfaces/vscode';
+import type { SourceDocument } from '../types';
+
+/**
+ * Adapts a language server text document to the document interfaces used by the tag parser
+ * and component resolution, so the same code serves VS Code and other LSP clients.
+ */
+export class LspDocument implements TextDocument, SourceDocument {
+	public readonly fileName: string;
+	private document: LspTextDocument;
+	private lines: string[];
+
+	/**
+	 * Create an adapter for an open `file:` document.
+	 * @param document The document tracked by the language server
+	 */
+	public constructor(document: LspTextDocument) {
+		this.document = document;
+		this.fileName = fileURLToPath(document.uri);
+		this.lines = document.getText().split(/\r?\n/);
+	}
+
+	/**
+	 * Find the range of the regex match containing the position, like VS Code does.
+	 */
+	public getWordRangeAtPosition(
+		position: Position,
+		regex: RegExp = /[\w$-]+/
+	): { start: Position; end: Position } | undefined {
+		const text = this.lines[position.line] || '';
+		const globalRegex = new RegExp(regex.source, regex.flags.replace('g', '') + 'g');
+
+		let match: RegExpExecArray | null;
+		while ((match = globalRegex.exec(text))) {
+			const start = match.index;
+			const end = start + match[0].length;
+			if (start <= position.character && position.character <= end)
+				return {
+					start: { line: position.line, character: start },
+					end: { line: position.line, character: end }
+				};
+			// Guard against empty matches
+			if (match[0].length === 0) globalRegex.lastIndex++;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Get a line of the document. Throws past the last line, like VS Code does.
+	 */
+	public lineAt(line: number): { text: string } {
+		if (line < 0 || line >= this.lines.length)
+			throw new RangeError(`Illegal line: ${line.toString()}`);
+		return { text: this.lines[line] };
+	}
+
+	/**
+	 * Get the text of the whole document, or of a range within it.
+	 */
+	public getText(range?: { start: Position; end: Position }): string {
+		return this.document.getText(range);
+	}
+
+	/**
+	 * Convert a position into an offset within the document.
+	 */
+	public offsetAt(position: Position): number {
+		return this.document.offsetAt(position);
+	}
+
+	/**
+	 * Convert an offset within the document into a position.
+	 */
+	public positionAt(offset: number): Position {
+		return this.document.positionAt(offset);
+	}
+}
@@ -38,15 +38,21 @@
  * ensure each character is processed correctly based on its surrounding context.
  */
 
-import { ScannerContext, TypeEntry } from '../types';
+import { JSDocInfo, ScannerContext, TypeEntry } from '../types';
 import { BaseScanner } from './BaseScanner';
 
+/**
+ * JSDoc block tags read into JSDocInfo (other tags stay in the description).
+ */
+const JSDOC_TAGS: string[] = ['deprecated', 'default', 'defaultValue', 'example', 'see', 'since'];
+
 export class PropertyScanner extends BaseScanner {
 	// Context tracking
 	private context: ScannerContext = ScannerContext.NONE;
 
 	// Current property being built
 	private currentName: string = '';
+	private currentNameOffset: number = 0; // Position where the current property name starts
 	private currentOptional: boolean = false;
 
 	// Method signature tracking (for shorthand method syntax like `select(item: Item): void`)
@@ -59,6 +65,7 @@ export class PropertyScanner extends BaseScanner {
 	// Results
 	private properties: Map<string, TypeEntry> = new Map<string, TypeEntry>();
 	private pendingJSDoc: string | undefined;
+	private pendingJSDocTags: JSDocInfo | undefined;
 
 	// Buffers
 	private buffer: string = '';
@@ -67,14 +74,25 @@ export class PropertyScanner extends BaseScanner {
 	private shouldNormaliseComment: boolean;
 	private shouldNormaliseType: boolean;
 
+	// Offset of the body within its source, added to recorded entry locations
+	private bodyOffset: number | undefined;
+
+	/**
+	 * @param body The type/interface body (between the braces)
+	 * @param normaliseComment Whether to normalise JSDoc comments
+	 * @param normaliseType Whether to normalise types
+	 * @param bodyOffset Offset of the body within its source; when set, entries record their location
+	 */
 	public constructor(
 		body: string,
 		normaliseComment: boolean = false,
-		normaliseType: boolean = true
+		normaliseType: boolean = true,
+		bodyOffset?: number
 	) {
 		super(body);
 		this.shouldNormaliseComment = normaliseComment;
 		this.shouldNormaliseType = normaliseType;
+		this.bodyOffset = bodyOffset;
 	}
 
 	public parse(): Partial<Record<string, TypeEntry>> {
@@ -207,14 +225,48 @@ export class PropertyScanner extends BaseScanner {
 			return;
 		}
 
+		// Index signatures (`[key: string]: unknown`) don't declare a named prop
+		if (ch === '[') {
+			this.skipIndexSignature();
+			return;
+		}
+
 		// Check for property name start
 		if (/[A-Za-z_]/.test(ch)) {
 			this.context = ScannerContext.PROPERTY_NAME;
+			this.currentNameOffset = this.pos;
 			this.buffer = ch;
 			return;
 		}
 	}
 
+	/**
+	 * Skip an index signature (or computed member) up to the `;`, `,` or line break that ends
+	 * it, dropping any JSDoc written above it.
+	 */
+	private skipIndexSignature(): void {
+		let depth = 0;
+		let quote = '';
+		while (this.pos < this.body.length) {
+			const ch = this.current();
+			if (quote) {
+				if (ch === quote && this.previous() !== '\\') quote = '';
+			} else if (ch === '"' || ch === "'" || ch === '`') {
+				quote = ch;
+			} else if ('([{<'.includes(ch)) {
+				depth++;
+			} else if (')]}'.includes(ch) || (ch === '>' && this.previous() !== '=')) {
+				depth--;
+			} else if (depth === 0 && (ch === ';' || ch === ',' || ch === '\n')) {
+				break;
+			}
+			this.pos++;
+		}
+
+		this.pendingJSDoc = undefined;
+		this.pendingJSDocTags = undefined;
+	}
+
 	/**
 	 * SINGLE_LINE_COMMENT context: Inside a // comment.
 	 *
@@ -255,7 +307,9 @@ export class PropertyScanner extends BaseScanner {
 	private handleJSDocComment(ch: string, next: string): void {
 		if (ch === '*' && next === '/') {
 			// End of JSDoc - store it for the next property
-			this.pendingJSDoc = this.normalizeComment(this.buffer);
+			const parsed = PropertyScanner.parseJSDoc(this.buffer, this.shouldNormaliseComment);
+			this.pendingJSDoc = parsed.comment;
+			this.pendingJSDocTags = parsed.jsdoc;
 			this.buffer = '';
 			this.context = ScannerContext.NONE;
 			this.pos++; // Skip */
@@ -671,10 +725,43 @@ export class PropertyScanner extends BaseScanner {
 			type = `${genericPart}${paramsPart} => ${returnType}`;
 		}
 
+		type = PropertyScanner.formatType(type, this.shouldNormaliseType);
+
+		if (!type) {
+			this.resetProperty();
+			return;
+		}
+
+		const entry: TypeEntry = {
+			name: this.currentName,
+			type,
+			required: !this.currentOptional,
+			comment: this.pendingJSDoc
+		};
+		if (this.pendingJSDocTags) entry.jsdoc = this.pendingJSDocTags;
+		if (this.bodyOffset !== undefined)
+			entry.location = { offset: this.bodyOffset + this.currentNameOffset };
+		this.properties.set(this.currentName, entry);
+
+		// Clear for next property
+		this.resetProperty();
+		this.pendingJSDoc = undefined; // JSDoc only applies to one property
+		this.pendingJSDocTags = undefined;
+	}
+
+	/**
+	 * Format a raw type string for display.
+	 * Always dedents multi-line types; collapses whitespace when normalisation is enabled.
+	 * Shared with other parsers so all prop types are formatted consistently.
+	 * @param type The raw type string
+	 * @param normalise Whether to collapse whitespace (normaliseType setting)
+	 * @returns The formatted type string
+	 */
+	public static formatType(type: string, normalise: boolean): string {
 		// Always dedent multi-line types to fix source indentation
-		type = this.dedentType(type);
+		type = PropertyScanner.dedentType(type);
 
-		if (this.shouldNormaliseType)
+		if (normalise)
 			// Normalize whitespace: collapse multiple spaces/newlines to single space,
 			// then clean up spaces around brackets for readability
 			type = type
@@ -688,21 +775,7 @@ export class PropertyScanner extends BaseScanner {
 				.replace(/<\s+/g, '<')
 				.replace(/\s+>/g, '>');
 
-		if (!type) {
-			this.resetProperty();
-			return;
-		}
-
-		this.properties.set(this.currentName, {
-			name: this.currentName,
-			type,
-			required: !this.currentOptional,
-			comment: this.pendingJSDoc
-		});
-
-		// Clear for next property
-		this.resetProperty();
-		this.pendingJSDoc = undefined; // JSDoc only applies to one property
+		return type;
 	}
 
 	/**
@@ -711,7 +784,7 @@ export class PropertyScanner extends BaseScanner {
 	 * @param type The type string to dedent
 	 * @returns The dedented type string
 	 */
-	private dedentType(type: string): string {
+	private static dedentType(type: string): string {
 		const lines = type.split('\n');
 
 		// Single line - no dedenting needed
@@ -754,11 +827,91 @@ export class PropertyScanner extends BaseScanner {
 	}
 
 	/**
-	 * Normalize JSDoc comment text by removing leading asterisks and whitespace.
-	 * Only applies normalization if shouldNormaliseComment is true.
+	 * Parse raw JSDoc text (between the opening and closing comment markers) into the
+	 * display comment and, when it has supported block tags (`@deprecated`, `@default`,
+	 * `@example`, `@see`, `@since`), a structured model. Those tags are left out of the
+	 * comment; other tags stay in it.
+	 * @param raw The raw comment text
+	 * @param normalise Whether to collapse the description to a single line (normaliseComment setting)
+	 * @returns The formatted comment, and the structured JSDoc if any supported tag was found
+	 */
+	public static parseJSDoc(
+		raw: string,
+		normalise: boolean
+	): { comment: string; jsdoc?: JSDocInfo } {
+		const descriptionLines: string[] = [];
+		const tags: { name: string; lines: string[] }[] = [];
+		let currentTag: { name: string; lines: string[] } | undefined;
+
+		for (const line of raw.split(/\r?\n/)) {
+			// Line content without the leading asterisk (and one space after it)
+			const text = line.replace(/^[ \t]*\*?[ \t]?/, '');
+			const tagMatch = /^@(\w+)\b\s?(.*)$/.exec(text.trimStart());
+			if (tagMatch) {
+				currentTag = JSDOC_TAGS.includes(tagMatch[1])
+					? { name: tagMatch[1], lines: [tagMatch[2]] }
+					: undefined;
+				if (currentTag) {
+					tags.push(currentTag);
+					continue;
+				}
+			}
+
+			if (currentTag) currentTag.lines.push(text);
+			else descriptionLines.push(line);
+		}
+
+		if (tags.length === 0) return { comment: PropertyScanner.formatComment(raw, normalise) };
+
+		const comment = PropertyScanner.formatComment(descriptionLines.join('\n'), normalise);
+		const jsdoc: JSDocInfo = { description: comment };
+		const inline = (lines: string[]): string =>
+			lines
+				.join(' ')
+				.replace(/\s+/g, ' ')
+				.trim()
+				// {@link target text} / {@link target|text} → Markdown link
+				.replace(
+					/\{@link(?:code|plain)?\s+([^\s|}]+)(?:\s*\|\s*|\s+)?([^}]*)\}/g,
+					(_match, target: string, text: string) =>
+						text.trim() ? `[${text.trim()}](${target})` : target
+				);
+
+		for (const tag of tags)
+			switch (tag.name) {
+				case 'deprecated':
+					jsdoc.deprecated = inline(tag.lines);
+					break;
+				case 'default':
+				case 'defaultValue':
+					jsdoc.default = inline(tag.lines);
+					break;
+				case 'example':
+					jsdoc.examples = [
+						...(jsdoc.examples ?? []),
+						PropertyScanner.dedentType(tag.lines.join('\n').trim())
+					];
+					break;
+				case 'see':
+					jsdoc.see = [...(jsdoc.see ?? []), inline(tag.lines)];
+					break;
+				case 'since':
+					jsdoc.since = inline(tag.lines);
+					break;
+			}
+
+		return { comment, jsdoc };
+	}
+
+	/**
+	 * Format raw JSDoc text (between the opening and closing comment markers) for display.
+	 * Shared with other parsers so all prop comments are formatted consistently.
+	 * @param raw The raw comment text
+	 * @param normalise Whether to collapse to a single line (normaliseComment setting)
+	 * @returns The formatted comment
 	 */
-	private normalizeComment(raw: string): string {
-		if (!this.shouldNormaliseComment)
+	public static formatComment(raw: string, normalise: boolean): string {
+		if (!normalise)
 			// When disabled: replace leading whitespace + asterisks with ' *' and preserve newlines
 			return raw
 				.split(/\r?\n/)
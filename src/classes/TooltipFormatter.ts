@@ -1,17 +1,21 @@
-import * as vscode from 'vscode';
-
 import {
+	EventInfo,
 	FormatSettings,
 	PropExtractionResult,
 	PropInfo,
+	SnippetInfo,
 	TooltipFormat,
-	TooltipOrder
+	TooltipOrder,
+	TypeParameter
 } from '../types';
+import { formatGenericSignature } from '../parsers/genericParser';
+import { getElementAttributes } from '../utils/elementAttributes';
 import { t } from '../utils/localization';
 import { sortProps } from '../utils/propSorting';
 
 /**
- * Formats component information into a VS Code Hover tooltip.
+ * Formats component information into Markdown tooltips.
+ * The output is plain Markdown so it can be shown by VS Code or any language client.
  */
 export class TooltipFormatter {
 	//#region Display methods
@@ -28,15 +32,9 @@ export class TooltipFormatter {
 		inherits: string[] | undefined,
 		order: TooltipOrder,
 		settings: FormatSettings
-	): vscode.MarkdownString {
-		const md = new vscode.MarkdownString();
-		md.isTrusted = true;
-
+	): string {
 		// Show inherited types if any and setting enabled
-		if (settings.showInheritance && inherits && inherits.length > 0) {
-			const inheritsList = inherits.map((t) => `\`${t}\``).join(', ');
-			md.appendMarkdown(`**Extends:** ${inheritsList}\n\n`);
-		}
+		let md = TooltipFormatter.formatInherits(props, inherits, settings);
 
 		// Sort props according to order preference
 		const sortedProps = sortProps(props, order);
@@ -49,18 +47,32 @@ export class TooltipFormatter {
 
 			const emojiPrefix = emojis.length > 0 ? emojis.join(' ') + ' ' : '';
 			const typeFormatted = settings.showTypes ? `**${prop.type}**` : '';
-			let line = `- ${emojiPrefix}\`${prop.name}\``;
+			let line = `- ${emojiPrefix}${TooltipFormatter.propName(prop)}`;
 
 			// Add type if enabled
 			if (settings.showTypes && typeFormatted) line += `: ${typeFormatted}`;
 
 			// Add default value if present and enabled
-			if (settings.showDefaults && prop.defaultValue) line += ` = \`${prop.defaultValue}\``;
+			const defaultValue = TooltipFormatter.defaultOf(prop);
+			if (settings.showDefaults && defaultValue) line += ` = \`${defaultValue}\``;
 
-			// Add comment if present and enabled
-			if (settings.showComments && prop.comment) line += `\n  - _${prop.comment}_`;
+			// Show which parent type the prop was inherited from
+			if (settings.showInheritance && prop.inheritedFrom)
+				line += ` _(${TooltipFormatter.inheritedLabel(prop.inheritedFrom)})_`;
 
-			md.appendMarkdown(line + '\n');
+			// Deprecation is always shown, as it affects how the prop should be used
+			const deprecation = TooltipFormatter.deprecationLabel(prop);
+			if (deprecation) line += `\n  - _${deprecation}_`;
+
+			// Add comment, `@since`/`@see` notes and examples if present and enabled
+			if (settings.showComments) {
+				if (prop.comment) line += `\n  - _${prop.comment}_`;
+				for (const note of TooltipFormatter.tagNotes(prop)) line += `\n  - _${note}_`;
+				for (const example of prop.jsdoc?.examples ?? [])
+					line += '\n\n' + TooltipFormatter.fencedExample(example, '  ');
+			}
+
+			md += line + '\n';
 		}
 
 		return md;
@@ -78,17 +90,13 @@ export class TooltipFormatter {
 		inherits: string[] | undefined,
 		order: TooltipOrder,
 		settings: FormatSettings
-	): vscode.MarkdownString {
-		const md = new vscode.MarkdownString();
-		md.isTrusted = true;
-
-		if (settings.showInheritance && inherits && inherits.length > 0) {
-			const inheritsList = inherits.map((t) => `\`${t}\``).join(', ');
-			md.appendMarkdown(`**Extends:** ${inheritsList}\n\n`);
-		}
+	): string {
+		// Show inherited types if any and setting enabled
+		let md = TooltipFormatter.formatInherits(props, inherits, settings);
 
 		// Sort props according to order preference
 		const sortedProps = sortProps(props, order);
+		if (sortedProps.length === 0) return md;
 
 		// Build table header dynamically based on enabled columns
 		const headers: string[] = ['Property'];
@@ -98,11 +106,11 @@ export class TooltipFormatter {
 
 		// If only Property column, show minimal table
 		if (headers.length === 1) {
-			md.appendMarkdown('| Property |\n');
-			md.appendMarkdown('|----------|\n');
+			md += '| Property |\n';
+			md += '|----------|\n';
 		} else {
-			md.appendMarkdown(`| ${headers.join(' | ')} |\n`);
-			md.appendMarkdown(`|${headers.map(() => '-------').join('|')}|\n`);
+			md += `| ${headers.join(' | ')} |\n`;
+			md += `|${headers.map(() => '-------').join('|')}|\n`;
 		}
 
 		for (const prop of sortedProps) {
@@ -110,22 +118,34 @@ export class TooltipFormatter {
 			if (prop.required) badges.push('⚠️ Required');
 			if (prop.bindable) badges.push('🔗 Bindable');
 
-			const cells: string[] = [`\`${prop.name}\``];
-			if (settings.showTypes) cells.push(`\`${prop.type}\``);
+			let nameCell = TooltipFormatter.propName(prop);
+			if (settings.showInheritance && prop.inheritedFrom)
+				nameCell += `<br>_${TooltipFormatter.inheritedLabel(prop.inheritedFrom)}_`;
+
+			const cells: string[] = [nameCell];
+			if (settings.showTypes) cells.push(`\`${TooltipFormatter.tableCell(prop.type)}\``);
+			const defaultValue = TooltipFormatter.defaultOf(prop);
 			if (settings.showDefaults)
-				cells.push(prop.defaultValue ? `\`${prop.defaultValue}\`` : '—');
+				cells.push(defaultValue ? `\`${TooltipFormatter.tableCell(defaultValue)}\`` : '—');
 
-			// Build notes column: badges + comment
+			// Build notes column: badges + deprecation + comment + `@since`/`@see` notes
 			if (settings.showComments) {
 				const notesParts: string[] = [...badges];
-				if (prop.comment) notesParts.push(prop.comment);
+				const deprecation = TooltipFormatter.deprecationLabel(prop);
+				if (deprecation) notesParts.push(TooltipFormatter.tableCell(deprecation));
+				if (prop.comment) notesParts.push(TooltipFormatter.tableCell(prop.comment));
+				for (const note of TooltipFormatter.tagNotes(prop))
+					notesParts.push(TooltipFormatter.tableCell(note));
 				const notes = notesParts.join('<br>');
 				cells.push(notes || '—');
 			}
 
-			md.appendMarkdown(`| ${cells.join(' | ')} |\n`);
+			md += `| ${cells.join(' | ')} |\n`;
 		}
 
+		// Code examples don't fit in a table cell
+		if (settings.showComments) md += TooltipFormatter.formatExamples(sortedProps);
+
 		return md;
 	}
 
@@ -141,17 +161,13 @@ export class TooltipFormatter {
 		inherits: string[] | undefined,
 		order: TooltipOrder,
 		settings: FormatSettings
-	): vscode.MarkdownString {
-		const md = new vscode.MarkdownString();
-		md.isTrusted = true;
-
-		if (settings.showInheritance && inherits && inherits.length > 0) {
-			const inheritsList = inherits.map((t) => `\`${t}\``).join(', ');
-			md.appendMarkdown(`**Extends:** ${inheritsList}\n\n`);
-		}
+	): string {
+		// Show inherited types if any and setting enabled
+		const md = TooltipFormatter.formatInherits(props, inherits, settings);
 
 		// Sort props according to order preference
 		const sortedProps = sortProps(props, order);
+		if (sortedProps.length === 0) return md;
 
 		let details = '```typescript\n';
 		for (const prop of sortedProps) {
@@ -160,28 +176,319 @@ export class TooltipFormatter {
 			else if (settings.showComments && !prop.comment && prop.required)
 				details += `/** ⚠️ ${t('tooltip.general.required')} */\n`;
 
+			// Deprecation is always shown, as it affects how the prop should be used
+			if (prop.jsdoc?.deprecated !== undefined)
+				details += `// @deprecated ${prop.jsdoc.deprecated}`.trimEnd() + '\n';
+			if (settings.showComments && prop.jsdoc?.since)
+				details += `// @since ${prop.jsdoc.since}\n`;
+			if (settings.showComments)
+				for (const see of prop.jsdoc?.see ?? []) details += `// @see ${see}\n`;
+
 			details += `let ${prop.name}`;
 
 			// Show type with optional marker if enabled
 			if (settings.showTypes) details += `${prop.required ? '' : '?'}: ${prop.type}`;
 
 			// Add default value if enabled and present
-			if (settings.showDefaults && prop.defaultValue)
-				details += TooltipFormatter.showBindable(prop.defaultValue, prop.bindable);
+			const defaultValue = TooltipFormatter.defaultOf(prop);
+			if (settings.showDefaults && defaultValue)
+				details += TooltipFormatter.showBindable(defaultValue, prop.bindable);
 
 			// When types and comments are hidden, add '// required' comment if prop is required
 			details +=
 				!settings.showTypes && prop.required && !settings.showComments
 					? '; // required'
 					: ';';
+			if (settings.showInheritance && prop.inheritedFrom)
+				details += ` // ${TooltipFormatter.inheritedLabel(prop.inheritedFrom)}`;
 			details += '\n';
 		}
 		details += '```\n';
-		md.appendMarkdown(details);
+
+		if (settings.showComments) details += TooltipFormatter.formatExamples(sortedProps);
+
+		return md + details;
+	}
+
+	/**
+	 * Displays the "Events" section: callback props and legacy dispatched events (shown as
+	 * `on:name` with a `CustomEvent<Detail>` type), as a table for the table format and a
+	 * bullet list otherwise.
+	 * @param events The component's events
+	 * @param format The tooltip format setting
+	 * @param settings Visibility settings for tooltip formatting
+	 */
+	private static displayEvents(
+		events: EventInfo[],
+		format: TooltipFormat,
+		settings: FormatSettings
+	): string {
+		if (events.length === 0) return '';
+
+		let md = `\n**${t('tooltip.general.events')}:**\n\n`;
+		if (format === 'table') {
+			const headers: string[] = ['Event'];
+			if (settings.showTypes) headers.push('Type');
+			if (settings.showComments) headers.push('Notes');
+			md += `| ${headers.join(' | ')} |\n`;
+			md += `|${headers.map(() => '-------').join('|')}|\n`;
+
+			for (const event of events) {
+				const cells: string[] = [`\`${TooltipFormatter.eventName(event)}\``];
+				if (settings.showTypes)
+					cells.push(
+						`\`${TooltipFormatter.tableCell(TooltipFormatter.eventType(event))}\``
+					);
+				if (settings.showComments) {
+					const notesParts: string[] = [];
+					if (event.required) notesParts.push('⚠️ Required');
+					if (event.comment) notesParts.push(TooltipFormatter.tableCell(event.comment));
+					cells.push(notesParts.join('<br>') || '—');
+				}
+				md += `| ${cells.join(' | ')} |\n`;
+			}
+			return md;
+		}
+
+		for (const event of events) {
+			let line = `- ${event.required ? '⚠️ ' : ''}\`${TooltipFormatter.eventName(event)}\``;
+			if (settings.showTypes) line += `: **${TooltipFormatter.eventType(event)}**`;
+			if (settings.showComments && event.comment) line += `\n  - _${event.comment}_`;
+			md += line + '\n';
+		}
+
+		return md;
+	}
+
+	/**
+	 * Name an event as it is listened to (`onSave={...}`, or `on:save` for dispatched events).
+	 */
+	private static eventName(event: EventInfo): string {
+		return event.dispatched ? `on:${event.name}` : event.name;
+	}
+
+	/**
+	 * Type of an event listener's argument source: the callback type, the dispatched
+	 * `CustomEvent` with its detail type, or the type of a forwarded DOM event.
+	 */
+	private static eventType(event: EventInfo): string {
+		return event.dispatched && !event.forwarded ? `CustomEvent<${event.type}>` : event.type;
+	}
+
+	/**
+	 * Displays the "Snippets" section: every snippet prop and legacy slot with the arguments it
+	 * receives, as a table for the table format and a bullet list otherwise.
+	 * @param snippets The component's snippets
+	 * @param format The tooltip format setting
+	 * @param settings Visibility settings for tooltip formatting
+	 */
+	private static displaySnippets(
+		snippets: SnippetInfo[],
+		format: TooltipFormat,
+		settings: FormatSettings
+	): string {
+		if (snippets.length === 0) return '';
+
+		let md = `\n**${t('tooltip.general.snippets')}:**\n\n`;
+		if (format === 'table') {
+			md += settings.showComments
+				? '| Snippet | Notes |\n|-------|-------|\n'
+				: '| Snippet |\n|----------|\n';
+			for (const snippet of snippets) {
+				const signature = TooltipFormatter.tableCell(
+					TooltipFormatter.snippetSignature(snippet, settings.showTypes)
+				);
+				if (!settings.showComments) {
+					md += `| \`${signature}\` |\n`;
+					continue;
+				}
+
+				const notesParts: string[] = [];
+				if (snippet.required) notesParts.push('⚠️ Required');
+				if (snippet.slot) notesParts.push(`_${t('tooltip.general.slot')}_`);
+				if (snippet.comment) notesParts.push(TooltipFormatter.tableCell(snippet.comment));
+				md += `| \`${signature}\` | ${notesParts.join('<br>') || '—'} |\n`;
+			}
+			return md;
+		}
+
+		for (const snippet of snippets) {
+			let line = `- ${snippet.required ? '⚠️ ' : ''}\`${TooltipFormatter.snippetSignature(snippet, settings.showTypes)}\``;
+			if (snippet.slot) line += ` _(${t('tooltip.general.slot')})_`;
+			if (settings.showComments && snippet.comment) line += `\n  - _${snippet.comment}_`;
+			md += line + '\n';
+		}
 
 		return md;
 	}
 
+	/**
+	 * Format a snippet as it is rendered, with its named arguments (e.g. `row(item: Item)`).
+	 * @param snippet The snippet
+	 * @param showTypes Whether to include the argument types
+	 */
+	private static snippetSignature(snippet: SnippetInfo, showTypes: boolean): string {
+		const args = snippet.parameters.map((p) =>
+			showTypes && p.type ? `${p.name}: ${p.type}` : p.name
+		);
+		return `${snippet.name}(${args.join(', ')})`;
+	}
+
+	/**
+	 * Displays a single prop as a TypeScript declaration followed by its badges and comment.
+	 * Used for completion item documentation.
+	 * @param prop The PropInfo to display
+	 */
+	public static displaySingleProp(prop: PropInfo): string {
+		let declaration = `let ${prop.name}${prop.required ? '' : '?'}: ${prop.type}`;
+		const defaultValue = TooltipFormatter.defaultOf(prop);
+		if (defaultValue) declaration += TooltipFormatter.showBindable(defaultValue, prop.bindable);
+		let md = '```typescript\n' + declaration + ';\n```\n';
+
+		const badges: string[] = [];
+		const deprecation = TooltipFormatter.deprecationLabel(prop);
+		if (deprecation) badges.push(deprecation);
+		if (prop.required) badges.push(`⚠️ ${t('tooltip.general.required')}`);
+		if (prop.bindable) badges.push(`🔗 ${t('tooltip.general.bindable')}`);
+		if (prop.inheritedFrom) badges.push(TooltipFormatter.inheritedLabel(prop.inheritedFrom));
+		if (badges.length > 0) md += badges.join(' · ') + '\n\n';
+
+		if (prop.comment) md += prop.comment + '\n\n';
+
+		const notes = TooltipFormatter.tagNotes(prop);
+		if (notes.length > 0) md += notes.join(' · ') + '\n\n';
+
+		for (const example of prop.jsdoc?.examples ?? [])
+			md += TooltipFormatter.fencedExample(example) + '\n\n';
+
+		return md.trimEnd();
+	}
+
+	/**
+	 * Formats the "Extends:" line, followed by a collapsible attribute summary for every
+	 * inherited `svelte/elements` type (e.g. `HTMLButtonAttributes`).
+	 * @param props The component's own props, left out of the attribute lists
+	 * @param inherits Optional list of inherited types/interfaces
+	 * @param settings Visibility settings for tooltip formatting
+	 */
+	private static formatInherits(
+		props: PropInfo[],
+		inherits: string[] | undefined,
+		settings: FormatSettings
+	): string {
+		if (!settings.showInheritance || !inherits || inherits.length === 0) return '';
+
+		const inheritsList = inherits.map((t) => `\`${t}\``).join(', ');
+		let md = `**Extends:** ${inheritsList}\n\n`;
+
+		const propNames = props.map((p) => p.name);
+		for (const typeName of inherits) {
+			const summary = getElementAttributes(typeName, propNames);
+			if (!summary || summary.count === 0) continue;
+
+			const expanded = settings.expandedAttributeTypes?.includes(summary.typeName) ?? false;
+			const label = t(
+				'tooltip.general.inheritedAttributes',
+				summary.count.toString(),
+				summary.typeName
+			);
+
+			// Clients without command support only get the summary line
+			if (settings.commandLinks === false) {
+				md += `${label}\n\n`;
+				continue;
+			}
+
+			const args = encodeURIComponent(
+				JSON.stringify([summary.typeName, settings.hoverTarget])
+			);
+			const link = `[${t(expanded ? 'tooltip.general.hide' : 'tooltip.general.showAll')}](command:sveltedoc.toggleInheritedAttributes?${args})`;
+			md += `${expanded ? '−' : '\\+'} ${label} · ${link}\n\n`;
+
+			if (!expanded) continue;
+			for (const group of summary.groups) {
+				const attributes = group.attributes.map((a) => `\`${a}\``).join(', ');
+				md += `**${group.interfaceName}:** ${attributes}\n\n`;
+			}
+		}
+
+		return md;
+	}
+
+	/**
+	 * The prop name as inline code, struck through when the prop is `@deprecated`.
+	 */
+	private static propName(prop: PropInfo): string {
+		return prop.jsdoc?.deprecated !== undefined ? `~~\`${prop.name}\`~~` : `\`${prop.name}\``;
+	}
+
+	/**
+	 * The prop's default value: the destructuring (or `export let`) default, else its `@default` tag.
+	 */
+	private static defaultOf(prop: PropInfo): string | undefined {
+		return prop.defaultValue ?? prop.jsdoc?.default;
+	}
+
+	/**
+	 * Label for a `@deprecated` prop, including the reason if given.
+	 */
+	private static deprecationLabel(prop: PropInfo): string | undefined {
+		const reason = prop.jsdoc?.deprecated;
+		if (reason === undefined) return undefined;
+		return `🚫 ${t('tooltip.general.deprecated')}${reason ? `: ${reason}` : ''}`;
+	}
+
+	/**
+	 * Notes for the prop's `@since` and `@see` tags.
+	 */
+	private static tagNotes(prop: PropInfo): string[] {
+		const notes: string[] = [];
+		if (prop.jsdoc?.since) notes.push(t('tooltip.general.since', prop.jsdoc.since));
+		if (prop.jsdoc?.see?.length)
+			notes.push(t('tooltip.general.see', prop.jsdoc.see.join(', ')));
+		return notes;
+	}
+
+	/**
+	 * Format an `@example` as a fenced Svelte code block.
+	 * @param example The example code
+	 * @param indent Indentation for every line (e.g. to nest the block in a list item)
+	 */
+	private static fencedExample(example: string, indent: string = ''): string {
+		return ['```svelte', ...example.split('\n'), '```'].map((l) => indent + l).join('\n');
+	}
+
+	/**
+	 * Formats the "Examples" section listing every prop's `@example` code, for formats that
+	 * can't show code blocks next to each prop.
+	 * @param props The props, in display order
+	 */
+	private static formatExamples(props: PropInfo[]): string {
+		let md = '';
+		for (const prop of props)
+			for (const example of prop.jsdoc?.examples ?? [])
+				md += `\n\`${prop.name}\`\n\n${TooltipFormatter.fencedExample(example)}\n`;
+
+		return md ? `\n**${t('tooltip.general.examples')}:**\n${md}` : '';
+	}
+
+	/**
+	 * Escape text for a Markdown table cell, so union types and multi-line comments
+	 * don't break the row.
+	 * @param text The cell text
+	 */
+	private static tableCell(text: string): string {
+		return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+	}
+
+	/**
+	 * Label indicating the parent type a prop was inherited from.
+	 * @param typeName The parent type name
+	 */
+	private static inheritedLabel(typeName: string): string {
+		return `↳ ${t('tooltip.general.inheritedFrom', typeName)}`;
+	}
+
 	private static showBindable(defaultValue: string, bindable: boolean): string {
 		let str = ' = ';
 		if (bindable) str += '$bindable(';
@@ -202,9 +509,7 @@ export class TooltipFormatter {
 		tagName: string,
 		componentPath?: string,
 		failureReason?: string
-	): vscode.MarkdownString {
-		const md = new vscode.MarkdownString();
-		md.isTrusted = true;
+	): string {
 		let tooltipText = t('tooltip.success.componentDetected', tagName) + '\n\n';
 		tooltipText +=
 			t('tooltip.success.propsPath', componentPath ?? t('tooltip.error.notResolved')) +
@@ -218,9 +523,46 @@ export class TooltipFormatter {
 			tooltipText += t('tooltip.error.noPropsFoundOrNotResolved');
 		}
 
-		md.appendMarkdown(tooltipText);
+		return tooltipText;
+	}
 
-		return md;
+	/**
+	 * Display the generic signature of a component (`Table<T extends { id: string }>`), with
+	 * the type arguments inferred from the hovered usage.
+	 * @param tagName The component tag name
+	 * @param generics The component's type parameters
+	 * @param genericArguments Type arguments inferred at the usage site
+	 * @returns The signature line, or an empty string for non-generic components
+	 */
+	public static displayGenericSignature(
+		tagName: string,
+		generics: TypeParameter[] = [],
+		genericArguments: Record<string, string> = {}
+	): string {
+		if (generics.length === 0) return '';
+
+		const inferred = Object.entries(genericArguments).map(
+			([name, type]) => `\`${name} = ${type}\``
+		);
+		let md = `\`${formatGenericSignature(tagName, generics)}\``;
+		if (inferred.length > 0) md += ` _(${t('tooltip.general.inferred', inferred.join(', '))})_`;
+		return md + '\n\n';
+	}
+
+	/**
+	 * Get the props listed with the other props: snippet and callback props are listed in their
+	 * own sections instead (legacy slots and dispatched events aren't props, so never match).
+	 * @param result The prop extraction result
+	 * @returns The props in declaration order
+	 */
+	public static getListedProps(result: PropExtractionResult): PropInfo[] {
+		const snippets = result.snippets ?? [];
+		const events = result.events ?? [];
+		return (result.props ?? []).filter(
+			(p) =>
+				!snippets.some((s) => !s.slot && s.name === p.name) &&
+				!events.some((e) => !e.dispatched && e.name === p.name)
+		);
 	}
 
 	/**
@@ -229,37 +571,44 @@ export class TooltipFormatter {
 	 * @param order The tooltip order setting
 	 * @param result The prop extraction result
 	 * @param settings Visibility settings for tooltip formatting
-	 * @returns A MarkdownString for the tooltip
+	 * @returns The tooltip as Markdown
 	 */
 	public static formatTooltip(
 		format: TooltipFormat,
 		order: TooltipOrder,
 		result: Required<PropExtractionResult>,
 		settings: FormatSettings
-	): vscode.MarkdownString {
+	): string {
+		const snippets = result.snippets;
+		const events = result.events;
+		const props = TooltipFormatter.getListedProps(result);
+
+		// Component documentation from the `<!-- @component -->` comment comes first
+		let md =
+			settings.showDocumentation && result.documentation
+				? `${result.documentation}\n\n---\n\n`
+				: '';
 		switch (format) {
 			case 'bullet-list':
-				return TooltipFormatter.displayPropsAsList(
-					result.props,
-					result.inherits,
-					order,
-					settings
-				);
+				md += TooltipFormatter.displayPropsAsList(props, result.inherits, order, settings);
+				break;
 			case 'table':
-				return TooltipFormatter.displayPropsAsTable(
-					result.props,
-					result.inherits,
-					order,
-					settings
-				);
+				md += TooltipFormatter.displayPropsAsTable(props, result.inherits, order, settings);
+				break;
 			case 'code-block':
 			default:
-				return TooltipFormatter.displayPropsAsTypescript(
-					result.props,
+				md += TooltipFormatter.displayPropsAsTypescript(
+					props,
 					result.inherits,
 					order,
 					settings
 				);
 		}
+
+		return (
+			md +
+			TooltipFormatter.displayEvents(events, format, settings) +
+			TooltipFormatter.displaySnippets(snippets, format, settings)
+		);
 	}
 }
@@ -1,11 +1,15 @@
 import { getTsconfig, type TsConfigResult } from 'get-tsconfig';
 import * as fs from 'node:fs';
+import * as path from 'node:path';
 import {
+	ConfigAliasCacheEntry,
+	ConfigAliases,
 	PackageResolutionCacheEntry,
 	TsconfigCacheEntry,
 	WorkspaceCacheEntry,
 	WorkspacePackage
 } from '../../types';
+import { loadConfigAliases, loadTsconfigWithoutSvelteKit } from '../../utils/configAliases';
 
 /**
  * Caches tsconfig.json resolution results with file modification time validation.
@@ -23,6 +27,12 @@ export class PathResolverCache {
 		WorkspaceCacheEntry
 	>();
 
+	// svelte.config.js / vite.config.ts alias cache (keyed by directory)
+	private configAliasCache: Map<string, ConfigAliasCacheEntry> = new Map<
+		string,
+		ConfigAliasCacheEntry
+	>();
+
 	// Individual package resolution cache (keyed by specifier+fromFile hash)
 	private packageResolutionCache: Map<string, PackageResolutionCacheEntry> = new Map<
 		string,
@@ -41,9 +51,13 @@ export class PathResolverCache {
 		if (cached)
 			if (cached.result?.path)
 				// Validate cache: check if tsconfig file still exists and hasn't been modified
+				// (and that the generated SvelteKit tsconfig it extends is still missing)
 				try {
 					const currentMtime = fs.statSync(cached.result.path).mtimeMs;
-					if (currentMtime === cached.mtime)
+					if (
+						currentMtime === cached.mtime &&
+						!(cached.missingExtends && fs.existsSync(cached.missingExtends))
+					)
 						// Cache is still valid
 						return cached.result;
 					// File was modified, invalidate cache
@@ -55,10 +69,71 @@ export class PathResolverCache {
 				return null;
 
 		// Cache miss or invalidated - load tsconfig
-		const result = getTsconfig(fromDirectory);
+		let result: TsConfigResult | null;
+		let missingExtends: string | undefined;
+		try {
+			result = getTsconfig(fromDirectory);
+		} catch {
+			// SvelteKit projects extend .svelte-kit/tsconfig.json, which only exists once
+			// `svelte-kit sync` has run
+			const fallback = loadTsconfigWithoutSvelteKit(fromDirectory);
+			result = fallback?.tsconfig ?? null;
+			missingExtends = fallback?.missingExtends;
+		}
 		const mtime = result?.path ? fs.statSync(result.path).mtimeMs : 0;
 
-		this.tsconfigCache.set(fromDirectory, { result, mtime });
+		this.tsconfigCache.set(fromDirectory, { result, mtime, missingExtends });
+		return result;
+	}
+
+	/**
+	 * Get the aliases declared in the nearest svelte.config.js / vite.config.ts, or load and
+	 * cache them if not present. Automatically invalidates cache if a config file has been modified,
+	 * or one has been added to a directory that was searched (which changes the directory's mtime).
+	 * @param fromDirectory Directory to search for config files from
+	 * @returns The project's aliases if a config file was found, null otherwise
+	 */
+	public getConfigAliases(fromDirectory: string): ConfigAliases | null {
+		const cached = this.configAliasCache.get(fromDirectory);
+
+		// Validate cache: check if the config files still exist and haven't been modified
+		if (
+			cached &&
+			Object.entries(cached.mtimes).every(([file, mtime]) => {
+				try {
+					return fs.statSync(file).mtimeMs === mtime;
+				} catch {
+					return false;
+				}
+			})
+		)
+			return cached.result;
+
+		// Cache miss or invalidated - read the config files
+		let result: ConfigAliases | null;
+		try {
+			result = loadConfigAliases(fromDirectory);
+		} catch {
+			result = null;
+		}
+		const mtimes: Record<string, number> = {};
+		for (const file of result?.files ?? []) mtimes[file] = fs.statSync(file).mtimeMs;
+
+		// Track the searched directories too, so a config file created later is picked up
+		// without a file watcher (e.g. the CLI or another editor's language server)
+		let directory = fromDirectory;
+		for (;;) {
+			try {
+				mtimes[directory] = fs.statSync(directory).mtimeMs;
+			} catch {
+				break;
+			}
+			const parent = path.dirname(directory);
+			if (directory === result?.root || parent === directory) break;
+			directory = parent;
+		}
+
+		this.configAliasCache.set(fromDirectory, { result, mtimes });
 		return result;
 	}
 
@@ -68,6 +143,7 @@ export class PathResolverCache {
 	 */
 	public clear(): void {
 		this.tsconfigCache.clear();
+		this.configAliasCache.clear();
 		this.workspaceCache.clear();
 		this.packageResolutionCache.clear();
 	}
@@ -79,12 +155,21 @@ export class PathResolverCache {
 	public invalidateTsconfig(tsconfigPath: string): void {
 		// Find all cache entries that reference this tsconfig and remove them
 		for (const [key, entry] of this.tsconfigCache.entries())
-			if (entry.result?.path === tsconfigPath) this.tsconfigCache.delete(key);
+			if (entry.result?.path === tsconfigPath || entry.missingExtends === tsconfigPath)
+				this.tsconfigCache.delete(key);
+	}
+
+	/**
+	 * Invalidate cached config file aliases.
+	 * Clears every entry, since a new config file may take over part of the directory tree.
+	 */
+	public invalidateConfigAliases(): void {
+		this.configAliasCache.clear();
 	}
 
 	/**
 	 * Get cached workspace package map for a directory tree.
-	 * Automatically invalidates cache if pnpm-workspace.yaml has been modified.
+	 * Automatically invalidates cache if the workspace manifest has been modified.
 	 * @param workspaceRoot Absolute path to workspace root
 	 * @returns WorkspaceCacheEntry if found and valid, null otherwise
 	 */
@@ -92,10 +177,9 @@ export class PathResolverCache {
 		const cached = this.workspaceCache.get(workspaceRoot);
 		if (!cached) return null;
 
-		// Validate cache: check if pnpm-workspace.yaml still exists and hasn't been modified
-		const yamlPath = `${workspaceRoot}/pnpm-workspace.yaml`;
+		// Validate cache: check if the manifest still exists and hasn't been modified
 		try {
-			const currentMtime = fs.statSync(yamlPath).mtimeMs;
+			const currentMtime = fs.statSync(cached.manifestPath).mtimeMs;
 			if (currentMtime === cached.mtime) return cached;
 
 			// File was modified, invalidate cache
@@ -112,14 +196,16 @@ export class PathResolverCache {
 	 * Set workspace package map cache.
 	 * @param workspaceRoot Absolute path to workspace root
 	 * @param packages Map of package name to package info
-	 * @param mtime pnpm-workspace.yaml modification time
+	 * @param mtime Workspace manifest modification time
+	 * @param manifestPath Absolute path to the workspace manifest
 	 */
 	public setWorkspace(
 		workspaceRoot: string,
 		packages: Map<string, WorkspacePackage>,
-		mtime: number
+		mtime: number,
+		manifestPath: string
 	): void {
-		this.workspaceCache.set(workspaceRoot, { workspaceRoot, packages, mtime });
+		this.workspaceCache.set(workspaceRoot, { workspaceRoot, packages, manifestPath, mtime });
 	}
 
 	/**
@@ -159,15 +245,19 @@ export class PathResolverCache {
 	}
 
 	/**
-	 * Invalidate workspace cache for a specific yaml file.
-	 * @param yamlPath Absolute path to pnpm-workspace.yaml that was modified
+	 * Invalidate workspace cache for a specific manifest file.
+	 * @param manifestPath Absolute path to the pnpm-workspace.yaml or package.json that was modified
 	 */
-	public invalidateWorkspace(yamlPath: string): void {
-		// Find workspace root from yaml path
-		const workspaceRoot = yamlPath.replace(/[/\\]pnpm-workspace\.yaml$/, '');
-
-		// Clear workspace cache for this root
-		this.workspaceCache.delete(workspaceRoot);
+	public invalidateWorkspace(manifestPath: string): void {
+		// Clear workspaces declared in this manifest (or in a sibling manifest, which may now
+		// take priority) and workspaces containing the package it describes
+		const directory = path.dirname(manifestPath);
+		for (const [key, entry] of this.workspaceCache.entries())
+			if (
+				key === directory ||
+				[...entry.packages.values()].some((p) => p.packageJsonPath === manifestPath)
+			)
+				this.workspaceCache.delete(key);
 
 		// Clear all package resolutions since workspace structure may have changed
 		this.packageResolutionCache.clear();
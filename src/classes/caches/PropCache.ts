@@ -20,6 +20,7 @@ export class PropCache {
 	/**
 	 * Get cached result for a component file path.
 	 * Returns undefined if cache miss or entry is invalid/expired.
+	 * Entries are also invalidated when a dependency (e.g., an imported type file) changes.
 	 * Performs opportunistic cleanup of all expired entries on any access.
 	 * @param componentPath Absolute file path of the component
 	 */
@@ -40,6 +41,12 @@ export class PropCache {
 				this.cache.delete(componentPath);
 				return undefined;
 			}
+
+			for (const [dependency, mtime] of Object.entries(entry.dependencyMtimes ?? {}))
+				if (fs.statSync(dependency).mtimeMs !== mtime) {
+					this.cache.delete(componentPath);
+					return undefined;
+				}
 		} catch {
 			// File doesn't exist or can't be read, invalidate
 			this.cache.delete(componentPath);
@@ -64,9 +71,14 @@ export class PropCache {
 			const stats = fs.statSync(componentPath);
 			const mtime = stats.mtimeMs;
 
+			const dependencyMtimes: Record<string, number> = {};
+			for (const dependency of result.dependencies ?? [])
+				dependencyMtimes[dependency] = fs.statSync(dependency).mtimeMs;
+
 			this.cache.set(componentPath, {
 				result,
 				mtime,
+				dependencyMtimes,
 				lastAccessed: Date.now()
 			});
 		} catch {
@@ -75,6 +87,16 @@ export class PropCache {
 		}
 	}
 
+	/**
+	 * Get the file modification time recorded when a component's result was cached.
+	 * Does not validate or refresh the entry.
+	 * @param componentPath Absolute file path of the component
+	 * @returns The recorded mtime in milliseconds, or undefined if not cached
+	 */
+	public getMtime(componentPath: string): number | undefined {
+		return this.cache.get(componentPath)?.mtime;
+	}
+
 	/**
 	 * Remove entries that haven't been accessed within the expiration window.
 	 */
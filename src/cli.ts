@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+import { PathResolverCache } from './classes/caches/PathResolverCache';
+import { ResolverLogger } from './types';
+import { generateDocs } from './utils/docsGenerator';
+import { t } from './utils/localization';
+import { createManifest, formatManifest } from './utils/manifest';
+import { PathResolver } from './utils/pathResolver';
+import { Settings } from './utils/settings';
+import { TypeResolver } from './utils/typeResolver';
+
+/**
+ * SvelteDoc command-line interface. Runs in plain Node (no `vscode` module), using the same
+ * parser and resolvers as the editor.
+ *
+ * Usage: `sveltedoc docs <directory> [--out <directory>] [--verbose]`
+ *        `sveltedoc manifest <directory> [--out <file>] [--verbose]`
+ */
+
+// Default settings, except JSDoc comments are collapsed to keep each table row on one line
+Settings.setSource((key, defaultValue) =>
+	key === 'normaliseComment' ? (true as typeof defaultValue) : defaultValue
+);
+
+/**
+ * Create a type resolver (with path alias, workspace and barrel support) for a CLI run.
+ * @param verbose Whether to print resolver log messages to stderr
+ */
+function createTypeResolver(verbose: boolean): TypeResolver {
+	const logger: ResolverLogger = {
+		logResolverMessage: (message: string) => {
+			if (verbose) console.error(message);
+		}
+	};
+	const pathResolver = new PathResolver(
+		new PathResolverCache(),
+		logger,
+		verbose,
+		Settings.getBarrelFileMaxDepth(),
+		Settings.getBarrelFileNames(),
+		Settings.getBarrelPriority(),
+		Settings.getExportConditions()
+	);
+	return new TypeResolver(pathResolver, logger, verbose, Settings.getTypeResolutionMaxDepth());
+}
+
+/**
+ * Resolve the directory to scan, reporting it if it doesn't exist.
+ */
+function resolveRootDir(directory: string): string | undefined {
+	const rootDir = path.resolve(directory);
+	if (fs.existsSync(rootDir) && fs.statSync(rootDir).isDirectory()) return rootDir;
+
+	console.error(t('cli.error.directoryNotFound', rootDir));
+	return undefined;
+}
+
+/**
+ * Generate Markdown pages for every component below a directory.
+ * @returns The process exit code
+ */
+function runDocs(directory: string, out: string, verbose: boolean): number {
+	const rootDir = resolveRootDir(directory);
+	if (!rootDir) return 1;
+
+	const outDir = path.resolve(out);
+	const pages = generateDocs(rootDir, outDir, createTypeResolver(verbose));
+	console.log(t('cli.docs.generated', pages.length.toString(), outDir));
+	return 0;
+}
+
+/**
+ * Write the JSON manifest for every component below a directory to a file, or to stdout.
+ * @returns The process exit code
+ */
+function runManifest(directory: string, out: string | undefined, verbose: boolean): number {
+	const rootDir = resolveRootDir(directory);
+	if (!rootDir) return 1;
+
+	const manifest = createManifest(rootDir, createTypeResolver(verbose));
+	const json = formatManifest(manifest);
+	if (!out) {
+		process.stdout.write(json);
+		return 0;
+	}
+
+	const outFile = path.resolve(out);
+	fs.mkdirSync(path.dirname(outFile), { recursive: true });
+	fs.writeFileSync(outFile, json);
+	console.log(t('cli.manifest.generated', manifest.components.length.toString(), outFile));
+	return 0;
+}
+
+/**
+ * Parse the command-line options and positional arguments.
+ */
+function parseCliArgs(args: string[]): {
+	values: { out?: string; verbose?: boolean; help?: boolean };
+	positionals: string[];
+} {
+	return parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			out: { type: 'string', short: 'o' },
+			verbose: { type: 'boolean', short: 'v' },
+			help: { type: 'boolean', short: 'h' }
+		}
+	});
+}
+
+/**
+ * Run the CLI with the given arguments.
+ * @param args Command-line arguments (without the node executable and script path)
+ * @returns The process exit code
+ */
+function main(args: string[]): number {
+	let parsed: ReturnType<typeof parseCliArgs>;
+	try {
+		parsed = parseCliArgs(args);
+	} catch (error) {
+		console.error((error as Error).message);
+		console.error(t('cli.usage'));
+		return 1;
+	}
+
+	const command = parsed.positionals[0] as string | undefined;
+	if (parsed.values.help || !command) {
+		console.log(t('cli.usage'));
+		return command || parsed.values.help ? 0 : 1;
+	}
+
+	switch (command) {
+		case 'docs':
+			return runDocs(
+				parsed.positionals[1] ?? '.',
+				parsed.values.out ?? path.join('docs', 'components'),
+				parsed.values.verbose ?? false
+			);
+		case 'manifest':
+			return runManifest(
+				parsed.positionals[1] ?? '.',
+				parsed.values.out,
+				parsed.values.verbose ?? false
+			);
+		default:
+			console.error(t('cli.error.unknownCommand', command));
+			console.error(t('cli.usage'));
+			return 1;
+	}
+}
+
+process.exitCode = main(process.argv.slice(2));
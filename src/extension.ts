@@ -1,321 +1,179 @@
-import * as fs from 'node:fs';
 import * as vscode from 'vscode';
-import { CacheService } from './classes/CacheService';
-import { LoggingService } from './classes/LoggingService';
-import { TooltipFormatter } from './classes/TooltipFormatter';
-import { parsePropsFromScriptBlocks } from './parsers/propParser';
-
-import { getTagNameAtPosition } from './parsers/tagParser';
-import { PropExtractionResult } from './types';
 import {
-	extractImportsFromScriptBlocks,
-	extractScriptBlocksFromSvelte,
-	extractScriptBlocksFromText
-} from './utils/extractor';
-import { PathResolver } from './utils/pathResolver';
-import { Settings } from './utils/settings';
-
-export function activate(context: vscode.ExtensionContext): void {
-	const logger = LoggingService.getInstance();
-	logger.logStarted();
-
-	// Initialize cache with expiration setting
-	const cache = new CacheService(Settings.getCacheExpirationMinutes());
-
-	// Initialize path resolver with cache and detailed logging setting
-	const pathResolver = new PathResolver(
-		cache.getPathResolverCache(),
-		logger,
-		Settings.getDetailedResolverLogging(),
-		Settings.getBarrelFileMaxDepth(),
-		Settings.getBarrelFileNames(),
-		Settings.getBarrelPriority()
-	);
-
-	//#region Simple Event Listeners
-
-	// Log when Svelte files are opened
-	const openDocListener = vscode.workspace.onDidOpenTextDocument((doc) => {
-		if (doc.fileName.endsWith('.svelte')) logger.logSvelteFileOpened(doc.fileName);
-	});
+	LanguageClient,
+	type LanguageClientOptions,
+	type ServerOptions,
+	TransportKind
+} from 'vscode-languageclient/node';
+import type { HoverTarget, ResolutionExplanation } from './types';
+import { t } from './utils/localization';
+import { RESOLUTION_TRACE_SCHEME } from './utils/resolutionTrace';
+import {
+	CLEAR_CACHE_REQUEST,
+	EXPLAIN_RESOLUTION_REQUEST,
+	EXPORT_MANIFEST_REQUEST,
+	TOGGLE_INHERITED_ATTRIBUTES_REQUEST
+} from './utils/serverRequests';
 
-	// Register configuration change listener: Clear cache and update resolver when settings change
-	const configChangeListener = vscode.workspace.onDidChangeConfiguration((e) => {
-		// Check if any sveltedoc setting changed
-		if (e.affectsConfiguration('sveltedoc')) {
-			cache.clear();
-			pathResolver.setDetailedLogging(Settings.getDetailedResolverLogging());
-			pathResolver.setMaxBarrelDepth(Settings.getBarrelFileMaxDepth());
-			pathResolver.setBarrelFileNames(Settings.getBarrelFileNames());
-			pathResolver.setBarrelPriority(Settings.getBarrelPriority());
-			logger.logSettingsChanged();
+/**
+ * Client of the SvelteDoc language server (out/server.js). Hover, completion, go-to-definition
+ * and diagnostics all come from the server; the extension only adds the commands.
+ */
+let client: LanguageClient | undefined;
+
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
+	// Run the bundled server over stdio, the same way other editors run it
+	const serverModule = context.asAbsolutePath('out/server.js');
+	const serverOptions: ServerOptions = {
+		run: { module: serverModule, transport: TransportKind.stdio },
+		debug: {
+			module: serverModule,
+			transport: TransportKind.stdio,
+			options: { execArgv: ['--nolazy', '--inspect=6009'] }
 		}
-	});
-
-	// Watch for tsconfig.json changes to invalidate path resolver cache
-	const tsconfigWatcher = vscode.workspace.createFileSystemWatcher(
-		'**/tsconfig.json',
-		false,
-		false,
-		false
-	);
-	tsconfigWatcher.onDidChange((uri) => {
-		pathResolver.invalidateTsconfig(uri.fsPath);
-	});
-	tsconfigWatcher.onDidCreate((uri) => {
-		pathResolver.invalidateTsconfig(uri.fsPath);
-	});
-	tsconfigWatcher.onDidDelete((uri) => {
-		pathResolver.invalidateTsconfig(uri.fsPath);
-	});
-
-	// Also watch jsconfig.json for projects that use it instead
-	const jsconfigWatcher = vscode.workspace.createFileSystemWatcher(
-		'**/jsconfig.json',
-		false,
-		false,
-		false
-	);
-	jsconfigWatcher.onDidChange((uri) => {
-		pathResolver.invalidateTsconfig(uri.fsPath);
-	});
-	jsconfigWatcher.onDidCreate((uri) => {
-		pathResolver.invalidateTsconfig(uri.fsPath);
-	});
-	jsconfigWatcher.onDidDelete((uri) => {
-		pathResolver.invalidateTsconfig(uri.fsPath);
-	});
-
-	// Watch for pnpm-workspace.yaml changes to invalidate workspace package cache
-	const workspaceWatcher = vscode.workspace.createFileSystemWatcher(
-		'**/pnpm-workspace.yaml',
-		false,
-		false,
-		false
+	};
+	const clientOptions: LanguageClientOptions = {
+		documentSelector: [{ language: 'svelte', scheme: 'file' }],
+		// Settings are sent on start and on every change to a `sveltedoc.*` setting
+		initializationOptions: { ...getSettings(), commandLinks: true },
+		synchronize: { configurationSection: 'sveltedoc' },
+		// Trust only the "Show all" command link, so that comments copied from components
+		// can't run other commands
+		markdown: { isTrusted: { enabledCommands: ['sveltedoc.toggleInheritedAttributes'] } }
+	};
+	const languageClient = new LanguageClient(
+		'sveltedoc',
+		'SvelteDoc',
+		serverOptions,
+		clientOptions
 	);
-	workspaceWatcher.onDidChange((uri) => {
-		pathResolver.invalidateWorkspace(uri.fsPath);
-	});
-	workspaceWatcher.onDidCreate((uri) => {
-		pathResolver.invalidateWorkspace(uri.fsPath);
-	});
-	workspaceWatcher.onDidDelete((uri) => {
-		pathResolver.invalidateWorkspace(uri.fsPath);
-	});
-
-	//#endregion
+	client = languageClient;
 
 	//#region Commands
 
 	// Register command: Clear Cache
-	const clearCacheCommand = vscode.commands.registerCommand('sveltedoc.clearCache', () => {
-		cache.clear();
-		logger.logCacheCleared();
+	const clearCacheCommand = vscode.commands.registerCommand('sveltedoc.clearCache', async () => {
+		await languageClient.sendRequest(CLEAR_CACHE_REQUEST);
 	});
 
 	// Register command: Show Output
 	const showOutputCommand = vscode.commands.registerCommand('sveltedoc.showOutput', () => {
-		logger.show();
+		// The client creates the channel named after the server and writes its log there
+		languageClient.outputChannel.show(true);
 	});
 
-	//#endregion
-
-	const hoverProvider = vscode.languages.registerHoverProvider(
-		{ language: 'svelte', scheme: 'file' },
-		{
-			provideHover(
-				document: vscode.TextDocument,
-				position: vscode.Position,
-				_token: vscode.CancellationToken
-			): vscode.ProviderResult<vscode.Hover> {
-				try {
-					// mark token as used to avoid unused variable lint complaints
-					void _token;
-					// Only act in .svelte files
-					if (!document.fileName.endsWith('.svelte')) return undefined;
-					const startTime = performance.now();
-
-					const tag = getTagNameAtPosition(document, position, {
-						hoverWithinTag: Settings.getHoverWithinTag(),
-						maxLines: Settings.getHoverWithinTagMaxLines()
-					});
-					if (!tag) return undefined;
-
-					// Log hover attempt only if different file+tag combination
-					if (!cache.isSameHover(document.fileName, tag))
-						logger.logHoverAttempt(
-							document.fileName,
-							position.line,
-							position.character
-						);
-
-					const result = getPropsForHoveredComponent(document, tag, cache, pathResolver);
-					const durationMs = Math.round(performance.now() - startTime);
+	// Register command: Toggle Inherited Attributes (invoked from the tooltip's "Show all" link)
+	const toggleInheritedAttributesCommand = vscode.commands.registerCommand(
+		'sveltedoc.toggleInheritedAttributes',
+		async (typeName: string, target?: HoverTarget) => {
+			await languageClient.sendRequest(TOGGLE_INHERITED_ATTRIBUTES_REQUEST, typeName);
+
+			// Move the cursor to where the hover was opened, since clicking the link doesn't
+			const editor = vscode.window.visibleTextEditors.find(
+				(e) => e.document.uri.toString() === target?.uri
+			);
+			if (editor && target) {
+				const position = new vscode.Position(target.line, target.character);
+				editor.selection = new vscode.Selection(position, position);
+				editor.revealRange(editor.selection);
+				await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+			}
 
-					if (result.success && result.props) {
-						// Log component hover only if different file+tag+path combination
-						if (!cache.isSameComponent(document.fileName, tag, result.componentPath))
-							logger.logComponentHover(tag, result.componentPath);
-						// Update tracked state
-						cache.setHover(document.fileName, tag, result.componentPath);
-						// Always log extraction timing with cache source
-						logger.logPropsExtracted(
-							tag,
-							result.props.length,
-							durationMs,
-							result.fromCache ?? false
-						);
+			// Re-open the hover so it reflects the new state
+			await vscode.commands.executeCommand('editor.action.showHover');
+		}
+	);
 
-						// Get settings for formatting
-						const format = Settings.getTooltipFormat();
-						const order = Settings.getTooltipOrder();
-						const formatSettings = {
-							showComments: Settings.getShowPropertyComments(),
-							showTypes: Settings.getShowPropertyTypes(),
-							showDefaults: Settings.getShowDefaultValues(),
-							showInheritance: Settings.getShowTypeInheritance()
-						};
+	// Register command: Export Component Manifest (opens the JSON in a new editor)
+	const exportManifestCommand = vscode.commands.registerCommand(
+		'sveltedoc.exportManifest',
+		async () => {
+			const activeUri = vscode.window.activeTextEditor?.document.uri;
+			const folder =
+				(activeUri && vscode.workspace.getWorkspaceFolder(activeUri)) ??
+				vscode.workspace.workspaceFolders?.[0];
+			if (!folder) {
+				void vscode.window.showWarningMessage(t('command.exportManifest.noWorkspace'));
+				return;
+			}
 
-						// Select formatter based on setting
-						const md: vscode.MarkdownString = TooltipFormatter.formatTooltip(
-							format,
-							order,
-							result as Required<PropExtractionResult>,
-							formatSettings
-						);
-						return new vscode.Hover(md);
-					}
-					// Log component hover only if different file+tag+path combination
-					if (!cache.isSameComponent(document.fileName, tag, result.componentPath)) {
-						logger.logComponentHover(tag, result.componentPath);
-						logger.logPropsExtractionFailed(
-							tag,
-							result.failureReason ?? 'Unknown reason'
-						);
-					}
-					// Update tracked state
-					cache.setHover(document.fileName, tag, result.componentPath);
+			const content = await languageClient.sendRequest<string>(EXPORT_MANIFEST_REQUEST, {
+				rootUri: folder.uri.toString()
+			});
+			const document = await vscode.workspace.openTextDocument({ language: 'json', content });
+			await vscode.window.showTextDocument(document);
+		}
+	);
 
-					const md = TooltipFormatter.noPropsFound(
-						tag,
-						result.componentPath,
-						result.failureReason
-					);
-					return new vscode.Hover(md);
-				} catch (error) {
-					logger.logError(error as Error, 'HoverProvider');
-					return undefined;
-				}
+	// Register command: Explain Resolution (opens a trace of the tag's import resolution)
+	const resolutionTraces = new Map<string, string>();
+	const resolutionTraceChanged = new vscode.EventEmitter<vscode.Uri>();
+	const resolutionTraceProvider = vscode.workspace.registerTextDocumentContentProvider(
+		RESOLUTION_TRACE_SCHEME,
+		{
+			onDidChange: resolutionTraceChanged.event,
+			provideTextDocumentContent: (uri) => resolutionTraces.get(uri.toString()) ?? ''
+		}
+	);
+	const explainResolutionCommand = vscode.commands.registerCommand(
+		'sveltedoc.explainResolution',
+		async () => {
+			const editor = vscode.window.activeTextEditor;
+			const explanation = editor
+				? await languageClient.sendRequest<ResolutionExplanation | null>(
+						EXPLAIN_RESOLUTION_REQUEST,
+						languageClient.code2ProtocolConverter.asTextDocumentPositionParams(
+							editor.document,
+							editor.selection.active
+						)
+					)
+				: null;
+			if (!explanation) {
+				void vscode.window.showWarningMessage(t('command.explainResolution.noTag'));
+				return;
 			}
+
+			// One document per tag, refreshed each time the command runs
+			const uri = vscode.Uri.from({
+				scheme: RESOLUTION_TRACE_SCHEME,
+				path: `/${explanation.tagName}.md`
+			});
+			resolutionTraces.set(uri.toString(), explanation.trace);
+			resolutionTraceChanged.fire(uri);
+
+			const document = await vscode.workspace.openTextDocument(uri);
+			await vscode.window.showTextDocument(document, {
+				viewColumn: vscode.ViewColumn.Beside,
+				preview: true
+			});
 		}
 	);
 
+	//#endregion
+
 	context.subscriptions.push(
-		openDocListener,
-		hoverProvider,
 		clearCacheCommand,
 		showOutputCommand,
-		configChangeListener,
-		tsconfigWatcher,
-		jsconfigWatcher,
-		workspaceWatcher
+		toggleInheritedAttributesCommand,
+		exportManifestCommand,
+		explainResolutionCommand,
+		resolutionTraceProvider,
+		resolutionTraceChanged
 	);
+
+	await languageClient.start();
 }
 
-export function deactivate(): void {
-	LoggingService.getInstance().dispose();
+export async function deactivate(): Promise<void> {
+	await client?.stop();
 }
 
 /**
- * Extract props for the component hovered over in the given document at the specified tag.
- * @param document The VSCode text document
- * @param tagName The component tag name at the hover location
- * @param cache Optional CacheService instance for caching results
- * @param pathResolver Optional PathResolver instance for resolving import paths
- * @returns The prop extraction result
+ * Read the `sveltedoc.*` settings (including defaults) as a plain object for the server.
  */
-export function getPropsForHoveredComponent(
-	document: vscode.TextDocument,
-	tagName: string,
-	cache?: CacheService,
-	pathResolver?: PathResolver
-): PropExtractionResult {
-	// 1) Extract imports from current document text
-	const docText = document.getText();
-	const pageBlocks = extractScriptBlocksFromText(docText);
-	const importMap = extractImportsFromScriptBlocks(pageBlocks);
-	const importInfo = importMap.get(tagName);
-	if (!importInfo)
-		return { success: false, failureReason: 'No import found for component', fromCache: false };
-
-	// 2) Resolve to absolute file path (with path alias and workspace package support)
-	// Use the original name for barrel file resolution if the import is aliased
-	const compPath = pathResolver?.resolve(
-		document.fileName,
-		importInfo.specifier,
-		importInfo.originalName ?? tagName
-	);
-	if (!compPath)
-		return {
-			success: false,
-			componentPath: importInfo.specifier,
-			failureReason: 'Could not resolve import path',
-			fromCache: false
-		};
-
-	// 3) Check cache if available
-	if (cache) {
-		const cached = cache.get(compPath);
-		if (cached)
-			// Return cached result with fromCache flag
-			return { ...cached, fromCache: true };
-	}
-
-	// 4) Read component file and extract script blocks
-	if (!fs.existsSync(compPath))
-		return {
-			success: false,
-			componentPath: compPath,
-			failureReason: 'Component file does not exist',
-			fromCache: false
-		};
-
-	const blocks = extractScriptBlocksFromSvelte(compPath);
-
-	// 5) Get normalization settings
-	const normaliseComment = Settings.getNormaliseComment();
-	const normaliseType = Settings.getNormaliseType();
-	const normaliseDefaultValue = Settings.getNormaliseDefaultValue();
-	const fallbackTypes = Settings.getFallbackTypes();
-
-	// 6) Parse props using heuristic runes-mode parser
-	const result = parsePropsFromScriptBlocks(
-		blocks,
-		normaliseComment,
-		normaliseType,
-		normaliseDefaultValue,
-		fallbackTypes
-	);
-	if (!result.props.length) {
-		const failureResult: PropExtractionResult = {
-			success: false,
-			componentPath: compPath,
-			failureReason: 'No $props() found',
-			fromCache: false
-		};
-		return failureResult;
-	}
-
-	const successResult: PropExtractionResult = {
-		success: true,
-		props: result.props,
-		inherits: result.inherits,
-		componentPath: compPath,
-		fromCache: false
-	};
-
-	// 7) Store in cache if available (only cache successful extractions)
-	if (cache) cache.set(compPath, successResult);
-
-	return successResult;
+function getSettings(): Record<string, unknown> {
+	return JSON.parse(JSON.stringify(vscode.workspace.getConfiguration('sveltedoc'))) as Record<
+		string,
+		unknown
+	>;
 }
@@ -0,0 +1,390 @@
+import type {
+	ComponentDeclaration,
+	DestructuredProp,
+	EventInfo,
+	ExternalTypeResolver,
+	PropInfo,
+	SnippetInfo,
+	TypeExpansionContext,
+	TypeParameter
+} from '../types';
+import {
+	expandTypeDefinition,
+	findClosingAngle,
+	parsePropsFromScriptBlocks,
+	parseTypeDefinitions,
+	parseTypeParameters,
+	splitTopLevelCommas,
+	stripCommentsForParsing
+} from './propParser';
+
+/**
+ * Name of the alias a declared type literal is bound to before it is parsed, since props get
+ * locations only when declared in a named type.
+ */
+const PROPS_ALIAS: string = '__SvelteDocProps';
+
+/**
+ * DOM event types (`Event`, `MouseEvent`, ...) of events a component forwards with `on:click`.
+ */
+const DOM_EVENT_TYPE: RegExp = /^(?:[A-Z][\w$]*)?Event$/;
+
+/**
+ * The `[evt: string]: CustomEvent<any>` catch-all svelte2tsx adds to a component's events.
+ */
+const EVENTS_INDEX_SIGNATURE: RegExp =
+	/\s*&\s*\{\s*\[\s*[\w$]+\s*:\s*string\s*\]\s*:\s*CustomEvent\s*<\s*any\s*>\s*;?\s*\}/g;
+
+/**
+ * A type argument of the component declaration. `offset` is set when the text is a type
+ * literal found in the file (e.g. the `props` member of svelte2tsx's `__propDef`).
+ */
+type DeclaredType = {
+	text: string;
+	offset?: number;
+};
+
+/**
+ * The type arguments of a component declaration.
+ */
+type ComponentSignature = {
+	props?: DeclaredType;
+	events?: DeclaredType;
+	slots?: DeclaredType;
+	generics: TypeParameter[];
+};
+
+/**
+ * Parse a component's `.svelte.d.ts` declaration file. Supports the forms emitted by
+ * svelte-package/svelte2tsx and written by hand:
+ * - `declare const Button: Component<Props, Exports, Bindings>` (Svelte 5)
+ * - `export default class Button extends SvelteComponent<Props, Events, Slots>` (Svelte 4),
+ *   including props, events and slots declared through `typeof __propDef.props`
+ * - `declare class __sveltets_Render<T> { props(): {...} }` (generic components)
+ * @param content The declaration file content
+ * @param resolveExternalType Optional lookup for types imported from other files
+ * @returns The declared API, or undefined if the file doesn't declare a component
+ */
+export function parseComponentDeclaration(
+	content: string,
+	normaliseComment: boolean = false,
+	normaliseType: boolean = true,
+	normaliseDefaultValue: boolean = true,
+	fallbackTypes: Record<string, string> = {},
+	resolveExternalType?: ExternalTypeResolver
+): ComponentDeclaration | undefined {
+	const code = stripCommentsForParsing(content);
+	const signature = findRenderClass(content, code) ?? findComponentType(content, code);
+	if (!signature) return undefined;
+
+	const context: TypeExpansionContext = {
+		typeMap: parseTypeDefinitions(content, normaliseComment, normaliseType),
+		resolveExternalType,
+		normaliseComment,
+		normaliseType
+	};
+
+	return {
+		...parseDeclaredProps(
+			content,
+			signature.props,
+			normaliseComment,
+			normaliseType,
+			normaliseDefaultValue,
+			fallbackTypes,
+			resolveExternalType
+		),
+		events: parseDeclaredEvents(signature.events, context),
+		slots: parseDeclaredSlots(signature.slots, context),
+		generics: signature.generics,
+		documentation: findDeclarationDocumentation(content, code)
+	};
+}
+
+/**
+ * Merge the props of a declaration file with the props parsed from the component source.
+ * Declared props win; defaults, bindable markers and comments the declaration lacks are
+ * taken from the source (svelte-package strips types but keeps `let { size = 'md' } = $props()`).
+ * @param declared Props from the declaration file
+ * @param source Props parsed from the component source
+ * @param destructured The source's `$props()` destructuring, typed or not
+ */
+export function mergeDeclaredProps(
+	declared: PropInfo[],
+	source: PropInfo[],
+	destructured: Partial<Record<string, DestructuredProp>> = {}
+): PropInfo[] {
+	const sourceProps = new Map(source.map((p) => [p.name, p]));
+
+	return declared.map((prop) => {
+		const sourceProp = sourceProps.get(prop.name);
+		const destructuredProp = destructured[prop.name];
+		if (!sourceProp && !destructuredProp) return prop;
+
+		const merged: PropInfo = {
+			...prop,
+			bindable: prop.bindable || !!sourceProp?.bindable || !!destructuredProp?.bindable
+		};
+		merged.defaultValue ??= sourceProp?.defaultValue ?? destructuredProp?.defaultValue;
+		if (!merged.defaultValue) delete merged.defaultValue;
+		if (!merged.comment && sourceProp?.comment) {
+			merged.comment = sourceProp.comment;
+			merged.jsdoc = sourceProp.jsdoc;
+		}
+		return merged;
+	});
+}
+
+/**
+ * Find the `__sveltets_Render` class svelte2tsx emits for generic components, whose
+ * `props()`, `events()` and `slots()` methods return the component's types.
+ */
+function findRenderClass(content: string, code: string): ComponentSignature | undefined {
+	const match = /\bdeclare\s+class\s+__sveltets_Render\s*(<)?/.exec(code);
+	if (!match) return undefined;
+
+	let bodyStart = match.index + match[0].length;
+	let generics: TypeParameter[] = [];
+	if (match[1]) {
+		const end = findClosingAngle(code, bodyStart - 1);
+		if (end === -1) return undefined;
+		generics = parseTypeParameters(code.slice(bodyStart, end));
+		bodyStart = end + 1;
+	}
+
+	const members = findTypeLiteralMembers(content, code, code.indexOf('{', bodyStart));
+	return {
+		props: members.get('props'),
+		events: members.get('events'),
+		slots: members.get('slots'),
+		generics
+	};
+}
+
+/**
+ * Find the component type a declaration file exports: a `declare const` typed as a component,
+ * or a class extending `SvelteComponent`.
+ */
+function findComponentType(content: string, code: string): ComponentSignature | undefined {
+	const match =
+		/(?:\bclass\s+[\w$]+\s+extends|\bdeclare\s+const\s+[\w$]+\s*:)\s*(?:import\s*\(\s*['"]svelte['"]\s*\)\s*\.\s*)?(\$\$__sveltets_2_IsomorphicComponent|Component|SvelteComponent|SvelteComponentTyped)\s*</.exec(
+			code
+		);
+	if (!match) return undefined;
+
+	const argsStart = match.index + match[0].length;
+	const argsEnd = findClosingAngle(code, argsStart - 1);
+	if (argsEnd === -1) return undefined;
+
+	const args = splitTopLevelCommas(code.slice(argsStart, argsEnd)).map((text) =>
+		resolvePropDefReference(content, code, text, code.indexOf(text, argsStart))
+	);
+
+	// Svelte 5 `Component<Props, Exports, Bindings>` declares events as callback props
+	return match[1] === 'Component'
+		? { props: args[0], generics: [] }
+		: { props: args[0], events: args[1], slots: args[2], generics: [] };
+}
+
+/**
+ * Resolve a reference to svelte2tsx's `__propDef` (`typeof __propDef.props`, directly or through
+ * an alias like `type ButtonProps = typeof __propDef.props`) to the type literal it refers to.
+ * @param offset Offset of the text in the file
+ */
+function resolvePropDefReference(
+	content: string,
+	code: string,
+	text: string,
+	offset: number
+): DeclaredType {
+	let reference = text;
+	if (/^[A-Za-z_$][\w$]*$/.test(text)) {
+		const alias = new RegExp(
+			`\\btype\\s+${text.replace(/\$/g, '\\$')}\\s*=\\s*([^;\\n]+)`
+		).exec(code);
+		if (alias && /\btypeof\s+__propDef\b/.test(alias[1])) reference = alias[1].trim();
+	}
+
+	const member = /^\(?\s*typeof\s+__propDef\s*\)?\s*(?:\.\s*(\w+)|\[\s*['"](\w+)['"]\s*\])$/.exec(
+		reference
+	);
+	if (!member)
+		return text.startsWith('{')
+			? { text: content.slice(offset, offset + text.length), offset }
+			: { text };
+
+	const propDef = /\bdeclare\s+const\s+__propDef\s*:\s*\{/.exec(code);
+	const members = propDef
+		? findTypeLiteralMembers(content, code, propDef.index + propDef[0].length - 1)
+		: undefined;
+	return members?.get(member[1] || member[2]) ?? { text: 'unknown' };
+}
+
+/**
+ * Read the members of a type literal or class body (`{ props: {...}; events(): {...} }`).
+ * @param open Index of the opening `{`
+ * @returns Member names mapped to their (return) types, with the types' offsets
+ */
+function findTypeLiteralMembers(
+	content: string,
+	code: string,
+	open: number
+): Map<string, DeclaredType> {
+	const members = new Map<string, DeclaredType>();
+	if (open === -1) return members;
+
+	let depth = 0;
+	let memberStart = open + 1;
+	for (let i = open; i < code.length; i++) {
+		const ch = code[i];
+		if (ch === '{' || ch === '(' || ch === '[' || ch === '<') depth++;
+		else if (ch === '}' || ch === ')' || ch === ']' || (ch === '>' && code[i - 1] !== '='))
+			depth--;
+
+		// A member ends at a top-level `;` or `,`, or at the closing brace
+		if ((depth === 1 && (ch === ';' || ch === ',')) || depth === 0) {
+			const member =
+				/^\s*(?:readonly\s+)?['"]?([\w$]+)['"]?\s*(?:\(\s*\))?\s*\??\s*:\s*/.exec(
+					code.slice(memberStart, i)
+				);
+			if (member) {
+				const start = memberStart + member[0].length;
+				members.set(member[1], { text: content.slice(start, i).trim(), offset: start });
+			}
+			memberStart = i + 1;
+		}
+		if (depth === 0) break;
+	}
+
+	return members;
+}
+
+/**
+ * Parse the declared props type like a component's `$props()` annotation.
+ */
+function parseDeclaredProps(
+	content: string,
+	propsType: DeclaredType | undefined,
+	normaliseComment: boolean,
+	normaliseType: boolean,
+	normaliseDefaultValue: boolean,
+	fallbackTypes: Record<string, string>,
+	resolveExternalType?: ExternalTypeResolver
+): { props: PropInfo[]; inherits: string[] } {
+	if (!propsType || /^(?:\{\s*\}|any|unknown)$/.test(propsType.text))
+		return { props: [], inherits: [] };
+
+	// Named types are annotated directly, so their props aren't reported as inherited
+	const named = /^[A-Za-z_$][\w$]*(?:\s*<[\s\S]*>)?$/.test(propsType.text);
+	const aliasStart = content.length + `\ntype ${PROPS_ALIAS} = `.length;
+	const script = named
+		? `${content}\nlet {}: ${propsType.text} = $props();`
+		: `${content}\ntype ${PROPS_ALIAS} = ${propsType.text};\nlet {}: ${PROPS_ALIAS} = $props();`;
+	const result = parsePropsFromScriptBlocks(
+		[
+			{
+				content: script,
+				attributes: { lang: 'ts' }
+			}
+		],
+		normaliseComment,
+		normaliseType,
+		normaliseDefaultValue,
+		fallbackTypes,
+		resolveExternalType
+	);
+
+	// Props declared in the alias map back to the type literal in the file
+	for (const prop of result.props) {
+		if (!prop.location || prop.location.file || prop.location.offset < aliasStart) continue;
+		if (propsType.offset === undefined) delete prop.location;
+		else prop.location.offset += propsType.offset - aliasStart;
+	}
+
+	return {
+		props: result.props,
+		inherits: result.inherits.filter((name) => name !== PROPS_ALIAS)
+	};
+}
+
+/**
+ * Read the events of a `SvelteComponent` events type (`{ save: CustomEvent<Item> }`).
+ * Dispatched events use their `detail` type; forwarded DOM events keep their event type.
+ */
+function parseDeclaredEvents(
+	eventsType: DeclaredType | undefined,
+	context: TypeExpansionContext
+): EventInfo[] {
+	const entries = eventsType
+		? expandTypeDefinition(eventsType.text.replace(EVENTS_INDEX_SIGNATURE, ''), context)
+				?.entries
+		: {};
+
+	return Object.values(entries ?? {}).flatMap((entry) => {
+		if (!entry) return [];
+		const detail = /^CustomEvent\s*<([\s\S]*)>$/.exec(entry.type);
+		const event: EventInfo = {
+			name: entry.name,
+			type: detail ? detail[1].trim() : entry.type,
+			required: false,
+			dispatched: true
+		};
+		if (!detail && DOM_EVENT_TYPE.test(entry.type)) event.forwarded = true;
+		if (entry.comment) event.comment = entry.comment;
+		return [event];
+	});
+}
+
+/**
+ * Read the slots of a `SvelteComponent` slots type (`{ default: { item: Item } }`).
+ */
+function parseDeclaredSlots(
+	slotsType: DeclaredType | undefined,
+	context: TypeExpansionContext
+): SnippetInfo[] {
+	const entries = slotsType ? expandTypeDefinition(slotsType.text, context)?.entries : {};
+
+	return Object.values(entries ?? {}).flatMap((entry) => {
+		if (!entry) return [];
+		const slotProps = expandTypeDefinition(entry.type, context)?.entries ?? {};
+		const slot: SnippetInfo = {
+			name: entry.name,
+			parameters: Object.values(slotProps).flatMap((p) =>
+				p ? [{ name: p.name, type: p.type }] : []
+			),
+			required: false,
+			slot: true
+		};
+		if (entry.comment) slot.comment = entry.comment;
+		return [slot];
+	});
+}
+
+/**
+ * Read the JSDoc comment above the default-exported component declaration, where svelte2tsx
+ * puts the `<!-- @component -->` documentation.
+ */
+function findDeclarationDocumentation(content: string, code: string): string | undefined {
+	const name = /\bexport\s+default\s+(?:class\s+)?([A-Za-z_$][\w$]*)/.exec(code)?.[1];
+	if (!name) return undefined;
+
+	const declaration = new RegExp(
+		`\\b(?:declare\\s+const|class)\\s+${name.replace(/\$/g, '\\$')}\\b`
+	).exec(code);
+	if (!declaration) return undefined;
+
+	const before = content
+		.slice(0, declaration.index)
+		.replace(/(?:\bexport\s+(?:default\s+)?)?(?:declare\s+)?$/, '')
+		.trimEnd();
+	if (!before.endsWith('*/')) return undefined;
+
+	const comment = before.slice(before.lastIndexOf('/**') + 3, -2);
+	const markdown = comment
+		.split(/\r?\n/)
+		.map((line) => line.replace(/^\s*\* ?/, ''))
+		.join('\n')
+		.replace(/^\s*@component\b/, '')
+		.trim();
+	return markdown || undefined;
+}
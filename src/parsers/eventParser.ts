@@ -0,0 +1,138 @@
+import type { EventInfo, ExternalTypeResolver, PropInfo, ScriptBlock, TypeMap } from '../types';
+import {
+	expandTypeDefinition,
+	findClosingAngle,
+	inferLiteralType,
+	parseTypeDefinitions,
+	stripCommentsForParsing
+} from './propParser';
+
+/**
+ * Check whether a prop is an event callback: named `on` + an uppercase letter (`onSave`) with
+ * a function type. Method shorthand (`onSave(item: Item): void`) is read by PropertyScanner
+ * as an arrow type, so it counts too.
+ */
+export function isCallbackProp(prop: PropInfo): boolean {
+	return (
+		/^on[A-Z]/.test(prop.name) && (prop.type.includes('=>') || /EventHandler\b/.test(prop.type))
+	);
+}
+
+/**
+ * Collect the events of a component from its callback props.
+ * @param props The component's props
+ */
+export function getEventsFromProps(props: PropInfo[]): EventInfo[] {
+	return props.filter(isCallbackProp).map((prop) => {
+		const event: EventInfo = { name: prop.name, type: prop.type, required: prop.required };
+		if (prop.comment) event.comment = prop.comment;
+		return event;
+	});
+}
+
+/**
+ * Find the events a legacy (Svelte 4) component emits through `createEventDispatcher`.
+ * Events declared in the dispatcher's type argument (`createEventDispatcher<{ save: Item }>()`,
+ * or a named type) use the declared detail types and JSDoc comments; other events passed to
+ * the dispatcher (`dispatch('close')`) get the detail type inferred from a literal argument.
+ * @param blocks The component's script blocks
+ * @param resolveExternalType Optional lookup for event map types imported from other files
+ * @returns The events in declaration order, then in dispatch order
+ */
+export function parseDispatchedEvents(
+	blocks: ScriptBlock[],
+	normaliseComment: boolean = false,
+	normaliseType: boolean = true,
+	resolveExternalType?: ExternalTypeResolver
+): EventInfo[] {
+	const events = new Map<string, EventInfo>();
+	const typeMap: TypeMap = {};
+	for (const b of blocks)
+		Object.assign(typeMap, parseTypeDefinitions(b.content, normaliseComment, normaliseType));
+
+	for (const b of blocks) {
+		const content = stripCommentsForParsing(b.content);
+		const dispatcherRe =
+			/\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*createEventDispatcher\s*(<)?/g;
+		let m: RegExpExecArray | null;
+
+		while ((m = dispatcherRe.exec(content))) {
+			// Declared events (the original content is used so JSDoc comments are kept)
+			if (m[2]) {
+				const argsStart = m.index + m[0].length - 1;
+				const argsEnd = findClosingAngle(content, argsStart);
+				const eventMap =
+					argsEnd === -1
+						? undefined
+						: expandTypeDefinition(b.content.slice(argsStart + 1, argsEnd), {
+								typeMap,
+								resolveExternalType,
+								normaliseComment,
+								normaliseType
+							});
+
+				for (const [name, entry] of Object.entries(eventMap?.entries ?? {})) {
+					if (!entry || events.has(name)) continue;
+					const event: EventInfo = {
+						name,
+						type: entry.type,
+						required: false,
+						dispatched: true
+					};
+					if (entry.comment) event.comment = entry.comment;
+					events.set(name, event);
+				}
+			}
+
+			for (const call of findDispatchCalls(content, m[1]))
+				if (!events.has(call.name))
+					events.set(call.name, {
+						name: call.name,
+						type: call.detailType,
+						required: false,
+						dispatched: true
+					});
+		}
+	}
+
+	return Array.from(events.values());
+}
+
+/**
+ * Find the calls of a dispatcher function (`dispatch('save', item)`).
+ * A call without a detail argument dispatches `null`.
+ */
+function findDispatchCalls(
+	content: string,
+	dispatcher: string
+): { name: string; detailType: string }[] {
+	const calls: { name: string; detailType: string }[] = [];
+	const callRe = new RegExp(
+		`(?<![\\w$.])${dispatcher.replace(/\$/g, '\\$')}\\s*\\(\\s*(['"\`])([^'"\`]+)\\1\\s*(,)?`,
+		'g'
+	);
+	let m: RegExpExecArray | null;
+
+	while ((m = callRe.exec(content))) {
+		if (!m[3]) {
+			calls.push({ name: m[2], detailType: 'null' });
+			continue;
+		}
+
+		// Read the detail argument up to the closing parenthesis of the call
+		const start = m.index + m[0].length;
+		let depth = 0;
+		let i = start;
+		while (i < content.length) {
+			const ch = content[i];
+			if (ch === '(' || ch === '[' || ch === '{') depth++;
+			else if (ch === ')' || ch === ']' || ch === '}') depth--;
+			if (depth < 0 || (depth === 0 && ch === ',')) break;
+			i++;
+		}
+		const detail = content.slice(start, i).trim();
+		calls.push({ name: m[2], detailType: inferLiteralType(detail) ?? 'unknown' });
+	}
+
+	return calls;
+}
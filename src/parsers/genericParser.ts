@@ -0,0 +1,246 @@
+import type {
+	ComponentUsage,
+	PropExtractionResult,
+	PropInfo,
+	ScriptBlock,
+	TypeParameter
+} from '../types';
+import { extractScriptBlocksFromText } from '../utils/extractor';
+import { getPropNameFromAttribute } from '../utils/propValidation';
+import {
+	findClosingAngle,
+	parseTypeParameters,
+	splitTopLevelCommas,
+	stripCommentsForParsing,
+	substituteTypeParameters
+} from './propParser';
+
+/**
+ * Read the type parameters a component declares with `<script lang="ts" generics="...">`.
+ * @param blocks The component's script blocks
+ */
+export function parseComponentGenerics(blocks: ScriptBlock[]): TypeParameter[] {
+	for (const block of blocks) {
+		const generics = block.attributes.generics;
+		if (typeof generics === 'string' && generics.trim()) return parseTypeParameters(generics);
+	}
+	return [];
+}
+
+/**
+ * Format the generic signature of a component, e.g. `Table<T extends { id: string }>`.
+ * @param tagName The component tag name
+ * @param generics The component's type parameters
+ */
+export function formatGenericSignature(tagName: string, generics: TypeParameter[]): string {
+	const params = generics.map(
+		(p) =>
+			p.name +
+			(p.constraint ? ` extends ${p.constraint}` : '') +
+			(p.default ? ` = ${p.default}` : '')
+	);
+	return `${tagName}<${params.join(', ')}>`;
+}
+
+/**
+ * Infer the type arguments of a generic component from one of its usages. Attributes bound
+ * to a variable with a declared type in the same document (`let rows: User[] = []`,
+ * `let rows = $state<User[]>([])`) are matched against the prop types, e.g. `items: T[]`
+ * with `User[]` gives `T = User`.
+ * @param generics The component's type parameters
+ * @param props The component's props
+ * @param usage The component usage
+ * @param text The full text of the document containing the usage
+ * @returns The inferred type argument for each type parameter that could be inferred
+ */
+export function inferGenericArguments(
+	generics: TypeParameter[],
+	props: PropInfo[],
+	usage: ComponentUsage,
+	text: string
+): Record<string, string> {
+	const names = new Set(generics.map((p) => p.name));
+	const args: Record<string, string> = {};
+
+	for (const attribute of usage.attributes) {
+		const propName = getPropNameFromAttribute(attribute.name);
+		const prop = props.find((p) => p.name === propName);
+		if (!prop || !attribute.expression || !/^[A-Za-z_$][\w$]*$/.test(attribute.expression))
+			continue;
+
+		const declaredType = findDeclaredType(text, attribute.expression);
+		if (declaredType) inferFromType(prop.type, declaredType, names, args);
+	}
+
+	return args;
+}
+
+/**
+ * Substitute inferred type arguments into the prop, event and snippet types of a result.
+ * @param result The prop extraction result (not modified, as it may be cached)
+ * @param args The inferred type arguments
+ * @returns A copy of the result with the arguments substituted and recorded
+ */
+export function instantiateGenerics(
+	result: PropExtractionResult,
+	args: Record<string, string>
+): PropExtractionResult {
+	const substitutions = new Map(Object.entries(args));
+	if (substitutions.size === 0) return result;
+	const substitute = (type: string): string => substituteTypeParameters(type, substitutions);
+
+	return {
+		...result,
+		props: result.props?.map((p) => ({ ...p, type: substitute(p.type) })),
+		events: result.events?.map((e) => ({ ...e, type: substitute(e.type) })),
+		snippets: result.snippets?.map((s) => ({
+			...s,
+			parameters: s.parameters.map((p) => (p.type ? { ...p, type: substitute(p.type) } : p))
+		})),
+		genericArguments: args
+	};
+}
+
+/**
+ * Find the declared type of a variable in a document's script blocks, from a type annotation
+ * (`let rows: User[] = []`) or a `$state<User[]>(...)` type argument.
+ */
+function findDeclaredType(text: string, name: string): string | undefined {
+	const escaped = name.replace(/\$/g, '\\$');
+
+	for (const block of extractScriptBlocksFromText(text)) {
+		const code = stripCommentsForParsing(block.content);
+		const declaration = new RegExp(
+			`\\b(?:let|const|var)\\s+${escaped}\\s*(?::|=\\s*\\$state\\s*(<))`
+		).exec(code);
+		if (!declaration) continue;
+
+		const start = declaration.index + declaration[0].length;
+		if (declaration[1]) {
+			const end = findClosingAngle(code, start - 1);
+			return end === -1 ? undefined : code.slice(start, end).trim() || undefined;
+		}
+		return readAnnotation(code, start) || undefined;
+	}
+
+	return undefined;
+}
+
+/**
+ * Read a variable's type annotation up to its initializer (`=`), or the end of the statement.
+ */
+function readAnnotation(code: string, start: number): string {
+	let depth = 0;
+	let i = start;
+
+	for (; i < code.length; i++) {
+		const ch = code[i];
+		if (ch === '<' || ch === '(' || ch === '[' || ch === '{') depth++;
+		else if ((ch === '>' && code[i - 1] !== '=') || ch === ')' || ch === ']' || ch === '}')
+			depth--;
+		else if (depth === 0 && (ch === ';' || ch === '\n' || ch === ',')) break;
+		else if (depth === 0 && ch === '=' && code[i + 1] !== '>') break;
+		if (depth < 0) break;
+	}
+
+	return code.slice(start, i).trim();
+}
+
+/**
+ * Match a prop type against the type of the value passed to it, recording type arguments
+ * for type parameters found in matching positions (`T`, `T[]`, `Array<T>`, `Map<K, V>`).
+ */
+function inferFromType(
+	pattern: string,
+	actual: string,
+	names: Set<string>,
+	args: Record<string, string>
+): void {
+	pattern = withoutNullish(pattern);
+	actual = withoutNullish(actual);
+
+	if (names.has(pattern)) {
+		args[pattern] ??= actual;
+		return;
+	}
+
+	const patternElement = arrayElementType(pattern);
+	if (patternElement !== undefined) {
+		const actualElement = arrayElementType(actual);
+		if (actualElement !== undefined) inferFromType(patternElement, actualElement, names, args);
+		return;
+	}
+
+	// Same generic type on both sides: match the type arguments in order
+	const patternRef = genericReference(pattern);
+	const actualRef = genericReference(actual);
+	if (patternRef && actualRef?.name === patternRef.name)
+		patternRef.args.forEach((arg, index) => {
+			if (index < actualRef.args.length)
+				inferFromType(arg, actualRef.args[index], names, args);
+		});
+}
+
+/**
+ * Remove `null` and `undefined` members from a top-level union.
+ */
+function withoutNullish(type: string): string {
+	const members = splitTopLevelUnion(type.trim());
+	const rest = members.filter((m) => m !== 'null' && m !== 'undefined');
+	return rest.length > 0 && rest.length < members.length ? rest.join(' | ') : type.trim();
+}
+
+/**
+ * Split a type on its top-level `|` separators.
+ */
+function splitTopLevelUnion(type: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let start = 0;
+
+	for (let i = 0; i < type.length; i++) {
+		const ch = type[i];
+		if (ch === '<' || ch === '(' || ch === '[' || ch === '{') {
+			depth++;
+		} else if ((ch === '>' && type[i - 1] !== '=') || ch === ')' || ch === ']' || ch === '}') {
+			depth--;
+		} else if (ch === '|' && depth === 0) {
+			parts.push(type.slice(start, i).trim());
+			start = i + 1;
+		}
+	}
+
+	parts.push(type.slice(start).trim());
+	return parts.filter((p) => p);
+}
+
+/**
+ * Get the element type of an array type (`T[]`, `readonly T[]`, `Array<T>`, `ReadonlyArray<T>`).
+ */
+function arrayElementType(type: string): string | undefined {
+	const text = type.replace(/^readonly\s+/, '');
+	if (text.endsWith('[]')) {
+		const element = text.slice(0, -2).trim();
+		return element.startsWith('(') && element.endsWith(')') ? element.slice(1, -1) : element;
+	}
+
+	const ref = genericReference(text);
+	return ref && ref.args.length === 1 && /^(?:Readonly)?Array$/.test(ref.name)
+		? ref.args[0]
+		: undefined;
+}
+
+/**
+ * Split a generic type reference (`Map<string, User>`) into its name and type arguments.
+ */
+function genericReference(type: string): { name: string; args: string[] } | undefined {
+	const match = /^([A-Za-z_$][\w$.]*)\s*</.exec(type);
+	if (!match) return undefined;
+
+	const end = findClosingAngle(type, match[0].length - 1);
+	if (end !== type.length - 1) return undefined;
+	return {
+		name: match[1],
+		args: splitTopLevelCommas(type.slice(match[0].length, end))
+	};
+}
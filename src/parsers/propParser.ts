@@ -11,11 +11,27 @@
  * 3. Extract type/interface definitions → build TypeMap
  * 4. Extract destructuring defaults → get default values and bindable markers
  * 5. Merge all sources → produce final PropInfo[]
+ *
+ * Components that don't use $props() fall back to the legacy (Svelte 4) pipeline,
+ * which reads `export let/const/function` declarations and an optional `$$Props` type.
  */
 
 import { DestructuringScanner } from '../classes/DestructuringScanner';
 import { PropertyScanner } from '../classes/PropertyScanner';
-import { PropInfo, ScriptBlock, TypeDefinition, TypeMap } from '../types';
+import {
+	DestructuredProp,
+	ExternalTypeResolver,
+	LegacyPropDeclaration,
+	ModuleExport,
+	ModuleExportKind,
+	PropInfo,
+	ScriptBlock,
+	TypeDefinition,
+	TypeEntry,
+	TypeExpansionContext,
+	TypeMap,
+	TypeParameter
+} from '../types';
 
 // =============================================================================
 // UTILITY FUNCTIONS
@@ -23,10 +39,11 @@ import { PropInfo, ScriptBlock, TypeDefinition, TypeMap } from '../types';
 
 /**
  * Strip all comment types from code for parsing purposes.
+ * Comments are replaced with spaces (newlines are kept) so offsets into the code are preserved.
  *
  * IMPORTANT: While inside a string literal, comment syntax (// or /*) is treated as plain text.
  */
-function stripCommentsForParsing(code: string): string {
+export function stripCommentsForParsing(code: string): string {
 	let result = '';
 	let i = 0;
 	let inString = false;
@@ -55,20 +72,19 @@ function stripCommentsForParsing(code: string): string {
 		if (!inString) {
 			// Single-line comment
 			if (ch === '/' && next === '/') {
-				while (i < code.length && code[i] !== '\n' && code[i] !== '\r') i++;
+				while (i < code.length && code[i] !== '\n' && code[i] !== '\r') {
+					result += ' ';
+					i++;
+				}
 				continue;
 			}
 
 			// Multi-line comment (includes JSDoc)
 			if (ch === '/' && next === '*') {
-				i += 2;
-				while (i < code.length - 1) {
-					if (code[i] === '*' && code[i + 1] === '/') {
-						i += 2;
-						break;
-					}
-					i++;
-				}
+				const end = code.indexOf('*/', i + 2);
+				const commentEnd = end === -1 ? code.length : end + 2;
+				result += code.slice(i, commentEnd).replace(/[^\n]/g, ' ');
+				i = commentEnd;
 				continue;
 			}
 		}
@@ -192,6 +208,188 @@ function parseParentTypes(clause: string): string[] {
 	return parts;
 }
 
+/**
+ * Split a list on top-level commas (e.g., generic arguments `string, Record<K, V>`).
+ *
+ * IMPORTANT: Tracks string literals and depth so nested commas are kept.
+ */
+export function splitTopLevelCommas(list: string): string[] {
+	const parts: string[] = [];
+	let current = '';
+	let depth = 0;
+	let inString = false;
+	let stringChar = '';
+
+	for (let i = 0; i < list.length; i++) {
+		const ch = list[i];
+		const prev = i > 0 ? list[i - 1] : '';
+
+		if ((ch === '"' || ch === "'" || ch === '`') && prev !== '\\')
+			if (!inString) {
+				inString = true;
+				stringChar = ch;
+			} else if (ch === stringChar) {
+				inString = false;
+				stringChar = '';
+			}
+
+		if (!inString)
+			if (ch === '<' || ch === '(' || ch === '[' || ch === '{') {
+				depth++;
+			} else if ((ch === '>' && prev !== '=') || ch === ')' || ch === ']' || ch === '}') {
+				depth--;
+			} else if (depth === 0 && ch === ',') {
+				if (current.trim()) parts.push(current.trim());
+				current = '';
+				continue;
+			}
+
+		current += ch;
+	}
+
+	if (current.trim()) parts.push(current.trim());
+	return parts;
+}
+
+/**
+ * Find the `>` that closes the `<` at the given position (arrows `=>` are ignored).
+ * @returns Index of the closing bracket, or -1 if unbalanced
+ */
+export function findClosingAngle(code: string, start: number): number {
+	let depth = 0;
+	for (let i = start; i < code.length; i++)
+		if (code[i] === '<') {
+			depth++;
+		} else if (code[i] === '>' && code[i - 1] !== '=') {
+			depth--;
+			if (depth === 0) return i;
+		}
+
+	return -1;
+}
+
+/**
+ * Read a type expression (an `extends` clause or type alias value) up to the opening `{`
+ * of a body, or the end of the statement. Semicolons are optional, so a newline ends the
+ * statement unless the expression continues with `&` or `|` on either side.
+ */
+function readTypeExpression(code: string, start: number): { text: string; end: number } {
+	let i = start;
+	let depth = 0;
+	let inString = false;
+	let stringChar = '';
+
+	while (i < code.length) {
+		const ch = code[i];
+		const prev = i > 0 ? code[i - 1] : '';
+
+		if ((ch === '"' || ch === "'" || ch === '`') && prev !== '\\')
+			if (!inString) {
+				inString = true;
+				stringChar = ch;
+			} else if (ch === stringChar) {
+				inString = false;
+				stringChar = '';
+			}
+
+		if (!inString)
+			if (ch === '<' || ch === '(' || ch === '[') {
+				depth++;
+			} else if ((ch === '>' && prev !== '=') || ch === ')' || ch === ']') {
+				depth--;
+			} else if (depth === 0 && (ch === '{' || ch === ';')) {
+				break;
+			} else if (depth === 0 && ch === '\n') {
+				const soFar = code.slice(start, i).trim();
+				const rest = code.slice(i + 1).trimStart();
+				if (soFar && !/[&|=,]$/.test(soFar) && !/^[&|]/.test(rest)) break;
+			}
+
+		i++;
+	}
+
+	return { text: code.slice(start, i).trim(), end: i };
+}
+
+/**
+ * Parse a generic parameter list (`T, U extends string = 'a'`) into names, constraints
+ * and defaults.
+ */
+export function parseTypeParameters(list: string): TypeParameter[] {
+	const params: TypeParameter[] = [];
+	for (const part of splitTopLevelCommas(list)) {
+		const nameMatch = /^(?:const\s+)?([A-Za-z_$][\w$]*)/.exec(part);
+		if (!nameMatch) continue;
+
+		// Default follows the first top-level `=` (constraints may contain `=>`)
+		const defaultMatch = /(?<![=!<>])=(?![=>])\s*([\s\S]+)$/.exec(part);
+		const param: TypeParameter = { name: nameMatch[1], default: defaultMatch?.[1].trim() };
+
+		const rest = part.slice(nameMatch[0].length, defaultMatch?.index).trim();
+		if (rest.startsWith('extends')) param.constraint = rest.slice(7).trim();
+		params.push(param);
+	}
+	return params;
+}
+
+/**
+ * Replace type parameter names in a type (`T[]` → `User[]`). Unions and functions are
+ * wrapped in parentheses where an array suffix follows (`(A | B)[]`).
+ * @param text The type text
+ * @param substitutions Type parameter names and the types replacing them
+ */
+export function substituteTypeParameters(text: string, substitutions: Map<string, string>): string {
+	if (substitutions.size === 0) return text;
+	const pattern = new RegExp(
+		`(?<![\\w$.])(${Array.from(substitutions.keys())
+			.map((name) => name.replace(/\$/g, '\\$'))
+			.join('|')})(?![\\w$])`,
+		'g'
+	);
+
+	return text.replace(pattern, (name: string, _group: string, offset: number) => {
+		const value = substitutions.get(name) ?? name;
+		const wrap = text[offset + name.length] === '[' && /[|&]|=>/.test(value);
+		return wrap ? `(${value})` : value;
+	});
+}
+
+/**
+ * Substitute the generic arguments of a type reference (e.g., `BaseProps<string>`) into
+ * a definition's entry types and parent types. Missing arguments use parameter defaults.
+ * @param typeDef The generic type/interface definition
+ * @param reference The type reference, including its arguments
+ * @returns A new definition, or the same one when there is nothing to substitute
+ */
+export function instantiateTypeDefinition(
+	typeDef: TypeDefinition,
+	reference: string
+): TypeDefinition {
+	const params = typeDef.typeParameters ?? [];
+	if (params.length === 0) return typeDef;
+
+	const argsStart = reference.indexOf('<');
+	const argsEnd = argsStart === -1 ? -1 : findClosingAngle(reference, argsStart);
+	const args = argsEnd === -1 ? [] : splitTopLevelCommas(reference.slice(argsStart + 1, argsEnd));
+
+	const substitutions = new Map<string, string>();
+	const substitute = (text: string): string => substituteTypeParameters(text, substitutions);
+
+	// Defaults may refer to earlier parameters (e.g., `K extends keyof T = keyof T`)
+	params.forEach((param, index) => {
+		const value =
+			index < args.length ? args[index] : param.default && substitute(param.default);
+		if (value) substitutions.set(param.name, value);
+	});
+	if (substitutions.size === 0) return typeDef;
+
+	const entries: TypeDefinition['entries'] = {};
+	for (const [name, entry] of Object.entries(typeDef.entries))
+		if (entry) entries[name] = { ...entry, type: substitute(entry.type) };
+
+	return { entries, inherits: typeDef.inherits.map(substitute) };
+}
+
 // =============================================================================
 // PIPELINE FUNCTIONS
 // =============================================================================
@@ -349,7 +547,7 @@ function extractTypeMaps(
 	const typeMap: TypeMap = {};
 	for (const b of blocks) {
 		const content = b.content;
-		const re = /(interface|type)\s+([A-Za-z0-9_]+)\s*/g;
+		const re = /\b(interface|type)\s+([A-Za-z0-9_$]+)\s*/g;
 		let m: RegExpExecArray | null;
 		while ((m = re.exec(content))) {
 			if (isPositionCommented(content, m.index)) continue;
@@ -358,34 +556,41 @@ function extractTypeMaps(
 			const typeName = m[2];
 			let i = m.index + m[0].length;
 
-			let extendsClause: string | undefined;
-			let assignmentPart: string | undefined;
+			// Skip inline type specifiers in import/export lists (e.g., `import { type X, Y }`)
+			if (/^(?:[,}]|as\b)/.test(content.slice(i))) continue;
+
+			// Generic parameters: interface Props<T, U = string>
+			let typeParameters: TypeParameter[] | undefined;
+			if (content[i] === '<') {
+				const closeAngle = findClosingAngle(content, i);
+				if (closeAngle === -1) continue;
+				typeParameters = parseTypeParameters(content.slice(i + 1, closeAngle));
+				i = closeAngle + 1;
+				while (i < content.length && /\s/.test(content[i])) i++;
+			}
 
-			while (i < content.length && content[i] !== '{') {
-				if (content[i] === '\n' || content[i] === '\r') {
-					i++;
-					continue;
-				}
-				if (kind === 'interface' && content.slice(i, i + 7) === 'extends') {
-					i += 7;
-					while (i < content.length && /\s/.test(content[i])) i++;
-					const extendsStart = i;
-					while (i < content.length && content[i] !== '{') i++;
-					extendsClause = content.slice(extendsStart, i).trim();
-					break;
-				}
-				if (kind === 'type' && content[i] === '=') {
-					i++;
-					while (i < content.length && /\s/.test(content[i])) i++;
-					const assignStart = i;
-					while (i < content.length && content[i] !== '{') i++;
-					assignmentPart = content.slice(assignStart, i).trim();
-					break;
-				}
-				i++;
+			// Parents: `interface X extends A, B` or `type X = A & B & { ... }`
+			let parentsClause = '';
+			if (kind === 'interface' && /^extends\b/.test(content.slice(i))) {
+				const clause = readTypeExpression(content, i + 7);
+				parentsClause = clause.text;
+				i = clause.end;
+			} else if (kind === 'type' && content[i] === '=') {
+				const clause = readTypeExpression(content, i + 1);
+				parentsClause = clause.text;
+				i = clause.end;
 			}
 
-			if (i >= content.length || content[i] !== '{') continue;
+			if (i >= content.length || content[i] !== '{') {
+				// Alias without an object body (e.g., `type Props = BaseProps & OtherProps;`)
+				if (kind === 'type' && parentsClause)
+					typeMap[typeName] = {
+						entries: {},
+						inherits: parseParentTypes(parentsClause),
+						typeParameters
+					};
+				continue;
+			}
 
 			const openBracePos = i;
 			let depth = 0;
@@ -455,17 +660,29 @@ function extractTypeMaps(
 
 			const body = content.slice(openBracePos + 1, closingBracePos);
 
-			const inherits: string[] = [];
+			// Intersections after the body: type Props = { ... } & BaseProps
+			if (kind === 'type') {
+				const trailing = /^\s*&/.exec(content.slice(closingBracePos + 1));
+				if (trailing) {
+					const clause = readTypeExpression(
+						content,
+						closingBracePos + 1 + trailing[0].length
+					);
+					parentsClause += ` & ${clause.text}`;
+				}
+			}
 
-			if (kind === 'interface' && extendsClause)
-				inherits.push(...parseParentTypes(extendsClause));
-			else if (kind === 'type' && assignmentPart)
-				inherits.push(...parseParentTypes(assignmentPart));
+			const inherits = parseParentTypes(parentsClause);
 
-			const scanner = new PropertyScanner(body, normaliseComment, normaliseType);
+			const scanner = new PropertyScanner(
+				body,
+				normaliseComment,
+				normaliseType,
+				(b.offset ?? 0) + openBracePos + 1
+			);
 			const entries = scanner.parse();
 
-			typeMap[typeName] = { entries, inherits };
+			typeMap[typeName] = { entries, inherits, typeParameters };
 		}
 	}
 	return typeMap;
@@ -479,9 +696,10 @@ function extractTypeMaps(
  */
 function extractDestructurings(
 	blocks: ScriptBlock[],
-	normaliseDefaultValue: boolean
-): Partial<Record<string, { defaultValue?: string; bindable: boolean }>> {
-	const map: Partial<Record<string, { defaultValue?: string; bindable: boolean }>> = {};
+	normaliseDefaultValue: boolean,
+	typedOnly: boolean = true
+): Partial<Record<string, DestructuredProp>> {
+	const map: Partial<Record<string, DestructuredProp>> = {};
 
 	for (const b of blocks) {
 		const content = stripCommentsForParsing(b.content);
@@ -536,12 +754,15 @@ function extractDestructurings(
 			let checkPos = endPos;
 			while (checkPos < content.length && /\s/.test(content[checkPos])) checkPos++;
 
-			if (content[checkPos] !== ':')
+			const typed = content[checkPos] === ':';
+			if (!typed && typedOnly)
 				// Not a typed destructuring
 				continue;
 
 			// Skip type annotation to find = $props()
-			const propsMatch = /=\s*\$props\s*\(\s*\)/.exec(content.slice(checkPos));
+			const propsMatch = (typed ? /=\s*\$props\s*\(\s*\)/ : /^=\s*\$props\s*\(\s*\)/).exec(
+				content.slice(checkPos)
+			);
 			if (!propsMatch)
 				// Not a $props() destructuring
 				continue;
@@ -560,7 +781,11 @@ function extractDestructurings(
 					if (argMatch) defaultValue = argMatch[1].trim();
 				}
 
-				map[item.name] = { defaultValue, bindable };
+				map[item.name] = {
+					defaultValue,
+					bindable,
+					offset: (b.offset ?? 0) + startPos + item.offset
+				};
 			}
 
 			pos = checkPos + propsMatch.index + propsMatch[0].length;
@@ -570,12 +795,196 @@ function extractDestructurings(
 	return map;
 }
 
+/**
+ * Built-in utility types evaluated over known types (when not shadowed by a local type).
+ */
+const UTILITY_TYPES: string[] = ['Omit', 'Pick', 'Partial', 'Required', 'Readonly'];
+
+/**
+ * Parse a union of string literals (`'a' | "b"`) into the literal values.
+ * @returns The values, or undefined if any member isn't a string literal (e.g., `keyof T`)
+ */
+function parseStringLiteralUnion(text: string): string[] | undefined {
+	const values: string[] = [];
+	for (const member of text.split('|')) {
+		const literal = /^\s*(['"`])([^'"`]*)\1\s*$/.exec(member);
+		if (!literal) return undefined;
+		values.push(literal[2]);
+	}
+	return values;
+}
+
+/**
+ * Get the name shown as the source of props inherited through a parent reference.
+ * Utility types report the type they operate on (e.g., `Omit<BaseProps, 'a'>` → `BaseProps`).
+ */
+export function getDeclaringTypeName(reference: string): string | undefined {
+	const trimmed = reference.trim();
+	if (trimmed.startsWith('{')) return undefined;
+
+	const baseTypeName = trimmed.split('<')[0].trim();
+	if (!UTILITY_TYPES.includes(baseTypeName)) return baseTypeName;
+
+	const argsStart = trimmed.indexOf('<');
+	const argsEnd = findClosingAngle(trimmed, argsStart);
+	const innerType = splitTopLevelCommas(trimmed.slice(argsStart + 1, argsEnd)).at(0);
+	return innerType ? getDeclaringTypeName(innerType) : undefined;
+}
+
+/**
+ * Check whether a component takes attributes it doesn't declare through `$props()`: a rest
+ * element (`let { a, ...rest } = $props()`) or the whole props object (`let props = $props()`).
+ */
+export function hasRestProps(blocks: ScriptBlock[]): boolean {
+	return blocks.some((b) => {
+		const content = stripCommentsForParsing(b.content);
+		return (
+			/\b(?:let|const)\s+[\w$]+\s*(?::(?:(?!\b(?:let|const)\b)[\s\S])*?)?=\s*\$props\s*\(/.test(
+				content
+			) ||
+			/\.\.\.\s*[\w$]+\s*\}(?:(?!\b(?:let|const)\b)[\s\S])*?=\s*\$props\s*\(/.test(content)
+		);
+	});
+}
+
+/**
+ * Expand a type expression made of intersected parts (`BaseProps & { a: string }`).
+ * @returns The combined definition, or undefined if any part can't be found
+ */
+function expandTypeExpression(
+	expression: string,
+	context: TypeExpansionContext,
+	visiting: Set<string>
+): TypeDefinition | undefined {
+	const entries: TypeDefinition['entries'] = {};
+	const inherits: string[] = [];
+
+	for (const part of parseParentTypes(expression)) {
+		const partDef = expandTypeReference(part, context, visiting);
+		if (!partDef) return undefined;
+		Object.assign(entries, partDef.entries);
+		inherits.push(...partDef.inherits);
+	}
+
+	return { entries, inherits };
+}
+
+/**
+ * Evaluate a built-in utility type (`Omit`, `Pick`, `Partial`, `Required`, `Readonly`).
+ * @param utility The utility type name
+ * @param args The generic arguments (type expression, then keys for Omit/Pick)
+ * @returns The resulting definition, or undefined if the operand or keys can't be evaluated
+ */
+function expandUtilityType(
+	utility: string,
+	args: string[],
+	context: TypeExpansionContext,
+	visiting: Set<string>
+): TypeDefinition | undefined {
+	if (args.length === 0) return undefined;
+
+	const operand = expandTypeExpression(args[0], context, visiting);
+	if (!operand) return undefined;
+
+	const entries: TypeDefinition['entries'] = {};
+	if (utility === 'Omit' || utility === 'Pick') {
+		const keys = args.length > 1 ? parseStringLiteralUnion(args[1]) : undefined;
+		if (!keys) return undefined;
+
+		const keep = utility === 'Pick';
+		for (const [name, entry] of Object.entries(operand.entries))
+			if (entry && keys.includes(name) === keep) entries[name] = entry;
+	} else {
+		// Readonly doesn't change how a prop is passed, so entries are kept as they are
+		for (const [name, entry] of Object.entries(operand.entries))
+			if (entry)
+				entries[name] =
+					utility === 'Readonly' ? entry : { ...entry, required: utility === 'Required' };
+	}
+
+	return { entries, inherits: operand.inherits };
+}
+
+/**
+ * Expand a type reference into a definition that includes the entries of every parent
+ * type (`extends` clauses and `&` intersections) that can be found, transitively.
+ * Parents come from the local TypeMap first, then the external resolver. Inline object
+ * types and built-in utility types (`Omit`, `Pick`, ...) are evaluated directly.
+ * Inherited entries are tagged with the type that declared them; the type's own entries
+ * take precedence over inherited ones.
+ * @param reference Type reference, possibly with generic arguments (e.g., `BaseProps<T>`)
+ * @param visiting Types on the current expansion path (guards against cycles)
+ * @returns The expanded definition, or undefined if the type can't be found
+ */
+function expandTypeReference(
+	reference: string,
+	context: TypeExpansionContext,
+	visiting: Set<string>
+): TypeDefinition | undefined {
+	const trimmed = reference.trim();
+
+	// Inline object type: { a: string; b?: number }
+	if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+		const scanner = new PropertyScanner(
+			trimmed.slice(1, -1),
+			context.normaliseComment,
+			context.normaliseType
+		);
+		return { entries: scanner.parse(), inherits: [] };
+	}
+
+	const baseTypeName = trimmed.split('<')[0].trim();
+	if (!/^[A-Za-z_$][\w$]*$/.test(baseTypeName)) return undefined;
+
+	const localDef = context.typeMap[baseTypeName];
+	if (!localDef && UTILITY_TYPES.includes(baseTypeName)) {
+		const argsStart = trimmed.indexOf('<');
+		const argsEnd = argsStart === -1 ? -1 : findClosingAngle(trimmed, argsStart);
+		if (argsEnd === -1) return undefined;
+
+		const args = splitTopLevelCommas(trimmed.slice(argsStart + 1, argsEnd));
+		return expandUtilityType(baseTypeName, args, context, visiting);
+	}
+
+	if (!localDef) {
+		// Types imported from other files are resolved (and expanded) by the resolver
+		const externalDef = context.resolveExternalType?.(baseTypeName);
+		return externalDef ? instantiateTypeDefinition(externalDef, trimmed) : undefined;
+	}
+
+	if (visiting.has(baseTypeName)) return { entries: {}, inherits: [] };
+	visiting.add(baseTypeName);
+
+	const typeDef = instantiateTypeDefinition(localDef, trimmed);
+	const entries: TypeDefinition['entries'] = {};
+	const inherits: string[] = [];
+
+	for (const parent of typeDef.inherits) {
+		const parentDef = expandTypeReference(parent, context, visiting);
+		if (!parentDef) {
+			inherits.push(parent);
+			continue;
+		}
+
+		const parentName = getDeclaringTypeName(parent);
+		for (const [name, entry] of Object.entries(parentDef.entries))
+			if (entry)
+				entries[name] = { ...entry, inheritedFrom: entry.inheritedFrom ?? parentName };
+		inherits.push(...parentDef.inherits);
+	}
+
+	Object.assign(entries, typeDef.entries);
+	visiting.delete(baseTypeName);
+
+	return { entries, inherits: Array.from(new Set(inherits)) };
+}
+
 /**
  * STEP 5: Merge type definitions and destructuring into final PropInfo[].
  */
 function mergeTypeAndDestructuring(
-	typeMap: TypeMap,
-	destMap: Partial<Record<string, { defaultValue?: string; bindable: boolean }>>,
+	context: TypeExpansionContext,
+	destMap: Partial<Record<string, DestructuredProp>>,
 	typeNamesToUse: string[],
 	fallbackTypes: Record<string, string> = {}
 ): { props: PropInfo[]; inherits: string[] } {
@@ -583,21 +992,18 @@ function mergeTypeAndDestructuring(
 	const externalTypes: string[] = [];
 
 	for (const typeName of typeNamesToUse) {
-		const baseTypeName = typeName.split('<')[0].trim();
-		const typeDef = typeMap[baseTypeName];
+		const typeDef = expandTypeReference(typeName, context, new Set());
 
 		if (typeDef) localTypes.push(typeDef);
 		else externalTypes.push(typeName);
 	}
 
+	// Only types that could not be found remain as inherited
 	const allInherits = new Set<string>(externalTypes);
 	for (const typeDef of localTypes)
 		for (const parent of typeDef.inherits) allInherits.add(parent);
 
-	const allTypeEntries = new Map<
-		string,
-		{ name: string; type: string; required: boolean; comment?: string }
-	>();
+	const allTypeEntries = new Map<string, TypeEntry>();
 	for (const typeDef of localTypes)
 		for (const [name, entry] of Object.entries(typeDef.entries))
 			if (entry) allTypeEntries.set(name, entry);
@@ -618,12 +1024,17 @@ function mergeTypeAndDestructuring(
 			base.type = t.type;
 			base.required = t.required;
 			if (t.comment) base.comment = t.comment;
+			if (t.jsdoc) base.jsdoc = t.jsdoc;
+			if (t.inheritedFrom) base.inheritedFrom = t.inheritedFrom;
+			if (t.location) base.location = t.location;
 		}
 		// Apply fallback types if type is still unknown
 		if (base.type === 'unknown' && fallbackTypes[name]) base.type = fallbackTypes[name];
 		if (d) {
 			base.bindable = d.bindable;
 			if (d.defaultValue) base.defaultValue = d.defaultValue;
+			// Fall back to the destructuring entry when the type entry has no location
+			if (!base.location && d.offset !== undefined) base.location = { offset: d.offset };
 		}
 		result.push(base);
 	}
@@ -634,23 +1045,446 @@ function mergeTypeAndDestructuring(
 	};
 }
 
+// =============================================================================
+// LEGACY (SVELTE 4) PIPELINE
+// =============================================================================
+
+/**
+ * Check whether a script block is a module-level script (not instance props).
+ */
+function isModuleScript(block: ScriptBlock): boolean {
+	return block.attributes.context === 'module' || block.attributes.module === true;
+}
+
+/**
+ * Check whether any script block uses the $props() rune (runes mode).
+ */
+function usesPropsRune(blocks: ScriptBlock[]): boolean {
+	return blocks.some((b) => /\$props\s*\(/.test(stripCommentsForParsing(b.content)));
+}
+
+/**
+ * Check whether the instance script declares legacy props (`export let` etc. or `$$Props`).
+ */
+function isLegacyComponent(blocks: ScriptBlock[]): boolean {
+	return blocks.some((b) => {
+		if (isModuleScript(b)) return false;
+		const stripped = stripCommentsForParsing(b.content);
+		return (
+			/\bexport\s+(?:let|var|const|function)\s/.test(stripped) ||
+			/\bexport\s*\{[^}]*\}(?!\s*from\b)/.test(stripped) ||
+			/(?:interface|type)\s+\$\$Props\b/.test(stripped)
+		);
+	});
+}
+
+/**
+ * Find the JSDoc comment immediately preceding a position (only whitespace in between).
+ * @returns The raw comment text between the opening and closing markers, or undefined
+ */
+function findPrecedingJSDoc(code: string, position: number): string | undefined {
+	let end = position;
+	while (end > 0 && /\s/.test(code[end - 1])) end--;
+	if (code.slice(end - 2, end) !== '*/') return undefined;
+
+	const start = code.lastIndexOf('/*', end - 2);
+	if (start === -1 || code[start + 2] !== '*') return undefined;
+
+	return code.slice(start + 3, end - 2);
+}
+
+/**
+ * Read a variable declaration's declarators, starting immediately after `let`/`const`.
+ * Ends at a top-level semicolon, or a top-level newline where the statement is complete
+ * (semicolons are optional in Svelte components).
+ */
+function readLegacyDeclaration(code: string, start: number): string {
+	let i = start;
+	let depth = 0;
+	let inString = false;
+	let stringChar = '';
+
+	while (i < code.length) {
+		const ch = code[i];
+		const prev = i > 0 ? code[i - 1] : '';
+
+		if ((ch === '"' || ch === "'" || ch === '`') && prev !== '\\')
+			if (!inString) {
+				inString = true;
+				stringChar = ch;
+			} else if (ch === stringChar) {
+				inString = false;
+				stringChar = '';
+			}
+
+		if (!inString)
+			if (ch === '(' || ch === '[' || ch === '{') {
+				depth++;
+			} else if (ch === ')' || ch === ']' || ch === '}') {
+				depth--;
+				if (depth < 0) break;
+			} else if (depth === 0 && ch === ';') {
+				break;
+			} else if (depth === 0 && ch === '\n') {
+				// Statement continues if this line ends, or the next begins, with an operator
+				const soFar = code.slice(start, i).trimEnd();
+				const rest = code.slice(i + 1).trimStart();
+				const continues =
+					/[=,|&?:(<+\-*/.]$/.test(soFar) || /^[|&?:.=+]/.test(rest) || !soFar;
+				if (!continues) break;
+			}
+
+		i++;
+	}
+
+	return code.slice(start, i);
+}
+
+/**
+ * Split a declaration into its declarators (`a: T = 1, b = 2`) and parse each one.
+ * Commas inside generics in the type section (`Record<string, number>`) don't split.
+ */
+function parseLegacyDeclarators(
+	declaration: string
+): { name: string; offset: number; type?: string; defaultValue?: string }[] {
+	const parts: { name: string; offset: number; type?: string; defaultValue?: string }[] = [];
+	let section: 'name' | 'type' | 'value' = 'name';
+	let name = '';
+	let nameOffset = 0;
+	let type = '';
+	let value = '';
+	let depth = 0;
+	let angleDepth = 0;
+	let inString = false;
+	let stringChar = '';
+
+	const finish = (): void => {
+		const trimmedName = name.trim();
+		if (/^[A-Za-z_$][\w$]*$/.test(trimmedName))
+			parts.push({
+				name: trimmedName,
+				offset: nameOffset + name.length - name.trimStart().length,
+				type: type.trim() || undefined,
+				defaultValue: value.trim() || undefined
+			});
+		section = 'name';
+		name = type = value = '';
+		angleDepth = 0;
+	};
+
+	for (let i = 0; i < declaration.length; i++) {
+		const ch = declaration[i];
+		const prev = i > 0 ? declaration[i - 1] : '';
+		const next = i + 1 < declaration.length ? declaration[i + 1] : '';
+
+		if ((ch === '"' || ch === "'" || ch === '`') && prev !== '\\')
+			if (!inString) {
+				inString = true;
+				stringChar = ch;
+			} else if (ch === stringChar) {
+				inString = false;
+				stringChar = '';
+			}
+
+		if (!inString) {
+			if (ch === '(' || ch === '[' || ch === '{') depth++;
+			else if (ch === ')' || ch === ']' || ch === '}') depth--;
+			else if (section === 'type' && ch === '<') angleDepth++;
+			else if (section === 'type' && ch === '>' && prev !== '=') angleDepth--;
+
+			if (depth === 0 && angleDepth === 0) {
+				if (ch === ',') {
+					finish();
+					continue;
+				}
+				if (section === 'name' && ch === ':') {
+					section = 'type';
+					continue;
+				}
+				// Assignment (not =>, ==, <=, >=, !=)
+				if (
+					section !== 'value' &&
+					ch === '=' &&
+					next !== '>' &&
+					next !== '=' &&
+					!/[=!<>]/.test(prev)
+				) {
+					section = 'value';
+					continue;
+				}
+			}
+		}
+
+		if (section === 'name') {
+			if (!name) nameOffset = i;
+			name += ch;
+		} else if (section === 'type') {
+			type += ch;
+		} else {
+			value += ch;
+		}
+	}
+
+	finish();
+	return parts;
+}
+
+/**
+ * Infer a type from a simple literal default value (string, number, boolean).
+ */
+export function inferLiteralType(value: string | undefined): string | undefined {
+	if (!value) return undefined;
+	if (/^(['"`])[\s\S]*\1$/.test(value)) return 'string';
+	if (/^-?\d[\d_]*(\.\d+)?$/.test(value)) return 'number';
+	if (value === 'true' || value === 'false') return 'boolean';
+	return undefined;
+}
+
+/**
+ * LEGACY STEP 1: Extract `export let/var/const/function` declarations from instance scripts,
+ * and local declarations exported by name (`let klass; export { klass as class }`).
+ * `export const` and `export function` are read-only exports (accessible via bind:this).
+ */
+function extractLegacyExports(
+	blocks: ScriptBlock[],
+	normaliseComment: boolean,
+	normaliseType: boolean,
+	normaliseDefaultValue: boolean
+): LegacyPropDeclaration[] {
+	const declarations: LegacyPropDeclaration[] = [];
+
+	for (const b of blocks) {
+		if (isModuleScript(b)) continue;
+
+		const content = b.content;
+		const re = /\bexport\s+(let|var|const|function)\s+/g;
+		let m: RegExpExecArray | null;
+
+		while ((m = re.exec(content))) {
+			if (isPositionCommented(content, m.index)) continue;
+			declarations.push(
+				...readLegacyDeclarations(
+					b,
+					m,
+					normaliseComment,
+					normaliseType,
+					normaliseDefaultValue
+				)
+			);
+		}
+
+		// Export lists: `export { klass as class, value }`
+		const listRe = /\bexport\s*\{([^}]*)\}(?!\s*from\b)/g;
+		let locals: Map<string, LegacyPropDeclaration> | undefined;
+		while ((m = listRe.exec(content))) {
+			if (isPositionCommented(content, m.index)) continue;
+
+			// Declarations not exported directly, by local name
+			if (!locals) {
+				locals = new Map<string, LegacyPropDeclaration>();
+				const localRe = /(?<!\bexport\s+)\b(let|var|const|function)\s+/g;
+				let local: RegExpExecArray | null;
+				while ((local = localRe.exec(content))) {
+					if (isPositionCommented(content, local.index)) continue;
+					for (const declaration of readLegacyDeclarations(
+						b,
+						local,
+						normaliseComment,
+						normaliseType,
+						normaliseDefaultValue
+					))
+						if (!locals.has(declaration.name))
+							locals.set(declaration.name, declaration);
+				}
+			}
+
+			for (const specifier of m[1].split(',')) {
+				const parts = /^\s*([A-Za-z_$][\w$]*)(?:\s+as\s+([A-Za-z_$][\w$]*))?\s*$/.exec(
+					specifier
+				);
+				const declaration = parts && locals.get(parts[1]);
+				if (declaration) declarations.push({ ...declaration, name: parts[2] || parts[1] });
+			}
+		}
+	}
+
+	return declarations;
+}
+
+/**
+ * Read the declarations of a `let/var/const/function` statement for extractLegacyExports.
+ * @param block Script block containing the statement
+ * @param match Match of the keyword (and `export`), with the keyword in group 1
+ */
+function readLegacyDeclarations(
+	block: ScriptBlock,
+	match: RegExpExecArray,
+	normaliseComment: boolean,
+	normaliseType: boolean,
+	normaliseDefaultValue: boolean
+): LegacyPropDeclaration[] {
+	const content = block.content;
+	const rawComment = findPrecedingJSDoc(content, match.index);
+	// Without a JSDoc comment, the empty comment parses to no comment and no tags
+	const parsedComment = PropertyScanner.parseJSDoc(rawComment ?? '', normaliseComment);
+	const comment = parsedComment.comment || undefined;
+	const jsdoc = parsedComment.jsdoc;
+	const start = match.index + match[0].length;
+
+	if (match[1] === 'function') {
+		const fnMatch = /^([A-Za-z_$][\w$]*)\s*(<[^>(]*>)?\s*\(/.exec(content.slice(start));
+		if (!fnMatch) return [];
+
+		// Read the parameter list up to the matching closing parenthesis
+		const paramsStart = start + fnMatch[0].length;
+		let depth = 1;
+		let i = paramsStart;
+		while (i < content.length && depth > 0) {
+			if (content[i] === '(') depth++;
+			else if (content[i] === ')') depth--;
+			i++;
+		}
+		const params = content.slice(paramsStart, i - 1).trim();
+
+		// Optional return type annotation before the function body
+		const returnMatch = /^\s*:\s*([^{]+?)\s*\{/.exec(content.slice(i));
+		const returnType = returnMatch ? returnMatch[1] : 'unknown';
+
+		return [
+			{
+				name: fnMatch[1],
+				type: PropertyScanner.formatType(
+					`${fnMatch[2] || ''}(${params}) => ${returnType}`,
+					normaliseType
+				),
+				readonly: true,
+				comment,
+				jsdoc,
+				offset: (block.offset ?? 0) + start
+			}
+		];
+	}
+
+	const declaration = readLegacyDeclaration(content, start);
+	return parseLegacyDeclarators(declaration).map((declarator) => {
+		let defaultValue = declarator.defaultValue;
+		if (defaultValue && normaliseDefaultValue) defaultValue = defaultValue.replace(/\s+/g, ' ');
+
+		const type = declarator.type ?? inferLiteralType(declarator.defaultValue);
+		return {
+			name: declarator.name,
+			type: type ? PropertyScanner.formatType(type, normaliseType) : undefined,
+			defaultValue,
+			readonly: match[1] === 'const',
+			comment,
+			jsdoc,
+			offset: (block.offset ?? 0) + start + declarator.offset
+		};
+	});
+}
+
+/**
+ * LEGACY STEP 2: Build PropInfo[] from the exports, using `$$Props` for types when declared.
+ */
+function parseLegacyProps(
+	blocks: ScriptBlock[],
+	normaliseComment: boolean,
+	normaliseType: boolean,
+	normaliseDefaultValue: boolean,
+	fallbackTypes: Record<string, string>,
+	resolveExternalType?: ExternalTypeResolver
+): { props: PropInfo[]; inherits: string[] } {
+	const declarations = extractLegacyExports(
+		blocks,
+		normaliseComment,
+		normaliseType,
+		normaliseDefaultValue
+	);
+	const typeMaps = extractTypeMaps(blocks, normaliseComment, normaliseType);
+
+	// $$Props declares the public props type explicitly; exports only supply defaults
+	if (typeMaps.$$Props) {
+		const destMap: Partial<Record<string, DestructuredProp>> = {};
+		for (const d of declarations)
+			if (!d.readonly)
+				destMap[d.name] = {
+					defaultValue: d.defaultValue,
+					bindable: false,
+					offset: d.offset
+				};
+
+		const merged = mergeTypeAndDestructuring(
+			{ typeMap: typeMaps, resolveExternalType, normaliseComment, normaliseType },
+			destMap,
+			['$$Props'],
+			fallbackTypes
+		);
+		for (const d of declarations)
+			if (d.readonly)
+				merged.props.push({
+					name: d.name,
+					type: d.type ?? 'unknown',
+					required: false,
+					bindable: false,
+					readonly: true,
+					...(d.comment ? { comment: d.comment } : {}),
+					...(d.jsdoc ? { jsdoc: d.jsdoc } : {}),
+					location: { offset: d.offset }
+				});
+		return merged;
+	}
+
+	const props: PropInfo[] = declarations.map((d) => {
+		const prop: PropInfo = {
+			name: d.name,
+			type: d.type ?? 'unknown',
+			// Legacy props without an initial value must be provided by the parent
+			required: !d.readonly && d.defaultValue === undefined,
+			bindable: false,
+			location: { offset: d.offset }
+		};
+		if (prop.type === 'unknown' && fallbackTypes[d.name]) prop.type = fallbackTypes[d.name];
+		if (d.readonly) prop.readonly = true;
+		if (d.defaultValue && !d.readonly) prop.defaultValue = d.defaultValue;
+		if (d.comment) prop.comment = d.comment;
+		if (d.jsdoc) prop.jsdoc = d.jsdoc;
+		return prop;
+	});
+
+	return { props, inherits: [] };
+}
+
 // =============================================================================
 // MAIN EXPORT
 // =============================================================================
 
 /**
- * Parse props from Svelte 5 script blocks using the $props() rune.
+ * Parse props from Svelte script blocks.
+ * Uses the $props() rune pipeline, or the legacy `export let` pipeline when the
+ * component doesn't use $props() but declares legacy exports.
+ * @param resolveExternalType Optional lookup for props types that aren't declared in the component
  */
 export function parsePropsFromScriptBlocks(
 	blocks: ScriptBlock[],
 	normaliseComment: boolean = false,
 	normaliseType: boolean = true,
 	normaliseDefaultValue: boolean = true,
-	fallbackTypes: Record<string, string> = {}
+	fallbackTypes: Record<string, string> = {},
+	resolveExternalType?: ExternalTypeResolver
 ): {
 	props: PropInfo[];
 	inherits: string[];
 } {
+	if (!usesPropsRune(blocks) && isLegacyComponent(blocks))
+		return parseLegacyProps(
+			blocks,
+			normaliseComment,
+			normaliseType,
+			normaliseDefaultValue,
+			fallbackTypes,
+			resolveExternalType
+		);
+
 	const propsInfo = findPropsDestructuring(blocks);
 
 	if (!propsInfo) return { props: [], inherits: [] };
@@ -659,5 +1493,114 @@ export function parsePropsFromScriptBlocks(
 	const typeMaps = extractTypeMaps(blocks, normaliseComment, normaliseType);
 	const destructurings = extractDestructurings(blocks, normaliseDefaultValue);
 
-	return mergeTypeAndDestructuring(typeMaps, destructurings, typeNames, fallbackTypes);
+	return mergeTypeAndDestructuring(
+		{ typeMap: typeMaps, resolveExternalType, normaliseComment, normaliseType },
+		destructurings,
+		typeNames,
+		fallbackTypes
+	);
+}
+
+/**
+ * Read the defaults and bindable markers of a `$props()` destructuring, including untyped ones
+ * (e.g. compiled library components, whose types live in a `.svelte.d.ts` file).
+ */
+export function parsePropsDestructuring(
+	blocks: ScriptBlock[],
+	normaliseDefaultValue: boolean = true
+): Partial<Record<string, DestructuredProp>> {
+	return extractDestructurings(blocks, normaliseDefaultValue, false);
+}
+
+/**
+ * Expand a type expression (e.g., `Omit<BaseProps, 'a'> & { b: string }`) into its full
+ * entry set, following parents, utility types and inline object types.
+ * @returns The expanded definition, or undefined if any part can't be found
+ */
+export function expandTypeDefinition(
+	expression: string,
+	context: TypeExpansionContext
+): TypeDefinition | undefined {
+	return expandTypeExpression(expression, context, new Set());
+}
+
+/**
+ * List the named exports of a component's module script (`<script module>` or
+ * `<script context="module">`), e.g. shared constants, helpers and types.
+ * Names exported through `export { a, b as c }` get the kind of their local declaration, if any.
+ */
+export function parseModuleExports(blocks: ScriptBlock[]): ModuleExport[] {
+	const exports: ModuleExport[] = [];
+	const seen = new Set<string>();
+	const add = (name: string, kind: ModuleExportKind | undefined): void => {
+		if (seen.has(name)) return;
+		seen.add(name);
+		exports.push({ name, kind });
+	};
+
+	for (const b of blocks) {
+		if (!isModuleScript(b)) continue;
+
+		const content = stripCommentsForParsing(b.content);
+		let m: RegExpExecArray | null;
+
+		// export const a = 1, b = 2 / export async function f() / export type T = ...
+		const declarationRe =
+			/\bexport\s+(?:declare\s+)?(?:async\s+)?(const|let|var|function\*?|class|type|interface|enum)\s+([A-Za-z_$][\w$]*)/g;
+		while ((m = declarationRe.exec(content))) {
+			const kind = m[1].replace('*', '') as ModuleExportKind;
+			add(m[2], kind);
+
+			// Further declarators of the same const/let/var statement
+			if (kind === 'const' || kind === 'let' || kind === 'var')
+				for (const declarator of parseLegacyDeclarators(
+					readLegacyDeclaration(content, m.index + m[0].length - m[2].length)
+				).slice(1))
+					add(declarator.name, kind);
+		}
+
+		// export { a, b as c } (re-exports from other modules have no local declaration)
+		const listRe = /\bexport\s+(type\s+)?\{([^}]*)\}(\s*from\b)?/g;
+		while ((m = listRe.exec(content))) {
+			const isTypeList = Boolean(m[1]);
+			const isReExport = Boolean(m[3]);
+			for (const part of m[2].split(',')) {
+				const nameMatch = /^(type\s+)?([\w$]+)(?:\s+as\s+([\w$]+))?$/.exec(part.trim());
+				if (!nameMatch) continue;
+
+				const localName = nameMatch[2];
+				const localKind = isReExport ? undefined : findDeclarationKind(content, localName);
+				add(
+					nameMatch[3] || localName,
+					localKind ?? (isTypeList || nameMatch[1] ? 'type' : undefined)
+				);
+			}
+		}
+	}
+
+	return exports;
+}
+
+/**
+ * Find how a name is declared in a script (e.g. `const`, `function`), if it is.
+ */
+function findDeclarationKind(content: string, name: string): ModuleExportKind | undefined {
+	const escaped = name.replace(/\$/g, '\\$');
+	const re = new RegExp(
+		`\\b(const|let|var|function\\*?|class|type|interface|enum)\\s+${escaped}(?![\\w$])`
+	);
+	const m = re.exec(content);
+	return m ? (m[1].replace('*', '') as ModuleExportKind) : undefined;
+}
+
+/**
+ * Parse all type/interface definitions from TypeScript source (e.g., a shared `types.ts` file).
+ * Uses the same scanner as component scripts, so entries have the same shape.
+ */
+export function parseTypeDefinitions(
+	content: string,
+	normaliseComment: boolean = false,
+	normaliseType: boolean = true
+): TypeMap {
+	return extractTypeMaps([{ content, attributes: {} }], normaliseComment, normaliseType);
 }
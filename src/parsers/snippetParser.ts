@@ -0,0 +1,100 @@
+import type { PropInfo, SnippetInfo, SnippetParameter } from '../types';
+import { splitTopLevelCommas } from './propParser';
+import { scanTagAttributes } from './tagParser';
+
+/**
+ * Check whether a prop type is a Svelte snippet (`Snippet`, `Snippet<[T]>`).
+ */
+export function isSnippetType(type: string): boolean {
+	return /^(?:import\(['"]svelte['"]\)\.)?Snippet\b/.test(type.trim());
+}
+
+/**
+ * Read the parameter tuple of a snippet type as named arguments.
+ * Labelled elements keep their label (`Snippet<[item: Item]>` → `item: Item`);
+ * unlabelled ones are named by position (`Snippet<[Item]>` → `arg0: Item`).
+ * @param type The snippet type
+ * @returns The parameters, or an empty list for `Snippet` without a tuple
+ */
+export function parseSnippetParameters(type: string): SnippetParameter[] {
+	const argsStart = type.indexOf('<');
+	const argsEnd = type.lastIndexOf('>');
+	if (argsStart === -1 || argsEnd < argsStart) return [];
+
+	const tuple = type.slice(argsStart + 1, argsEnd).trim();
+	if (!tuple.startsWith('[') || !tuple.endsWith(']')) return [];
+
+	return splitTopLevelCommas(tuple.slice(1, -1)).map((element, index) => {
+		const labelled = /^([A-Za-z_$][\w$]*\??)\s*:\s*([\s\S]+)$/.exec(element);
+		return labelled
+			? { name: labelled[1], type: labelled[2].trim() }
+			: { name: `arg${index.toString()}`, type: element };
+	});
+}
+
+/**
+ * Collect the snippets of a component from its props typed `Snippet` (including props
+ * that got the type from a fallback, e.g. `children`).
+ * @param props The component's props
+ */
+export function getSnippetsFromProps(props: PropInfo[]): SnippetInfo[] {
+	return props
+		.filter((prop) => isSnippetType(prop.type))
+		.map((prop) => {
+			const snippet: SnippetInfo = {
+				name: prop.name,
+				parameters: parseSnippetParameters(prop.type),
+				required: prop.required
+			};
+			if (prop.comment) snippet.comment = prop.comment;
+			return snippet;
+		});
+}
+
+/**
+ * Find the legacy (Svelte 4) `<slot>` declarations in a component's markup.
+ * The slot props passed to the consumer (`<slot name="row" {item} index={i}>`, or the
+ * `let:` form) become the snippet's parameters. Slots rendered in several places are merged.
+ * @param text The full component source
+ * @returns One snippet per slot name (`default` for unnamed slots)
+ */
+export function parseLegacySlots(text: string): SnippetInfo[] {
+	// Blank out non-markup regions while preserving offsets (newlines are kept)
+	const blank = (match: string): string => match.replace(/[^\n]/g, ' ');
+	const markup = text
+		.replace(/<!--[\s\S]*?-->/g, blank)
+		.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, blank);
+
+	const slots = new Map<string, SnippetInfo>();
+	const slotRe = /<slot(?=[\s/>])/g;
+	let m: RegExpExecArray | null;
+
+	while ((m = slotRe.exec(markup))) {
+		const scan = scanTagAttributes(markup, m.index + m[0].length, markup.length);
+		if (!scan.closed) continue;
+
+		let name = 'default';
+		const parameters: SnippetParameter[] = [];
+		for (const attribute of scan.attributes) {
+			if (attribute.name === 'name') {
+				const value = /^\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`/]+))/.exec(
+					markup.slice(attribute.end)
+				);
+				if (value) name = value[1] || value[2] || value[3] || name;
+				continue;
+			}
+			parameters.push({ name: attribute.name.replace(/^let:/, '') });
+		}
+
+		const existing = slots.get(name);
+		if (!existing) {
+			slots.set(name, { name, parameters, required: false, slot: true });
+			continue;
+		}
+		for (const parameter of parameters)
+			if (!existing.parameters.some((p) => p.name === parameter.name))
+				existing.parameters.push(parameter);
+	}
+
+	return Array.from(slots.values());
+}
@@ -1,4 +1,12 @@
 import { Position, TextDocument } from '../interfaces/vscode';
+import type {
+	AttributeScanState,
+	AttributeUsage,
+	ComponentUsage,
+	TagAttribute,
+	TagAttributeScan,
+	TagCompletionContext
+} from '../types';
 
 /**
  * Options for tag detection behavior.
@@ -45,8 +53,9 @@ export function getTagNameAtPosition(
  * Original tag detection: returns tag name only when cursor is directly on the tag name.
  */
 function getTagNameDirectly(document: TextDocument, position: Position): string | undefined {
-	// Match typical tag names (allowing namespace like Foo.Bar or custom elements with dash)
-	const range = document.getWordRangeAtPosition(position, /[A-Za-z][A-Za-z0-9_.-]*/);
+	// Match typical tag names (allowing namespace like Foo.Bar, custom elements with dash
+	// and svelte:component)
+	const range = document.getWordRangeAtPosition(position, /[A-Za-z][A-Za-z0-9_.:-]*/);
 	if (!range) return undefined;
 
 	const line = document.lineAt(position.line).text;
@@ -58,7 +67,11 @@ function getTagNameDirectly(document: TextDocument, position: Position): string
 
 	const word = document.getText(range);
 
-	// Exclude svelte built-ins like <svelte:head> etc
+	// <svelte:component this={X}> renders the component referenced by `this`
+	if (word === 'svelte:component' && !before.endsWith('</'))
+		return getDynamicComponentReference(document, position.line, range.end.character);
+
+	// Exclude other svelte built-ins like <svelte:head> etc
 	if (word.startsWith('svelte:')) return undefined;
 
 	// Heuristic: treat capitalized tags as components (vs native HTML tags)
@@ -67,6 +80,29 @@ function getTagNameDirectly(document: TextDocument, position: Position): string
 	return word;
 }
 
+/**
+ * Read the component reference from the `this` attribute of a `<svelte:component>` tag.
+ * Only identifiers and member chains (`this={UI.Button}`) can be traced statically.
+ * @param document The text document
+ * @param line The line of the tag name
+ * @param character The character immediately after the tag name
+ */
+function getDynamicComponentReference(
+	document: TextDocument,
+	line: number,
+	character: number
+): string | undefined {
+	const text = document.getText();
+	const lines = text.split('\n');
+	const start = lines.slice(0, line).reduce((offset, l) => offset + l.length + 1, 0) + character;
+
+	const scan = scanTagAttributes(text, start, text.length);
+	const reference = scan.attributes.find((a) => a.name === 'this')?.expression;
+	return reference && /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/.test(reference)
+		? reference
+		: undefined;
+}
+
 /**
  * Find tag name when cursor is anywhere within an opening tag's brackets.
  * Scans backwards to find `<ComponentName` and forwards to verify we're before the closing `>`.
@@ -392,3 +428,264 @@ function isPositionBefore(a: Position, b: Position): boolean {
 	if (a.line > b.line) return false;
 	return a.character < b.character;
 }
+
+/**
+ * Find the component tag whose attribute list contains the cursor, for prop-name completions.
+ * Unlike hover detection, the tag does not need a closing `>` yet (the user is still typing it),
+ * but the cursor must be in an attribute-name position: not inside a string, expression or value.
+ * @param document The text document
+ * @param position The cursor position
+ * @param maxLines Maximum lines to search backwards for the opening tag
+ * @returns The tag name and attributes already present, or undefined if not completing a prop name
+ */
+export function getTagCompletionContext(
+	document: TextDocument,
+	position: Position,
+	maxLines: number = DEFAULT_OPTIONS.maxLines
+): TagCompletionContext | undefined {
+	const backwardResult = scanBackwardForOpeningTag(document, position, maxLines);
+	if (!backwardResult) return undefined;
+
+	// Join the lines between the end of the tag name and the cursor into a single string
+	const tagEndPosition = backwardResult.tagEndPosition;
+	let text = '';
+	for (let line = tagEndPosition.line; line <= position.line; line++) {
+		const lineText = document.lineAt(line).text;
+		const start = line === tagEndPosition.line ? tagEndPosition.character : 0;
+		const end = line === position.line ? position.character : lineText.length;
+		text += lineText.slice(start, end);
+		if (line < position.line) text += '\n';
+	}
+
+	const scan = scanTagAttributes(text, 0, text.length);
+
+	// Cursor is past the end of the opening tag, or inside a value/expression/string
+	if (scan.closed || scan.state !== 'between') return undefined;
+
+	// The attribute currently being typed (if any) is not "already present"
+	const partial = scan.attributes.find((attr) => attr.end === text.length);
+	const attributes = scan.attributes.filter((attr) => attr !== partial);
+
+	// A new attribute name must be preceded by whitespace (not the tag name or a value)
+	const nameStart = partial ? partial.start : text.length;
+	if (nameStart === 0 || !/\s/.test(text[nameStart - 1])) return undefined;
+
+	return {
+		tagName: backwardResult.tagName,
+		existingAttributes: attributes.map((attr) => attr.name)
+	};
+}
+
+/**
+ * Scan the attribute list of an opening tag, starting immediately after the tag name.
+ * Tracks quoted values, `{...}` expressions and bare values so that names are only read
+ * at the top level. Shorthand attributes (`{value}`) are reported by their identifier;
+ * spreads (`{...rest}`) are ignored.
+ * @param text The text to scan
+ * @param start Offset to start scanning from (immediately after the tag name)
+ * @param stop Offset to stop scanning at (exclusive)
+ * @returns The attributes found, whether the tag was closed, and the state at the stop offset
+ */
+export function scanTagAttributes(text: string, start: number, stop: number): TagAttributeScan {
+	const attributes: TagAttribute[] = [];
+	let state: AttributeScanState = 'between';
+	let inString: string | null = null;
+	let depth = 0;
+	let nameStart = -1;
+	let braceStart = -1;
+	let braceOpenedBetween = false;
+	let hasSpread = false;
+
+	const finishName = (end: number): void => {
+		attributes.push({ name: text.slice(nameStart, end), start: nameStart, end });
+		nameStart = -1;
+	};
+
+	for (let i = start; i < stop && i < text.length; i++) {
+		const ch = text[i];
+
+		// Inside a quoted string (attribute value or string within an expression)
+		if (inString) {
+			if (ch === inString && text[i - 1] !== '\\') {
+				inString = null;
+				if (depth === 0) state = 'between';
+			}
+			continue;
+		}
+
+		// Inside a {...} expression
+		if (depth > 0) {
+			if (ch === '"' || ch === "'" || ch === '`') {
+				inString = ch;
+			} else if (ch === '{') {
+				depth++;
+			} else if (ch === '}') {
+				depth--;
+				if (depth === 0) {
+					// Shorthand attribute: {value} is equivalent to value={value}
+					const inner = text.slice(braceStart + 1, i).trim();
+					if (braceOpenedBetween && /^[A-Za-z_$][\w$]*$/.test(inner))
+						attributes.push({
+							name: inner,
+							start: braceStart + 1,
+							end: i,
+							expression: inner
+						});
+					else if (braceOpenedBetween && inner.startsWith('...')) hasSpread = true;
+					else if (!braceOpenedBetween && attributes.length > 0)
+						attributes[attributes.length - 1].expression = inner;
+					state = 'between';
+				}
+			}
+			continue;
+		}
+
+		if (ch === '>') {
+			// A bare attribute name can end the tag (e.g. `<Button disabled>`)
+			if (state === 'name') finishName(i);
+			return { attributes, closed: true, closeOffset: i, state, hasSpread };
+		}
+
+		if (ch === '{') {
+			if (state === 'name') finishName(i);
+			braceOpenedBetween = state !== 'value';
+			braceStart = i;
+			depth = 1;
+			state = 'value';
+			continue;
+		}
+
+		if (ch === '"' || ch === "'" || ch === '`') {
+			if (state === 'name') finishName(i);
+			inString = ch;
+			state = 'value';
+			continue;
+		}
+
+		if (/\s/.test(ch)) {
+			if (state === 'name') {
+				finishName(i);
+				state = 'afterName';
+			} else if (state === 'value') {
+				// End of a bare (unquoted) value
+				state = 'between';
+			}
+			continue;
+		}
+
+		if (ch === '=' && (state === 'name' || state === 'afterName')) {
+			if (state === 'name') finishName(i);
+			state = 'value';
+			continue;
+		}
+
+		// Self-closing slash is not part of any attribute
+		if (ch === '/' && text[i + 1] === '>') {
+			if (state === 'name') finishName(i);
+			state = 'between';
+			continue;
+		}
+
+		if (state === 'between' || state === 'afterName') {
+			nameStart = i;
+			state = 'name';
+		}
+		// Otherwise: continue reading the current name or bare value
+	}
+
+	if (state === 'name') finishName(Math.min(stop, text.length));
+	// A name followed by whitespace is complete, so the cursor is free to start a new one
+	if (state === 'name' || state === 'afterName') state = 'between';
+	if (inString) state = 'value';
+
+	return { attributes, closed: false, state, hasSpread };
+}
+
+/**
+ * Find every component (capitalized) tag in a Svelte document's markup.
+ * Script and style blocks and HTML comments are skipped. For tags with content,
+ * the text between the opening and matching closing tag is included so callers
+ * can detect children and `{#snippet}` blocks.
+ * @param text The full document text
+ * @returns Component usages with absolute offsets
+ */
+export function findComponentUsages(text: string): ComponentUsage[] {
+	// Blank out non-markup regions while preserving offsets (newlines are kept)
+	const blank = (match: string): string => match.replace(/[^\n]/g, ' ');
+	const markup = text
+		.replace(/<!--[\s\S]*?-->/g, blank)
+		.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, blank);
+
+	const usages: ComponentUsage[] = [];
+	const tagRe = /<([A-Z][A-Za-z0-9_.]*)(?=[\s/>])/g;
+	let m: RegExpExecArray | null;
+
+	while ((m = tagRe.exec(markup))) {
+		const tagName = m[1];
+		const nameStart = m.index + 1;
+		const nameEnd = nameStart + tagName.length;
+
+		const scan = scanTagAttributes(markup, nameEnd, markup.length);
+		if (!scan.closed || scan.closeOffset === undefined) continue;
+
+		const selfClosing = markup[scan.closeOffset - 1] === '/';
+		const usage: ComponentUsage = {
+			tagName,
+			nameStart,
+			nameEnd,
+			attributes: scan.attributes,
+			hasSpread: scan.hasSpread,
+			selfClosing
+		};
+
+		if (!selfClosing) {
+			const bodyEnd = findClosingTag(markup, tagName, scan.closeOffset + 1);
+			if (bodyEnd !== undefined) usage.children = text.slice(scan.closeOffset + 1, bodyEnd);
+		}
+
+		usages.push(usage);
+	}
+
+	return usages;
+}
+
+/**
+ * Find the component tag attribute whose name contains an offset.
+ * @param text The full document text
+ * @param offset The offset within the document (e.g. the cursor)
+ * @returns The attribute and the component tag it belongs to, or undefined if not on an attribute name
+ */
+export function findAttributeAtOffset(text: string, offset: number): AttributeUsage | undefined {
+	for (const usage of findComponentUsages(text)) {
+		if (offset < usage.nameEnd) break;
+		const attribute = usage.attributes.find((a) => offset >= a.start && offset <= a.end);
+		if (attribute) return { usage, attribute };
+	}
+	return undefined;
+}
+
+/**
+ * Find the offset of the matching `</TagName>` for an opening tag, accounting for nesting.
+ */
+function findClosingTag(markup: string, tagName: string, from: number): number | undefined {
+	const escaped = tagName.replace(/\./g, '\\.');
+	const re = new RegExp(`<(/?)${escaped}(?=[\\s/>])`, 'g');
+	re.lastIndex = from;
+	let depth = 1;
+	let m: RegExpExecArray | null;
+
+	while ((m = re.exec(markup))) {
+		if (m[1]) {
+			depth--;
+			if (depth === 0) return m.index;
+			continue;
+		}
+
+		// Nested opening tag with the same name (self-closing tags don't nest)
+		const scan = scanTagAttributes(markup, m.index + 1 + tagName.length, markup.length);
+		if (scan.closed && scan.closeOffset !== undefined && markup[scan.closeOffset - 1] !== '/')
+			depth++;
+	}
+
+	return undefined;
+}
@@ -0,0 +1,412 @@
+#!/usr/bin/env node
+import * as fs from 'node:fs';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+	CompletionItem,
+	CompletionItemKind,
+	createConnection,
+	DidChangeWatchedFilesNotification,
+	Hover,
+	InitializeResult,
+	InsertTextFormat,
+	Location,
+	MarkupKind,
+	ProposedFeatures,
+	TextDocumentPositionParams,
+	TextDocuments,
+	TextDocumentSyncKind
+} from 'vscode-languageserver/node';
+import { CacheService } from './classes/CacheService';
+import { DiagnosticsService } from './classes/DiagnosticsService';
+import { LoggingService } from './classes/LoggingService';
+import { LspDocument } from './classes/LspDocument';
+import { TooltipFormatter } from './classes/TooltipFormatter';
+import { getTagCompletionContext, getTagNameAtPosition } from './parsers/tagParser';
+import { ResolutionExplanation } from './types';
+import {
+	applyUsageGenerics,
+	formatComponentTooltip,
+	getAttributePropAtOffset,
+	getPositionInFile,
+	getPropCompletions,
+	getPropsForHoveredComponent,
+	resolveComponentImport
+} from './utils/componentProps';
+import { ALIAS_CONFIG_GLOB, isAliasConfig } from './utils/configAliases';
+import { createManifest, formatManifest } from './utils/manifest';
+import { PathResolver } from './utils/pathResolver';
+import { explainComponentResolution } from './utils/resolutionTrace';
+import {
+	CLEAR_CACHE_REQUEST,
+	EXPLAIN_RESOLUTION_REQUEST,
+	EXPORT_MANIFEST_REQUEST,
+	TOGGLE_INHERITED_ATTRIBUTES_REQUEST
+} from './utils/serverRequests';
+import { Settings } from './utils/settings';
+import { TypeResolver } from './utils/typeResolver';
+import { isWorkspaceManifest, WORKSPACE_MANIFEST_GLOB } from './utils/workspaceDetectors';
+
+/**
+ * SvelteDoc language server (stdio), providing component hover, prop completion,
+ * go-to-definition and prop diagnostics. The VS Code extension is a client of this server;
+ * any other LSP client (Neovim, Zed, Helix, ...) can run it too.
+ *
+ * Settings use the same keys as the VS Code extension, without the `sveltedoc.` prefix. They are
+ * read from the `initializationOptions` and from `workspace/didChangeConfiguration` notifications
+ * (`{ settings: { sveltedoc: { ... } } }`). Clients that run the
+ * `sveltedoc.toggleInheritedAttributes` command also set `commandLinks: true` in the
+ * `initializationOptions`, to get the "Show all" links in hovers.
+ */
+
+const connection = createConnection(ProposedFeatures.all);
+const documents = new TextDocuments(TextDocument);
+
+// Raw settings sent by the client
+let clientSettings: Record<string, unknown> = {};
+Settings.setSource((key, defaultValue) =>
+	key in clientSettings ? (clientSettings[key] as typeof defaultValue) : defaultValue
+);
+
+const logger = new LoggingService((line) => {
+	connection.console.log(line);
+});
+
+// Created on initialization, once the client's settings are known
+let cache: CacheService;
+let pathResolver: PathResolver;
+let typeResolver: TypeResolver;
+let diagnostics: DiagnosticsService;
+
+// Whether hovers include command links, and the inherited attribute lists they expanded
+let commandLinks = false;
+const expandedAttributeTypes = new Set<string>();
+
+/**
+ * Get the adapter for an open `.svelte` file, or undefined for any other document.
+ */
+function getSvelteDocument(uri: string): LspDocument | undefined {
+	const document = documents.get(uri);
+	if (!document || !uri.startsWith('file:') || !uri.endsWith('.svelte')) return undefined;
+	return new LspDocument(document);
+}
+
+/**
+ * Apply settings received from the client, clearing caches built with the previous ones.
+ */
+function updateSettings(settings: unknown): void {
+	clientSettings =
+		settings && typeof settings === 'object' ? (settings as Record<string, unknown>) : {};
+
+	cache.clear();
+	pathResolver.setDetailedLogging(Settings.getDetailedResolverLogging());
+	pathResolver.setMaxBarrelDepth(Settings.getBarrelFileMaxDepth());
+	pathResolver.setBarrelFileNames(Settings.getBarrelFileNames());
+	pathResolver.setBarrelPriority(Settings.getBarrelPriority());
+	pathResolver.setExportConditions(Settings.getExportConditions());
+	typeResolver.setDetailedLogging(Settings.getDetailedResolverLogging());
+	typeResolver.setMaxDepth(Settings.getTypeResolutionMaxDepth());
+	typeResolver.clear();
+	diagnostics.setEnabled(Settings.getEnableDiagnostics());
+	logger.logSettingsChanged();
+}
+
+let canWatchFiles = false;
+
+connection.onInitialize((params): InitializeResult => {
+	if (params.initializationOptions && typeof params.initializationOptions === 'object')
+		clientSettings = params.initializationOptions as Record<string, unknown>;
+	commandLinks = clientSettings.commandLinks === true;
+	canWatchFiles =
+		params.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration ?? false;
+
+	cache = new CacheService(Settings.getCacheExpirationMinutes());
+	pathResolver = new PathResolver(
+		cache.getPathResolverCache(),
+		logger,
+		Settings.getDetailedResolverLogging(),
+		Settings.getBarrelFileMaxDepth(),
+		Settings.getBarrelFileNames(),
+		Settings.getBarrelPriority(),
+		Settings.getExportConditions()
+	);
+	typeResolver = new TypeResolver(
+		pathResolver,
+		logger,
+		Settings.getDetailedResolverLogging(),
+		Settings.getTypeResolutionMaxDepth()
+	);
+	diagnostics = new DiagnosticsService(
+		cache,
+		(document, tagName) =>
+			getPropsForHoveredComponent(document, tagName, cache, pathResolver, typeResolver),
+		() => documents.all(),
+		(uri, items) => {
+			void connection.sendDiagnostics({ uri, diagnostics: items });
+		},
+		Settings.getEnableDiagnostics()
+	);
+	logger.logStarted();
+
+	return {
+		capabilities: {
+			textDocumentSync: {
+				openClose: true,
+				change: TextDocumentSyncKind.Incremental,
+				save: true
+			},
+			hoverProvider: true,
+			completionProvider: { triggerCharacters: [' '] },
+			definitionProvider: true
+		},
+		serverInfo: { name: 'sveltedoc' }
+	};
+});
+
+connection.onInitialized(() => {
+	// Watch config files so path aliases and workspace packages are re-read when they change
+	if (canWatchFiles)
+		void connection.client.register(DidChangeWatchedFilesNotification.type, {
+			watchers: [
+				{ globPattern: '**/tsconfig.json' },
+				{ globPattern: '**/jsconfig.json' },
+				{ globPattern: WORKSPACE_MANIFEST_GLOB },
+				{ globPattern: ALIAS_CONFIG_GLOB },
+				// Components, so documents using them get fresh diagnostics
+				{ globPattern: '**/*.svelte' }
+			]
+		});
+});
+
+connection.onDidChangeConfiguration((params) => {
+	const settings: unknown = params.settings;
+	updateSettings(
+		settings && typeof settings === 'object' && 'sveltedoc' in settings
+			? settings.sveltedoc
+			: settings
+	);
+});
+
+connection.onDidChangeWatchedFiles((params) => {
+	for (const change of params.changes) {
+		if (!change.uri.startsWith('file:')) continue;
+		const filePath = fileURLToPath(change.uri);
+		if (filePath.endsWith('.svelte')) diagnostics.componentChanged(filePath);
+		else if (isWorkspaceManifest(filePath)) pathResolver.invalidateWorkspace(filePath);
+		else if (isAliasConfig(filePath)) pathResolver.invalidateConfigAliases(filePath);
+		else pathResolver.invalidateTsconfig(filePath);
+	}
+});
+
+documents.onDidOpen((event) => {
+	const document = getSvelteDocument(event.document.uri);
+	if (document) logger.logSvelteFileOpened(document.fileName);
+	// Components may have changed while no watcher saw it
+	diagnostics.refreshStale();
+	diagnostics.validate(event.document);
+});
+
+// Refresh diagnostics on save, including documents that use the saved component
+documents.onDidSave((event) => {
+	diagnostics.validate(event.document);
+	if (event.document.uri.startsWith('file:'))
+		diagnostics.componentChanged(fileURLToPath(event.document.uri));
+});
+
+documents.onDidClose((event) => {
+	diagnostics.clear(event.document.uri);
+});
+
+connection.onHover((params): Hover | null => {
+	try {
+		const document = getSvelteDocument(params.textDocument.uri);
+		if (!document) return null;
+
+		// On an attribute name: show only that prop
+		const attributeProp = getAttributePropAtOffset(
+			document,
+			document.offsetAt(params.position),
+			cache,
+			pathResolver,
+			typeResolver
+		);
+		if (attributeProp?.prop)
+			return {
+				contents: {
+					kind: MarkupKind.Markdown,
+					value: TooltipFormatter.displaySingleProp(attributeProp.prop)
+				},
+				range: {
+					start: document.positionAt(attributeProp.attribute.start),
+					end: document.positionAt(attributeProp.attribute.end)
+				}
+			};
+
+		const tag = getTagNameAtPosition(document, params.position, {
+			hoverWithinTag: Settings.getHoverWithinTag(),
+			maxLines: Settings.getHoverWithinTagMaxLines()
+		});
+		if (!tag) return null;
+
+		// Log hover attempt only if different file+tag combination
+		if (!cache.isSameHover(document.fileName, tag))
+			logger.logHoverAttempt(
+				document.fileName,
+				params.position.line,
+				params.position.character
+			);
+
+		const startTime = performance.now();
+		const result = applyUsageGenerics(
+			document,
+			document.offsetAt(params.position),
+			tag,
+			getPropsForHoveredComponent(document, tag, cache, pathResolver, typeResolver)
+		);
+		const durationMs = Math.round(performance.now() - startTime);
+
+		// Log component hover only if different file+tag+path combination
+		if (!cache.isSameComponent(document.fileName, tag, result.componentPath)) {
+			logger.logComponentHover(tag, result.componentPath);
+			if (!result.success || !result.props)
+				logger.logPropsExtractionFailed(tag, result.failureReason ?? 'Unknown reason');
+		}
+		// Update tracked state
+		cache.setHover(document.fileName, tag, result.componentPath);
+		// Always log extraction timing with cache source
+		if (result.success && result.props)
+			logger.logPropsExtracted(
+				tag,
+				result.props.length,
+				durationMs,
+				result.fromCache ?? false
+			);
+
+		return {
+			contents: {
+				kind: MarkupKind.Markdown,
+				value: formatComponentTooltip(tag, result, {
+					commandLinks,
+					expandedAttributeTypes: Array.from(expandedAttributeTypes),
+					hoverTarget: {
+						uri: params.textDocument.uri,
+						line: params.position.line,
+						character: params.position.character
+					}
+				})
+			}
+		};
+	} catch (error) {
+		logger.logError(error as Error, 'HoverProvider');
+		return null;
+	}
+});
+
+connection.onCompletion((params): CompletionItem[] | null => {
+	try {
+		const document = getSvelteDocument(params.textDocument.uri);
+		if (!document) return null;
+
+		const completionContext = getTagCompletionContext(
+			document,
+			params.position,
+			Settings.getHoverWithinTagMaxLines()
+		);
+		if (!completionContext) return null;
+
+		const result = getPropsForHoveredComponent(
+			document,
+			completionContext.tagName,
+			cache,
+			pathResolver,
+			typeResolver
+		);
+		if (!result.success || !result.props) return null;
+
+		return getPropCompletions(result, completionContext.existingAttributes).map(
+			(completion) => ({
+				label: completion.prop.name,
+				kind: CompletionItemKind.Property,
+				detail: completion.detail,
+				documentation: { kind: MarkupKind.Markdown, value: completion.documentation },
+				sortText: completion.sortText,
+				insertText: completion.snippet,
+				insertTextFormat: InsertTextFormat.Snippet
+			})
+		);
+	} catch (error) {
+		logger.logError(error as Error, 'CompletionProvider');
+		return null;
+	}
+});
+
+connection.onDefinition((params): Location | null => {
+	try {
+		const document = getSvelteDocument(params.textDocument.uri);
+		if (!document) return null;
+
+		// On an attribute name: jump to the prop's declaration
+		const attributeProp = getAttributePropAtOffset(
+			document,
+			document.offsetAt(params.position),
+			cache,
+			pathResolver,
+			typeResolver
+		);
+		const location = attributeProp?.prop?.location;
+		const declaringFile = location?.file ?? attributeProp?.componentPath;
+		if (location && declaringFile && fs.existsSync(declaringFile)) {
+			const position = getPositionInFile(declaringFile, location.offset);
+			return Location.create(pathToFileURL(declaringFile).href, {
+				start: position,
+				end: position
+			});
+		}
+
+		const tagName = attributeProp?.tagName ?? getTagNameAtPosition(document, params.position);
+		if (!tagName) return null;
+
+		const componentPath = resolveComponentImport(document, tagName, pathResolver).componentPath;
+		if (!componentPath || !fs.existsSync(componentPath)) return null;
+
+		const start = { line: 0, character: 0 };
+		return Location.create(pathToFileURL(componentPath).href, { start, end: start });
+	} catch (error) {
+		logger.logError(error as Error, 'DefinitionProvider');
+		return null;
+	}
+});
+
+connection.onRequest(CLEAR_CACHE_REQUEST, () => {
+	cache.clear();
+	typeResolver.clear();
+	logger.logCacheCleared();
+});
+
+connection.onRequest(TOGGLE_INHERITED_ATTRIBUTES_REQUEST, (typeName: string) => {
+	if (expandedAttributeTypes.has(typeName)) expandedAttributeTypes.delete(typeName);
+	else expandedAttributeTypes.add(typeName);
+});
+
+connection.onRequest(EXPORT_MANIFEST_REQUEST, (params: { rootUri: string }): string =>
+	formatManifest(createManifest(fileURLToPath(params.rootUri), typeResolver))
+);
+
+connection.onRequest(
+	EXPLAIN_RESOLUTION_REQUEST,
+	(params: TextDocumentPositionParams): ResolutionExplanation | null => {
+		const document = getSvelteDocument(params.textDocument.uri);
+		const tagName =
+			document &&
+			getTagNameAtPosition(document, params.position, {
+				hoverWithinTag: Settings.getHoverWithinTag(),
+				maxLines: Settings.getHoverWithinTagMaxLines()
+			});
+		if (!document || !tagName) return null;
+
+		return { tagName, trace: explainComponentResolution(document, tagName, pathResolver) };
+	}
+);
+
+documents.listen(connection);
+connection.listen();
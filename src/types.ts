@@ -9,6 +9,30 @@ export type PropInfo = {
 	bindable: boolean;
 	defaultValue?: string;
 	comment?: string;
+	readonly?: boolean; // Legacy `export const`/`export function` (read via bind:this, not set)
+	inheritedFrom?: string; // Parent type the prop was inherited from (e.g., 'BaseProps')
+	location?: SourceLocation; // Where the prop is declared (props type entry, destructuring or export)
+	jsdoc?: JSDocInfo; // Structured JSDoc, when the comment has supported tags
+};
+
+/**
+ * Structured JSDoc of a prop: the description plus the supported block tags.
+ */
+export type JSDocInfo = {
+	description: string; // Comment text without the supported tags (same as `comment`)
+	deprecated?: string; // `@deprecated` reason (empty when no reason is given)
+	default?: string; // `@default` / `@defaultValue`
+	examples?: string[]; // `@example` code, one entry per tag
+	see?: string[]; // `@see` references ({@link} tags become Markdown links)
+	since?: string; // `@since` version
+};
+
+/**
+ * Location of a declaration in source code.
+ */
+export type SourceLocation = {
+	offset: number; // Offset of the declared name
+	file?: string; // Absolute path of the file, when it isn't the component itself (imported types)
 };
 
 /**
@@ -18,6 +42,7 @@ export type PropInfo = {
 export type ScriptBlock = {
 	content: string;
 	attributes: Record<string, string | true>;
+	offset?: number; // Offset of the content within the component file
 };
 
 /**
@@ -27,6 +52,25 @@ export type ScriptBlock = {
 export type ImportInfo = {
 	specifier: string; // Module specifier (e.g., '@budget-suite/shared')
 	originalName?: string; // Original export name if aliased (e.g., 'Card' for 'Card as CoreCard')
+	namespace?: boolean; // True for namespace imports (`import * as UI from '$lib/ui'`)
+};
+
+/**
+ * A re-export statement of a module (`export { X as Y } from './x'` or `export * from './x'`).
+ */
+export type ReExport = {
+	specifier: string;
+	names?: Map<string, string>; // Exported name -> original name; undefined for `export *`
+};
+
+/**
+ * Parsed contents of a TypeScript file used by TypeResolver.
+ */
+export type TypeFileInfo = {
+	mtime: number; // File modification time in milliseconds
+	typeMap: TypeMap; // Type/interface definitions declared in the file
+	imports: Map<string, ImportInfo>; // Imports (including type-only imports)
+	reExports: ReExport[];
 };
 
 /**
@@ -36,6 +80,7 @@ export type ImportInfo = {
 export type PropCacheEntry = {
 	result: PropExtractionResult;
 	mtime: number; // File modification time in milliseconds
+	dependencyMtimes?: Record<string, number>; // Modification times of result.dependencies
 	lastAccessed: number; // Timestamp of last access
 };
 
@@ -45,6 +90,24 @@ export type PropCacheEntry = {
 export type TsconfigCacheEntry<T> = {
 	result: T | null;
 	mtime: number;
+	missingExtends?: string; // Generated .svelte-kit/tsconfig.json the config extends but that doesn't exist yet
+};
+
+/**
+ * Aliases declared in a project's svelte.config.js (`kit.alias`) and vite.config.ts (`resolve.alias`).
+ */
+export type ConfigAliases = {
+	root: string; // Directory containing the config files
+	aliases: Record<string, string>; // Alias → absolute target path
+	files: string[]; // Config files the aliases were read from
+};
+
+/**
+ * Cache entry for config file aliases, validated against the config files' modification times.
+ */
+export type ConfigAliasCacheEntry = {
+	result: ConfigAliases | null;
+	mtimes: Record<string, number>; // Config files and searched directories → modification time
 };
 
 /**
@@ -56,6 +119,28 @@ export type TypeEntry = {
 	type: string;
 	required: boolean;
 	comment?: string;
+	jsdoc?: JSDocInfo; // Structured JSDoc, when the comment has supported tags
+	inheritedFrom?: string; // Parent type that declared the entry (set when expanding extends chains)
+	location?: SourceLocation; // Where the entry's name is declared
+};
+
+/**
+ * Default value and bindable marker of a prop from the `$props()` destructuring
+ * (or a legacy `export let`).
+ */
+export type DestructuredProp = {
+	defaultValue?: string;
+	bindable: boolean;
+	offset?: number; // Offset of the prop name within the component file
+};
+
+/**
+ * Generic type parameter of a type/interface or component (e.g., `T` or `T extends Item = Item`).
+ */
+export type TypeParameter = {
+	name: string;
+	constraint?: string; // Type after `extends`
+	default?: string;
 };
 
 /**
@@ -65,6 +150,21 @@ export type TypeEntry = {
 export type TypeDefinition = {
 	entries: Partial<Record<string, TypeEntry>>;
 	inherits: string[]; // parent types/interfaces being extended or unioned
+	typeParameters?: TypeParameter[]; // Generic parameters, substituted when referenced with arguments
+};
+
+/**
+ * A prop declared with legacy (Svelte 4) `export let/const/function` syntax.
+ * Used internally by propParser before conversion to PropInfo.
+ */
+export type LegacyPropDeclaration = {
+	name: string;
+	type?: string; // Type annotation, or inferred from a literal default
+	defaultValue?: string;
+	readonly: boolean; // `export const` and `export function` can't be set by the parent
+	comment?: string;
+	jsdoc?: JSDocInfo;
+	offset: number; // Offset of the declared name within the component file
 };
 
 /**
@@ -73,6 +173,24 @@ export type TypeDefinition = {
  */
 export type TypeMap = Partial<Record<string, TypeDefinition>>;
 
+/**
+ * Lookup for a props type that isn't declared in the component itself (e.g., imported
+ * from a `.ts` file). Returns the definition with its resolvable parents already merged
+ * in, so `inherits` only lists the types that could not be found.
+ */
+export type ExternalTypeResolver = (typeName: string) => TypeDefinition | undefined;
+
+/**
+ * Everything propParser needs to expand a props type reference into its full entry set
+ * (parents, inline object types and utility types).
+ */
+export type TypeExpansionContext = {
+	typeMap: TypeMap; // Types declared in the component
+	resolveExternalType?: ExternalTypeResolver; // Lookup for types declared elsewhere
+	normaliseComment: boolean; // Used when parsing inline object types
+	normaliseType: boolean;
+};
+
 /**
  * Scanner context states for character-by-character type parsing.
  * Used by PropertyScanner to track current parsing state.
@@ -93,9 +211,61 @@ export type PropExtractionResult = {
 	success: boolean;
 	props?: PropInfo[];
 	inherits?: string[]; // Parent types/interfaces being extended or unioned
+	restProps?: boolean; // Accepts any attribute (`$$restProps`, `$$props` or a `$props()` rest)
+	snippets?: SnippetInfo[]; // Snippet props and legacy `<slot>`s, shown in their own section
+	events?: EventInfo[]; // Callback props and legacy dispatched events, shown in their own section
+	documentation?: string; // Markdown from the component's `<!-- @component -->` comment
+	generics?: TypeParameter[]; // Type parameters from `<script generics="...">`
+	genericArguments?: Record<string, string>; // Type arguments inferred at a usage site (never cached)
 	componentPath?: string;
 	failureReason?: string;
 	fromCache?: boolean; // Indicates if result came from cache
+	dependencies?: string[]; // Other files the props were read from (e.g., imported type files)
+};
+
+/**
+ * A snippet a component renders: a prop typed `Snippet`/`Snippet<[...]>`, or a legacy `<slot>`.
+ */
+export type SnippetInfo = {
+	name: string; // Prop name, or slot name (`default` for an unnamed slot)
+	parameters: SnippetParameter[]; // Arguments passed to the snippet (slot props for legacy slots)
+	required: boolean;
+	comment?: string;
+	slot?: boolean; // Declared with `<slot>` in the component markup
+};
+
+/**
+ * A named argument of a snippet, from its parameter tuple (`Snippet<[item: Item]>`).
+ */
+export type SnippetParameter = {
+	name: string; // Tuple label, or `argN` for unlabelled elements
+	type?: string; // Undefined for legacy slot props
+};
+
+/**
+ * An event a component emits: a callback prop (`onSave`), or a legacy event dispatched with
+ * `createEventDispatcher` and listened to with `on:save`.
+ */
+export type EventInfo = {
+	name: string; // Callback prop name, or dispatched event name
+	type: string; // Callback type, or the `detail` type of a dispatched event
+	required: boolean;
+	comment?: string;
+	dispatched?: boolean; // Emitted through `createEventDispatcher`
+	forwarded?: boolean; // DOM event forwarded with `on:click`, typed as the event itself
+};
+
+/**
+ * A component's API read from its `.svelte.d.ts` declaration file, as shipped by published
+ * libraries next to (or instead of) the compiled `.svelte` file.
+ */
+export type ComponentDeclaration = {
+	props: PropInfo[]; // Locations point into the declaration file
+	inherits: string[];
+	events: EventInfo[]; // Events from the `SvelteComponent` events type (callback props are in props)
+	slots: SnippetInfo[]; // Slots from the `SvelteComponent` slots type
+	generics: TypeParameter[]; // Type parameters of generic components
+	documentation?: string; // JSDoc above the component declaration
 };
 
 /**
@@ -116,10 +286,106 @@ export type FormatSettings = {
 	showTypes: boolean;
 	showDefaults: boolean;
 	showInheritance: boolean;
+	showDocumentation: boolean; // Show the `<!-- @component -->` docs above the props
+	/** Inherited `svelte/elements` types whose attribute list is expanded */
+	expandedAttributeTypes?: string[];
+	/** Whether to add VS Code command links (e.g. "Show all"); false for other clients */
+	commandLinks?: boolean;
+	/** Document and position of the hover, so command links can re-open it in the same place */
+	hoverTarget?: HoverTarget;
+};
+
+/**
+ * Where a hover was opened: the document URI and the zero-based line and character.
+ */
+export type HoverTarget = {
+	uri: string;
+	line: number;
+	character: number;
+};
+
+/**
+ * Result of the `sveltedoc/explainResolution` request: the component tag at the position and
+ * the Markdown trace of its import resolution.
+ */
+export type ResolutionExplanation = {
+	tagName: string;
+	trace: string;
+};
+
+/**
+ * Reads the raw value of a `sveltedoc.*` setting, returning the default when it isn't set.
+ */
+export type SettingsSource = <T>(key: string, defaultValue: T) => T;
+
+/**
+ * Receives the detailed log messages of the path and type resolvers.
+ */
+export type ResolverLogger = {
+	logResolverMessage: (message: string) => void;
+};
+
+/**
+ * The document a component is used in, as needed to resolve its imports.
+ */
+export type SourceDocument = {
+	fileName: string; // Absolute file path
+	getText: () => string;
+};
+
+/**
+ * The component prop set by an attribute under the cursor.
+ */
+export type AttributeProp = {
+	attribute: TagAttribute; // Absolute offsets within the document
+	tagName: string;
+	componentPath?: string;
+	prop?: PropInfo; // Undefined if the component doesn't declare the attribute
+};
+
+/**
+ * A completion entry for a component prop, shared by the VS Code and LSP providers.
+ */
+export type PropCompletion = {
+	prop: PropInfo;
+	detail: string; // Type, with the default value if any
+	documentation: string; // Markdown
+	sortText: string; // Required props first
+	snippet: string; // e.g. `variant={$1}`
+};
+
+/**
+ * Attributes declared by a single `svelte/elements` interface.
+ */
+export type ElementAttributeGroup = {
+	interfaceName: string; // e.g. HTMLButtonAttributes
+	attributes: string[];
+};
+
+/**
+ * Attributes a props type inherits from a `svelte/elements` type such as
+ * `HTMLButtonAttributes` or `SvelteHTMLElements['div']`.
+ */
+export type ElementAttributeSummary = {
+	typeName: string; // The inherited type as written in the props type
+	interfaceName: string; // The catalogue interface it refers to
+	groups: ElementAttributeGroup[]; // Most specific interface first
+	count: number; // Total number of attributes across all groups
+};
+
+/**
+ * Detects a package manager's workspace root and reads its package patterns.
+ * Registered with `PathResolver.setWorkspaceDetectors()`; the first detector that
+ * recognises a directory wins.
+ */
+export type WorkspaceDetector = {
+	name: string; // Package manager name (e.g., pnpm, yarn-berry)
+	manifest: string; // File at the workspace root that declares the packages (e.g., pnpm-workspace.yaml)
+	getPackagePatterns: (directory: string) => string[] | null; // Package globs, or null if the directory isn't a workspace root for this package manager
 };
 
 /**
- * Workspace package information from pnpm-workspace.yaml.
+ * Workspace package information from a workspace manifest.
  * Represents a single package in the workspace with its metadata.
  */
 export type WorkspacePackage = {
@@ -135,7 +401,8 @@ export type WorkspacePackage = {
 export type WorkspaceCacheEntry = {
 	workspaceRoot: string; // Absolute path to workspace root
 	packages: Map<string, WorkspacePackage>; // Map of package name to package info
-	mtime: number; // pnpm-workspace.yaml modification time in milliseconds
+	manifestPath: string; // Absolute path to the workspace manifest (pnpm-workspace.yaml or package.json)
+	mtime: number; // Workspace manifest modification time in milliseconds
 };
 
 /**
@@ -158,3 +425,208 @@ export type BarrelResolutionResult = {
 	depth: number; // Number of barrel files traversed
 	durationMs: number; // Time taken to resolve in milliseconds
 };
+
+/**
+ * The import resolution strategy (or part of one) a trace step belongs to.
+ */
+export type ResolutionStrategy =
+	| 'relative'
+	| 'tsconfig'
+	| 'configAlias'
+	| 'workspace'
+	| 'nodeModules'
+	| 'exports'
+	| 'barrel'
+	| 'probe';
+
+/**
+ * One step of a traced import resolution (see PathResolver.traceResolution).
+ */
+export type ResolutionTraceStep = {
+	strategy: ResolutionStrategy;
+	outcome: 'info' | 'matched' | 'rejected';
+	message: string; // Localised description, including why the step was rejected
+	path?: string; // File, directory or config file the step is about
+	barrelDepth?: number; // Barrel hop the step belongs to (1 = first barrel file)
+};
+
+/**
+ * A traced `PathResolver.resolve` call, for the "Explain Resolution" command.
+ */
+export type ResolutionTrace = {
+	fromFile: string; // Absolute path of the importing file
+	specifier: string;
+	componentName?: string; // Export looked for in barrel files
+	resolvedPath?: string; // Undefined if the specifier couldn't be resolved
+	steps: ResolutionTraceStep[];
+};
+
+/**
+ * A single attribute found in a component's opening tag.
+ * Offsets are relative to the text that was scanned.
+ */
+export type TagAttribute = {
+	name: string; // Raw attribute name (e.g., 'variant', 'bind:value', 'on:click')
+	start: number; // Offset of the first character of the name
+	end: number; // Offset immediately after the name
+	expression?: string; // Trimmed `{...}` value (e.g., 'rows' for `items={rows}` or `{rows}`)
+};
+
+/**
+ * Scanner position within an opening tag's attribute list.
+ */
+export type AttributeScanState = 'between' | 'name' | 'afterName' | 'value';
+
+/**
+ * Result of scanning an opening tag's attribute list.
+ */
+export type TagAttributeScan = {
+	attributes: TagAttribute[];
+	closed: boolean; // True if the closing `>` of the opening tag was reached
+	closeOffset?: number; // Offset of the closing `>` (only when closed)
+	state: AttributeScanState; // State at the point scanning stopped
+	hasSpread: boolean; // True if a spread attribute ({...rest}) was found
+};
+
+/**
+ * Context for prop-name completions inside a component's opening tag.
+ */
+export type TagCompletionContext = {
+	tagName: string;
+	existingAttributes: string[]; // Raw names of attributes already present on the tag
+};
+
+/**
+ * A component tag found in a Svelte document's markup.
+ * All offsets are absolute within the document text.
+ */
+export type ComponentUsage = {
+	tagName: string;
+	nameStart: number; // Offset of the first character of the tag name
+	nameEnd: number; // Offset immediately after the tag name
+	attributes: TagAttribute[];
+	hasSpread: boolean; // Spread attributes may provide any prop
+	selfClosing: boolean;
+	children?: string; // Text between the opening and closing tag (when not self-closing)
+};
+
+/**
+ * An attribute of a component tag, found at a given document offset.
+ */
+export type AttributeUsage = {
+	usage: ComponentUsage; // The component tag the attribute belongs to
+	attribute: TagAttribute; // The attribute under the offset (absolute offsets)
+};
+
+/**
+ * A generated documentation page for a single component.
+ */
+export type ComponentDocPage = {
+	name: string; // Component name (file name without `.svelte`)
+	sourcePath: string; // Component path relative to the scanned directory (forward slashes)
+	pagePath: string; // Page path relative to the output directory (forward slashes)
+	result: PropExtractionResult;
+};
+
+/**
+ * How a module script export is declared.
+ */
+export type ModuleExportKind =
+	| 'const'
+	| 'let'
+	| 'var'
+	| 'function'
+	| 'class'
+	| 'type'
+	| 'interface'
+	| 'enum';
+
+/**
+ * A named export of a component's module script (`<script module>`).
+ */
+export type ModuleExport = {
+	name: string;
+	kind?: ModuleExportKind; // Undefined for re-exports and names declared elsewhere
+};
+
+/**
+ * A prop in the component manifest.
+ */
+export type ManifestProp = {
+	name: string;
+	type: string;
+	required: boolean;
+	bindable: boolean;
+	default?: string;
+	comment?: string;
+	inheritedFrom?: string; // Parent type that declared the prop
+	readonly?: boolean; // Legacy `export const`/`export function`
+	deprecated?: string; // `@deprecated` reason (empty when no reason is given)
+	examples?: string[]; // `@example` code
+	see?: string[]; // `@see` references
+	since?: string; // `@since` version
+};
+
+/**
+ * A snippet prop (typed `Snippet` or `Snippet<[...]>`) or legacy `<slot>` in the component
+ * manifest.
+ */
+export type ManifestSnippet = {
+	name: string;
+	type?: string; // Snippet prop type; undefined for legacy slots
+	required: boolean;
+	parameters: SnippetParameter[]; // Snippet arguments, or slot props
+	comment?: string;
+	slot?: boolean; // Legacy `<slot>`
+};
+
+/**
+ * A callback prop or legacy dispatched event in the component manifest.
+ */
+export type ManifestEvent = {
+	name: string;
+	type: string; // Callback type, or the `detail` type of a dispatched event
+	required: boolean;
+	comment?: string;
+	dispatched?: boolean; // Emitted through `createEventDispatcher`
+	forwarded?: boolean; // DOM event forwarded with `on:click`
+};
+
+/**
+ * A component entry in the component manifest.
+ */
+export type ManifestComponent = {
+	name: string; // File name without `.svelte`
+	path: string; // Relative to the scanned directory (forward slashes)
+	props: ManifestProp[]; // Declaration order
+	inherits: string[]; // Parent types that could not be resolved
+	snippets: ManifestSnippet[];
+	events: ManifestEvent[];
+	generics: TypeParameter[]; // From `<script generics="...">`
+	moduleExports: ModuleExport[];
+	documentation?: string; // `<!-- @component -->` Markdown
+	deprecated?: string; // `@deprecated` reason from the documentation (empty when none is given)
+};
+
+/**
+ * Versioned, machine-readable metadata for every component in a directory.
+ */
+export type ComponentManifest = {
+	$schema: string;
+	version: number; // Bumped on breaking changes to the format
+	generator: string; // e.g. `sveltedoc@2.5.2`
+	components: ManifestComponent[];
+};
+
+/**
+ * A problem found when validating a component usage against its extracted props.
+ * Offsets are absolute within the validated document text.
+ */
+export type PropValidationIssue = {
+	kind: 'missingRequired' | 'unknownAttribute' | 'deprecatedProp' | 'deprecatedComponent';
+	tagName: string;
+	propName?: string; // Not set for component-level issues (deprecatedComponent)
+	reason?: string; // Deprecation reason, if the `@deprecated` tag gave one
+	start: number;
+	end: number;
+};
@@ -0,0 +1,395 @@
+import * as fs from 'node:fs';
+import type { CacheService } from '../classes/CacheService';
+import { TooltipFormatter } from '../classes/TooltipFormatter';
+import type { Position } from '../interfaces/vscode';
+import { mergeDeclaredProps, parseComponentDeclaration } from '../parsers/declarationParser';
+import { getEventsFromProps, parseDispatchedEvents } from '../parsers/eventParser';
+import {
+	inferGenericArguments,
+	instantiateGenerics,
+	parseComponentGenerics
+} from '../parsers/genericParser';
+import {
+	hasRestProps,
+	parsePropsDestructuring,
+	parsePropsFromScriptBlocks
+} from '../parsers/propParser';
+import { getSnippetsFromProps, parseLegacySlots } from '../parsers/snippetParser';
+import { findAttributeAtOffset, findComponentUsages } from '../parsers/tagParser';
+import type {
+	AttributeProp,
+	ComponentDeclaration,
+	ComponentUsage,
+	FormatSettings,
+	ImportInfo,
+	PropCompletion,
+	PropExtractionResult,
+	ScriptBlock,
+	SourceDocument
+} from '../types';
+import { resolveImportedComponent, traceComponentReference } from './componentReference';
+import {
+	extractComponentDocumentation,
+	extractImportsFromScriptBlocks,
+	extractScriptBlocksFromText
+} from './extractor';
+import type { PathResolver } from './pathResolver';
+import { getPropNameFromAttribute } from './propValidation';
+import { Settings } from './settings';
+import type { TypeResolver } from './typeResolver';
+
+/**
+ * Legacy component variables that forward every attribute the component doesn't declare.
+ */
+const LEGACY_REST_PROPS = /\$\$(?:restProps|props)\b/;
+
+/**
+ * Find the import for a component tag and resolve it to an absolute file path
+ * (with path alias, workspace package and barrel file support). Member tags (`<UI.Button>`,
+ * `<Tabs.Item>`) are followed through namespace imports and compound component objects,
+ * and local aliases (`{@const C = UI.Button}`) back to their import.
+ * @param document The document using the component
+ * @param tagName The component tag name (or a `<svelte:component this={...}>` reference)
+ * @param pathResolver Optional path resolver
+ * @returns The import info (if imported) and the resolved path (if resolvable)
+ */
+export function resolveComponentImport(
+	document: SourceDocument,
+	tagName: string,
+	pathResolver?: PathResolver
+): { importInfo?: ImportInfo; componentPath?: string } {
+	const text = document.getText();
+	const imports = extractImportsFromScriptBlocks(extractScriptBlocksFromText(text));
+	const [localName, ...members] = traceComponentReference(text, tagName, imports).split('.');
+	const importInfo = imports.get(localName);
+	if (!importInfo) return {};
+
+	const componentPath =
+		pathResolver &&
+		resolveImportedComponent(pathResolver, document.fileName, importInfo, localName, members);
+	return { importInfo, componentPath };
+}
+
+/**
+ * Extract props for the component hovered over in the given document at the specified tag.
+ * @param document The document using the component
+ * @param tagName The component tag name at the hover location
+ * @param cache Optional CacheService instance for caching results
+ * @param pathResolver Optional PathResolver instance for resolving import paths
+ * @param typeResolver Optional TypeResolver instance for props types imported from other files
+ * @returns The prop extraction result
+ */
+export function getPropsForHoveredComponent(
+	document: SourceDocument,
+	tagName: string,
+	cache?: CacheService,
+	pathResolver?: PathResolver,
+	typeResolver?: TypeResolver
+): PropExtractionResult {
+	// 1-2) Find the component's import and resolve it to an absolute file path
+	const resolved = resolveComponentImport(document, tagName, pathResolver);
+	const importInfo = resolved.importInfo;
+	if (!importInfo)
+		return { success: false, failureReason: 'No import found for component', fromCache: false };
+
+	const compPath = resolved.componentPath;
+	if (!compPath)
+		return {
+			success: false,
+			componentPath: importInfo.specifier,
+			failureReason: 'Could not resolve import path',
+			fromCache: false
+		};
+
+	return extractComponentProps(compPath, cache, typeResolver);
+}
+
+/**
+ * Extract the props of a component file, following imported props types.
+ * @param compPath Absolute path of the `.svelte` component
+ * @param cache Optional CacheService instance for caching results
+ * @param typeResolver Optional TypeResolver instance for props types imported from other files
+ * @returns The prop extraction result
+ */
+export function extractComponentProps(
+	compPath: string,
+	cache?: CacheService,
+	typeResolver?: TypeResolver
+): PropExtractionResult {
+	// 3) Check cache if available
+	if (cache) {
+		const cached = cache.get(compPath);
+		if (cached)
+			// Return cached result with fromCache flag
+			return { ...cached, fromCache: true };
+	}
+
+	// 4) Read component file (and its .svelte.d.ts declarations) and extract script blocks
+	const sourcePath = compPath.endsWith('.svelte.d.ts') ? compPath.slice(0, -5) : compPath;
+	const declarationPath = findDeclarationFile(compPath);
+	if (!fs.existsSync(sourcePath) && !declarationPath)
+		return {
+			success: false,
+			componentPath: compPath,
+			failureReason: 'Component file does not exist',
+			fromCache: false
+		};
+
+	// Libraries may ship only the declarations
+	const text = fs.existsSync(sourcePath) ? fs.readFileSync(sourcePath, 'utf8') : '';
+	const blocks = extractScriptBlocksFromText(text);
+
+	// 5) Get normalization settings
+	const normaliseComment = Settings.getNormaliseComment();
+	const normaliseType = Settings.getNormaliseType();
+	const normaliseDefaultValue = Settings.getNormaliseDefaultValue();
+	const fallbackTypes = Settings.getFallbackTypes();
+
+	// 6) Parse props using heuristic runes-mode parser, following imported props types
+	const dependencies = new Set<string>();
+	typeResolver?.setNormalisation(normaliseComment, normaliseType);
+	const resolveExternalType = typeResolver?.createResolver(blocks, compPath, dependencies);
+	const result = parsePropsFromScriptBlocks(
+		blocks,
+		normaliseComment,
+		normaliseType,
+		normaliseDefaultValue,
+		fallbackTypes,
+		resolveExternalType
+	);
+
+	// 6b) Declarations shipped by published libraries keep the types svelte-package strips
+	// from the compiled source, so their props take precedence
+	let declaration: ComponentDeclaration | undefined;
+	if (declarationPath) {
+		const content = fs.readFileSync(declarationPath, 'utf8');
+		const declarationBlocks: ScriptBlock[] = [{ content, attributes: { lang: 'ts' } }];
+		dependencies.add(declarationPath);
+		declaration = parseComponentDeclaration(
+			content,
+			normaliseComment,
+			normaliseType,
+			normaliseDefaultValue,
+			fallbackTypes,
+			typeResolver?.createResolver(declarationBlocks, declarationPath, dependencies)
+		);
+	}
+	if (declaration) {
+		for (const prop of declaration.props)
+			if (prop.location && !prop.location.file) prop.location.file = declarationPath;
+		result.props = mergeDeclaredProps(
+			declaration.props,
+			result.props,
+			parsePropsDestructuring(blocks, normaliseDefaultValue)
+		);
+		result.inherits = declaration.inherits;
+	}
+
+	// Snippets (props and legacy <slot>s) and events (callback props and legacy dispatched
+	// events) get their own tooltip sections
+	const snippets = [
+		...getSnippetsFromProps(result.props),
+		...(declaration ? declaration.slots : parseLegacySlots(text))
+	];
+	const events = [
+		...getEventsFromProps(result.props),
+		...(declaration
+			? declaration.events
+			: parseDispatchedEvents(blocks, normaliseComment, normaliseType, resolveExternalType))
+	];
+	const documentation = extractComponentDocumentation(text) ?? declaration?.documentation;
+	if (!result.props.length && !snippets.length && !events.length && !documentation) {
+		const failureResult: PropExtractionResult = {
+			success: false,
+			componentPath: compPath,
+			failureReason: 'No $props() found',
+			fromCache: false
+		};
+		return failureResult;
+	}
+
+	const successResult: PropExtractionResult = {
+		success: true,
+		props: result.props,
+		inherits: result.inherits,
+		restProps: LEGACY_REST_PROPS.test(text) || hasRestProps(blocks),
+		snippets,
+		events,
+		documentation,
+		generics: declaration?.generics.length
+			? declaration.generics
+			: parseComponentGenerics(blocks),
+		componentPath: compPath,
+		fromCache: false,
+		dependencies: Array.from(dependencies)
+	};
+
+	// 7) Store in cache if available (only cache successful extractions)
+	if (cache) cache.set(compPath, successResult);
+
+	return successResult;
+}
+
+/**
+ * Find the declaration file of a component: `Button.svelte.d.ts` next to `Button.svelte`,
+ * or the path itself when a library only ships declarations.
+ * @param compPath Absolute path of the component (`.svelte` or `.svelte.d.ts`)
+ * @returns The declaration file path, or undefined if there is none
+ */
+function findDeclarationFile(compPath: string): string | undefined {
+	const declarationPath = compPath.endsWith('.svelte')
+		? `${compPath}.d.ts`
+		: compPath.endsWith('.svelte.d.ts')
+			? compPath
+			: undefined;
+	return declarationPath && fs.existsSync(declarationPath) ? declarationPath : undefined;
+}
+
+/**
+ * Find the component prop set by the attribute name at an offset (e.g. `variant` in
+ * `<Button variant="primary">`).
+ * @param document The document using the component
+ * @param offset The cursor offset within the document
+ * @returns The attribute, its tag and component path, and the matching prop (if the component
+ * declares one), or undefined if the offset isn't on a component attribute name
+ */
+export function getAttributePropAtOffset(
+	document: SourceDocument,
+	offset: number,
+	cache?: CacheService,
+	pathResolver?: PathResolver,
+	typeResolver?: TypeResolver
+): AttributeProp | undefined {
+	const attributeUsage = findAttributeAtOffset(document.getText(), offset);
+	if (!attributeUsage) return undefined;
+
+	const attribute = attributeUsage.attribute;
+	const tagName = attributeUsage.usage.tagName;
+	const result = withUsageGenerics(
+		getPropsForHoveredComponent(document, tagName, cache, pathResolver, typeResolver),
+		attributeUsage.usage,
+		document.getText()
+	);
+	const propName = getPropNameFromAttribute(attribute.name);
+	const prop = result.props?.find((p) => p.name === propName);
+
+	return { attribute, tagName, componentPath: result.componentPath, prop };
+}
+
+/**
+ * Substitute the type arguments of a generic component inferred from the usage at an offset
+ * (e.g. `T = User` for `<Table items={users}>` where `let users: User[]`).
+ * @param document The document using the component
+ * @param offset An offset within the component's opening tag (e.g. the hover position)
+ * @param tagName The component tag name
+ * @param result The prop extraction result for the component (not modified)
+ * @returns The result with inferred type arguments, or the same result if none were inferred
+ */
+export function applyUsageGenerics(
+	document: SourceDocument,
+	offset: number,
+	tagName: string,
+	result: PropExtractionResult
+): PropExtractionResult {
+	if (!result.generics?.length) return result;
+
+	const text = document.getText();
+	const usage = findComponentUsages(text)
+		.filter((u) => u.tagName === tagName && u.nameStart <= offset)
+		.pop();
+	return usage ? withUsageGenerics(result, usage, text) : result;
+}
+
+function withUsageGenerics(
+	result: PropExtractionResult,
+	usage: ComponentUsage,
+	text: string
+): PropExtractionResult {
+	if (!result.success || !result.props || !result.generics?.length) return result;
+	return instantiateGenerics(
+		result,
+		inferGenericArguments(result.generics, result.props, usage, text)
+	);
+}
+
+/**
+ * Convert an offset within a file into a zero-based line and character.
+ * @param filePath Absolute file path
+ * @param offset Offset within the file's content
+ */
+export function getPositionInFile(filePath: string, offset: number): Position {
+	const before = fs.readFileSync(filePath, 'utf8').slice(0, offset);
+	const line = before.split('\n').length - 1;
+	return { line, character: offset - (before.lastIndexOf('\n') + 1) };
+}
+
+/**
+ * Format the hover tooltip for a component using the tooltip settings.
+ * @param tagName The component tag name
+ * @param result The prop extraction result for the component
+ * @param options Client-specific formatting (expanded attribute lists, command links and
+ * the hover position they re-open)
+ * @returns The tooltip as Markdown
+ */
+export function formatComponentTooltip(
+	tagName: string,
+	result: PropExtractionResult,
+	options: Pick<FormatSettings, 'expandedAttributeTypes' | 'commandLinks' | 'hoverTarget'> = {}
+): string {
+	if (!result.success || !result.props)
+		return TooltipFormatter.noPropsFound(tagName, result.componentPath, result.failureReason);
+
+	const formatSettings: FormatSettings = {
+		showComments: Settings.getShowPropertyComments(),
+		showTypes: Settings.getShowPropertyTypes(),
+		showDefaults: Settings.getShowDefaultValues(),
+		showInheritance: Settings.getShowTypeInheritance(),
+		showDocumentation: Settings.getShowComponentDocumentation(),
+		...options
+	};
+
+	// Generic components show their signature (and inferred type arguments) first
+	const signature = TooltipFormatter.displayGenericSignature(
+		tagName,
+		result.generics,
+		result.genericArguments
+	);
+	return (
+		signature +
+		TooltipFormatter.formatTooltip(
+			Settings.getTooltipFormat(),
+			Settings.getTooltipOrder(),
+			result as Required<PropExtractionResult>,
+			formatSettings
+		)
+	);
+}
+
+/**
+ * Build the prop completions for a component tag, leaving out props that are already set.
+ * @param result The prop extraction result for the component
+ * @param existingAttributes Attribute names already present on the tag
+ */
+export function getPropCompletions(
+	result: PropExtractionResult,
+	existingAttributes: string[]
+): PropCompletion[] {
+	if (!result.success || !result.props) return [];
+
+	// Skip props that are already set (including `bind:prop` directives)
+	const existing = new Set(
+		existingAttributes.map((name) => (name.startsWith('bind:') ? name.slice(5) : name))
+	);
+
+	// Read-only legacy exports (export const/function) can't be set by the parent
+	return result.props
+		.filter((prop) => !prop.readonly && !existing.has(prop.name))
+		.map((prop) => ({
+			prop,
+			detail: prop.defaultValue ? `${prop.type} = ${prop.defaultValue}` : prop.type,
+			documentation: TooltipFormatter.displaySingleProp(prop),
+			// Required props are ranked above optional ones
+			sortText: `${prop.required ? '0' : '1'}_${prop.name}`,
+			snippet: `${prop.name}={$1}`
+		}));
+}
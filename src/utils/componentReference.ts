@@ -0,0 +1,231 @@
+import * as fs from 'node:fs';
+import { splitTopLevelCommas, stripCommentsForParsing } from '../parsers/propParser';
+import type { ImportInfo } from '../types';
+import { extractImportsFromScriptBlocks, extractReExports } from './extractor';
+import type { PathResolver } from './pathResolver';
+
+/**
+ * Maximum number of modules followed when resolving a component reference.
+ */
+const MAX_MODULE_DEPTH: number = 10;
+
+/**
+ * A statically traceable component reference: an identifier or member chain (`UI.Button`).
+ */
+const REFERENCE_PATTERN: RegExp = /^[A-Za-z_$][\w$]*(?:\s*\.\s*[A-Za-z_$][\w$]*)*$/;
+
+/**
+ * Follow local aliases of a component in a Svelte document back to an imported reference,
+ * e.g. `C` in `{@const C = UI.Button}` or `const C = $derived(Tabs.Item)` becomes the
+ * reference it is assigned. Aliases assigned anything else (`cond ? A : B`) are not followed.
+ * @param text The full document text
+ * @param reference The component reference (tag name or `this={...}` expression)
+ * @param imports The document's imports
+ * @returns The traced reference, or the original reference if it isn't a local alias
+ */
+export function traceComponentReference(
+	text: string,
+	reference: string,
+	imports: Map<string, ImportInfo>
+): string {
+	const code = stripCommentsForParsing(text);
+	const seen = new Set<string>();
+	let current = reference;
+
+	while (!seen.has(current)) {
+		seen.add(current);
+		const [root, ...members] = current.split('.');
+		if (imports.has(root)) break;
+
+		const escaped = root.replace(/\$/g, '\\$');
+		const alias = new RegExp(
+			`(?:\\{@const|\\b(?:const|let|var))\\s+${escaped}\\s*=\\s*(?:\\$derived\\s*\\(\\s*([^()]*?)\\s*\\)|([^;\\n}]*))`
+		).exec(code);
+		const value = (alias?.[1] ?? alias?.[2])?.trim();
+		if (!value || !REFERENCE_PATTERN.test(value)) break;
+		current = [value.replace(/\s+/g, ''), ...members].join('.');
+	}
+
+	return current;
+}
+
+/**
+ * Resolve an imported component reference to its `.svelte` file. Member chains are followed
+ * through namespace imports (`import * as UI` + `UI.Button`), barrel re-exports and
+ * compound components exported as objects (`export const Tabs = { Root, Item }`).
+ * @param pathResolver The path resolver used for every import specifier
+ * @param fromFile Absolute path of the file containing the import
+ * @param importInfo The import of the reference's first identifier
+ * @param localName The first identifier of the reference
+ * @param members The rest of the member chain (empty for plain tags)
+ * @returns The component path, or undefined if it can't be resolved
+ */
+export function resolveImportedComponent(
+	pathResolver: PathResolver,
+	fromFile: string,
+	importInfo: ImportInfo,
+	localName: string,
+	members: string[] = [],
+	depth: number = 0
+): string | undefined {
+	if (depth > MAX_MODULE_DEPTH) return undefined;
+
+	if (importInfo.namespace) {
+		const modulePath = pathResolver.resolve(fromFile, importInfo.specifier);
+		if (!modulePath || members.length === 0) return undefined;
+		return resolveExport(pathResolver, modulePath, members[0], members.slice(1), depth + 1);
+	}
+
+	// Use the original name for barrel file resolution if the import is aliased
+	const exportName = importInfo.originalName ?? localName;
+	const filePath = pathResolver.resolve(fromFile, importInfo.specifier, exportName);
+	if (!filePath) return undefined;
+	if (isComponentFile(filePath)) return members.length === 0 ? filePath : undefined;
+
+	// A module (e.g. a barrel resolved through a path alias): find the export inside it
+	const resolved = resolveExport(pathResolver, filePath, exportName, members, depth + 1);
+	return resolved ?? (members.length === 0 ? filePath : undefined);
+}
+
+/**
+ * Resolve an export of a module (and the rest of a member chain) to a `.svelte` file.
+ */
+function resolveExport(
+	pathResolver: PathResolver,
+	modulePath: string,
+	exportName: string,
+	members: string[],
+	depth: number
+): string | undefined {
+	if (depth > MAX_MODULE_DEPTH) return undefined;
+	if (isComponentFile(modulePath))
+		return exportName === 'default' && members.length === 0 ? modulePath : undefined;
+
+	let content: string;
+	try {
+		content = stripCommentsForParsing(fs.readFileSync(modulePath, 'utf8'));
+	} catch {
+		return undefined;
+	}
+	const imports = extractImportsFromScriptBlocks([{ content, attributes: {} }]);
+
+	// Follow a member chain from a name declared in this module
+	const resolveLocal = (chain: string[], localDepth: number): string | undefined => {
+		const [root, ...rest] = chain;
+		const importInfo = imports.get(root);
+		if (importInfo)
+			return resolveImportedComponent(
+				pathResolver,
+				modulePath,
+				importInfo,
+				root,
+				rest,
+				depth
+			);
+
+		// Compound component object: `const Tabs = { Root, Item: TabsItem }`
+		const value = rest.length > 0 ? findObjectMember(content, root, rest[0]) : undefined;
+		if (!value || localDepth > MAX_MODULE_DEPTH) return undefined;
+		return resolveLocal([...value.split('.'), ...rest.slice(1)], localDepth + 1);
+	};
+
+	// Declared or imported here (`export const Tabs = {...}`), or exported from a local list
+	if (imports.has(exportName) || declaresName(content, exportName))
+		return resolveLocal([exportName, ...members], 0);
+	const localExport = findLocalExport(content, exportName);
+	if (localExport) return resolveLocal([...localExport.split('.'), ...members], 0);
+
+	// Namespace re-export: `export * as UI from './ui'`
+	const namespaceRe = /export\s+\*\s+as\s+([\w$]+)\s+from\s+['"]([^'"]+)['"]/g;
+	let m: RegExpExecArray | null;
+	while ((m = namespaceRe.exec(content)))
+		if (m[1] === exportName && members.length > 0)
+			return resolveImportedComponent(
+				pathResolver,
+				modulePath,
+				{ specifier: m[2], namespace: true },
+				exportName,
+				members,
+				depth
+			);
+
+	// Re-exports: `export { default as Button } from './Button.svelte'`, `export * from './ui'`
+	for (const reExport of extractReExports(content)) {
+		if (reExport.names && !reExport.names.has(exportName)) continue;
+
+		const originalName = reExport.names?.get(exportName) ?? exportName;
+		const targetPath = pathResolver.resolve(modulePath, reExport.specifier, exportName);
+		if (!targetPath) continue;
+
+		const resolved = resolveExport(pathResolver, targetPath, originalName, members, depth + 1);
+		if (resolved) return resolved;
+	}
+
+	return undefined;
+}
+
+/**
+ * Check whether a resolved file is a component: a `.svelte` file, or the `.svelte.d.ts`
+ * declarations of a library that doesn't ship its sources.
+ */
+function isComponentFile(filePath: string): boolean {
+	return filePath.endsWith('.svelte') || filePath.endsWith('.svelte.d.ts');
+}
+
+/**
+ * Check whether a module declares a name itself (`const`/`let`/`var`/`function`/`class`).
+ */
+function declaresName(content: string, name: string): boolean {
+	const escaped = name.replace(/\$/g, '\\$');
+	return new RegExp(`\\b(?:const|let|var|function|class)\\s+${escaped}\\b`).test(content);
+}
+
+/**
+ * Find the local name behind an export from a local export list (`export { Tabs as T }`),
+ * or the reference exported by default (`export default Tabs`).
+ */
+function findLocalExport(content: string, exportName: string): string | undefined {
+	if (exportName === 'default') {
+		const defaultExport = /export\s+default\s+([A-Za-z_$][\w$.]*)\s*;?\s*$/m.exec(content);
+		return defaultExport?.[1];
+	}
+
+	const listRe = /export\s+\{([^}]*)\}(?!\s*from)/g;
+	let m: RegExpExecArray | null;
+	while ((m = listRe.exec(content)))
+		for (const part of m[1].split(',')) {
+			const nameMatch = /^([\w$]+)(?:\s+as\s+([\w$]+))?$/.exec(part.trim());
+			if (nameMatch && (nameMatch[2] || nameMatch[1]) === exportName) return nameMatch[1];
+		}
+
+	return undefined;
+}
+
+/**
+ * Find the reference assigned to a member of an object literal
+ * (`Item` in `const Tabs = { Root, Item: TabsItem }` gives `TabsItem`).
+ */
+function findObjectMember(content: string, objectName: string, member: string): string | undefined {
+	const escaped = objectName.replace(/\$/g, '\\$');
+	const declaration = new RegExp(
+		`\\b(?:const|let|var)\\s+${escaped}\\s*(?::[^=]+)?=\\s*\\{`
+	).exec(content);
+	if (!declaration) return undefined;
+
+	// Find the closing brace of the object literal
+	const start = declaration.index + declaration[0].length;
+	let depth = 1;
+	let i = start;
+	for (; i < content.length && depth > 0; i++)
+		if (content[i] === '{') depth++;
+		else if (content[i] === '}') depth--;
+
+	for (const part of splitTopLevelCommas(content.slice(start, i - 1))) {
+		const entry = /^['"]?([\w$]+)['"]?\s*(?::\s*([\s\S]+))?$/.exec(part.trim());
+		if (entry?.[1] !== member) continue;
+		const value = (entry[2] || entry[1]).trim();
+		return REFERENCE_PATTERN.test(value) ? value.replace(/\s+/g, '') : undefined;
+	}
+
+	return undefined;
+}
@@ -0,0 +1,346 @@
+import type { TsConfigJsonResolved, TsConfigResult } from 'get-tsconfig';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { stripCommentsForParsing } from '../parsers/propParser';
+import type { ConfigAliases } from '../types';
+
+/**
+ * SvelteKit config files, in the order SvelteKit looks for them.
+ */
+const SVELTE_CONFIG_FILES: string[] = ['svelte.config.js', 'svelte.config.mjs', 'svelte.config.ts'];
+
+/**
+ * Vite config files, in the order Vite looks for them.
+ */
+const VITE_CONFIG_FILES: string[] = [
+	'vite.config.js',
+	'vite.config.mjs',
+	'vite.config.ts',
+	'vite.config.cjs',
+	'vite.config.mts',
+	'vite.config.cts'
+];
+
+/**
+ * A string literal: single or double quotes, or a template without substitutions.
+ */
+const STRING_LITERAL: RegExp = /'([^']*)'|"([^"]*)"|`([^`$]*)`/g;
+
+/**
+ * Identifiers allowed in an alias target besides string literals: the path helpers and
+ * config-directory expressions alias targets are usually built from.
+ */
+const PATH_EXPRESSION_IDENTIFIERS = new Set<string>([
+	'path',
+	'resolve',
+	'join',
+	'dirname',
+	'__dirname',
+	'process',
+	'cwd',
+	'import',
+	'meta',
+	'url',
+	'new',
+	'URL',
+	'fileURLToPath',
+	'pathname'
+]);
+
+/**
+ * Glob matching every config file aliases are read from, for file watchers.
+ */
+export const ALIAS_CONFIG_GLOB: string = '**/{svelte,vite}.config.{js,mjs,cjs,ts,mts,cts}';
+
+/**
+ * Check whether a file is a SvelteKit or Vite config file.
+ * @param filePath Absolute file path
+ */
+export function isAliasConfig(filePath: string): boolean {
+	return /^(?:svelte|vite)\.config\.[cm]?[jt]s$/.test(path.basename(filePath));
+}
+
+/**
+ * Read the aliases of the nearest SvelteKit/Vite project: `kit.alias` (plus SvelteKit's
+ * built-in `$lib`) from svelte.config.js and `resolve.alias` from vite.config.ts.
+ * The files are read statically (never executed), so only literal alias maps with targets
+ * built from strings, `path.resolve()`/`join()`, `__dirname` and `new URL(..., import.meta.url)`
+ * are understood.
+ * @param fromDirectory Directory to search upward from
+ * @returns The project's aliases, or null if no config file was found
+ */
+export function loadConfigAliases(fromDirectory: string): ConfigAliases | null {
+	let directory = fromDirectory;
+	for (;;) {
+		const svelteConfig = findConfigFile(directory, SVELTE_CONFIG_FILES);
+		const viteConfig = findConfigFile(directory, VITE_CONFIG_FILES);
+
+		if (svelteConfig || viteConfig) {
+			const aliases: Record<string, string> = {};
+			if (viteConfig)
+				Object.assign(
+					aliases,
+					readAliases(fs.readFileSync(viteConfig, 'utf8'), 'resolve', directory)
+				);
+			if (svelteConfig) {
+				const content = fs.readFileSync(svelteConfig, 'utf8');
+				aliases.$lib = path.resolve(directory, readKitLibDirectory(content) ?? 'src/lib');
+				Object.assign(aliases, readAliases(content, 'kit', directory));
+			}
+
+			return {
+				root: directory,
+				aliases,
+				files: [svelteConfig, viteConfig].filter((file): file is string => !!file)
+			};
+		}
+
+		const parent = path.dirname(directory);
+		if (parent === directory) return null;
+		directory = parent;
+	}
+}
+
+/**
+ * Load the nearest tsconfig.json when it extends SvelteKit's generated
+ * `.svelte-kit/tsconfig.json` before `svelte-kit sync` has created it. The config is used
+ * without its `extends`; the aliases the generated file would add come from
+ * {@link loadConfigAliases}.
+ * @param fromDirectory Directory to search upward from
+ * @returns The tsconfig and the missing generated file, or null if that isn't the problem
+ */
+export function loadTsconfigWithoutSvelteKit(
+	fromDirectory: string
+): { tsconfig: TsConfigResult; missingExtends: string } | null {
+	let directory = fromDirectory;
+	while (!fs.existsSync(path.join(directory, 'tsconfig.json'))) {
+		const parent = path.dirname(directory);
+		if (parent === directory) return null;
+		directory = parent;
+	}
+
+	const tsconfigPath = path.join(directory, 'tsconfig.json');
+	try {
+		const json = stripCommentsForParsing(fs.readFileSync(tsconfigPath, 'utf8')).replace(
+			/,(\s*[}\]])/g,
+			'$1'
+		);
+		const config = JSON.parse(json) as TsConfigJsonResolved & { extends?: unknown };
+
+		const extendsList: unknown[] = Array.isArray(config.extends)
+			? config.extends
+			: [config.extends];
+		const missingExtends = extendsList
+			.filter((entry): entry is string => typeof entry === 'string')
+			.map((entry) => path.resolve(directory, entry))
+			.find(
+				(entry) =>
+					entry.endsWith(path.join('.svelte-kit', 'tsconfig.json')) &&
+					!fs.existsSync(entry)
+			);
+		if (!missingExtends) return null;
+
+		delete config.extends;
+		return { tsconfig: { path: tsconfigPath, config }, missingExtends };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Find the first of a list of config files in a directory.
+ */
+function findConfigFile(directory: string, fileNames: string[]): string | undefined {
+	return fileNames.map((name) => path.join(directory, name)).find((file) => fs.existsSync(file));
+}
+
+/**
+ * Read the `alias` map of a config section (`kit: { alias }` or `resolve: { alias }`).
+ * Supports object maps and Vite's `[{ find, replacement }]` array form, inline or through
+ * a variable declared in the same file. `key/*` entries are folded into `key`.
+ * @param content Config file content
+ * @param section Name of the object holding the alias map
+ * @param root Directory relative targets are resolved from
+ * @returns Aliases mapped to absolute target paths
+ */
+function readAliases(content: string, section: string, root: string): Record<string, string> {
+	const code = stripCommentsForParsing(content);
+	const aliases: Record<string, string> = {};
+
+	const sectionRegex = new RegExp(`(?:^|[^\\w$.])${section}\\s*:\\s*\\{`, 'g');
+	let match: RegExpExecArray | null;
+	while ((match = sectionRegex.exec(code))) {
+		const sectionEntries = readObjectEntries(code, match.index + match[0].length - 1);
+		const alias = sectionEntries.get('alias');
+		if (!alias) continue;
+
+		let value = alias.trim();
+		const variable = /^[A-Za-z_$][\w$]*$/.test(value)
+			? new RegExp(
+					`\\b(?:const|let|var)\\s+${value.replace(/\$/g, '\\$')}\\s*=\\s*([{[])`
+				).exec(code)
+			: null;
+		if (variable) {
+			const open = variable.index + variable[0].length - 1;
+			value = code.slice(open, findClosingBracket(code, open) + 1);
+		}
+
+		const entries: [string, string][] = [];
+		if (value.startsWith('{'))
+			for (const [key, target] of readObjectEntries(value, 0)) entries.push([key, target]);
+		else if (value.startsWith('['))
+			for (const element of splitTopLevel(value.slice(1, -1))) {
+				const item = element.trim();
+				if (!item.startsWith('{')) continue;
+				const fields = readObjectEntries(item, 0);
+				const find = parseStringLiteral(fields.get('find') ?? '');
+				const replacement = fields.get('replacement');
+				if (find !== undefined && replacement) entries.push([find, replacement]);
+			}
+
+		for (const [key, target] of entries) {
+			const targetPath = evaluatePathExpression(target, root, section === 'resolve');
+			if (targetPath === undefined) continue;
+			aliases[key.replace(/\/\*$/, '')] = targetPath.replace(/[\\/]\*$/, '');
+		}
+		break;
+	}
+
+	return aliases;
+}
+
+/**
+ * Read SvelteKit's `kit.files.lib` directory, which `$lib` points to.
+ */
+function readKitLibDirectory(content: string): string | undefined {
+	const code = stripCommentsForParsing(content);
+	const kit = /(?:^|[^\w$.])kit\s*:\s*\{/.exec(code);
+	if (!kit) return undefined;
+
+	const files = readObjectEntries(code, kit.index + kit[0].length - 1).get('files');
+	if (!files?.trim().startsWith('{')) return undefined;
+
+	return parseStringLiteral(readObjectEntries(files.trim(), 0).get('lib') ?? '');
+}
+
+/**
+ * Read the top-level entries of an object literal.
+ * @param code Code containing the object
+ * @param open Index of the opening `{`
+ * @returns Keys (identifiers or string literals) mapped to their value expressions;
+ * shorthand properties map to their own name
+ */
+function readObjectEntries(code: string, open: number): Map<string, string> {
+	const entries = new Map<string, string>();
+	const close = findClosingBracket(code, open);
+	if (close === -1) return entries;
+
+	for (const member of splitTopLevel(code.slice(open + 1, close))) {
+		const entry = /^\s*(?:([A-Za-z_$][\w$]*)|'([^']*)'|"([^"]*)")\s*(?::([\s\S]*))?$/.exec(
+			member
+		);
+		if (!entry) continue;
+		const key = entry[1] || entry[2] || entry[3];
+		entries.set(key, (entry[4] || key).trim());
+	}
+
+	return entries;
+}
+
+/**
+ * Split code at top-level commas, ignoring commas inside brackets and strings.
+ */
+function splitTopLevel(code: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let quote = '';
+	let start = 0;
+
+	for (let i = 0; i < code.length; i++) {
+		const ch = code[i];
+		if (quote) {
+			if (ch === '\\') i++;
+			else if (ch === quote) quote = '';
+		} else if (ch === '"' || ch === "'" || ch === '`') {
+			quote = ch;
+		} else if (ch === '{' || ch === '[' || ch === '(') {
+			depth++;
+		} else if (ch === '}' || ch === ']' || ch === ')') {
+			depth--;
+		} else if (ch === ',' && depth === 0) {
+			parts.push(code.slice(start, i));
+			start = i + 1;
+		}
+	}
+	parts.push(code.slice(start));
+
+	return parts.filter((part) => part.trim() !== '');
+}
+
+/**
+ * Find the bracket closing the one at `open`, skipping strings.
+ * @returns Index of the closing bracket, or -1 if unbalanced
+ */
+function findClosingBracket(code: string, open: number): number {
+	let depth = 0;
+	let quote = '';
+
+	for (let i = open; i < code.length; i++) {
+		const ch = code[i];
+		if (quote) {
+			if (ch === '\\') i++;
+			else if (ch === quote) quote = '';
+		} else if (ch === '"' || ch === "'" || ch === '`') {
+			quote = ch;
+		} else if (ch === '{' || ch === '[' || ch === '(') {
+			depth++;
+		} else if (ch === '}' || ch === ']' || ch === ')') {
+			depth--;
+			if (depth === 0) return i;
+		}
+	}
+
+	return -1;
+}
+
+/**
+ * Read an expression consisting of a single string literal.
+ */
+function parseStringLiteral(expression: string): string | undefined {
+	const match = new RegExp(`^\\s*(?:${STRING_LITERAL.source})\\s*$`).exec(expression);
+	return match ? match[1] || match[2] || match[3] || '' : undefined;
+}
+
+/**
+ * Statically evaluate an alias target: a string, or a path built with `path.resolve()`,
+ * `join()`, `__dirname`, `process.cwd()` or `new URL('./src', import.meta.url)`. Directory
+ * expressions stand for the config file's directory.
+ * @param expression Target expression
+ * @param root Directory containing the config file
+ * @param rootRelative Whether a plain string starting with `/` is relative to the project root,
+ * as Vite reads `'@': '/src'`
+ * @returns Absolute target path, or undefined if the expression can't be evaluated
+ */
+function evaluatePathExpression(
+	expression: string,
+	root: string,
+	rootRelative: boolean = false
+): string | undefined {
+	const literals = [...expression.matchAll(STRING_LITERAL)].map(
+		(m) => m[1] || m[2] || m[3] || ''
+	);
+	const rest = expression.replace(STRING_LITERAL, '');
+
+	// Anything else (variables, template substitutions, other calls) can't be evaluated
+	const identifiers = rest.match(/[A-Za-z_$][\w$]*/g) ?? [];
+	if (
+		literals.length === 0 ||
+		rest.includes('`') ||
+		identifiers.some((id) => !PATH_EXPRESSION_IDENTIFIERS.has(id))
+	)
+		return undefined;
+
+	if (rootRelative && identifiers.length === 0 && literals[0].startsWith('/'))
+		return path.join(root, ...literals);
+	return path.resolve(root, ...literals);
+}
@@ -0,0 +1,142 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { TooltipFormatter } from '../classes/TooltipFormatter';
+import type { ComponentDocPage, FormatSettings, PropExtractionResult } from '../types';
+import { extractComponentProps } from './componentProps';
+import { t } from './localization';
+import { Settings } from './settings';
+import type { TypeResolver } from './typeResolver';
+
+const INDEX_PAGE = 'index.md';
+
+/**
+ * Page of a root-level `index.svelte`, whose own page would be overwritten by the index.
+ */
+const INDEX_COMPONENT_PAGE = 'index.component.md';
+
+/**
+ * Find every `.svelte` component below a directory, sorted by path.
+ * Skips `node_modules`, hidden directories and SvelteKit route files (`+page.svelte`, ...).
+ * @param rootDir Directory to scan
+ * @returns Absolute file paths
+ */
+export function findSvelteFiles(rootDir: string): string[] {
+	const files: string[] = [];
+
+	const walk = (dir: string): void => {
+		for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+			if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+
+			const fullPath = path.join(dir, entry.name);
+			if (entry.isDirectory()) walk(fullPath);
+			else if (entry.name.endsWith('.svelte') && !entry.name.startsWith('+'))
+				files.push(fullPath);
+		}
+	};
+	walk(rootDir);
+
+	return files.sort();
+}
+
+/**
+ * Extract the props of every component below a directory.
+ * @param rootDir Directory to scan
+ * @param typeResolver Optional TypeResolver for props types imported from other files
+ * @returns One page per component, sorted by source path
+ */
+export function collectComponentDocs(
+	rootDir: string,
+	typeResolver?: TypeResolver
+): ComponentDocPage[] {
+	return findSvelteFiles(rootDir).map((filePath) => {
+		const sourcePath = toPosixPath(path.relative(rootDir, filePath));
+		const pagePath = sourcePath.replace(/\.svelte$/, '.md');
+		return {
+			name: path.basename(filePath, '.svelte'),
+			sourcePath,
+			pagePath: pagePath === INDEX_PAGE ? INDEX_COMPONENT_PAGE : pagePath,
+			result: extractComponentProps(filePath, undefined, typeResolver)
+		};
+	});
+}
+
+/**
+ * Format the Markdown page for a component, using the tooltip's table layout for its props.
+ * @param page The component page
+ */
+export function formatComponentPage(page: ComponentDocPage): string {
+	let md = `# ${page.name}\n\n\`${page.sourcePath}\`\n\n`;
+	if (page.result.documentation) md += `${page.result.documentation}\n\n`;
+	md += `## ${t('docs.page.props')}\n\n`;
+
+	if (!page.result.success || !page.result.props) return md + `_${t('docs.page.noProps')}_\n`;
+
+	const settings: FormatSettings = {
+		showComments: true,
+		showTypes: true,
+		showDefaults: true,
+		showInheritance: true,
+		showDocumentation: false, // Rendered above the Props heading instead
+		commandLinks: false
+	};
+	md += TooltipFormatter.formatTooltip(
+		'table',
+		Settings.getTooltipOrder(),
+		page.result as Required<PropExtractionResult>,
+		settings
+	);
+
+	return md;
+}
+
+/**
+ * Format the index page, linking every component page.
+ * @param pages The component pages
+ */
+export function formatIndexPage(pages: ComponentDocPage[]): string {
+	let md = `# ${t('docs.index.title')}\n\n`;
+	if (pages.length === 0) return md + `_${t('docs.index.noComponents')}_\n`;
+
+	md += `| ${t('docs.index.component')} | ${t('docs.index.source')} | ${t('docs.page.props')} |\n`;
+	md += '|-------|-------|-------|\n';
+	for (const page of pages) {
+		const propCount = TooltipFormatter.getListedProps(page.result).length;
+		md += `| [${page.name}](${page.pagePath}) | \`${page.sourcePath}\` | ${propCount.toString()} |\n`;
+	}
+
+	return md;
+}
+
+/**
+ * Generate Markdown documentation for every component below a directory: one page per
+ * component (mirroring the source folders) plus an `index.md`.
+ * @param rootDir Directory to scan
+ * @param outDir Directory to write the pages to
+ * @param typeResolver Optional TypeResolver for props types imported from other files
+ * @returns The generated pages
+ */
+export function generateDocs(
+	rootDir: string,
+	outDir: string,
+	typeResolver?: TypeResolver
+): ComponentDocPage[] {
+	const pages = collectComponentDocs(rootDir, typeResolver);
+
+	for (const page of pages) {
+		const pageFile = path.join(outDir, page.pagePath);
+		fs.mkdirSync(path.dirname(pageFile), { recursive: true });
+		fs.writeFileSync(pageFile, formatComponentPage(page));
+	}
+
+	fs.mkdirSync(outDir, { recursive: true });
+	fs.writeFileSync(path.join(outDir, INDEX_PAGE), formatIndexPage(pages));
+
+	return pages;
+}
+
+/**
+ * Use forward slashes so paths work as Markdown links on every platform.
+ */
+function toPosixPath(filePath: string): string {
+	return filePath.split(path.sep).join('/');
+}
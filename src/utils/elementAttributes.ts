@@ -0,0 +1,382 @@
+import type { ElementAttributeGroup, ElementAttributeSummary } from '../types';
+
+/**
+ * Split a whitespace-separated list of attribute names.
+ */
+function names(list: string): string[] {
+	return list.trim().split(/\s+/);
+}
+
+/**
+ * Bundled catalogue of the `svelte/elements` attribute interfaces.
+ * Each interface lists the attributes it declares itself and the interfaces it extends.
+ * Event attributes are listed in their Svelte 5 form (`onclick`), without `capture` variants
+ * or legacy `on:` directives.
+ */
+const ELEMENT_ATTRIBUTE_INTERFACES: Record<string, { extends: string[]; attributes: string[] }> = {
+	DOMAttributes: {
+		extends: [],
+		attributes: names(`
+			children bind:innerHTML bind:textContent bind:innerText bind:contentRect
+			bind:contentBoxSize bind:borderBoxSize bind:devicePixelContentBoxSize bind:focused
+			oncopy oncut onpaste
+			oncompositionend oncompositionstart oncompositionupdate
+			onfocus onfocusin onfocusout onblur
+			onchange onbeforeinput oninput onreset onsubmit oninvalid onformdata
+			onload onerror ontoggle onbeforetoggle
+			onkeydown onkeypress onkeyup
+			onabort oncanplay oncanplaythrough oncuechange ondurationchange onemptied onencrypted
+			onended onloadeddata onloadedmetadata onloadstart onpause onplay onplaying onprogress
+			onratechange onseeked onseeking onstalled onsuspend ontimeupdate onvolumechange
+			onwaiting
+			onauxclick onclick oncontextmenu ondblclick ondrag ondragend ondragenter ondragexit
+			ondragleave ondragover ondragstart ondrop onmousedown onmouseenter onmouseleave
+			onmousemove onmouseout onmouseover onmouseup
+			onselect onselectionchange onselectstart
+			ontouchcancel ontouchend ontouchmove ontouchstart
+			ongotpointercapture onpointercancel onpointerdown onpointerenter onpointerleave
+			onpointermove onpointerout onpointerover onpointerup onlostpointercapture
+			onscroll onscrollend onresize onwheel
+			onanimationstart onanimationend onanimationiteration
+			ontransitionstart ontransitionrun ontransitionend ontransitioncancel
+			onmessage onmessageerror onvisibilitychange oncancel onclose
+			onfullscreenchange onfullscreenerror
+		`)
+	},
+	AriaAttributes: {
+		extends: [],
+		attributes: names(`
+			aria-activedescendant aria-atomic aria-autocomplete aria-busy aria-checked
+			aria-colcount aria-colindex aria-colspan aria-controls aria-current aria-describedby
+			aria-description aria-details aria-disabled aria-dropeffect aria-errormessage
+			aria-expanded aria-flowto aria-grabbed aria-haspopup aria-hidden aria-invalid
+			aria-keyshortcuts aria-label aria-labelledby aria-level aria-live aria-modal
+			aria-multiline aria-multiselectable aria-orientation aria-owns aria-placeholder
+			aria-posinset aria-pressed aria-readonly aria-relevant aria-required
+			aria-roledescription aria-rowcount aria-rowindex aria-rowspan aria-selected
+			aria-setsize aria-sort aria-valuemax aria-valuemin aria-valuenow aria-valuetext
+		`)
+	},
+	HTMLAttributes: {
+		extends: ['AriaAttributes', 'DOMAttributes'],
+		attributes: names(`
+			accesskey autocapitalize autofocus class contenteditable contextmenu dir draggable
+			enterkeyhint hidden id inert lang part placeholder slot spellcheck style tabindex
+			title translate writingsuggestions popover inputmode is radiogroup role
+			about datatype inlist prefix property resource typeof vocab
+			autosave color itemprop itemscope itemtype itemid itemref results security
+			unselectable
+			data-sveltekit-keepfocus data-sveltekit-noscroll data-sveltekit-preload-code
+			data-sveltekit-preload-data data-sveltekit-reload data-sveltekit-replacestate
+			bind:clientWidth bind:clientHeight bind:offsetWidth bind:offsetHeight
+		`)
+	},
+	HTMLAnchorAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('download href hreflang media ping rel target type referrerpolicy')
+	},
+	HTMLAreaAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(
+			'alt coords download href hreflang media referrerpolicy rel shape target ping'
+		)
+	},
+	HTMLMediaAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(`
+			autoplay controls controlslist crossorigin currentTime defaultMuted
+			defaultPlaybackRate disableremoteplayback loop mediagroup muted playsinline preload src
+			bind:duration bind:buffered bind:seekable bind:played bind:seeking bind:ended
+			bind:readyState bind:currentTime bind:playbackRate bind:paused bind:volume bind:muted
+		`)
+	},
+	HTMLAudioAttributes: { extends: ['HTMLMediaAttributes'], attributes: [] },
+	HTMLVideoAttributes: {
+		extends: ['HTMLMediaAttributes'],
+		attributes: names(`
+			height poster width disablepictureinpicture bind:videoWidth bind:videoHeight
+		`)
+	},
+	HTMLBaseAttributes: { extends: ['HTMLAttributes'], attributes: names('href target') },
+	HTMLBlockquoteAttributes: { extends: ['HTMLAttributes'], attributes: names('cite') },
+	HTMLButtonAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(`
+			disabled form formaction formenctype formmethod formnovalidate formtarget name type
+			value popovertarget popovertargetaction command commandfor
+		`)
+	},
+	HTMLCanvasAttributes: { extends: ['HTMLAttributes'], attributes: names('height width') },
+	HTMLColAttributes: { extends: ['HTMLAttributes'], attributes: names('span width') },
+	HTMLColgroupAttributes: { extends: ['HTMLAttributes'], attributes: names('span') },
+	HTMLDataAttributes: { extends: ['HTMLAttributes'], attributes: names('value') },
+	HTMLDetailsAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('open name bind:open')
+	},
+	HTMLDelAttributes: { extends: ['HTMLAttributes'], attributes: names('cite datetime') },
+	HTMLDialogAttributes: { extends: ['HTMLAttributes'], attributes: names('open closedby') },
+	HTMLEmbedAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('height src type width')
+	},
+	HTMLFieldsetAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('disabled form name')
+	},
+	HTMLFormAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(`
+			acceptcharset action autocomplete enctype method name novalidate target rel
+		`)
+	},
+	HTMLHtmlAttributes: { extends: ['HTMLAttributes'], attributes: names('manifest') },
+	HTMLIframeAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(`
+			allow allowfullscreen allowtransparency frameborder height loading marginheight
+			marginwidth name referrerpolicy sandbox scrolling seamless src srcdoc width
+		`)
+	},
+	HTMLImgAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(`
+			alt crossorigin decoding fetchpriority height ismap loading referrerpolicy sizes src
+			srcset usemap width bind:naturalWidth bind:naturalHeight
+		`)
+	},
+	HTMLInsAttributes: { extends: ['HTMLAttributes'], attributes: names('cite datetime') },
+	HTMLInputAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(`
+			accept alt autocomplete capture checked crossorigin defaultChecked defaultValue
+			dirname disabled form formaction formenctype formmethod formnovalidate formtarget
+			height indeterminate list max maxlength min minlength multiple name pattern
+			readonly required size src step type value width popovertarget popovertargetaction
+			bind:checked bind:value bind:group bind:files bind:indeterminate
+		`)
+	},
+	HTMLLabelAttributes: { extends: ['HTMLAttributes'], attributes: names('form for') },
+	HTMLLiAttributes: { extends: ['HTMLAttributes'], attributes: names('value') },
+	HTMLLinkAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(`
+			as crossorigin href hreflang integrity media referrerpolicy rel sizes type charset
+			fetchpriority imagesizes imagesrcset disabled blocking
+		`)
+	},
+	HTMLMapAttributes: { extends: ['HTMLAttributes'], attributes: names('name') },
+	HTMLMenuAttributes: { extends: ['HTMLAttributes'], attributes: names('type') },
+	HTMLMetaAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('charset content http-equiv name media')
+	},
+	HTMLMeterAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('form high low max min optimum value')
+	},
+	HTMLQuoteAttributes: { extends: ['HTMLAttributes'], attributes: names('cite') },
+	HTMLObjectAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('classid data form height name type usemap width wmode')
+	},
+	HTMLOlAttributes: { extends: ['HTMLAttributes'], attributes: names('reversed start type') },
+	HTMLOptgroupAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('disabled label')
+	},
+	HTMLOptionAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('disabled label selected value')
+	},
+	HTMLOutputAttributes: { extends: ['HTMLAttributes'], attributes: names('form for name') },
+	HTMLParamAttributes: { extends: ['HTMLAttributes'], attributes: names('name value') },
+	HTMLProgressAttributes: { extends: ['HTMLAttributes'], attributes: names('max value') },
+	HTMLSlotAttributes: { extends: ['HTMLAttributes'], attributes: names('name') },
+	HTMLScriptAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(`
+			async charset crossorigin defer integrity nomodule nonce referrerpolicy src type
+			blocking fetchpriority
+		`)
+	},
+	HTMLSelectAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('autocomplete disabled form multiple name required size value bind:value')
+	},
+	HTMLSourceAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('height media sizes src srcset type width')
+	},
+	HTMLStyleAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('media nonce scoped type blocking')
+	},
+	HTMLTableAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('align bgcolor border cellpadding cellspacing frame rules summary width')
+	},
+	HTMLTextareaAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names(`
+			autocomplete cols dirname disabled form maxlength minlength name readonly required
+			rows value wrap bind:value
+		`)
+	},
+	HTMLTdAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('align colspan headers rowspan scope abbr height width valign')
+	},
+	HTMLThAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('align colspan headers rowspan scope abbr')
+	},
+	HTMLTimeAttributes: { extends: ['HTMLAttributes'], attributes: names('datetime') },
+	HTMLTrackAttributes: {
+		extends: ['HTMLAttributes'],
+		attributes: names('default kind label src srclang')
+	},
+	SVGAttributes: {
+		extends: ['AriaAttributes', 'DOMAttributes'],
+		attributes: names(`
+			class color height id lang max media method min name style target type width role
+			tabindex crossorigin href viewBox xmlns x y x1 x2 y1 y2 cx cy r rx ry d points fill
+			fill-opacity fill-rule stroke stroke-dasharray stroke-dashoffset stroke-linecap
+			stroke-linejoin stroke-miterlimit stroke-opacity stroke-width opacity transform
+			transform-origin clip-path clip-rule mask filter marker-start marker-mid marker-end
+			preserveAspectRatio pathLength gradientUnits gradientTransform offset stop-color
+			stop-opacity font-family font-size font-weight text-anchor dominant-baseline
+			dx dy visibility display overflow pointer-events vector-effect
+		`)
+	}
+};
+
+/**
+ * Attribute interface used by each tag in `SvelteHTMLElements`.
+ * Tags without a dedicated interface use `HTMLAttributes`.
+ */
+const SVELTE_HTML_ELEMENTS: Record<string, string> = {
+	a: 'HTMLAnchorAttributes',
+	area: 'HTMLAreaAttributes',
+	audio: 'HTMLAudioAttributes',
+	base: 'HTMLBaseAttributes',
+	blockquote: 'HTMLBlockquoteAttributes',
+	button: 'HTMLButtonAttributes',
+	canvas: 'HTMLCanvasAttributes',
+	col: 'HTMLColAttributes',
+	colgroup: 'HTMLColgroupAttributes',
+	data: 'HTMLDataAttributes',
+	del: 'HTMLDelAttributes',
+	details: 'HTMLDetailsAttributes',
+	dialog: 'HTMLDialogAttributes',
+	embed: 'HTMLEmbedAttributes',
+	fieldset: 'HTMLFieldsetAttributes',
+	form: 'HTMLFormAttributes',
+	html: 'HTMLHtmlAttributes',
+	iframe: 'HTMLIframeAttributes',
+	img: 'HTMLImgAttributes',
+	input: 'HTMLInputAttributes',
+	ins: 'HTMLInsAttributes',
+	label: 'HTMLLabelAttributes',
+	li: 'HTMLLiAttributes',
+	link: 'HTMLLinkAttributes',
+	map: 'HTMLMapAttributes',
+	menu: 'HTMLMenuAttributes',
+	meta: 'HTMLMetaAttributes',
+	meter: 'HTMLMeterAttributes',
+	object: 'HTMLObjectAttributes',
+	ol: 'HTMLOlAttributes',
+	optgroup: 'HTMLOptgroupAttributes',
+	option: 'HTMLOptionAttributes',
+	output: 'HTMLOutputAttributes',
+	param: 'HTMLParamAttributes',
+	progress: 'HTMLProgressAttributes',
+	q: 'HTMLQuoteAttributes',
+	script: 'HTMLScriptAttributes',
+	select: 'HTMLSelectAttributes',
+	slot: 'HTMLSlotAttributes',
+	source: 'HTMLSourceAttributes',
+	style: 'HTMLStyleAttributes',
+	svg: 'SVGAttributes',
+	table: 'HTMLTableAttributes',
+	td: 'HTMLTdAttributes',
+	textarea: 'HTMLTextareaAttributes',
+	th: 'HTMLThAttributes',
+	time: 'HTMLTimeAttributes',
+	track: 'HTMLTrackAttributes',
+	video: 'HTMLVideoAttributes'
+};
+
+/**
+ * Tags that use the base `HTMLAttributes` interface in `SvelteHTMLElements`.
+ */
+const GENERIC_HTML_ELEMENTS = new Set<string>(
+	names(`
+		abbr address article aside b bdi bdo body br caption cite code dd dfn div dl dt em
+		figcaption figure footer h1 h2 h3 h4 h5 h6 head header hgroup hr i kbd main mark nav
+		noscript p picture pre rp rt ruby s samp search section small span strong sub summary sup
+		tbody template tfoot thead title tr u ul var wbr
+	`)
+);
+
+/**
+ * Find the `svelte/elements` interface referenced by an inherited type, if it is in the catalogue.
+ * Supports plain and generic interface names (`HTMLButtonAttributes`, `HTMLAttributes<HTMLDivElement>`)
+ * and element lookups (`SvelteHTMLElements['div']`).
+ * @param typeName The inherited type as written in the props type
+ * @returns The interface name, or undefined if the type isn't a known element attribute type
+ */
+export function getElementAttributesInterface(typeName: string): string | undefined {
+	const trimmed = typeName.trim();
+
+	const elementMatch = /^SvelteHTMLElements\s*\[\s*(['"])([\w-]+)\1\s*\]$/.exec(trimmed);
+	if (elementMatch) {
+		const tag = elementMatch[2];
+		if (tag in SVELTE_HTML_ELEMENTS) return SVELTE_HTML_ELEMENTS[tag];
+		return GENERIC_HTML_ELEMENTS.has(tag) ? 'HTMLAttributes' : undefined;
+	}
+
+	// Type arguments (the element type) don't change the attribute list
+	const name = trimmed.replace(/\s*<[\s\S]*>$/, '');
+	return name in ELEMENT_ATTRIBUTE_INTERFACES ? name : undefined;
+}
+
+/**
+ * Collect every attribute an inherited `svelte/elements` type provides, grouped by the interface
+ * that declares it. Attributes declared by more than one interface are listed once, under the
+ * most specific interface.
+ * @param typeName The inherited type as written in the props type
+ * @param exclude Attribute names to leave out (e.g. props the component declares itself)
+ * @returns The attribute summary, or undefined if the type isn't a known element attribute type
+ */
+export function getElementAttributes(
+	typeName: string,
+	exclude: Iterable<string> = []
+): ElementAttributeSummary | undefined {
+	const interfaceName = getElementAttributesInterface(typeName);
+	if (!interfaceName) return undefined;
+
+	const seen = new Set<string>(exclude);
+	const visited = new Set<string>();
+	const groups: ElementAttributeGroup[] = [];
+
+	// The interface's own attributes come before those of its parents
+	const collect = (current: string): void => {
+		if (visited.has(current)) return;
+		visited.add(current);
+
+		const entry = ELEMENT_ATTRIBUTE_INTERFACES[current];
+		const attributes = entry.attributes.filter((name) => !seen.has(name));
+		for (const name of attributes) seen.add(name);
+		if (attributes.length > 0) groups.push({ interfaceName: current, attributes });
+		for (const parent of entry.extends) collect(parent);
+	};
+	collect(interfaceName);
+
+	return {
+		typeName: typeName.trim(),
+		interfaceName,
+		groups,
+		count: groups.reduce((total, group) => total + group.attributes.length, 0)
+	};
+}
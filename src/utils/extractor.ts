@@ -1,6 +1,6 @@
 import * as fs from 'node:fs';
 import { parseAttributes } from '../parsers/scriptParser';
-import type { ImportInfo, ScriptBlock } from '../types';
+import type { ImportInfo, ReExport, ScriptBlock } from '../types';
 
 /**
  * Extract all <script> blocks from a .svelte file. Lightweight regex approach.
@@ -20,32 +20,74 @@ export function extractScriptBlocksFromSvelte(filePath: string): ScriptBlock[] {
  * @returns Array of extracted ScriptBlock objects
  */
 export function extractScriptBlocksFromText(text: string): ScriptBlock[] {
-	// Remove HTML comments first to avoid extracting commented-out script blocks
-	const withoutComments = text.replace(/<!--[\s\S]*?-->/g, '');
+	// Blank out HTML comments first to avoid extracting commented-out script blocks
+	// (replaced with spaces so block offsets still match the original text)
+	const withoutComments = text.replace(/<!--[\s\S]*?-->/g, (comment) =>
+		comment.replace(/[^\n]/g, ' ')
+	);
 
-	const re = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+	// Quoted attribute values may contain `>` (e.g. `generics="T extends Array<Item>"`)
+	const re = /<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/script>/gi;
 	const blocks: ScriptBlock[] = [];
 	let match: RegExpExecArray | null;
 	while ((match = re.exec(withoutComments))) {
 		const attrs = parseAttributes(match[1] || '');
 		const content = match[2] || '';
-		blocks.push({ content, attributes: attrs });
+		const offset = match.index + '<script'.length + match[1].length + 1;
+		blocks.push({ content, attributes: attrs, offset });
 	}
 	return blocks;
 }
 
+/**
+ * Extract the component documentation from a `<!-- @component ... -->` comment (the Svelte
+ * convention for Markdown usage docs, also shown by svelte-language-server).
+ * @param text Text content of the component
+ * @returns The Markdown with its common indentation removed, or undefined if there is none
+ */
+export function extractComponentDocumentation(text: string): string | undefined {
+	const match = /<!--\s*@component\b([\s\S]*?)-->/.exec(text);
+	if (!match) return undefined;
+
+	// The first line follows `@component`; later lines share the comment's indentation
+	const [firstLine, ...lines] = match[1].split(/\r?\n/);
+	const indents = lines
+		.filter((line) => line.trim())
+		.map((line) => line.length - line.trimStart().length);
+	const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+	const markdown = [firstLine, ...lines.map((line) => line.slice(indent))].join('\n').trim();
+	return markdown || undefined;
+}
+
+/**
+ * Read the `@deprecated` tag from component documentation (`<!-- @component -->` Markdown).
+ * The reason runs until a blank line or the next `@` tag.
+ * @param documentation The component documentation
+ * @returns The reason ('' when the tag has none), or undefined if the component is not deprecated
+ */
+export function extractComponentDeprecation(documentation: string): string | undefined {
+	const match = /^[ \t]*@deprecated\b(.*(?:\r?\n(?![ \t]*(?:@|\r?\n|$)).*)*)/m.exec(
+		documentation
+	);
+	return match ? match[1].replace(/\s+/g, ' ').trim() : undefined;
+}
+
 /**
  * Collects all local import names and their specifiers from given script blocks.
- * Supports both default imports and named imports.
+ * Supports default, named and namespace imports.
  * @param blocks Array of script blocks to scan for imports
+ * @param includeTypeImports Whether to include type-only imports (`import type { X }`, `{ type X }`)
  * @returns Map of local import names to their import info (specifier and optional original name)
  * @example
  * // Default import: import Button from './Button.svelte'
  * // Named import: import { PageStore } from './store'
  * // Named import with alias: import { Component as Comp } from './Component'
+ * // Namespace import: import * as UI from '$lib/ui'
  */
 export function extractImportsFromScriptBlocks(
-	blocks: ReturnType<typeof extractScriptBlocksFromText>
+	blocks: ReturnType<typeof extractScriptBlocksFromText>,
+	includeTypeImports: boolean = false
 ): Map<string, ImportInfo> {
 	const map = new Map<string, ImportInfo>();
 	for (const b of blocks) {
@@ -56,16 +98,23 @@ export function extractImportsFromScriptBlocks(
 		const defaultRe = /import\s+([A-Za-z_][A-Za-z0-9_]*)(?!\s*,)\s+from\s+['"]([^'"]+)['"];?/g;
 		while ((m = defaultRe.exec(b.content))) map.set(m[1], { specifier: m[2] });
 
+		// Match namespace imports: import * as Name from 'spec'
+		const namespaceRe = /import\s+\*\s+as\s+([A-Za-z_$][\w$]*)\s+from\s+['"]([^'"]+)['"];?/g;
+		while ((m = namespaceRe.exec(b.content)))
+			map.set(m[1], { specifier: m[2], namespace: true });
+
 		// Match all imports with braces: { ... }
 		// Handles: import { named } from 'spec'
 		//          import { name as alias } from 'spec'
 		//          import Default, { named } from 'spec'  (mixed)
+		//          import type { Named } from 'spec'  (only when includeTypeImports)
 		const bracesRe =
-			/import\s+(?:([A-Za-z_][A-Za-z0-9_]*)\s*,\s*)?\{\s*([^}]+)\}\s*from\s+['"]([^'"]+)['"];?/g;
+			/import\s+(type\s+)?(?:([A-Za-z_][A-Za-z0-9_]*)\s*,\s*)?\{\s*([^}]+)\}\s*from\s+['"]([^'"]+)['"];?/g;
 		while ((m = bracesRe.exec(b.content))) {
-			const defaultName = m[1]; // Captured if mixed import
-			const namedPart = m[2];
-			const spec = m[3];
+			if (m[1] && !includeTypeImports) continue;
+			const defaultName = m[2]; // Captured if mixed import
+			const namedPart = m[3];
+			const spec = m[4];
 
 			// Add default import if present (mixed import case)
 			if (defaultName) map.set(defaultName, { specifier: spec });
@@ -73,8 +122,11 @@ export function extractImportsFromScriptBlocks(
 			// Parse and add named imports
 			const parts = namedPart.split(',');
 			for (const part of parts) {
-				const trimmed = part.trim();
-				if (!trimmed || trimmed.startsWith('type ')) continue;
+				let trimmed = part.trim();
+				if (trimmed.startsWith('type '))
+					if (includeTypeImports) trimmed = trimmed.slice(5).trim();
+					else continue;
+				if (!trimmed) continue;
 
 				// Handle 'Name as Alias' -> use Alias as key, but store original Name
 				const asMatch = /^([A-Za-z_][A-Za-z0-9_]*)\s+as\s+([A-Za-z_][A-Za-z0-9_]*)$/.exec(
@@ -91,3 +143,32 @@ export function extractImportsFromScriptBlocks(
 	}
 	return map;
 }
+
+/**
+ * Collects the re-export statements of a module.
+ * @param content Text content of the module
+ * @returns The re-exports in source order
+ * @example
+ * // Named re-exports: export { default as Button, Card as BaseCard } from './ui'
+ * // Wildcard re-exports: export * from './ui'
+ */
+export function extractReExports(content: string): ReExport[] {
+	const reExports: ReExport[] = [];
+	const reExportRe = /export\s+(?:type\s+)?(\{[^}]*\}|\*)\s*from\s+['"]([^'"]+)['"]/g;
+	let m: RegExpExecArray | null;
+	while ((m = reExportRe.exec(content))) {
+		if (m[1] === '*') {
+			reExports.push({ specifier: m[2] });
+			continue;
+		}
+
+		// Exported name -> original name
+		const names = new Map<string, string>();
+		for (const part of m[1].slice(1, -1).split(',')) {
+			const nameMatch = /^(?:type\s+)?([\w$]+)(?:\s+as\s+([\w$]+))?$/.exec(part.trim());
+			if (nameMatch) names.set(nameMatch[2] || nameMatch[1], nameMatch[1]);
+		}
+		reExports.push({ specifier: m[2], names });
+	}
+	return reExports;
+}
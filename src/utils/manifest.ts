@@ -0,0 +1,133 @@
+import * as path from 'node:path';
+import packageJson from '../../package.json';
+import { parseModuleExports } from '../parsers/propParser';
+import type {
+	ComponentDocPage,
+	ComponentManifest,
+	EventInfo,
+	ManifestComponent,
+	ManifestEvent,
+	ManifestProp,
+	ManifestSnippet,
+	PropInfo,
+	SnippetInfo
+} from '../types';
+import { collectComponentDocs } from './docsGenerator';
+import { extractComponentDeprecation, extractScriptBlocksFromSvelte } from './extractor';
+import type { TypeResolver } from './typeResolver';
+
+/**
+ * Version of the manifest format. Bump it (and add a new schema file) on breaking changes.
+ */
+export const MANIFEST_VERSION = 1;
+
+/**
+ * JSON schema describing the manifest format (schemas/component-manifest.v1.json).
+ */
+export const MANIFEST_SCHEMA_URL = `https://raw.githubusercontent.com/LukeBurke99/sveltedoc/master/schemas/component-manifest.v${MANIFEST_VERSION.toString()}.json`;
+
+/**
+ * Build the manifest for every component below a directory.
+ * Uses the same component discovery and prop extraction as the docs generator.
+ * @param rootDir Directory to scan
+ * @param typeResolver Optional TypeResolver for props types imported from other files
+ * @returns The versioned manifest, with components sorted by path
+ */
+export function createManifest(rootDir: string, typeResolver?: TypeResolver): ComponentManifest {
+	return {
+		$schema: MANIFEST_SCHEMA_URL,
+		version: MANIFEST_VERSION,
+		generator: `sveltedoc@${packageJson.version}`,
+		components: collectComponentDocs(rootDir, typeResolver).map((page) =>
+			createManifestComponent(page, path.join(rootDir, page.sourcePath))
+		)
+	};
+}
+
+/**
+ * Build the manifest entry for a single component.
+ * @param page The component's extracted props (see collectComponentDocs)
+ * @param filePath Absolute path of the component, for reading its module script
+ */
+export function createManifestComponent(
+	page: ComponentDocPage,
+	filePath: string
+): ManifestComponent {
+	const props = page.result.props ?? [];
+	const documentation = page.result.documentation;
+
+	const component: ManifestComponent = {
+		name: page.name,
+		path: page.sourcePath,
+		props: props.map(toManifestProp),
+		inherits: page.result.inherits ?? [],
+		snippets: (page.result.snippets ?? []).map((s) => toManifestSnippet(s, props)),
+		events: (page.result.events ?? []).map(toManifestEvent),
+		generics: page.result.generics ?? [],
+		moduleExports: parseModuleExports(extractScriptBlocksFromSvelte(filePath))
+	};
+	if (documentation) component.documentation = documentation;
+	const deprecated = documentation ? extractComponentDeprecation(documentation) : undefined;
+	if (deprecated !== undefined) component.deprecated = deprecated;
+	return component;
+}
+
+/**
+ * Serialise a manifest as formatted JSON.
+ */
+export function formatManifest(manifest: ComponentManifest): string {
+	return JSON.stringify(manifest, null, '\t') + '\n';
+}
+
+/**
+ * Convert a prop into its manifest form, leaving out empty optional fields.
+ */
+function toManifestProp(prop: PropInfo): ManifestProp {
+	const manifestProp: ManifestProp = {
+		name: prop.name,
+		type: prop.type,
+		required: prop.required,
+		bindable: prop.bindable
+	};
+	const defaultValue = prop.defaultValue ?? prop.jsdoc?.default;
+	if (defaultValue) manifestProp.default = defaultValue;
+	if (prop.comment) manifestProp.comment = prop.comment;
+	if (prop.inheritedFrom) manifestProp.inheritedFrom = prop.inheritedFrom;
+	if (prop.readonly) manifestProp.readonly = true;
+	if (prop.jsdoc?.deprecated !== undefined) manifestProp.deprecated = prop.jsdoc.deprecated;
+	if (prop.jsdoc?.examples) manifestProp.examples = prop.jsdoc.examples;
+	if (prop.jsdoc?.see) manifestProp.see = prop.jsdoc.see;
+	if (prop.jsdoc?.since) manifestProp.since = prop.jsdoc.since;
+	return manifestProp;
+}
+
+/**
+ * Convert a snippet or legacy slot into its manifest form, with the type of its snippet prop.
+ */
+function toManifestSnippet(snippet: SnippetInfo, props: PropInfo[]): ManifestSnippet {
+	const manifestSnippet: ManifestSnippet = {
+		name: snippet.name,
+		required: snippet.required,
+		parameters: snippet.parameters
+	};
+	const type = snippet.slot ? undefined : props.find((p) => p.name === snippet.name)?.type;
+	if (type) manifestSnippet.type = type;
+	if (snippet.comment) manifestSnippet.comment = snippet.comment;
+	if (snippet.slot) manifestSnippet.slot = true;
+	return manifestSnippet;
+}
+
+/**
+ * Convert a callback prop or dispatched event into its manifest form.
+ */
+function toManifestEvent(event: EventInfo): ManifestEvent {
+	const manifestEvent: ManifestEvent = {
+		name: event.name,
+		type: event.type,
+		required: event.required
+	};
+	if (event.comment) manifestEvent.comment = event.comment;
+	if (event.dispatched) manifestEvent.dispatched = true;
+	if (event.forwarded) manifestEvent.forwarded = true;
+	return manifestEvent;
+}
@@ -1,11 +1,55 @@
 import { createPathsMatcher } from 'get-tsconfig';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { parse as parseYaml } from 'yaml';
-import type { LoggingService } from '../classes/LoggingService';
 import { PathResolverCache } from '../classes/caches/PathResolverCache';
-import type { BarrelResolutionResult, WorkspacePackage } from '../types';
+import type {
+	BarrelResolutionResult,
+	ResolutionStrategy,
+	ResolutionTrace,
+	ResolutionTraceStep,
+	ResolverLogger,
+	WorkspaceDetector,
+	WorkspacePackage
+} from '../types';
 import { t } from './localization';
+import { DEFAULT_WORKSPACE_DETECTORS } from './workspaceDetectors';
+
+/**
+ * Directories never searched when expanding `**` in workspace package patterns.
+ */
+const GLOBSTAR_IGNORED_DIRECTORIES = new Set<string>(['node_modules']);
+
+/**
+ * Export conditions tried by default, in priority order. `types` comes before `default` as
+ * published libraries often point `default` at a bundle, while their declarations re-export
+ * the `.svelte` files.
+ */
+const DEFAULT_EXPORT_CONDITIONS: string[] = ['svelte', 'types', 'import', 'default'];
+
+/**
+ * A bare import specifier split into package name and subpath.
+ */
+type PackageSpecifier = {
+	packageName: string;
+	subpath: string;
+};
+
+/**
+ * A wildcard key of an exports map (`./components/*`) matching an import subpath.
+ */
+type ExportsPatternMatch = {
+	key: string;
+	match: string; // The part of the subpath `*` stands for
+};
+
+/**
+ * A workspace root found by one of the workspace detectors.
+ */
+type DetectedWorkspace = {
+	root: string;
+	manifestPath: string;
+	patterns: string[];
+};
 
 /**
  * Resolves import specifiers to absolute file paths using tsconfig.json path mappings.
@@ -13,19 +57,23 @@ import { t } from './localization';
  */
 export class PathResolver {
 	private cache: PathResolverCache;
-	private logger: LoggingService;
+	private logger: ResolverLogger;
 	private detailedLogging: boolean;
 	private maxBarrelDepth: number;
 	private barrelFileNames: string[];
 	private barrelPriority: string[];
+	private exportConditions: string[];
+	private workspaceDetectors: WorkspaceDetector[] = DEFAULT_WORKSPACE_DETECTORS;
+	private traces: ResolutionTrace[] | undefined; // Set while traceResolution() runs
 
 	public constructor(
 		cache: PathResolverCache,
-		logger: LoggingService,
+		logger: ResolverLogger,
 		detailedLogging: boolean = true,
 		maxBarrelDepth: number = 3,
 		barrelFileNames: string[] = ['index', 'main'],
-		barrelPriority: string[] = ['components', 'features']
+		barrelPriority: string[] = ['components', 'features'],
+		exportConditions: string[] = DEFAULT_EXPORT_CONDITIONS
 	) {
 		this.cache = cache;
 		this.logger = logger;
@@ -33,6 +81,7 @@ export class PathResolver {
 		this.maxBarrelDepth = maxBarrelDepth;
 		this.barrelFileNames = barrelFileNames;
 		this.barrelPriority = barrelPriority;
+		this.exportConditions = exportConditions;
 	}
 
 	/**
@@ -55,6 +104,7 @@ export class PathResolver {
 		if (!tsconfig) {
 			if (this.detailedLogging)
 				this.logger.logResolverMessage(t('resolver.log.tsconfigNotFound'));
+			this.traceStep('tsconfig', 'rejected', t('resolver.trace.tsconfigNotFound'));
 			return undefined;
 		}
 
@@ -66,6 +116,12 @@ export class PathResolver {
 		if (!paths || Object.keys(paths).length === 0) {
 			if (this.detailedLogging)
 				this.logger.logResolverMessage(t('resolver.log.noPathsConfigured'));
+			this.traceStep(
+				'tsconfig',
+				'rejected',
+				t('resolver.trace.noPathsConfigured'),
+				tsconfig.path
+			);
 			return undefined;
 		}
 
@@ -76,35 +132,97 @@ export class PathResolver {
 
 		// Create matcher for this tsconfig
 		const matcher = createPathsMatcher(tsconfig);
-		if (!matcher) {
-			if (this.detailedLogging)
-				this.logger.logResolverMessage(t('resolver.log.noPatternMatch'));
-			return undefined;
-		}
-
-		// Try to match the specifier against tsconfig paths
-		const matchedPaths = matcher(specifier);
+		const matchedPaths = matcher ? matcher(specifier) : [];
 		if (matchedPaths.length === 0) {
 			if (this.detailedLogging)
 				this.logger.logResolverMessage(t('resolver.log.noPatternMatch'));
+			this.traceStep(
+				'tsconfig',
+				'rejected',
+				t('resolver.trace.noPatternMatch', Object.keys(paths).join(', ')),
+				tsconfig.path
+			);
 			return undefined;
 		}
 
 		// Find which pattern was matched for logging
-		if (this.detailedLogging) {
+		if (this.detailedLogging || this.traces) {
 			const matchedPattern = this.findMatchedPattern(specifier, paths);
-			if (matchedPattern)
-				this.logger.logResolverMessage(
+			if (matchedPattern) {
+				if (this.detailedLogging)
+					this.logger.logResolverMessage(
+						t(
+							'resolver.log.matchedPattern',
+							matchedPattern.pattern,
+							matchedPattern.replacement
+						)
+					);
+				this.traceStep(
+					'tsconfig',
+					'matched',
 					t(
-						'resolver.log.matchedPattern',
+						'resolver.trace.matchedPattern',
 						matchedPattern.pattern,
 						matchedPattern.replacement
-					)
+					),
+					tsconfig.path
 				);
+			}
 		}
 
 		// Try each matched path with various extensions
-		return this.tryPathWithExtensions(matchedPaths);
+		return this.tryPathWithExtensions(matchedPaths, isDeclarationFile(fromFile));
+	}
+
+	/**
+	 * Resolve an import specifier using the aliases of the nearest svelte.config.js
+	 * (`kit.alias` and `$lib`) and vite.config.ts (`resolve.alias`). Covers SvelteKit projects
+	 * whose `.svelte-kit/tsconfig.json` hasn't been generated yet and aliases declared only for Vite.
+	 * An alias matches the specifier itself and anything below it (`$components/Button.svelte`);
+	 * the longest matching alias wins.
+	 * @param specifier The import specifier (e.g., '$components/Button.svelte')
+	 * @param fromFile Absolute path of the file containing the import
+	 * @returns Absolute path to the resolved file, or undefined if not found
+	 */
+	public resolveConfigAlias(specifier: string, fromFile: string): string | undefined {
+		const configAliases = this.cache.getConfigAliases(path.dirname(fromFile));
+		if (!configAliases) {
+			this.traceStep('configAlias', 'rejected', t('resolver.trace.configNotFound'));
+			return undefined;
+		}
+
+		const alias = Object.keys(configAliases.aliases)
+			.filter((key) => specifier === key || specifier.startsWith(`${key}/`))
+			.sort((a, b) => b.length - a.length)[0] as string | undefined;
+		if (!alias) {
+			this.traceStep(
+				'configAlias',
+				'rejected',
+				t(
+					'resolver.trace.noConfigAliasMatch',
+					Object.keys(configAliases.aliases).join(', ')
+				),
+				configAliases.files.join(', ')
+			);
+			return undefined;
+		}
+
+		const target = configAliases.aliases[alias];
+		if (this.detailedLogging)
+			this.logger.logResolverMessage(
+				t('resolver.log.configAliasMatched', alias, target, configAliases.files.join(', '))
+			);
+		this.traceStep(
+			'configAlias',
+			'matched',
+			t('resolver.trace.configAliasMatched', alias, target),
+			configAliases.files.join(', ')
+		);
+
+		return this.tryPathWithExtensions(
+			[target + specifier.slice(alias.length)],
+			isDeclarationFile(fromFile)
+		);
 	}
 
 	/**
@@ -120,18 +238,15 @@ export class PathResolver {
 		if (specifier.startsWith('.')) {
 			const base = path.dirname(fromFile);
 			const candidate = path.resolve(base, specifier);
-			const tryPaths = [
-				candidate,
-				candidate + '.svelte',
-				candidate + '.ts',
-				candidate + '.js',
-				path.join(candidate, 'index.svelte'),
-				path.join(candidate, 'index.ts'),
-				path.join(candidate, 'index.js')
-			];
-
-			for (const p of tryPaths) if (fs.existsSync(p) && fs.statSync(p).isFile()) return p;
+			this.traceStep('relative', 'info', t('resolver.trace.relativePath', base), candidate);
+			const tryPaths = getCandidatePaths(candidate, isDeclarationFile(fromFile));
 
+			// TypeScript ESM imports reference the emitted .js file (e.g., './types.js')
+			if (candidate.endsWith('.js')) tryPaths.push(candidate.slice(0, -3) + '.ts');
+
+			for (const p of tryPaths) if (this.probeFile(p)) return p;
+
+			this.traceStep('relative', 'rejected', t('resolver.trace.noFileFound'));
 			return undefined;
 		}
 
@@ -153,7 +268,42 @@ export class PathResolver {
 		componentName?: string
 	): string | undefined {
 		if (!specifier) return undefined;
+		if (this.traces) {
+			const trace: ResolutionTrace = { fromFile, specifier, componentName, steps: [] };
+			this.traces.push(trace);
+			trace.resolvedPath = this.resolveSpecifier(fromFile, specifier, componentName);
+			return trace.resolvedPath;
+		}
+
+		return this.resolveSpecifier(fromFile, specifier, componentName);
+	}
 
+	/**
+	 * Record the resolution steps of every `resolve()` call made while running a function,
+	 * for explaining how (or why not) an import was resolved. Traced resolutions behave exactly
+	 * like untraced ones.
+	 * @param run Function resolving one or more imports with this resolver
+	 * @returns The function's result and a trace per `resolve()` call, in call order
+	 */
+	public traceResolution<T>(run: () => T): { result: T; traces: ResolutionTrace[] } {
+		const previous = this.traces;
+		const traces: ResolutionTrace[] = [];
+		this.traces = traces;
+		try {
+			return { result: run(), traces };
+		} finally {
+			this.traces = previous;
+		}
+	}
+
+	/**
+	 * Try each resolution strategy in turn (see resolve()).
+	 */
+	private resolveSpecifier(
+		fromFile: string,
+		specifier: string,
+		componentName?: string
+	): string | undefined {
 		// 1. Try relative path resolution first (fast path)
 		if (specifier.startsWith('.')) return this.resolveRelative(fromFile, specifier);
 
@@ -161,63 +311,48 @@ export class PathResolver {
 		const aliasResolved = this.resolveAlias(specifier, fromFile);
 		if (aliasResolved) return aliasResolved;
 
-		// 3. Try workspace package resolution (Phase 1B)
+		// 3. Try aliases declared in svelte.config.js (kit.alias) and vite.config.ts (resolve.alias)
+		const configAliasResolved = this.resolveConfigAlias(specifier, fromFile);
+		if (configAliasResolved) return configAliasResolved;
+
+		// 4. Try workspace package resolution (Phase 1B)
 		const workspaceResolved = this.resolveWorkspacePackage(specifier, fromFile, componentName);
 		if (workspaceResolved) return workspaceResolved;
 
-		// 4. Could not resolve
+		// 5. Try packages installed in node_modules (published libraries)
+		const packageResolved = this.resolveNodeModulesPackage(specifier, fromFile, componentName);
+		if (packageResolved) return packageResolved;
+
+		// 6. Could not resolve
 		return undefined;
 	}
 
 	/**
 	 * Try a list of base paths with various extensions and index files.
 	 * @param matchedPaths Base paths to try
+	 * @param preferDeclarations Try `.d.ts` files before `.js` (imports of a declaration file)
 	 * @returns First matching file path or undefined
 	 */
-	private tryPathWithExtensions(matchedPaths: string[]): string | undefined {
-		const extensions = ['', '.svelte', '.ts', '.js'];
-
+	private tryPathWithExtensions(
+		matchedPaths: string[],
+		preferDeclarations: boolean = false
+	): string | undefined {
 		for (const basePath of matchedPaths) {
 			if (this.detailedLogging)
 				this.logger.logResolverMessage(t('resolver.log.resolvedTo', basePath));
 
-			// Try with each extension
-			for (const ext of extensions) {
-				const fullPath = basePath + ext;
-
-				try {
-					if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
-						if (this.detailedLogging)
-							this.logger.logResolverMessage(t('resolver.log.foundFile', fullPath));
-						return fullPath;
-					}
-				} catch {
-					// File doesn't exist or can't be accessed, continue trying
-				}
-			}
-
-			// Try as directory with index files
-			const indexPaths = [
-				path.join(basePath, 'index.svelte'),
-				path.join(basePath, 'index.ts'),
-				path.join(basePath, 'index.js')
-			];
-
-			for (const indexPath of indexPaths)
-				try {
-					if (fs.existsSync(indexPath) && fs.statSync(indexPath).isFile()) {
-						if (this.detailedLogging)
-							this.logger.logResolverMessage(t('resolver.log.foundFile', indexPath));
-						return indexPath;
-					}
-				} catch {
-					// File doesn't exist or can't be accessed, continue trying
+			// Try with each extension, then as a directory with index files
+			for (const fullPath of getCandidatePaths(basePath, preferDeclarations))
+				if (this.probeFile(fullPath)) {
+					if (this.detailedLogging)
+						this.logger.logResolverMessage(t('resolver.log.foundFile', fullPath));
+					return fullPath;
 				}
 		}
 
 		if (this.detailedLogging) {
 			this.logger.logResolverMessage(
-				t('resolver.log.triedExtensions', extensions.join(', '))
+				t('resolver.log.triedExtensions', getExtensions(preferDeclarations).join(', '))
 			);
 			this.logger.logResolverMessage(t('resolver.log.noFileFound'));
 		}
@@ -225,6 +360,56 @@ export class PathResolver {
 		return undefined;
 	}
 
+	/**
+	 * Check whether a path is an existing file, recording the probe when tracing.
+	 * @param filePath Absolute path to check
+	 * @returns True if the path is a file
+	 */
+	private probeFile(filePath: string): boolean {
+		let exists = false;
+		let isFile = false;
+		try {
+			exists = fs.existsSync(filePath);
+			isFile = exists && fs.statSync(filePath).isFile();
+		} catch {
+			// File can't be accessed, treat it as missing
+		}
+
+		if (isFile) this.traceStep('probe', 'matched', t('resolver.trace.fileFound'), filePath);
+		else
+			this.traceStep(
+				'probe',
+				'rejected',
+				t(exists ? 'resolver.trace.notAFile' : 'resolver.trace.fileMissing'),
+				filePath
+			);
+		return isFile;
+	}
+
+	/**
+	 * Record a step of the resolution being traced (see traceResolution()).
+	 * @param strategy Strategy the step belongs to
+	 * @param outcome Whether the step matched, was rejected or is informational
+	 * @param message Localised description
+	 * @param filePath File or directory the step is about
+	 * @param barrelDepth Barrel hop the step belongs to
+	 */
+	private traceStep(
+		strategy: ResolutionStrategy,
+		outcome: ResolutionTraceStep['outcome'],
+		message: string,
+		filePath?: string,
+		barrelDepth?: number
+	): void {
+		const trace = this.traces?.at(-1);
+		if (!trace) return;
+
+		const step: ResolutionTraceStep = { strategy, outcome, message };
+		if (filePath) step.path = filePath;
+		if (barrelDepth !== undefined) step.barrelDepth = barrelDepth;
+		trace.steps.push(step);
+	}
+
 	/**
 	 * Find which tsconfig path pattern was matched by the specifier.
 	 * Used for detailed logging only.
@@ -237,8 +422,8 @@ export class PathResolver {
 		paths: Record<string, string[]>
 	): { pattern: string; replacement: string } | undefined {
 		for (const [pattern, replacements] of Object.entries(paths)) {
-			// Convert tsconfig pattern to regex
-			const regexPattern = pattern.replace(/\*/g, '(.*)');
+			// Convert tsconfig pattern to regex (`$lib/*` contains regex characters)
+			const regexPattern = pattern.split('*').map(escapeRegExp).join('(.*)');
 			const regex = new RegExp(`^${regexPattern}$`);
 
 			if (regex.test(specifier) && replacements.length > 0)
@@ -248,23 +433,29 @@ export class PathResolver {
 	}
 
 	/**
-	 * Find workspace root by searching upward for pnpm-workspace.yaml.
-	 * Caches the result per directory tree.
+	 * Find workspace root by searching upward for a directory recognised by a workspace
+	 * detector (pnpm-workspace.yaml, or a package.json with a `workspaces` field).
 	 * @param fromDirectory Directory to start searching from
-	 * @returns Workspace root path or null if not in workspace
+	 * @returns Detected workspace or null if not in workspace
 	 */
-	private findWorkspaceRoot(fromDirectory: string): string | null {
+	private findWorkspaceRoot(fromDirectory: string): DetectedWorkspace | null {
 		let currentDir = fromDirectory;
 		const root = path.parse(currentDir).root;
 
 		while (currentDir !== root) {
-			const yamlPath = path.join(currentDir, 'pnpm-workspace.yaml');
-			if (fs.existsSync(yamlPath)) {
+			for (const detector of this.workspaceDetectors) {
+				const patterns = detector.getPackagePatterns(currentDir);
+				if (!patterns) continue;
+
 				if (this.detailedLogging)
 					this.logger.logResolverMessage(
-						t('resolver.log.workspaceRootFound', currentDir)
+						t('resolver.log.workspaceRootFound', currentDir, detector.name)
 					);
-				return currentDir;
+				return {
+					root: currentDir,
+					manifestPath: path.join(currentDir, detector.manifest),
+					patterns
+				};
 			}
 			currentDir = path.dirname(currentDir);
 		}
@@ -273,61 +464,62 @@ export class PathResolver {
 	}
 
 	/**
-	 * Parse pnpm-workspace.yaml and build package map.
-	 * Reads each package's package.json to get its name.
-	 * @param workspaceRoot Absolute path to workspace root
-	 * @returns Map of package name to WorkspacePackage, or null on error
+	 * Expand the workspace package patterns and build package map.
+	 * Reads each package's package.json to get its name. Patterns starting with `!`
+	 * exclude the directories they match.
+	 * @param workspace The detected workspace
+	 * @returns Map of package name to WorkspacePackage
 	 */
-	private parseWorkspacePackages(workspaceRoot: string): Map<string, WorkspacePackage> | null {
-		try {
-			const yamlPath = path.join(workspaceRoot, 'pnpm-workspace.yaml');
-			const yamlContent = fs.readFileSync(yamlPath, 'utf8');
-			const config = parseYaml(yamlContent) as { packages?: string[] };
-
-			if (!config.packages || config.packages.length === 0) return null;
-
-			const packages = new Map<string, WorkspacePackage>();
-
-			// Parse each package pattern and read package.json
-			for (const pattern of config.packages) {
-				// Expand glob patterns to actual directories
-				const packageDirs = this.expandGlobPattern(workspaceRoot, pattern);
-
-				for (const packagePath of packageDirs) {
-					const packageJsonPath = path.join(packagePath, 'package.json');
-					if (!fs.existsSync(packageJsonPath)) continue;
-
-					try {
-						const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
-						if (packageJson.name)
-							packages.set(packageJson.name, {
-								name: packageJson.name,
-								directory: packagePath,
-								packageJsonPath
-							});
-					} catch {
-						// Skip packages with invalid package.json
-						continue;
-					}
+	private parseWorkspacePackages(workspace: DetectedWorkspace): Map<string, WorkspacePackage> {
+		const packages = new Map<string, WorkspacePackage>();
+		const excluded = new Set(
+			workspace.patterns
+				.filter((p) => p.startsWith('!'))
+				.flatMap((p) => this.expandGlobPattern(workspace.root, p.slice(1)))
+		);
+
+		// Parse each package pattern and read package.json
+		for (const pattern of workspace.patterns) {
+			if (pattern.startsWith('!')) continue;
+
+			// Expand glob patterns to actual directories
+			const packageDirs = this.expandGlobPattern(workspace.root, pattern);
+
+			for (const packagePath of packageDirs) {
+				if (excluded.has(packagePath)) continue;
+				const packageJsonPath = path.join(packagePath, 'package.json');
+				if (!fs.existsSync(packageJsonPath)) continue;
+
+				try {
+					const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+					if (packageJson.name && !packages.has(packageJson.name))
+						packages.set(packageJson.name, {
+							name: packageJson.name,
+							directory: packagePath,
+							packageJsonPath
+						});
+				} catch {
+					// Skip packages with invalid package.json
+					continue;
 				}
 			}
+		}
 
-			if (this.detailedLogging)
-				this.logger.logResolverMessage(
-					t('resolver.log.workspacePackagesLoaded', packages.size.toString())
-				);
+		if (this.detailedLogging)
+			this.logger.logResolverMessage(
+				t('resolver.log.workspacePackagesLoaded', packages.size.toString())
+			);
 
-			return packages;
-		} catch {
-			return null;
-		}
+		return packages;
 	}
 
 	/**
-	 * Expand simple glob patterns like "packages/*" or "code/shared".
-	 * Supports basic wildcards: single asterisk (*) for one level.
+	 * Expand glob patterns like "packages/*", "packages/**" or "code/shared".
+	 * Supports single asterisk (*) for one level, asterisks within a segment
+	 * ("plugin-*") and globstar (**) for any number of levels. node_modules and
+	 * hidden directories are skipped when expanding globstars.
 	 * @param workspaceRoot Workspace root directory
-	 * @param pattern Glob pattern from pnpm-workspace.yaml
+	 * @param pattern Glob pattern from the workspace manifest
 	 * @returns Array of absolute directory paths matching the pattern
 	 */
 	private expandGlobPattern(workspaceRoot: string, pattern: string): string[] {
@@ -337,28 +529,20 @@ export class PathResolver {
 			return fs.existsSync(exactPath) ? [exactPath] : [];
 		}
 
-		// Handle simple glob patterns like "packages/*" or "apps/*"
 		// Split pattern into parts (e.g., "packages/*" -> ["packages", "*"])
-		const parts = pattern.split('/');
+		const parts = pattern.split('/').filter((part) => part !== '' && part !== '.');
 		let currentPaths = [workspaceRoot];
 
 		for (const part of parts)
-			if (part === '*') {
-				// Expand wildcard: read all subdirectories from current paths
-				const expandedPaths: string[] = [];
-				for (const currentPath of currentPaths) {
-					if (!fs.existsSync(currentPath)) continue;
-					try {
-						const entries = fs.readdirSync(currentPath, { withFileTypes: true });
-						for (const entry of entries)
-							if (entry.isDirectory())
-								expandedPaths.push(path.join(currentPath, entry.name));
-					} catch {
-						// Skip directories we can't read
-						continue;
-					}
-				}
-				currentPaths = expandedPaths;
+			if (part === '**') {
+				// Expand globstar: the current paths and all of their descendants
+				currentPaths = [...new Set(currentPaths.flatMap((p) => this.listDescendants(p)))];
+			} else if (part.includes('*')) {
+				// Expand wildcard: read matching subdirectories from current paths
+				const segment = new RegExp(`^${part.split('*').map(escapeRegExp).join('[^/]*')}$`);
+				currentPaths = currentPaths.flatMap((p) =>
+					this.listSubdirectories(p).filter((dir) => segment.test(path.basename(dir)))
+				);
 			} else {
 				// Regular path segment: append to all current paths
 				currentPaths = currentPaths.map((p) => path.join(p, part));
@@ -369,68 +553,214 @@ export class PathResolver {
 	}
 
 	/**
-	 * Resolve package.json exports field.
-	 * Supports both simple string exports and conditional exports.
-	 * Priority: "svelte" -> "default" -> first available key.
+	 * List the subdirectories of a directory.
+	 * @param directory Absolute directory path
+	 * @returns Absolute paths of the subdirectories, or an empty array if unreadable
+	 */
+	private listSubdirectories(directory: string): string[] {
+		try {
+			return fs
+				.readdirSync(directory, { withFileTypes: true })
+				.filter((entry) => entry.isDirectory())
+				.map((entry) => path.join(directory, entry.name));
+		} catch {
+			// Skip directories we can't read
+			return [];
+		}
+	}
+
+	/**
+	 * List a directory and all of its descendant directories, for globstar expansion.
+	 * @param directory Absolute directory path
+	 * @returns The directory followed by its descendants
+	 */
+	private listDescendants(directory: string): string[] {
+		const result = [directory];
+		for (const child of this.listSubdirectories(directory)) {
+			const name = path.basename(child);
+			if (name.startsWith('.') || GLOBSTAR_IGNORED_DIRECTORIES.has(name)) continue;
+			result.push(...this.listDescendants(child));
+		}
+		return result;
+	}
+
+	/**
+	 * Resolve package.json exports field, following Node's algorithm: the `"exports": "./index.js"`
+	 * sugar, exact and wildcard (`./components/*`) subpaths, nested conditions, array fallbacks
+	 * and `null` exclusions.
 	 * @param packageJsonPath Absolute path to package.json
 	 * @param subpath Subpath being imported (e.g., "" for root, "stores" for @pkg/stores)
-	 * @returns Resolved relative path from package root, or null if not found
+	 * @returns Resolved relative path from package root, or null if not exported
 	 */
 	private resolveExportsField(packageJsonPath: string, subpath: string): string | null {
 		try {
 			const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
-			const exports = packageJson.exports;
+			const exports: unknown = packageJson.exports;
 
-			if (!exports) {
+			if (exports === undefined || exports === null) {
 				if (this.detailedLogging)
 					this.logger.logResolverMessage(
 						t('resolver.log.exportsFieldMissing', packageJsonPath)
 					);
+				this.traceStep(
+					'exports',
+					'rejected',
+					t('resolver.trace.exportsFieldMissing'),
+					packageJsonPath
+				);
 				return null;
 			}
 
+			// A string, array or conditions object is the export of the package root
+			const exportsMap: Record<string, unknown> =
+				typeof exports === 'object' &&
+				!Array.isArray(exports) &&
+				Object.keys(exports).some((key) => key.startsWith('.'))
+					? (exports as Record<string, unknown>)
+					: { '.': exports };
+
 			// Build export key: "./<subpath>" or just "."
 			const exportKey = subpath ? `./${subpath}` : '.';
-			const exportValue = exports[exportKey];
-
-			if (!exportValue) return null;
 
-			// Handle simple string export
-			if (typeof exportValue === 'string') {
-				if (this.detailedLogging)
-					this.logger.logResolverMessage(
-						t('resolver.log.exportsFieldResolved', exportKey, exportValue)
+			// Exact subpaths win over the most specific wildcard pattern
+			let matchedKey = exportKey;
+			let patternMatch: string | undefined;
+			if (!(exportKey in exportsMap) || exportKey.includes('*')) {
+				const pattern = matchExportsPattern(exportsMap, exportKey);
+				if (!pattern) {
+					this.traceStep(
+						'exports',
+						'rejected',
+						t(
+							'resolver.trace.noExportsKey',
+							exportKey,
+							Object.keys(exportsMap).join(', ')
+						),
+						packageJsonPath
 					);
-				return exportValue;
+					return null;
+				}
+				matchedKey = pattern.key;
+				patternMatch = pattern.match;
 			}
 
-			// Handle conditional exports object
-			if (typeof exportValue === 'object' && !Array.isArray(exportValue)) {
-				// Priority: svelte -> default -> first available
-				const resolvedPath =
-					exportValue.svelte ?? exportValue.default ?? Object.values(exportValue)[0];
-
-				if (resolvedPath && typeof resolvedPath === 'string') {
-					if (this.detailedLogging) {
-						const usedKey = exportValue.svelte
-							? 'svelte'
-							: exportValue.default
-								? 'default'
-								: Object.keys(exportValue)[0];
-						this.logger.logResolverMessage(
-							t('resolver.log.conditionalExportUsed', usedKey, resolvedPath)
-						);
-					}
-					return resolvedPath;
-				}
+			const resolvedPath = this.resolveExportsTarget(exportsMap[matchedKey], patternMatch);
+			if (!resolvedPath) {
+				if (resolvedPath === null && this.detailedLogging)
+					this.logger.logResolverMessage(t('resolver.log.exportExcluded', matchedKey));
+				this.traceStep(
+					'exports',
+					'rejected',
+					resolvedPath === null
+						? t('resolver.trace.exportExcluded', matchedKey)
+						: t('resolver.trace.noExportTarget', matchedKey),
+					packageJsonPath
+				);
+				return null;
 			}
 
-			return null;
+			if (this.detailedLogging)
+				this.logger.logResolverMessage(
+					t('resolver.log.exportsFieldResolved', matchedKey, resolvedPath)
+				);
+			this.traceStep(
+				'exports',
+				'matched',
+				t('resolver.trace.exportsFieldResolved', matchedKey, resolvedPath),
+				packageJsonPath
+			);
+			return resolvedPath;
 		} catch {
+			this.traceStep(
+				'exports',
+				'rejected',
+				t('resolver.trace.invalidPackageJson'),
+				packageJsonPath
+			);
 			return null;
 		}
 	}
 
+	/**
+	 * Resolve a target of the exports field. Conditions are matched recursively in the
+	 * configured priority order (rather than the package's key order), and `default` always
+	 * matches. The first array entry that resolves is used.
+	 * @param target Target value (string, array, conditions object or null)
+	 * @param patternMatch Replacement for `*` in targets of a wildcard subpath
+	 * @returns Relative path from package root, null if the subpath is excluded,
+	 * or undefined if no target applies
+	 */
+	private resolveExportsTarget(
+		target: unknown,
+		patternMatch?: string
+	): string | null | undefined {
+		// Targets must stay inside the package
+		if (typeof target === 'string') {
+			if (!target.startsWith('./')) {
+				this.traceStep(
+					'exports',
+					'rejected',
+					t('resolver.trace.exportTargetOutside', target)
+				);
+				return undefined;
+			}
+			return patternMatch === undefined ? target : target.replace(/\*/g, patternMatch);
+		}
+
+		if (Array.isArray(target)) {
+			for (const fallback of target) {
+				const resolved = this.resolveExportsTarget(fallback, patternMatch);
+				if (resolved !== undefined) return resolved;
+			}
+			return undefined;
+		}
+
+		if (target && typeof target === 'object') {
+			const conditions = target as Record<string, unknown>;
+			const priority = this.exportConditions.includes('default')
+				? this.exportConditions
+				: [...this.exportConditions, 'default'];
+
+			for (const condition of priority) {
+				if (!(condition in conditions)) continue;
+				const resolved = this.resolveExportsTarget(conditions[condition], patternMatch);
+				if (resolved === undefined) {
+					this.traceStep(
+						'exports',
+						'rejected',
+						t('resolver.trace.conditionNotApplicable', condition)
+					);
+					continue;
+				}
+
+				if (resolved && this.detailedLogging)
+					this.logger.logResolverMessage(
+						t('resolver.log.conditionalExportUsed', condition, resolved)
+					);
+				if (resolved)
+					this.traceStep(
+						'exports',
+						'info',
+						t('resolver.trace.conditionalExportUsed', condition, resolved)
+					);
+				return resolved;
+			}
+			this.traceStep(
+				'exports',
+				'rejected',
+				t(
+					'resolver.trace.noConditionMatched',
+					Object.keys(conditions).join(', '),
+					priority.join(', ')
+				)
+			);
+			return undefined;
+		}
+
+		// null excludes the subpath
+		return null;
+	}
+
 	/**
 	 * Parse export statements from barrel file content to find component re-export.
 	 * Supports patterns: export { default as X }, export { X }, export * from
@@ -528,22 +858,40 @@ export class PathResolver {
 	): BarrelResolutionResult | null {
 		const startTime = performance.now();
 
+		const hop = currentDepth + 1;
 		if (currentDepth >= maxDepth) {
 			if (this.detailedLogging)
 				this.logger.logResolverMessage(
 					t('resolver.log.barrelMaxDepthReached', maxDepth.toString())
 				);
+			this.traceStep(
+				'barrel',
+				'rejected',
+				t('resolver.trace.barrelMaxDepthReached', maxDepth.toString()),
+				indexPath,
+				hop
+			);
 			return null;
 		}
 
 		if (this.detailedLogging)
 			this.logger.logResolverMessage(t('resolver.log.barrelFileDetected', indexPath));
+		this.traceStep('barrel', 'info', t('resolver.trace.barrelFileDetected'), indexPath, hop);
 
 		try {
 			const content = fs.readFileSync(indexPath, 'utf8');
 			const parseResult = this.parseBarrelExports(content, componentName);
 
-			if (!parseResult) return null;
+			if (!parseResult) {
+				this.traceStep(
+					'barrel',
+					'rejected',
+					t('resolver.trace.barrelExportMissing', componentName),
+					indexPath,
+					hop
+				);
+				return null;
+			}
 
 			// Handle array of wildcard paths (export * from './path')
 			if (Array.isArray(parseResult)) {
@@ -555,6 +903,13 @@ export class PathResolver {
 							componentName
 						)
 					);
+				this.traceStep(
+					'barrel',
+					'info',
+					t('resolver.trace.barrelWildcardExports', parseResult.join(', ')),
+					indexPath,
+					hop
+				);
 
 				// Try each wildcard path until we find the component
 				const indexDir = path.dirname(indexPath);
@@ -563,18 +918,27 @@ export class PathResolver {
 
 					// Try with extension fallback if path doesn't have extension
 					if (!path.extname(resolvedPath)) {
-						const withExtensions = this.tryPathWithExtensions([resolvedPath]);
+						const withExtensions = this.tryPathWithExtensions(
+							[resolvedPath],
+							isDeclarationFile(indexPath)
+						);
 						if (withExtensions) resolvedPath = withExtensions;
 						else continue; // Path doesn't exist, try next one
 					}
 
 					// Check if resolved path exists, try .ts if .js doesn't exist
+					const tsPath = resolvedPath.replace(/\.js$/, '.ts');
 					if (!fs.existsSync(resolvedPath))
-						if (resolvedPath.endsWith('.js')) {
-							const tsPath = resolvedPath.slice(0, -3) + '.ts';
-							if (fs.existsSync(tsPath)) resolvedPath = tsPath;
-							else continue;
+						if (resolvedPath !== tsPath && fs.existsSync(tsPath)) {
+							resolvedPath = tsPath;
 						} else {
+							this.traceStep(
+								'barrel',
+								'rejected',
+								t('resolver.trace.barrelTargetMissing'),
+								resolvedPath,
+								hop
+							);
 							continue;
 						}
 
@@ -590,16 +954,44 @@ export class PathResolver {
 						if (nestedResult)
 							return nestedResult; // Found it!
 						else continue; // Not in this barrel, try next one
-					} // Found the component file
+					}
+
+					// `export *` targets are ambiguous: only accept one that provides the name
+					if (!this.exportsName(resolvedPath, componentName)) {
+						this.traceStep(
+							'barrel',
+							'rejected',
+							t('resolver.trace.barrelWildcardMissing', componentName),
+							resolvedPath,
+							hop
+						);
+						continue;
+					}
+
+					// Found the component file
+					this.traceStep(
+						'barrel',
+						'matched',
+						t('resolver.trace.barrelResolved', componentName),
+						resolvedPath,
+						hop
+					);
 					const durationMs = Math.round(performance.now() - startTime);
 					return {
 						path: resolvedPath,
-						depth: currentDepth + 1,
+						depth: hop,
 						durationMs
 					};
 				}
 
 				// None of the wildcard paths contained the component
+				this.traceStep(
+					'barrel',
+					'rejected',
+					t('resolver.trace.barrelExportMissing', componentName),
+					indexPath,
+					hop
+				);
 				return null;
 			}
 
@@ -610,6 +1002,13 @@ export class PathResolver {
 				this.logger.logResolverMessage(
 					t('resolver.log.barrelExportFound', componentName, relativePath)
 				);
+			this.traceStep(
+				'barrel',
+				'info',
+				t('resolver.trace.barrelExportFound', componentName, relativePath),
+				indexPath,
+				hop
+			);
 
 			// Resolve relative path from index file location
 			const indexDir = path.dirname(indexPath);
@@ -617,12 +1016,32 @@ export class PathResolver {
 
 			// Try with extension fallback if path doesn't have extension
 			if (!path.extname(resolvedPath)) {
-				const withExtensions = this.tryPathWithExtensions([resolvedPath]);
+				const withExtensions = this.tryPathWithExtensions(
+					[resolvedPath],
+					isDeclarationFile(indexPath)
+				);
 				if (withExtensions) resolvedPath = withExtensions;
 			}
 
+			// Libraries may ship a component's declarations (Button.svelte.d.ts) without the source
+			if (
+				!fs.existsSync(resolvedPath) &&
+				resolvedPath.endsWith('.svelte') &&
+				fs.existsSync(`${resolvedPath}.d.ts`)
+			)
+				resolvedPath = `${resolvedPath}.d.ts`;
+
 			// Check if resolved path exists
-			if (!fs.existsSync(resolvedPath)) return null;
+			if (!fs.existsSync(resolvedPath)) {
+				this.traceStep(
+					'barrel',
+					'rejected',
+					t('resolver.trace.barrelTargetMissing'),
+					resolvedPath,
+					hop
+				);
+				return null;
+			}
 
 			// Check if this is another barrel file (nested barrel)
 			if (this.isBarrelFile(resolvedPath))
@@ -635,13 +1054,27 @@ export class PathResolver {
 				);
 
 			// Found the component file
+			this.traceStep(
+				'barrel',
+				'matched',
+				t('resolver.trace.barrelResolved', componentName),
+				resolvedPath,
+				hop
+			);
 			const durationMs = Math.round(performance.now() - startTime);
 			return {
 				path: resolvedPath,
-				depth: currentDepth + 1,
+				depth: hop,
 				durationMs
 			};
 		} catch {
+			this.traceStep(
+				'barrel',
+				'rejected',
+				t('resolver.trace.barrelUnreadable'),
+				indexPath,
+				hop
+			);
 			return null;
 		}
 	}
@@ -663,42 +1096,29 @@ export class PathResolver {
 
 		// 1. Find workspace root
 		const fromDirectory = path.dirname(fromFile);
-		const workspaceRoot = this.findWorkspaceRoot(fromDirectory);
-		if (!workspaceRoot) return undefined;
+		const workspace = this.findWorkspaceRoot(fromDirectory);
+		if (!workspace) {
+			this.traceStep('workspace', 'rejected', t('resolver.trace.workspaceNotFound'));
+			return undefined;
+		}
+		const workspaceRoot = workspace.root;
 
 		// 2. Get or parse workspace packages
 		let workspaceEntry = this.cache.getWorkspace(workspaceRoot);
-		if (!workspaceEntry) {
-			const packages = this.parseWorkspacePackages(workspaceRoot);
-			if (!packages) return undefined;
-
-			const yamlPath = path.join(workspaceRoot, 'pnpm-workspace.yaml');
-			const mtime = fs.statSync(yamlPath).mtimeMs;
-			this.cache.setWorkspace(workspaceRoot, packages, mtime);
-			workspaceEntry = { workspaceRoot, packages, mtime };
+		if (workspaceEntry?.manifestPath !== workspace.manifestPath) {
+			const packages = this.parseWorkspacePackages(workspace);
+			const manifestPath = workspace.manifestPath;
+			const mtime = fs.statSync(manifestPath).mtimeMs;
+			this.cache.setWorkspace(workspaceRoot, packages, mtime, manifestPath);
+			workspaceEntry = { workspaceRoot, packages, manifestPath, mtime };
 		}
 
 		// 3. Match specifier to package (handle subpaths)
 		// Extract package name and subpath from specifier
 		// e.g., "@budget-suite/shared/stores" -> package: "@budget-suite/shared", subpath: "stores"
-		let packageName: string;
-		let subpath = '';
-
-		if (specifier.startsWith('@')) {
-			// Scoped package: @scope/name or @scope/name/subpath
-			const parts = specifier.split('/');
-			if (parts.length >= 2) {
-				packageName = `${parts[0]}/${parts[1]}`;
-				subpath = parts.slice(2).join('/');
-			} else {
-				return undefined;
-			}
-		} else {
-			// Unscoped package: name or name/subpath
-			const parts = specifier.split('/');
-			packageName = parts[0];
-			subpath = parts.slice(1).join('/');
-		}
+		const parsedSpecifier = splitPackageSpecifier(specifier);
+		if (!parsedSpecifier) return undefined;
+		const { packageName, subpath }: PackageSpecifier = parsedSpecifier;
 
 		const pkg = workspaceEntry.packages.get(packageName);
 		if (!pkg) {
@@ -706,6 +1126,16 @@ export class PathResolver {
 				this.logger.logResolverMessage(
 					t('resolver.log.workspacePackageNotFound', specifier)
 				);
+			this.traceStep(
+				'workspace',
+				'rejected',
+				t(
+					'resolver.trace.workspacePackageNotFound',
+					packageName,
+					workspaceEntry.packages.size.toString()
+				),
+				workspace.manifestPath
+			);
 			return undefined;
 		}
 
@@ -713,6 +1143,12 @@ export class PathResolver {
 			this.logger.logResolverMessage(
 				t('resolver.log.workspacePackageMatched', packageName, pkg.directory)
 			);
+		this.traceStep(
+			'workspace',
+			'matched',
+			t('resolver.trace.workspacePackageMatched', packageName),
+			pkg.directory
+		);
 
 		// 4. Resolve exports field
 		const exportPath = this.resolveExportsField(pkg.packageJsonPath, subpath);
@@ -768,6 +1204,172 @@ export class PathResolver {
 		return resolvedPath;
 	}
 
+	/**
+	 * Resolve an import of a package installed in node_modules (e.g. `bits-ui`).
+	 * Searches each node_modules directory up from the importing file, including pnpm's
+	 * hidden `node_modules/.pnpm/node_modules` hoisting directory. Symlinked packages (pnpm's
+	 * `.pnpm` store layout) are followed to their real location, so the package's own
+	 * dependencies resolve as they would in Node. The entry point comes from the exports field,
+	 * then the `svelte` and `main` fields, and barrel files are followed to the component.
+	 * @param specifier Import specifier (e.g., bits-ui or @scope/lib/components)
+	 * @param fromFile File containing the import
+	 * @param componentName Component name to find in barrel files
+	 * @returns Resolved absolute path or undefined if not found
+	 */
+	private resolveNodeModulesPackage(
+		specifier: string,
+		fromFile: string,
+		componentName?: string
+	): string | undefined {
+		const totalStartTime = performance.now();
+
+		// 1. Find the package directory
+		const parsedSpecifier = splitPackageSpecifier(specifier);
+		if (!parsedSpecifier) {
+			this.traceStep('nodeModules', 'rejected', t('resolver.trace.invalidPackageName'));
+			return undefined;
+		}
+		const { packageName, subpath }: PackageSpecifier = parsedSpecifier;
+
+		const packageDirectory = this.findNodeModulesPackage(path.dirname(fromFile), packageName);
+		if (!packageDirectory) {
+			if (this.detailedLogging)
+				this.logger.logResolverMessage(
+					t('resolver.log.nodeModulesPackageNotFound', packageName)
+				);
+			this.traceStep(
+				'nodeModules',
+				'rejected',
+				t('resolver.trace.nodeModulesPackageNotFound', packageName)
+			);
+			return undefined;
+		}
+
+		if (this.detailedLogging)
+			this.logger.logResolverMessage(
+				t('resolver.log.nodeModulesPackageFound', packageName, packageDirectory)
+			);
+		this.traceStep(
+			'nodeModules',
+			'matched',
+			t('resolver.trace.nodeModulesPackageFound', packageName),
+			packageDirectory
+		);
+
+		// 2. Resolve the entry point: exports field, then the svelte/main fields or the subpath
+		const packageJsonPath = path.join(packageDirectory, 'package.json');
+		let entryPath: string | null;
+		try {
+			const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+			if (packageJson.exports) {
+				entryPath = this.resolveExportsField(packageJsonPath, subpath);
+			} else if (subpath) {
+				entryPath = subpath;
+			} else {
+				const field = ['svelte', 'main'].find((f) => typeof packageJson[f] === 'string');
+				entryPath = field ? packageJson[field] : '';
+				if (field && this.detailedLogging)
+					this.logger.logResolverMessage(
+						t('resolver.log.packageFieldUsed', field, packageJson[field])
+					);
+				if (field)
+					this.traceStep(
+						'nodeModules',
+						'info',
+						t('resolver.trace.packageFieldUsed', field, packageJson[field]),
+						packageJsonPath
+					);
+			}
+		} catch {
+			this.traceStep(
+				'nodeModules',
+				'rejected',
+				t('resolver.trace.invalidPackageJson'),
+				packageJsonPath
+			);
+			return undefined;
+		}
+		if (entryPath === null) return undefined;
+
+		// Resolve entry path relative to package directory, with extension/index fallback
+		let resolvedPath = path.resolve(packageDirectory, entryPath);
+		if (!fs.existsSync(resolvedPath) || !fs.statSync(resolvedPath).isFile()) {
+			const withExtensions = this.tryPathWithExtensions([resolvedPath]);
+			if (withExtensions) resolvedPath = withExtensions;
+			else return undefined;
+		}
+
+		// 3. Follow barrel files (e.g. dist/index.js) to the component
+		let barrelDepth = 0;
+		if (componentName && this.maxBarrelDepth > 0 && this.isBarrelFile(resolvedPath)) {
+			const barrelResult = this.resolveBarrelFile(
+				resolvedPath,
+				componentName,
+				0,
+				this.maxBarrelDepth
+			);
+			if (barrelResult) {
+				resolvedPath = barrelResult.path;
+				barrelDepth = barrelResult.depth;
+
+				if (this.detailedLogging) {
+					const totalDuration = Math.round(performance.now() - totalStartTime);
+					this.logger.logResolverMessage(
+						t(
+							'resolver.log.barrelResolutionComplete',
+							barrelDepth.toString(),
+							totalDuration.toString(),
+							resolvedPath
+						)
+					);
+				}
+			}
+		}
+
+		// 4. Cache the result
+		const cacheKey = `${specifier}|${fromFile}|${componentName ?? ''}`;
+		this.cache.setPackageResolution(cacheKey, {
+			resolvedPath,
+			packageJsonMtime: fs.statSync(packageJsonPath).mtimeMs,
+			barrelDepth,
+			resolvedAt: Date.now()
+		});
+
+		return resolvedPath;
+	}
+
+	/**
+	 * Find an installed package by searching each node_modules directory upward.
+	 * @param fromDirectory Directory to start searching from
+	 * @param packageName Package name (e.g., bits-ui or @scope/lib)
+	 * @returns Real path of the package directory, or undefined if not installed
+	 */
+	private findNodeModulesPackage(fromDirectory: string, packageName: string): string | undefined {
+		let currentDir = fromDirectory;
+
+		for (;;) {
+			if (path.basename(currentDir) !== 'node_modules') {
+				const nodeModules = path.join(currentDir, 'node_modules');
+				const candidates = [
+					path.join(nodeModules, packageName),
+					path.join(nodeModules, '.pnpm', 'node_modules', packageName)
+				];
+
+				for (const candidate of candidates)
+					if (fs.existsSync(path.join(candidate, 'package.json')))
+						try {
+							return fs.realpathSync(candidate);
+						} catch {
+							return candidate;
+						}
+			}
+
+			const parentDir = path.dirname(currentDir);
+			if (parentDir === currentDir) return undefined;
+			currentDir = parentDir;
+		}
+	}
+
 	/**
 	 * Update the detailed logging setting.
 	 * @param enabled Whether to enable detailed logging
@@ -800,6 +1402,22 @@ export class PathResolver {
 		this.barrelPriority = priority;
 	}
 
+	/**
+	 * Update the export conditions setting.
+	 * @param conditions Conditions to match in package.json exports, in priority order
+	 */
+	public setExportConditions(conditions: string[]): void {
+		this.exportConditions = conditions;
+	}
+
+	/**
+	 * Replace the workspace detectors, e.g. to support another package manager.
+	 * @param detectors Detectors in priority order
+	 */
+	public setWorkspaceDetectors(detectors: WorkspaceDetector[]): void {
+		this.workspaceDetectors = detectors;
+	}
+
 	/**
 	 * Check if a file path represents a barrel file based on configured names.
 	 * Supports wildcard '*' to match any .ts/.js file with re-export patterns.
@@ -807,7 +1425,11 @@ export class PathResolver {
 	 * @returns True if file should be treated as a barrel file
 	 */
 	private isBarrelFile(filePath: string): boolean {
-		const fileName = path.basename(filePath, path.extname(filePath)).toLowerCase();
+		// Declaration barrels (index.d.ts) are named like their .js/.ts counterparts
+		const fileName = path
+			.basename(filePath, path.extname(filePath))
+			.replace(/\.d$/, '')
+			.toLowerCase();
 
 		// Check for wildcard - if present, verify file has re-export patterns
 		if (this.barrelFileNames.includes('*'))
@@ -823,6 +1445,32 @@ export class PathResolver {
 		return this.barrelFileNames.some((name) => name.toLowerCase() === fileName);
 	}
 
+	/**
+	 * Check whether a file reached through `export *` provides a name: a component file named
+	 * after it, or a module that declares or re-exports it.
+	 * @param filePath Absolute path to the re-exported file
+	 * @param name Export name to look for (e.g., "Button")
+	 * @returns True if the file exports the name
+	 */
+	private exportsName(filePath: string, name: string): boolean {
+		const componentMatch = /([^/\\]+)\.svelte(?:\.d\.ts)?$/.exec(filePath);
+		if (componentMatch) return componentMatch[1] === name;
+
+		try {
+			const content = fs.readFileSync(filePath, 'utf8');
+			const escaped = escapeRegExp(name);
+			const declaration = new RegExp(
+				`\\bexport\\s+(?:declare\\s+)?(?:default\\s+)?(?:abstract\\s+)?(?:async\\s+)?(?:const|let|var|function\\*?|class|interface|type|enum|namespace)\\s+${escaped}(?![\\w$])`
+			);
+			const exportList = new RegExp(
+				`\\bexport\\s+(?:type\\s+)?\\{[^}]*(?<![\\w$])${escaped}(?![\\w$])[^}]*\\}`
+			);
+			return declaration.test(content) || exportList.test(content);
+		} catch {
+			return false;
+		}
+	}
+
 	/**
 	 * Invalidate cache for a specific tsconfig file.
 	 * @param tsconfigPath Absolute path to the modified tsconfig.json
@@ -834,12 +1482,126 @@ export class PathResolver {
 	}
 
 	/**
-	 * Invalidate workspace package cache when pnpm-workspace.yaml changes.
-	 * @param yamlPath Absolute path to the modified pnpm-workspace.yaml
+	 * Invalidate cached config file aliases when a svelte.config.js or vite.config.ts changes.
+	 * @param configPath Absolute path to the modified config file
 	 */
-	public invalidateWorkspace(yamlPath: string): void {
-		this.cache.invalidateWorkspace(yamlPath);
+	public invalidateConfigAliases(configPath: string): void {
+		this.cache.invalidateConfigAliases();
 		if (this.detailedLogging)
-			this.logger.logResolverMessage(t('resolver.log.configFileChanged', yamlPath));
+			this.logger.logResolverMessage(t('resolver.log.configFileChanged', configPath));
+	}
+
+	/**
+	 * Invalidate workspace package cache when a workspace manifest changes
+	 * (pnpm-workspace.yaml, or any package.json as it may declare workspaces or a package).
+	 * @param manifestPath Absolute path to the modified manifest
+	 */
+	public invalidateWorkspace(manifestPath: string): void {
+		this.cache.invalidateWorkspace(manifestPath);
+		if (this.detailedLogging)
+			this.logger.logResolverMessage(t('resolver.log.configFileChanged', manifestPath));
+	}
+}
+
+/**
+ * Split a bare import specifier into its package name and subpath.
+ * e.g., "@budget-suite/shared/stores" -> package: "@budget-suite/shared", subpath: "stores"
+ * @param specifier Import specifier
+ * @returns Package name and subpath, or undefined for an incomplete scoped specifier
+ */
+function splitPackageSpecifier(specifier: string): PackageSpecifier | undefined {
+	const parts = specifier.split('/');
+
+	// Scoped package: @scope/name or @scope/name/subpath
+	if (specifier.startsWith('@'))
+		return parts.length >= 2
+			? { packageName: `${parts[0]}/${parts[1]}`, subpath: parts.slice(2).join('/') }
+			: undefined;
+
+	// Unscoped package: name or name/subpath
+	return { packageName: parts[0], subpath: parts.slice(1).join('/') };
+}
+
+/**
+ * Find the wildcard key of an exports map matching a subpath, preferring the longest prefix
+ * before the `*` and then the longest key (Node's PATTERN_KEY_COMPARE).
+ * @param exportsMap Exports field keyed by subpath
+ * @param exportKey Subpath being imported (e.g., "./components/Button")
+ */
+function matchExportsPattern(
+	exportsMap: Record<string, unknown>,
+	exportKey: string
+): ExportsPatternMatch | undefined {
+	let best: ExportsPatternMatch | undefined;
+
+	for (const key of Object.keys(exportsMap)) {
+		const star = key.indexOf('*');
+		if (star === -1 || star !== key.lastIndexOf('*')) continue;
+
+		const base = key.slice(0, star);
+		const trailer = key.slice(star + 1);
+		if (!exportKey.startsWith(base) || exportKey === base || exportKey.length < key.length)
+			continue;
+		if (!exportKey.endsWith(trailer)) continue;
+
+		if (best) {
+			const bestStar = best.key.indexOf('*');
+			if (star < bestStar || (star === bestStar && key.length <= best.key.length)) continue;
+		}
+
+		const match = exportKey.slice(star, exportKey.length - trailer.length);
+
+		// The matched part may not leave the package or reach into node_modules
+		if (match.split('/').some((segment) => ['.', '..', 'node_modules'].includes(segment)))
+			continue;
+
+		best = { key, match };
 	}
+
+	return best;
+}
+
+/**
+ * Check whether a file is a TypeScript declaration file (`.d.ts`, including `.svelte.d.ts`).
+ */
+function isDeclarationFile(filePath: string): boolean {
+	return filePath.endsWith('.d.ts');
+}
+
+/**
+ * Get the extensions tried after an import specifier, in order. Declaration files import
+ * types, so they prefer `.d.ts` over the `.js` file emitted next to it.
+ */
+function getExtensions(preferDeclarations: boolean): string[] {
+	return preferDeclarations
+		? ['', '.svelte', '.d.ts', '.ts', '.js']
+		: ['', '.svelte', '.ts', '.js', '.d.ts'];
+}
+
+/**
+ * Get the files an import of a base path may refer to: the path with each extension, then the
+ * index files of the directory.
+ * @param basePath Absolute path of the import, without extension
+ * @param preferDeclarations Try `.d.ts` files before `.js` (imports of a declaration file)
+ * @returns Candidate file paths in the order they should be tried
+ */
+function getCandidatePaths(basePath: string, preferDeclarations: boolean): string[] {
+	const extensions = getExtensions(preferDeclarations);
+	const candidates = [
+		...extensions.map((ext) => basePath + ext),
+		...extensions.slice(1).map((ext) => path.join(basePath, `index${ext}`))
+	];
+
+	// `./types.js` in a declaration file refers to the declarations of the emitted file
+	if (preferDeclarations && basePath.endsWith('.js'))
+		candidates.unshift(basePath.slice(0, -3) + '.d.ts');
+
+	return candidates;
+}
+
+/**
+ * Escape a string for use in a regular expression.
+ */
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
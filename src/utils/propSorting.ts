@@ -1,3 +1,4 @@
+import { isSnippetType } from '../parsers/snippetParser';
 import { PropInfo, TooltipOrder } from '../types';
 
 /**
@@ -8,7 +9,8 @@ const TYPE_CATEGORIES: Record<string, number> = {
 	CUSTOM: 1,
 	ARRAY: 2,
 	OBJECT: 3,
-	FUNCTION: 4
+	FUNCTION: 4,
+	SNIPPET: 5
 };
 
 /**
@@ -35,6 +37,9 @@ export function categorizeType(type: string): number {
 	// Check for primitives (exact match)
 	if (PRIMITIVE_ORDER.includes(normalized)) return TYPE_CATEGORIES.PRIMITIVE;
 
+	// Check for snippets (Snippet, Snippet<[T]>) before generics are treated as objects
+	if (isSnippetType(type)) return TYPE_CATEGORIES.SNIPPET;
+
 	// Check for functions (contains => or starts with ()
 	if (type.includes('=>') || /^\s*\(/.test(type)) return TYPE_CATEGORIES.FUNCTION;
 
@@ -88,7 +93,7 @@ export function sortProps(props: PropInfo[], order: TooltipOrder): PropInfo[] {
 			break;
 
 		case 'type':
-			// Smart type categorization: primitives → custom → arrays → objects → functions
+			// Smart type categorization: primitives → custom → arrays → objects → functions → snippets
 			sorted.sort((a, b) => {
 				const catA = categorizeType(a.type);
 				const catB = categorizeType(b.type);
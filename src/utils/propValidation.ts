@@ -0,0 +1,125 @@
+import type { ComponentUsage, PropExtractionResult, PropValidationIssue } from '../types';
+import { extractComponentDeprecation } from './extractor';
+
+/**
+ * Attribute names that Svelte handles itself and never map to component props.
+ */
+const IGNORED_ATTRIBUTES: string[] = ['slot', 'this'];
+
+/**
+ * Convert a raw attribute name into the prop name it sets.
+ * Returns undefined for directives that don't set props (on:, use:, class:, let:, etc.) and
+ * for CSS custom properties (`--color="red"`), which Svelte applies to a wrapper element.
+ * @param attributeName Raw attribute name (e.g., 'bind:value')
+ * @returns The prop name (e.g., 'value') or undefined
+ */
+export function getPropNameFromAttribute(attributeName: string): string | undefined {
+	if (attributeName.startsWith('bind:')) return attributeName.slice(5);
+	if (attributeName.includes(':') || attributeName.startsWith('--')) return undefined;
+	if (IGNORED_ATTRIBUTES.includes(attributeName)) return undefined;
+	return attributeName;
+}
+
+/**
+ * Check whether a prop is provided through the component's content rather than an attribute.
+ * `children` is provided by any non-empty content; other snippet props by `{#snippet name()}`.
+ */
+function isProvidedByContent(propName: string, usage: ComponentUsage): boolean {
+	if (!usage.children) return false;
+	if (propName === 'children' && usage.children.trim() !== '') return true;
+	const escaped = propName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	return new RegExp(`\\{#snippet\\s+${escaped}\\s*\\(`).test(usage.children);
+}
+
+/**
+ * Validate component usages against the props extracted from each component.
+ * Reports required props that are missing, attributes that are not known props, and
+ * usages of deprecated components and props (`@deprecated` JSDoc tags).
+ * Unknown attributes are only reported when every props type could be resolved
+ * (i.e. nothing remains under "Extends"), since unresolved types may declare them, and when
+ * the component doesn't forward rest props.
+ * @param usages Component usages found in the document
+ * @param getProps Callback returning the extraction result for a tag name
+ * @returns List of validation issues
+ */
+export function validateComponentUsages(
+	usages: ComponentUsage[],
+	getProps: (tagName: string) => PropExtractionResult
+): PropValidationIssue[] {
+	const issues: PropValidationIssue[] = [];
+	const resultsByTag = new Map<string, PropExtractionResult>();
+
+	for (const usage of usages) {
+		let result = resultsByTag.get(usage.tagName);
+		if (!result) {
+			result = getProps(usage.tagName);
+			resultsByTag.set(usage.tagName, result);
+		}
+
+		// Deprecation only needs the docs, so report it even when no props could be extracted
+		const componentDeprecated = result.documentation
+			? extractComponentDeprecation(result.documentation)
+			: undefined;
+		if (componentDeprecated !== undefined)
+			issues.push({
+				kind: 'deprecatedComponent',
+				tagName: usage.tagName,
+				reason: componentDeprecated || undefined,
+				start: usage.nameStart,
+				end: usage.nameEnd
+			});
+
+		if (!result.success || !result.props) continue;
+
+		const knownProps = new Map(result.props.map((p) => [p.name, p]));
+		const providedProps = new Set<string>();
+
+		for (const attribute of usage.attributes) {
+			const propName = getPropNameFromAttribute(attribute.name);
+			if (!propName) continue;
+			providedProps.add(propName);
+
+			const deprecated = knownProps.get(propName)?.jsdoc?.deprecated;
+			if (deprecated !== undefined)
+				issues.push({
+					kind: 'deprecatedProp',
+					tagName: usage.tagName,
+					propName,
+					reason: deprecated || undefined,
+					start: attribute.start,
+					end: attribute.end
+				});
+			else if (
+				!knownProps.has(propName) &&
+				!result.restProps &&
+				(result.inherits ?? []).length === 0
+			)
+				issues.push({
+					kind: 'unknownAttribute',
+					tagName: usage.tagName,
+					propName,
+					start: attribute.start,
+					end: attribute.end
+				});
+		}
+
+		// Spread attributes may provide any prop, so missing props can't be detected
+		if (usage.hasSpread) continue;
+
+		for (const prop of result.props)
+			if (
+				prop.required &&
+				!providedProps.has(prop.name) &&
+				!isProvidedByContent(prop.name, usage)
+			)
+				issues.push({
+					kind: 'missingRequired',
+					tagName: usage.tagName,
+					propName: prop.name,
+					start: usage.nameStart,
+					end: usage.nameEnd
+				});
+	}
+
+	return issues;
+}
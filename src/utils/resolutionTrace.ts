@@ -0,0 +1,140 @@
+import type {
+	ResolutionStrategy,
+	ResolutionTrace,
+	ResolutionTraceStep,
+	SourceDocument
+} from '../types';
+import { resolveComponentImport } from './componentProps';
+import { t } from './localization';
+import type { PathResolver } from './pathResolver';
+
+/**
+ * URI scheme of the virtual documents the "Explain Resolution" command opens.
+ */
+export const RESOLUTION_TRACE_SCHEME = 'sveltedoc-resolution';
+
+/**
+ * Icon shown in front of each step, by outcome.
+ */
+const OUTCOME_ICONS: Record<ResolutionTraceStep['outcome'], string> = {
+	matched: '✅',
+	rejected: '❌',
+	info: '➡️'
+};
+
+/**
+ * Explain how the import of a component tag resolves: runs the same resolution as the hover
+ * with tracing enabled and formats every `PathResolver.resolve` call it made.
+ * @param document The document using the component
+ * @param tagName The component tag name (or a `<svelte:component this={...}>` reference)
+ * @param pathResolver Path resolver to trace
+ * @returns Markdown document describing each strategy tried and why it was rejected
+ */
+export function explainComponentResolution(
+	document: SourceDocument,
+	tagName: string,
+	pathResolver: PathResolver
+): string {
+	const traced = pathResolver.traceResolution(() =>
+		resolveComponentImport(document, tagName, pathResolver)
+	);
+	const result = traced.result;
+	const traces = traced.traces;
+
+	const lines = [
+		`# ${t('resolver.trace.title', `\`<${tagName}>\``)}`,
+		'',
+		`- **${t('resolver.trace.file')}:** \`${document.fileName}\``
+	];
+
+	if (!result.importInfo) {
+		lines.push('', t('resolver.trace.noImport', `\`<${tagName}>\``));
+		return lines.join('\n') + '\n';
+	}
+
+	lines.push(
+		`- **${t('resolver.trace.import')}:** \`${result.importInfo.specifier}\``,
+		`- **${t('resolver.trace.result')}:** ${
+			result.componentPath
+				? `${OUTCOME_ICONS.matched} ${t('resolver.trace.resolved', `\`${result.componentPath}\``)}`
+				: `${OUTCOME_ICONS.rejected} ${t('resolver.trace.unresolved')}`
+		}`
+	);
+
+	// The import itself resolved, but not to a component (e.g. a missing member of a namespace)
+	if (!result.componentPath && traces.some((trace) => trace.resolvedPath))
+		lines.push('', t('resolver.trace.componentNotExported', `\`${tagName}\``));
+
+	for (const trace of traces) lines.push('', formatResolutionTrace(trace));
+
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * Format a single traced `resolve()` call as markdown: a section per strategy, with probed
+ * files nested under the step that produced them and barrel hops indented by depth.
+ * @param trace The traced resolution
+ * @returns Markdown, starting with a level 2 heading
+ */
+export function formatResolutionTrace(trace: ResolutionTrace): string {
+	const title = trace.componentName
+		? t('resolver.trace.callWithExport', trace.specifier, trace.componentName)
+		: t('resolver.trace.call', trace.specifier);
+	const icon = trace.resolvedPath ? OUTCOME_ICONS.matched : OUTCOME_ICONS.rejected;
+	const lines = [`## ${icon} ${title}`];
+	if (trace.resolvedPath)
+		lines.push('', t('resolver.trace.resolved', `\`${trace.resolvedPath}\``));
+
+	let section: string | undefined;
+	let indent = 0;
+	for (const step of trace.steps) {
+		const stepSection = getSectionTitle(step.strategy);
+		if (stepSection && stepSection !== section) {
+			lines.push('', `### ${stepSection}`, '');
+			section = stepSection;
+		}
+
+		// Probes belong to the step before them; barrel hops nest one level per barrel file
+		if (step.strategy !== 'probe') indent = step.barrelDepth ?? 0;
+		const level = step.strategy === 'probe' ? indent + 1 : indent;
+		lines.push(`${'  '.repeat(level)}- ${formatStep(step)}`);
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * Format the text of a trace step (without its list marker).
+ */
+function formatStep(step: ResolutionTraceStep): string {
+	const icon = OUTCOME_ICONS[step.outcome];
+	if (step.strategy === 'probe') return `${icon} \`${step.path ?? ''}\` — ${step.message}`;
+
+	const hop =
+		step.barrelDepth === undefined
+			? ''
+			: `${t('resolver.trace.hop', step.barrelDepth.toString())}: `;
+	const location = step.path ? ` (\`${step.path}\`)` : '';
+	return `${icon} ${hop}${step.message}${location}`;
+}
+
+/**
+ * Get the section heading of a strategy, or undefined for steps that are part of a strategy
+ * (exports field, barrel files and probed files).
+ */
+function getSectionTitle(strategy: ResolutionStrategy): string | undefined {
+	switch (strategy) {
+		case 'relative':
+			return t('resolver.trace.strategy.relative');
+		case 'tsconfig':
+			return t('resolver.trace.strategy.tsconfig');
+		case 'configAlias':
+			return t('resolver.trace.strategy.configAlias');
+		case 'workspace':
+			return t('resolver.trace.strategy.workspace');
+		case 'nodeModules':
+			return t('resolver.trace.strategy.nodeModules');
+		default:
+			return undefined;
+	}
+}
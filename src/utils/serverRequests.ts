@@ -0,0 +1,27 @@
+/**
+ * Custom requests the language server answers for features LSP has no request for. The
+ * VS Code extension sends them from its commands; other clients can send them too.
+ */
+
+/**
+ * Clear the prop, path and type caches. No params, no result.
+ */
+export const CLEAR_CACHE_REQUEST = 'sveltedoc/clearCache';
+
+/**
+ * Expand or collapse the attribute list of an inherited `svelte/elements` type in component
+ * hovers. Params: the type name as shown in the hover. No result.
+ */
+export const TOGGLE_INHERITED_ATTRIBUTES_REQUEST = 'sveltedoc/toggleInheritedAttributes';
+
+/**
+ * Build the component manifest of a directory. Params: `{ rootUri }`. Result: the manifest as
+ * formatted JSON.
+ */
+export const EXPORT_MANIFEST_REQUEST = 'sveltedoc/exportManifest';
+
+/**
+ * Explain how the component tag at a position resolves. Params: `TextDocumentPositionParams`.
+ * Result: `{ tagName, trace }`, or null when there is no component tag at the position.
+ */
+export const EXPLAIN_RESOLUTION_REQUEST = 'sveltedoc/explainResolution';
@@ -1,18 +1,29 @@
-import * as vscode from 'vscode';
-import { TooltipFormat, TooltipOrder } from '../types';
+import { SettingsSource, TooltipFormat, TooltipOrder } from '../types';
 
 /**
  * Centralized settings access with validation and defaults.
  */
 export class Settings {
-	private static readonly CONFIG_SECTION: string = 'sveltedoc';
+	// Until a source is set (e.g. outside an editor), every setting uses its default
+	private static source: SettingsSource = (_key, defaultValue) => defaultValue;
+
+	/**
+	 * Set where raw setting values are read from (LSP client settings, CLI defaults).
+	 * @param source Reads the value of a `sveltedoc.*` setting by its key
+	 */
+	public static setSource(source: SettingsSource): void {
+		this.source = source;
+	}
+
+	private static get<T>(key: string, defaultValue: T): T {
+		return this.source(key, defaultValue);
+	}
 
 	/**
 	 * Get the cache expiration time in minutes.
 	 */
 	public static getCacheExpirationMinutes(): number {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		const value = config.get<number>('cacheExpirationMinutes', 30);
+		const value = this.get<number>('cacheExpirationMinutes', 30);
 		return Math.max(1, value); // Enforce minimum of 1
 	}
 
@@ -20,32 +31,28 @@ export class Settings {
 	 * Get whether to normalize JSDoc comments (remove duplicate whitespace/newlines).
 	 */
 	public static getNormaliseComment(): boolean {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		return config.get<boolean>('normaliseComment', false);
+		return this.get<boolean>('normaliseComment', false);
 	}
 
 	/**
 	 * Get whether to normalize type definitions (remove duplicate whitespace/newlines).
 	 */
 	public static getNormaliseType(): boolean {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		return config.get<boolean>('normaliseType', true);
+		return this.get<boolean>('normaliseType', true);
 	}
 
 	/**
 	 * Get whether to normalize default values (remove duplicate whitespace/newlines).
 	 */
 	public static getNormaliseDefaultValue(): boolean {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		return config.get<boolean>('normaliseDefaultValue', true);
+		return this.get<boolean>('normaliseDefaultValue', true);
 	}
 
 	/**
 	 * Get the tooltip ordering preference with validation.
 	 */
 	public static getTooltipOrder(): TooltipOrder {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		const value = config.get<string>('tooltipOrder', 'required');
+		const value = this.get<string>('tooltipOrder', 'required');
 		const validOrders: TooltipOrder[] = ['normal', 'alphabetical', 'required', 'type'];
 
 		if (validOrders.includes(value as TooltipOrder)) return value as TooltipOrder;
@@ -58,8 +65,7 @@ export class Settings {
 	 * Get the tooltip format preference with validation.
 	 */
 	public static getTooltipFormat(): TooltipFormat {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		const value = config.get<string>('tooltipFormat', 'code-block');
+		const value = this.get<string>('tooltipFormat', 'code-block');
 		const validFormats: TooltipFormat[] = ['bullet-list', 'table', 'code-block'];
 
 		if (validFormats.includes(value as TooltipFormat)) return value as TooltipFormat;
@@ -72,8 +78,7 @@ export class Settings {
 	 * Get whether to enable detailed resolver logging (for debugging path resolution).
 	 */
 	public static getDetailedResolverLogging(): boolean {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		return config.get<boolean>('detailedResolverLogging', false);
+		return this.get<boolean>('detailedResolverLogging', false);
 	}
 
 	/**
@@ -81,8 +86,7 @@ export class Settings {
 	 * Validates that all keys and values are non-empty strings.
 	 */
 	public static getFallbackTypes(): Record<string, string> {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		const value = config.get<Record<string, string>>('fallbackTypes', {
+		const value = this.get<Record<string, string>>('fallbackTypes', {
 			children: 'Snippet',
 			class: 'string'
 		});
@@ -109,8 +113,7 @@ export class Settings {
 	 * Enforces bounds: minimum 0, maximum 10.
 	 */
 	public static getBarrelFileMaxDepth(): number {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		const value = config.get<number>('barrelFileMaxDepth', 3);
+		const value = this.get<number>('barrelFileMaxDepth', 3);
 		// Enforce bounds: 0-10
 		return Math.max(0, Math.min(10, value));
 	}
@@ -120,8 +123,7 @@ export class Settings {
 	 * Validates that all entries are non-empty strings.
 	 */
 	public static getBarrelFileNames(): string[] {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		const value = config.get<string[]>('barrelFileNames', ['index', 'main']);
+		const value = this.get<string[]>('barrelFileNames', ['index', 'main']);
 
 		// Validate: ensure array with non-empty string values
 		if (!Array.isArray(value)) return ['index', 'main'];
@@ -136,40 +138,42 @@ export class Settings {
 	 * Get whether to show JSDoc comments for component properties in the tooltip.
 	 */
 	public static getShowPropertyComments(): boolean {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		return config.get<boolean>('showPropertyComments', true);
+		return this.get<boolean>('showPropertyComments', true);
 	}
 
 	/**
 	 * Get whether to show type information for component properties in the tooltip.
 	 */
 	public static getShowPropertyTypes(): boolean {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		return config.get<boolean>('showPropertyTypes', true);
+		return this.get<boolean>('showPropertyTypes', true);
 	}
 
 	/**
 	 * Get whether to show default values for component properties in the tooltip.
 	 */
 	public static getShowDefaultValues(): boolean {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		return config.get<boolean>('showDefaultValues', true);
+		return this.get<boolean>('showDefaultValues', true);
 	}
 
 	/**
 	 * Get whether to show type inheritance (the 'Extends' line) in the tooltip.
 	 */
 	public static getShowTypeInheritance(): boolean {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		return config.get<boolean>('showTypeInheritance', true);
+		return this.get<boolean>('showTypeInheritance', true);
+	}
+
+	/**
+	 * Get whether to show the component's `<!-- @component -->` documentation above its props.
+	 */
+	public static getShowComponentDocumentation(): boolean {
+		return this.get<boolean>('showComponentDocumentation', true);
 	}
 
 	/**
 	 * Get whether to show component properties when hovering anywhere within opening tag brackets.
 	 */
 	public static getHoverWithinTag(): boolean {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		return config.get<boolean>('hoverWithinTag', true);
+		return this.get<boolean>('hoverWithinTag', true);
 	}
 
 	/**
@@ -177,8 +181,7 @@ export class Settings {
 	 * Enforces bounds: minimum 1, maximum 200.
 	 */
 	public static getHoverWithinTagMaxLines(): number {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		const value = config.get<number>('hoverWithinTagMaxLines', 50);
+		const value = this.get<number>('hoverWithinTagMaxLines', 50);
 		return Math.max(1, Math.min(200, value));
 	}
 
@@ -188,8 +191,7 @@ export class Settings {
 	 * Validates that all entries are non-empty strings.
 	 */
 	public static getBarrelPriority(): string[] {
-		const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-		const value = config.get<string[]>('barrelPriority', ['components', 'features']);
+		const value = this.get<string[]>('barrelPriority', ['components', 'features']);
 
 		// Validate: ensure array with non-empty string values
 		if (!Array.isArray(value)) return ['components', 'features'];
@@ -199,4 +201,37 @@ export class Settings {
 		// Return default if no valid entries
 		return validated.length > 0 ? validated : ['components', 'features'];
 	}
+
+	/**
+	 * Get the conditions matched in package.json exports, in priority order.
+	 * Validates that all entries are non-empty strings.
+	 */
+	public static getExportConditions(): string[] {
+		const defaults = ['svelte', 'types', 'import', 'default'];
+		const value = this.get<string[]>('exportConditions', defaults);
+
+		// Validate: ensure array with non-empty string values
+		if (!Array.isArray(value)) return defaults;
+
+		const validated = value.filter((name) => typeof name === 'string' && name.trim() !== '');
+
+		// Return default if no valid entries
+		return validated.length > 0 ? validated : defaults;
+	}
+
+	/**
+	 * Get whether to report missing required props and unknown props as diagnostics.
+	 */
+	public static getEnableDiagnostics(): boolean {
+		return this.get<boolean>('enableDiagnostics', true);
+	}
+
+	/**
+	 * Get the maximum depth for following imports and extends chains of external props types.
+	 */
+	public static getTypeResolutionMaxDepth(): number {
+		const value = this.get<number>('typeResolutionMaxDepth', 5);
+		// Enforce bounds: 0-10
+		return Math.max(0, Math.min(10, value));
+	}
 }
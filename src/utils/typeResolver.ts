@@ -0,0 +1,284 @@
+import * as fs from 'node:fs';
+import {
+	expandTypeDefinition,
+	getDeclaringTypeName,
+	parseTypeDefinitions
+} from '../parsers/propParser';
+import type {
+	ExternalTypeResolver,
+	ImportInfo,
+	ResolverLogger,
+	ScriptBlock,
+	TypeDefinition,
+	TypeFileInfo,
+	TypeMap
+} from '../types';
+import { extractImportsFromScriptBlocks, extractReExports } from './extractor';
+import { t } from './localization';
+import type { PathResolver } from './pathResolver';
+
+/**
+ * Modules whose types are never expanded from node_modules (`svelte`, `svelte/elements`, ...).
+ */
+const SVELTE_TYPE_MODULE = /^svelte(?:\/|$)/;
+
+/**
+ * Resolves props types imported from other TypeScript files (`.ts`/`.d.ts`).
+ * Follows imports and re-exports through the PathResolver, parses the referenced files
+ * with the prop parser's type scanner, and merges `extends` chains up to a maximum depth.
+ */
+export class TypeResolver {
+	private pathResolver: PathResolver;
+	private logger: ResolverLogger;
+	private detailedLogging: boolean;
+	private maxDepth: number;
+	private normaliseComment: boolean = false;
+	private normaliseType: boolean = true;
+
+	// Parsed type files, invalidated by modification time
+	private files: Map<string, TypeFileInfo> = new Map<string, TypeFileInfo>();
+
+	public constructor(
+		pathResolver: PathResolver,
+		logger: ResolverLogger,
+		detailedLogging: boolean = true,
+		maxDepth: number = 5
+	) {
+		this.pathResolver = pathResolver;
+		this.logger = logger;
+		this.detailedLogging = detailedLogging;
+		this.maxDepth = maxDepth;
+	}
+
+	/**
+	 * Create an ExternalTypeResolver for a component, resolving type names through its imports.
+	 * @param blocks Script blocks of the component
+	 * @param componentPath Absolute path of the component file
+	 * @param dependencies Receives the paths of every type file that was read
+	 * @returns Resolver to pass to parsePropsFromScriptBlocks
+	 */
+	public createResolver(
+		blocks: ScriptBlock[],
+		componentPath: string,
+		dependencies: Set<string> = new Set<string>()
+	): ExternalTypeResolver {
+		const imports = extractImportsFromScriptBlocks(blocks, true);
+
+		return (typeName: string): TypeDefinition | undefined => {
+			const importInfo = imports.get(typeName);
+			if (!importInfo) return undefined;
+
+			return this.resolveImported(
+				importInfo,
+				typeName,
+				componentPath,
+				1,
+				new Set<string>(),
+				dependencies
+			);
+		};
+	}
+
+	/**
+	 * Resolve a type through an import statement into the file that declares it.
+	 */
+	private resolveImported(
+		importInfo: ImportInfo,
+		localName: string,
+		fromFile: string,
+		depth: number,
+		visited: Set<string>,
+		dependencies: Set<string>
+	): TypeDefinition | undefined {
+		// Svelte's own types stay inherited so `svelte/elements` attributes come from the catalogue
+		if (SVELTE_TYPE_MODULE.test(importInfo.specifier)) return undefined;
+
+		const typeName = importInfo.originalName ?? localName;
+		const filePath = this.pathResolver.resolve(fromFile, importInfo.specifier, typeName);
+		if (!filePath || filePath.endsWith('.svelte')) return undefined;
+
+		return this.resolveInFile(typeName, filePath, depth, visited, dependencies);
+	}
+
+	/**
+	 * Resolve a type declared in (or re-exported from) a TypeScript file, merging the
+	 * entries of every parent type that can be found.
+	 */
+	private resolveInFile(
+		typeName: string,
+		filePath: string,
+		depth: number,
+		visited: Set<string>,
+		dependencies: Set<string>
+	): TypeDefinition | undefined {
+		if (depth > this.maxDepth) {
+			if (this.detailedLogging)
+				this.logger.logResolverMessage(
+					t('resolver.log.typeMaxDepthReached', typeName, this.maxDepth.toString())
+				);
+			return undefined;
+		}
+
+		// Cyclic extends chains contribute nothing further
+		const key = `${filePath}#${typeName}`;
+		if (visited.has(key)) return { entries: {}, inherits: [] };
+		visited.add(key);
+
+		const file = this.getTypeFile(filePath);
+		if (!file) return undefined;
+		dependencies.add(filePath);
+
+		const typeDef = file.typeMap[typeName];
+		if (!typeDef)
+			return this.resolveReExport(typeName, filePath, file, depth, visited, dependencies);
+
+		if (this.detailedLogging)
+			this.logger.logResolverMessage(t('resolver.log.typeResolved', typeName, filePath));
+
+		const entries: TypeDefinition['entries'] = {};
+		const inherits: string[] = [];
+
+		const resolveParent = (name: string): TypeDefinition | undefined => {
+			const importInfo = file.imports.get(name);
+			return importInfo
+				? this.resolveImported(importInfo, name, filePath, depth + 1, visited, dependencies)
+				: this.resolveInFile(name, filePath, depth + 1, visited, dependencies);
+		};
+
+		for (const parent of typeDef.inherits) {
+			// Parents are expanded by the prop parser (utility types, inline objects, generics),
+			// with named types looked up through this file so the depth limit applies
+			const parentDef = expandTypeDefinition(parent, {
+				typeMap: {},
+				resolveExternalType: resolveParent,
+				normaliseComment: this.normaliseComment,
+				normaliseType: this.normaliseType
+			});
+
+			if (parentDef) {
+				// Tag inherited entries with the parent that declared them
+				const declaringType = getDeclaringTypeName(parent);
+				for (const [name, entry] of Object.entries(parentDef.entries))
+					if (entry)
+						entries[name] = {
+							...entry,
+							inheritedFrom: entry.inheritedFrom ?? declaringType
+						};
+				inherits.push(...parentDef.inherits);
+			} else {
+				inherits.push(parent);
+			}
+		}
+
+		// The type's own entries override those of its parents
+		Object.assign(entries, typeDef.entries);
+
+		return {
+			entries,
+			inherits: Array.from(new Set(inherits)),
+			typeParameters: typeDef.typeParameters
+		};
+	}
+
+	/**
+	 * Follow `export { X } from`, `export type { X } from` and `export * from` statements.
+	 */
+	private resolveReExport(
+		typeName: string,
+		filePath: string,
+		file: TypeFileInfo,
+		depth: number,
+		visited: Set<string>,
+		dependencies: Set<string>
+	): TypeDefinition | undefined {
+		for (const reExport of file.reExports) {
+			if (reExport.names && !reExport.names.has(typeName)) continue;
+
+			const originalName = reExport.names?.get(typeName) ?? typeName;
+			const resolved = this.resolveImported(
+				{ specifier: reExport.specifier, originalName },
+				typeName,
+				filePath,
+				depth + 1,
+				visited,
+				dependencies
+			);
+			if (resolved) return resolved;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Read and parse a TypeScript file, reusing the previous result if it hasn't changed.
+	 */
+	private getTypeFile(filePath: string): TypeFileInfo | undefined {
+		let mtime: number;
+		try {
+			mtime = fs.statSync(filePath).mtimeMs;
+		} catch {
+			return undefined;
+		}
+
+		const cached = this.files.get(filePath);
+		if (cached?.mtime === mtime) return cached;
+
+		const content = fs.readFileSync(filePath, 'utf8');
+		const blocks: ScriptBlock[] = [{ content, attributes: {} }];
+		const typeMap: TypeMap = parseTypeDefinitions(
+			content,
+			this.normaliseComment,
+			this.normaliseType
+		);
+
+		// Entry locations are offsets within this file
+		for (const typeDef of Object.values(typeMap))
+			for (const entry of Object.values(typeDef?.entries ?? {}))
+				if (entry?.location) entry.location.file = filePath;
+
+		const info: TypeFileInfo = {
+			mtime,
+			typeMap,
+			imports: extractImportsFromScriptBlocks(blocks, true),
+			reExports: extractReExports(content)
+		};
+		this.files.set(filePath, info);
+		return info;
+	}
+
+	/**
+	 * Update the normalisation settings used when parsing type files.
+	 * @param normaliseComment Whether to normalise JSDoc comments
+	 * @param normaliseType Whether to normalise type definitions
+	 */
+	public setNormalisation(normaliseComment: boolean, normaliseType: boolean): void {
+		if (normaliseComment === this.normaliseComment && normaliseType === this.normaliseType)
+			return;
+		this.normaliseComment = normaliseComment;
+		this.normaliseType = normaliseType;
+		this.files.clear();
+	}
+
+	/**
+	 * Enable or disable detailed logging.
+	 * @param enabled Whether detailed logging should be enabled
+	 */
+	public setDetailedLogging(enabled: boolean): void {
+		this.detailedLogging = enabled;
+	}
+
+	/**
+	 * Set the maximum depth for following imports and extends chains.
+	 * @param depth Maximum depth
+	 */
+	public setMaxDepth(depth: number): void {
+		this.maxDepth = depth;
+	}
+
+	/**
+	 * Clear all parsed type files.
+	 */
+	public clear(): void {
+		this.files.clear();
+	}
+}
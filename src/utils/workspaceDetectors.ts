@@ -0,0 +1,132 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { WorkspaceDetector } from '../types';
+
+/**
+ * pnpm: packages listed in pnpm-workspace.yaml.
+ */
+export const pnpmWorkspaceDetector: WorkspaceDetector = {
+	name: 'pnpm',
+	manifest: 'pnpm-workspace.yaml',
+	getPackagePatterns: (directory) => {
+		const yamlPath = path.join(directory, 'pnpm-workspace.yaml');
+		if (!fs.existsSync(yamlPath)) return null;
+
+		try {
+			const config = parseYaml(fs.readFileSync(yamlPath, 'utf8')) as {
+				packages?: unknown;
+			} | null;
+			return toPatterns(config?.packages);
+		} catch {
+			return null;
+		}
+	}
+};
+
+/**
+ * Yarn berry (v2+): the `workspaces` field of package.json, next to a .yarnrc.yml.
+ */
+export const yarnBerryWorkspaceDetector: WorkspaceDetector = createPackageJsonDetector(
+	'yarn-berry',
+	['.yarnrc.yml']
+);
+
+/**
+ * Yarn classic (v1): the `workspaces` field of package.json, next to a yarn.lock.
+ * Also accepts the `{ packages, nohoist }` object form.
+ */
+export const yarnClassicWorkspaceDetector: WorkspaceDetector = createPackageJsonDetector(
+	'yarn-classic',
+	['yarn.lock']
+);
+
+/**
+ * Bun: the `workspaces` field of package.json, next to a Bun lockfile or bunfig.toml.
+ */
+export const bunWorkspaceDetector: WorkspaceDetector = createPackageJsonDetector('bun', [
+	'bun.lock',
+	'bun.lockb',
+	'bunfig.toml'
+]);
+
+/**
+ * npm: the `workspaces` field of package.json. Used as the fallback for any package.json
+ * declaring workspaces, so it has no marker files.
+ */
+export const npmWorkspaceDetector: WorkspaceDetector = createPackageJsonDetector('npm', []);
+
+/**
+ * Built-in detectors, in priority order.
+ */
+export const DEFAULT_WORKSPACE_DETECTORS: WorkspaceDetector[] = [
+	pnpmWorkspaceDetector,
+	yarnBerryWorkspaceDetector,
+	yarnClassicWorkspaceDetector,
+	bunWorkspaceDetector,
+	npmWorkspaceDetector
+];
+
+/**
+ * File names of the built-in detectors' manifests.
+ */
+const WORKSPACE_MANIFESTS: string[] = [
+	...new Set(DEFAULT_WORKSPACE_DETECTORS.map((detector) => detector.manifest))
+];
+
+/**
+ * Glob matching every workspace manifest, for file watchers.
+ */
+export const WORKSPACE_MANIFEST_GLOB: string = `**/{${WORKSPACE_MANIFESTS.join(',')}}`;
+
+/**
+ * Check whether a file is a workspace manifest of one of the built-in detectors.
+ * @param filePath Absolute file path
+ */
+export function isWorkspaceManifest(filePath: string): boolean {
+	return WORKSPACE_MANIFESTS.includes(path.basename(filePath));
+}
+
+/**
+ * Create a detector for package managers declaring workspaces in package.json.
+ * @param name Package manager name
+ * @param markers Files identifying the package manager (any one of them must exist)
+ */
+function createPackageJsonDetector(name: string, markers: string[]): WorkspaceDetector {
+	return {
+		name,
+		manifest: 'package.json',
+		getPackagePatterns: (directory) => {
+			if (markers.length > 0 && !markers.some((m) => fs.existsSync(path.join(directory, m))))
+				return null;
+
+			const packageJsonPath = path.join(directory, 'package.json');
+			if (!fs.existsSync(packageJsonPath)) return null;
+
+			try {
+				const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')) as {
+					workspaces?: unknown;
+				};
+				const workspaces = packageJson.workspaces;
+
+				// Array form, or the object form used by Yarn classic and Bun: { packages: [...] }
+				return Array.isArray(workspaces)
+					? toPatterns(workspaces)
+					: workspaces && typeof workspaces === 'object' && 'packages' in workspaces
+						? toPatterns(workspaces.packages)
+						: null;
+			} catch {
+				return null;
+			}
+		}
+	};
+}
+
+/**
+ * Keep the string entries of a package pattern list, or null if there are none.
+ */
+function toPatterns(value: unknown): string[] | null {
+	if (!Array.isArray(value)) return null;
+	const patterns = value.filter((p): p is string => typeof p === 'string' && p.trim() !== '');
+	return patterns.length > 0 ? patterns : null;
+}
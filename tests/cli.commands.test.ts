@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { spawnSync, SpawnSyncReturns } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('CLI: docs and manifest commands', function () {
+	// Each run starts a fresh Node process through ts-node
+	this.timeout(60000);
+
+	const rootPath = path.join(__dirname, '..');
+	const fixturePath = path.join(__dirname, 'fixtures', 'docs-project', 'src');
+
+	function runCli(args: string[]): SpawnSyncReturns<string> {
+		return spawnSync(
+			process.execPath,
+			['-r', 'ts-node/register', path.join(rootPath, 'src', 'cli.ts'), ...args],
+			{
+				cwd: rootPath,
+				encoding: 'utf8',
+				env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' }
+			}
+		);
+	}
+
+	it('1. Should generate component pages and an index without VS Code', () => {
+		const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sveltedoc-cli-'));
+		try {
+			const result = runCli(['docs', fixturePath, '--out', outDir]);
+
+			assert.strictEqual(result.status, 0, result.stderr);
+			assert.ok(result.stdout.includes('Generated 3 component page(s)'));
+			assert.ok(fs.existsSync(path.join(outDir, 'index.md')));
+			assert.ok(fs.existsSync(path.join(outDir, 'lib', 'forms', 'Input.md')));
+
+			// JSDoc comments are collapsed onto one table row
+			const button = fs.readFileSync(path.join(outDir, 'lib', 'Button.md'), 'utf8');
+			assert.ok(button.includes('| Visual style (defaults to primary) |'));
+		} finally {
+			fs.rmSync(outDir, { recursive: true, force: true });
+		}
+	});
+
+	it('2. Should print the JSON manifest to stdout', () => {
+		const result = runCli(['manifest', fixturePath]);
+
+		assert.strictEqual(result.status, 0, result.stderr);
+		const manifest = JSON.parse(result.stdout) as { version: number; components: unknown[] };
+		assert.strictEqual(manifest.version, 1);
+		assert.strictEqual(manifest.components.length, 3);
+	});
+
+	it('3. Should fail with usage for unknown commands and missing directories', () => {
+		const unknown = runCli(['publish']);
+		assert.strictEqual(unknown.status, 1);
+		assert.ok(unknown.stderr.includes('Unknown command: publish'));
+		assert.ok(unknown.stderr.includes('Usage: sveltedoc docs'));
+
+		const missing = runCli(['docs', path.join(fixturePath, 'does-not-exist')]);
+		assert.strictEqual(missing.status, 1);
+		assert.ok(missing.stderr.includes('Directory not found'));
+	});
+});
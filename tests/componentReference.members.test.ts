@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import type { Position, TextDocument } from '../src/interfaces/vscode';
+import { getTagNameAtPosition } from '../src/parsers/tagParser';
+import { SourceDocument } from '../src/types';
+import { resolveComponentImport } from '../src/utils/componentProps';
+import { traceComponentReference } from '../src/utils/componentReference';
+import {
+	extractImportsFromScriptBlocks,
+	extractScriptBlocksFromText
+} from '../src/utils/extractor';
+import { PathResolver } from '../src/utils/pathResolver';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('Component references: Namespace and member tags', () => {
+	const fixturePath = path.join(__dirname, 'fixtures', 'compound-components-project');
+	const lib = path.join(fixturePath, 'src', 'lib', 'ui');
+	let resolver: PathResolver;
+
+	const resolve = (script: string, tagName: string): string | undefined => {
+		const document: SourceDocument = {
+			fileName: path.join(fixturePath, 'src', 'App.svelte'),
+			getText: () => `<script lang="ts">\n${script}\n</script>\n`
+		};
+		return resolveComponentImport(document, tagName, resolver).componentPath;
+	};
+
+	beforeEach(() => {
+		resolver = new PathResolver(new PathResolverCache(), new MockLogger() as any, false);
+	});
+
+	it('1. Should map namespace imports', () => {
+		const imports = extractImportsFromScriptBlocks(
+			extractScriptBlocksFromText(`<script>import * as UI from '$lib/ui';</script>`)
+		);
+		assert.deepStrictEqual(imports.get('UI'), { specifier: '$lib/ui', namespace: true });
+	});
+
+	it('2. Should resolve namespace member tags through barrel re-exports', () => {
+		const script = `import * as UI from '$lib/ui';`;
+		assert.strictEqual(resolve(script, 'UI.Button'), path.join(lib, 'Button.svelte'));
+		assert.strictEqual(resolve(script, 'UI.Icons.Check'), path.join(lib, 'Check.svelte'));
+		assert.strictEqual(resolve(script, 'UI.Missing'), undefined);
+		assert.strictEqual(resolve(script, 'UI'), undefined);
+	});
+
+	it('3. Should resolve compound components exported as objects', () => {
+		const named = `import { Tabs } from '$lib/ui';`;
+		assert.strictEqual(resolve(named, 'Tabs.Root'), path.join(lib, 'tabs', 'TabsRoot.svelte'));
+		assert.strictEqual(resolve(named, 'Tabs.Item'), path.join(lib, 'tabs', 'TabsItem.svelte'));
+
+		const namespace = `import * as UI from '$lib/ui';`;
+		assert.strictEqual(
+			resolve(namespace, 'UI.Tabs.Item'),
+			path.join(lib, 'tabs', 'TabsItem.svelte')
+		);
+	});
+
+	it('4. Should follow named imports of a barrel resolved through an alias', () => {
+		assert.strictEqual(
+			resolve(`import { Button as Btn } from '$lib/ui';`, 'Btn'),
+			path.join(lib, 'Button.svelte')
+		);
+	});
+
+	it('5. Should trace {@const} and $derived aliases back to their import', () => {
+		const text = `<script lang="ts">
+	import * as UI from '$lib/ui';
+	import Fallback from './Fallback.svelte';
+	const Current = $derived(UI.Tabs);
+	let Picked = cond ? UI.Button : Fallback;
+</script>
+{#each items as item}
+	{@const Icon = UI.Icons.Check}
+	<Icon />
+{/each}`;
+		const imports = extractImportsFromScriptBlocks(extractScriptBlocksFromText(text));
+
+		assert.strictEqual(traceComponentReference(text, 'Icon', imports), 'UI.Icons.Check');
+		assert.strictEqual(traceComponentReference(text, 'Current.Item', imports), 'UI.Tabs.Item');
+		assert.strictEqual(traceComponentReference(text, 'Picked', imports), 'Picked');
+		assert.strictEqual(traceComponentReference(text, 'Fallback', imports), 'Fallback');
+	});
+
+	it('6. Should read the component reference of <svelte:component this={...}>', () => {
+		const lines = ['<svelte:component', '\tthis={UI.Button}', '\tlabel="Save"', '/>'];
+		const document: TextDocument = {
+			getWordRangeAtPosition: (position: Position) => ({
+				start: { line: position.line, character: 1 },
+				end: { line: position.line, character: 17 }
+			}),
+			lineAt: (line: number) => ({ text: lines[line] }),
+			getText: (range?: { start: Position; end: Position }) =>
+				range
+					? lines[range.start.line].slice(range.start.character, range.end.character)
+					: lines.join('\n')
+		};
+
+		assert.strictEqual(getTagNameAtPosition(document, { line: 0, character: 5 }), 'UI.Button');
+		lines[1] = '\tthis={cond ? A : B}';
+		assert.strictEqual(getTagNameAtPosition(document, { line: 0, character: 5 }), undefined);
+	});
+});
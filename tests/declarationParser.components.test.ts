@@ -0,0 +1,213 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import { TooltipFormatter } from '../src/classes/TooltipFormatter';
+import { PropExtractionResult } from '../src/types';
+import { extractComponentProps } from '../src/utils/componentProps';
+import { PathResolver } from '../src/utils/pathResolver';
+import { TypeResolver } from '../src/utils/typeResolver';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('DeclarationParser - .svelte.d.ts components', () => {
+	const fixturePath = path.join(__dirname, 'fixtures', 'declarations');
+
+	const extract = (
+		filePath: string,
+		typeResolver?: TypeResolver
+	): Required<PropExtractionResult> => {
+		const result = extractComponentProps(filePath, undefined, typeResolver);
+		assert.ok(result.success, result.failureReason);
+		return result as Required<PropExtractionResult>;
+	};
+
+	it('1. Should read Component<Props> declarations with JSDoc and source defaults', () => {
+		const result = extract(path.join(fixturePath, 'Button.svelte'));
+		const declarationPath = path.join(fixturePath, 'Button.svelte.d.ts');
+
+		assert.deepStrictEqual(
+			result.props.map((p) => [p.name, p.type, p.required, p.defaultValue, p.comment]),
+			[
+				['label', 'string', true, undefined, 'Text shown on the button'],
+				[
+					'variant',
+					"'primary' | 'secondary'",
+					false,
+					"'primary'",
+					'Visual style of the button'
+				],
+				['disabled', 'boolean', false, 'false', undefined],
+				[
+					'onclick',
+					'(event: MouseEvent) => void',
+					false,
+					undefined,
+					'Called when the button is clicked'
+				]
+			]
+		);
+		assert.deepStrictEqual(result.inherits, ['HTMLButtonAttributes']);
+		assert.strictEqual(result.documentation, 'A clickable button.');
+		assert.ok(result.dependencies.includes(declarationPath));
+
+		// Go-to-definition lands on the declaration
+		const label = result.props[0];
+		assert.strictEqual(label.location?.file, declarationPath);
+		assert.ok(label.inheritedFrom === undefined);
+	});
+
+	it('2. Should read svelte2tsx __propDef props, events and slots', () => {
+		const result = extract(path.join(fixturePath, 'Modal.svelte'));
+
+		assert.deepStrictEqual(
+			result.props.map((p) => [p.name, p.type, p.required, p.comment]),
+			[
+				['open', 'boolean', false, 'Whether the modal is visible'],
+				['title', 'string', true, undefined]
+			]
+		);
+		assert.deepStrictEqual(
+			result.events.map((e) => [e.name, e.type, e.comment]),
+			[
+				['close', '{ reason: string; }', 'Fired when the modal is dismissed'],
+				['keydown', 'KeyboardEvent', undefined]
+			]
+		);
+		assert.deepStrictEqual(
+			result.snippets.map((s) => [s.name, s.parameters, s.slot]),
+			[
+				['default', [], true],
+				['footer', [{ name: 'close', type: '() => void' }], true]
+			]
+		);
+		assert.strictEqual(result.documentation, 'A dialog shown above the page.');
+	});
+
+	it('3. Should locate __propDef props on their type literal members', () => {
+		const declarationPath = path.join(fixturePath, 'Modal.svelte.d.ts');
+		const result = extract(declarationPath);
+		const content = fs.readFileSync(declarationPath, 'utf8');
+
+		for (const prop of result.props) {
+			assert.strictEqual(prop.location?.file, declarationPath);
+			assert.ok(content.startsWith(prop.name, prop.location.offset));
+		}
+	});
+
+	it('4. Should read the generics and members of the __sveltets_Render class', () => {
+		const result = extract(path.join(fixturePath, 'Select.svelte'));
+
+		assert.deepStrictEqual(
+			result.generics.map((g) => [g.name, g.constraint]),
+			[['T', '{ id: string }']]
+		);
+		assert.deepStrictEqual(
+			result.props.map((p) => [p.name, p.type, p.required]),
+			[
+				['items', 'T[]', true],
+				['selected', 'T | undefined', false]
+			]
+		);
+		assert.deepStrictEqual(
+			result.events.map((e) => [e.name, e.type]),
+			[['change', 'T']]
+		);
+		assert.deepStrictEqual(
+			result.snippets.map((s) => [s.name, s.parameters]),
+			[['option', [{ name: 'item', type: 'T' }]]]
+		);
+	});
+
+	it('5. Should resolve library components that only ship declarations', () => {
+		const fixtureRoot = path.join(__dirname, 'fixtures', 'node-modules-project');
+		const resolver = new PathResolver(new PathResolverCache(), new MockLogger() as any, false);
+		const resolved = resolver.resolve(
+			path.join(fixtureRoot, 'src', 'routes', '+page.svelte'),
+			'@acme/svelte-badges',
+			'Pill'
+		);
+		assert.strictEqual(
+			resolved,
+			path.join(
+				fixtureRoot,
+				'node_modules',
+				'@acme',
+				'svelte-badges',
+				'dist',
+				'Pill.svelte.d.ts'
+			)
+		);
+
+		const result = extract(resolved);
+		assert.deepStrictEqual(
+			result.props.map((p) => [p.name, p.type, p.comment]),
+			[
+				['text', 'string', 'Text inside the pill'],
+				['tone', "'info' | 'warning'", undefined]
+			]
+		);
+	});
+
+	it('6. Should prefer .d.ts over .js files when resolving types of a declaration', () => {
+		const dist = path.join(
+			__dirname,
+			'fixtures',
+			'node-modules-project',
+			'node_modules',
+			'@acme',
+			'svelte-badges',
+			'dist'
+		);
+		assert.ok(fs.existsSync(path.join(dist, 'types.js')));
+		assert.ok(fs.existsSync(path.join(dist, 'index.js')));
+
+		const logger = new MockLogger() as any;
+		const pathResolver = new PathResolver(new PathResolverCache(), logger, false);
+		const typeResolver = new TypeResolver(pathResolver, logger, false);
+
+		const chip = extract(path.join(dist, 'Chip.svelte.d.ts'), typeResolver);
+		assert.deepStrictEqual(
+			chip.props.map((p) => [p.name, p.type, p.comment]),
+			[
+				['label', 'string', 'Text inside the chip'],
+				['removable', 'boolean', 'Show a remove button']
+			]
+		);
+
+		// `from '..'` resolves to index.d.ts, which re-exports the types from './types.js'
+		const group = extract(path.join(dist, 'chips', 'ChipGroup.svelte.d.ts'), typeResolver);
+		assert.deepStrictEqual(group.props.map((p) => p.name).sort(), [
+			'group',
+			'label',
+			'removable'
+		]);
+		assert.deepStrictEqual(group.inherits, []);
+	});
+
+	it('7. Should keep the type of forwarded DOM events instead of wrapping it in CustomEvent', () => {
+		const result = extract(path.join(fixturePath, 'Modal.svelte'));
+		assert.deepStrictEqual(
+			result.events.map((e) => [e.name, e.dispatched, e.forwarded]),
+			[
+				['close', true, undefined],
+				['keydown', true, true]
+			]
+		);
+
+		const md = TooltipFormatter.formatTooltip('bullet-list', 'normal', result, {
+			showComments: false,
+			showTypes: true,
+			showDefaults: true,
+			showInheritance: true,
+			showDocumentation: true
+		});
+		assert.ok(md.includes('- `on:close`: **CustomEvent<{ reason: string; }>**'));
+		assert.ok(md.includes('- `on:keydown`: **KeyboardEvent**'));
+	});
+});
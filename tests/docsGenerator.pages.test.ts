@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import {
+	collectComponentDocs,
+	findSvelteFiles,
+	formatComponentPage,
+	formatIndexPage,
+	generateDocs
+} from '../src/utils/docsGenerator';
+import { PathResolver } from '../src/utils/pathResolver';
+import { TypeResolver } from '../src/utils/typeResolver';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('Docs Generator: Component pages', () => {
+	const fixturePath = path.join(__dirname, 'fixtures', 'docs-project', 'src');
+	let typeResolver: TypeResolver;
+
+	beforeEach(() => {
+		const mockLogger = new MockLogger() as any;
+		const pathResolver = new PathResolver(new PathResolverCache(), mockLogger, false);
+		typeResolver = new TypeResolver(pathResolver, mockLogger, false);
+	});
+
+	it('1. Should find components and skip SvelteKit route files', () => {
+		const files = findSvelteFiles(fixturePath).map((f) => path.relative(fixturePath, f));
+
+		assert.deepStrictEqual(files, [
+			path.join('lib', 'Button.svelte'),
+			path.join('lib', 'Icon.svelte'),
+			path.join('lib', 'forms', 'Input.svelte')
+		]);
+	});
+
+	it('2. Should render props with the table layout and escape table cells', () => {
+		const pages = collectComponentDocs(fixturePath, typeResolver);
+		const button = pages.find((p) => p.name === 'Button');
+		assert.ok(button);
+		assert.strictEqual(button.sourcePath, 'lib/Button.svelte');
+		assert.strictEqual(button.pagePath, 'lib/Button.md');
+
+		const page = formatComponentPage(button);
+		assert.ok(page.startsWith('# Button\n\n`lib/Button.svelte`\n\n## Props\n\n'));
+		assert.ok(page.includes('| Property | Type | Default | Notes |'));
+		assert.ok(page.includes("`'primary' \\| 'secondary'`"));
+		assert.ok(page.includes(' * Visual style<br> * (defaults to primary)'));
+	});
+
+	it('3. Should follow imported props types and note components without props', () => {
+		const pages = collectComponentDocs(fixturePath, typeResolver);
+
+		const input = pages.find((p) => p.name === 'Input');
+		assert.ok(input);
+		assert.deepStrictEqual(input.result.props?.map((p) => p.name).sort(), [
+			'placeholder',
+			'value'
+		]);
+		const inputPage = formatComponentPage(input);
+		assert.ok(inputPage.includes('Current input value'));
+		// @component docs go above the Props heading, not inside the props table
+		assert.ok(
+			inputPage.startsWith(
+				'# Input\n\n`lib/forms/Input.svelte`\n\nA text input bound to `value`.\n\n```svelte\n<Input bind:value placeholder="Name" />\n```\n\n## Props\n\n'
+			)
+		);
+
+		const icon = pages.find((p) => p.name === 'Icon');
+		assert.ok(icon);
+		assert.ok(formatComponentPage(icon).endsWith('_This component has no props._\n'));
+	});
+
+	it('4. Should write one page per component and a linked index', () => {
+		const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sveltedoc-docs-'));
+		try {
+			const pages = generateDocs(fixturePath, outDir, typeResolver);
+
+			assert.strictEqual(pages.length, 3);
+			for (const page of pages) assert.ok(fs.existsSync(path.join(outDir, page.pagePath)));
+
+			const index = fs.readFileSync(path.join(outDir, 'index.md'), 'utf8');
+			assert.strictEqual(index, formatIndexPage(pages));
+			assert.ok(
+				index.includes('| [Input](lib/forms/Input.md) | `lib/forms/Input.svelte` | 2 |')
+			);
+			assert.ok(index.includes('| [Icon](lib/Icon.md) | `lib/Icon.svelte` | 0 |'));
+			// The `children` snippet prop has its own section on the page, so isn't counted
+			assert.ok(index.includes('| [Button](lib/Button.md) | `lib/Button.svelte` | 2 |'));
+		} finally {
+			fs.rmSync(outDir, { recursive: true, force: true });
+		}
+	});
+
+	it('5. Should keep a root-level index.svelte from overwriting the index page', () => {
+		const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sveltedoc-docs-root-'));
+		const outDir = path.join(rootDir, 'docs');
+		try {
+			fs.writeFileSync(
+				path.join(rootDir, 'index.svelte'),
+				'<script lang="ts">\n\tlet { title }: { title: string } = $props();\n</script>\n'
+			);
+			fs.mkdirSync(path.join(rootDir, 'nested'));
+			fs.writeFileSync(path.join(rootDir, 'nested', 'index.svelte'), '<div></div>\n');
+
+			const pages = generateDocs(rootDir, outDir, typeResolver);
+
+			assert.deepStrictEqual(
+				pages.map((p) => p.pagePath),
+				['index.component.md', 'nested/index.md']
+			);
+			const index = fs.readFileSync(path.join(outDir, 'index.md'), 'utf8');
+			assert.ok(index.includes('| [index](index.component.md) | `index.svelte` | 1 |'));
+			assert.ok(
+				fs
+					.readFileSync(path.join(outDir, 'index.component.md'), 'utf8')
+					.startsWith('# index')
+			);
+		} finally {
+			fs.rmSync(rootDir, { recursive: true, force: true });
+		}
+	});
+});
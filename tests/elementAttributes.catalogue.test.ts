@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { TooltipFormatter } from '../src/classes/TooltipFormatter';
+import { PropExtractionResult } from '../src/types';
+import {
+	getElementAttributes,
+	getElementAttributesInterface
+} from '../src/utils/elementAttributes';
+
+describe('Element Attributes (svelte/elements catalogue)', () => {
+	it('1. Should recognise interface names, generic forms and SvelteHTMLElements lookups', () => {
+		assert.strictEqual(
+			getElementAttributesInterface('HTMLButtonAttributes'),
+			'HTMLButtonAttributes'
+		);
+		assert.strictEqual(
+			getElementAttributesInterface('HTMLAttributes<HTMLDivElement>'),
+			'HTMLAttributes'
+		);
+		assert.strictEqual(
+			getElementAttributesInterface("SvelteHTMLElements['input']"),
+			'HTMLInputAttributes'
+		);
+		assert.strictEqual(
+			getElementAttributesInterface('SvelteHTMLElements["div"]'),
+			'HTMLAttributes'
+		);
+		assert.strictEqual(getElementAttributesInterface("SvelteHTMLElements['fake']"), undefined);
+		assert.strictEqual(getElementAttributesInterface('ButtonProps'), undefined);
+	});
+
+	it('2. Should group attributes by declaring interface, most specific first', () => {
+		const summary = getElementAttributes('HTMLButtonAttributes');
+		assert.ok(summary);
+
+		assert.deepStrictEqual(
+			summary.groups.map((g) => g.interfaceName),
+			['HTMLButtonAttributes', 'HTMLAttributes', 'AriaAttributes', 'DOMAttributes']
+		);
+		assert.ok(summary.groups[0].attributes.includes('disabled'));
+		assert.ok(summary.groups[1].attributes.includes('class'));
+		assert.ok(summary.groups[2].attributes.includes('aria-label'));
+		assert.ok(summary.groups[3].attributes.includes('onclick'));
+		assert.strictEqual(
+			summary.count,
+			summary.groups.reduce((total, g) => total + g.attributes.length, 0)
+		);
+	});
+
+	it('3. Should list each attribute once and leave out excluded names', () => {
+		const summary = getElementAttributes("SvelteHTMLElements['video']", ['src', 'class']);
+		assert.ok(summary);
+		assert.strictEqual(summary.typeName, "SvelteHTMLElements['video']");
+		assert.strictEqual(summary.interfaceName, 'HTMLVideoAttributes');
+
+		const all = summary.groups.flatMap((g) => g.attributes);
+		assert.strictEqual(new Set(all).size, all.length);
+		assert.ok(!all.includes('src'));
+		assert.ok(!all.includes('class'));
+		assert.ok(all.includes('poster'));
+		assert.ok(all.includes('bind:paused'));
+	});
+
+	it('4. Should return undefined for types outside the catalogue', () => {
+		assert.strictEqual(getElementAttributes('BaseProps'), undefined);
+	});
+
+	it('5. Should pass the type and hover target to the "Show all" command link', () => {
+		const result: PropExtractionResult = {
+			success: true,
+			props: [{ name: 'label', type: 'string', required: true, bindable: false }],
+			inherits: ['HTMLButtonAttributes'],
+			snippets: [],
+			events: []
+		};
+		const hoverTarget = { uri: 'file:///project/App.svelte', line: 4, character: 9 };
+		const md = TooltipFormatter.formatTooltip(
+			'bullet-list',
+			'normal',
+			result as Required<PropExtractionResult>,
+			{
+				showComments: true,
+				showTypes: true,
+				showDefaults: true,
+				showInheritance: true,
+				showDocumentation: true,
+				hoverTarget
+			}
+		);
+
+		const link = /\(command:sveltedoc\.toggleInheritedAttributes\?([^)]+)\)/.exec(md);
+		assert.ok(link);
+		assert.deepStrictEqual(JSON.parse(decodeURIComponent(link[1])), [
+			'HTMLButtonAttributes',
+			hoverTarget
+		]);
+	});
+});
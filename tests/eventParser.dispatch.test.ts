@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import {
+	getEventsFromProps,
+	isCallbackProp,
+	parseDispatchedEvents
+} from '../src/parsers/eventParser';
+import { PropInfo, TypeDefinition } from '../src/types';
+import { extractScriptBlocksFromText } from '../src/utils/extractor';
+
+describe('Event Parser: Callback props and dispatched events', () => {
+	const prop = (name: string, type: string): PropInfo => ({
+		name,
+		type,
+		required: false,
+		bindable: false
+	});
+
+	const parse = (script: string): ReturnType<typeof parseDispatchedEvents> =>
+		parseDispatchedEvents(extractScriptBlocksFromText(`<script lang="ts">${script}</script>`));
+
+	it('1. Should only treat on[A-Z] props with function types as callbacks', () => {
+		assert.strictEqual(isCallbackProp(prop('onSave', '(item: Item) => void')), true);
+		assert.strictEqual(isCallbackProp(prop('onClick', 'MouseEventHandler<HTMLElement>')), true);
+		assert.strictEqual(isCallbackProp(prop('onlineOnly', 'boolean')), false);
+		assert.strictEqual(isCallbackProp(prop('onMode', "'a' | 'b'")), false);
+		assert.strictEqual(isCallbackProp(prop('save', '() => void')), false);
+	});
+
+	it('2. Should collect callback props as events, keeping comments', () => {
+		const props = [
+			{ ...prop('onSave', '(item: Item) => void'), required: true, comment: 'Saved' },
+			prop('label', 'string')
+		];
+
+		assert.deepStrictEqual(getEventsFromProps(props), [
+			{ name: 'onSave', type: '(item: Item) => void', required: true, comment: 'Saved' }
+		]);
+	});
+
+	it('3. Should read events declared in the dispatcher type argument', () => {
+		const events = parse(`
+	const dispatch = createEventDispatcher<{
+		/** Fired with the saved item */
+		save: Item;
+		cancel: void;
+		select(id: string): void;
+	}>();`);
+
+		assert.deepStrictEqual(events, [
+			{
+				name: 'save',
+				type: 'Item',
+				required: false,
+				dispatched: true,
+				comment: 'Fired with the saved item'
+			},
+			{ name: 'cancel', type: 'void', required: false, dispatched: true },
+			{ name: 'select', type: '(id: string) => void', required: false, dispatched: true }
+		]);
+	});
+
+	it('4. Should follow named and imported event map types', () => {
+		const local = parse(`
+	interface Events { open: string }
+	type AllEvents = Events & { close: null };
+	const emit = createEventDispatcher<AllEvents>();`);
+		assert.deepStrictEqual(
+			local.map((e) => [e.name, e.type]),
+			[
+				['open', 'string'],
+				['close', 'null']
+			]
+		);
+
+		const imported: TypeDefinition = {
+			entries: { change: { name: 'change', type: 'number', required: true } },
+			inherits: []
+		};
+		const events = parseDispatchedEvents(
+			extractScriptBlocksFromText(
+				`<script lang="ts">const dispatch = createEventDispatcher<SliderEvents>();</script>`
+			),
+			false,
+			true,
+			(typeName) => (typeName === 'SliderEvents' ? imported : undefined)
+		);
+		assert.deepStrictEqual(
+			events.map((e) => [e.name, e.type]),
+			[['change', 'number']]
+		);
+	});
+
+	it('5. Should add undeclared dispatch calls with inferred detail types', () => {
+		const events = parse(`
+	const dispatch = createEventDispatcher<{ save: Item }>();
+	dispatch('save', item);
+	dispatch("reset");
+	dispatch('progress', 0.5);
+	dispatch('message', format(item, { short: true }));
+	// dispatch('commented', 1)
+	other.dispatch('notOurs');`);
+
+		assert.deepStrictEqual(
+			events.map((e) => [e.name, e.type]),
+			[
+				['save', 'Item'],
+				['reset', 'null'],
+				['progress', 'number'],
+				['message', 'unknown']
+			]
+		);
+	});
+
+	it('6. Should find nothing without createEventDispatcher', () => {
+		assert.deepStrictEqual(parse(`function dispatch(name) {}\n\tdispatch('save');`), []);
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { extractComponentDeprecation, extractComponentDocumentation } from '../src/utils/extractor';
+
+describe('Extractor: Component documentation', () => {
+	it('1. Should extract and dedent the @component comment', () => {
+		const text = `<script lang="ts">
+	let { label }: { label: string } = $props();
+</script>
+
+<!--
+	@component
+	A clickable button.
+
+	Usage:
+	\`\`\`svelte
+	<Button label="Save" />
+	\`\`\`
+
+	- Supports **Markdown**
+	  - nested items keep their indent
+-->
+<button>{label}</button>`;
+
+		assert.strictEqual(
+			extractComponentDocumentation(text),
+			'A clickable button.\n\nUsage:\n```svelte\n<Button label="Save" />\n```\n\n- Supports **Markdown**\n  - nested items keep their indent'
+		);
+	});
+
+	it('2. Should keep text on the same line as @component', () => {
+		assert.strictEqual(
+			extractComponentDocumentation('<!-- @component Shows a user avatar -->\n<img />'),
+			'Shows a user avatar'
+		);
+	});
+
+	it('3. Should ignore other comments and empty @component comments', () => {
+		assert.strictEqual(
+			extractComponentDocumentation('<!-- A note -->\n<div></div>'),
+			undefined
+		);
+		assert.strictEqual(extractComponentDocumentation('<!-- @componentName -->'), undefined);
+		assert.strictEqual(extractComponentDocumentation('<!-- @component\n\n-->'), undefined);
+	});
+
+	it('4. Should read the @deprecated tag from the documentation', () => {
+		assert.strictEqual(
+			extractComponentDeprecation(
+				'A card.\n\n@deprecated Use `Panel`\n  from the kit\n@since 1.0'
+			),
+			'Use `Panel` from the kit'
+		);
+		assert.strictEqual(extractComponentDeprecation('@deprecated'), '');
+		assert.strictEqual(extractComponentDeprecation('Not @deprecated mid-sentence'), undefined);
+	});
+});
@@ -427,4 +427,22 @@ describe('Extractor: Import Statements', () => {
 		assert.strictEqual(fakeButtonInfo.specifier, '@budget-suite/shared');
 		assert.strictEqual(fakeButtonInfo.originalName, undefined);
 	});
+
+	it('20. Type imports are included when requested', () => {
+		const text = `
+		<script lang="ts">
+			import type { TypeOnly, Other as Alias } from "./types";
+			import { type InlineType, actualValue } from "./mixed";
+		</script>
+		`;
+
+		const blocks = extractScriptBlocksFromText(text);
+		const result = extractImportsFromScriptBlocks(blocks, true);
+
+		assert.strictEqual(result.size, 4);
+		assert.strictEqual(result.get('TypeOnly')?.specifier, './types');
+		assert.strictEqual(result.get('Alias')?.originalName, 'Other');
+		assert.strictEqual(result.get('InlineType')?.specifier, './mixed');
+		assert.strictEqual(result.get('actualValue')?.specifier, './mixed');
+	});
 });
@@ -0,0 +1,3 @@
+import Check from './Check.svelte';
+
+export { Check };
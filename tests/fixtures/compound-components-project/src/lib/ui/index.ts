@@ -0,0 +1,4 @@
+// Barrel for the UI kit
+export { default as Button } from './Button.svelte';
+export * from './tabs/tabs';
+export * as Icons from './icons';
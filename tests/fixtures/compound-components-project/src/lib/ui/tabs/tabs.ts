@@ -0,0 +1,5 @@
+import Root from './TabsRoot.svelte';
+import TabsItem from './TabsItem.svelte';
+
+/** Compound tabs component: `<Tabs.Root>` with `<Tabs.Item>` children */
+export const Tabs = { Root, Item: TabsItem };
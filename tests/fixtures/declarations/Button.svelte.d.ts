@@ -0,0 +1,16 @@
+import type { HTMLButtonAttributes } from 'svelte/elements';
+interface Props extends HTMLButtonAttributes {
+    /** Text shown on the button */
+    label: string;
+    /** Visual style of the button */
+    variant?: 'primary' | 'secondary';
+    disabled?: boolean;
+    /** Called when the button is clicked */
+    onclick?: (event: MouseEvent) => void;
+}
+/**
+ * A clickable button.
+ */
+declare const Button: import("svelte").Component<Props, {}, "">;
+type Button = ReturnType<typeof Button>;
+export default Button;
@@ -0,0 +1,28 @@
+import { SvelteComponent } from "svelte";
+declare const __propDef: {
+    props: {
+        /** Whether the modal is visible */ open?: boolean;
+        title: string;
+    };
+    events: {
+        /** Fired when the modal is dismissed */ close: CustomEvent<{
+            reason: string;
+        }>;
+        keydown: KeyboardEvent;
+    } & {
+        [evt: string]: CustomEvent<any>;
+    };
+    slots: {
+        default: {};
+        footer: {
+            close: () => void;
+        };
+    };
+};
+export type ModalProps = typeof __propDef.props;
+export type ModalEvents = typeof __propDef.events;
+export type ModalSlots = typeof __propDef.slots;
+/** A dialog shown above the page. */
+export default class Modal extends SvelteComponent<ModalProps, ModalEvents, ModalSlots> {
+}
+export {};
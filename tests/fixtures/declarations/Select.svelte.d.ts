@@ -0,0 +1,22 @@
+import { SvelteComponent } from "svelte";
+declare class __sveltets_Render<T extends { id: string }> {
+    props(): {
+        /** Options to choose from */
+        items: T[];
+        selected?: T | undefined;
+    };
+    events(): {
+        change: CustomEvent<T>;
+    };
+    slots(): {
+        option: {
+            item: T;
+        };
+    };
+}
+export type SelectProps<T extends { id: string }> = ReturnType<__sveltets_Render<T>['props']>;
+export type SelectEvents<T extends { id: string }> = ReturnType<__sveltets_Render<T>['events']>;
+export type SelectSlots<T extends { id: string }> = ReturnType<__sveltets_Render<T>['slots']>;
+export default class Select<T extends { id: string }> extends SvelteComponent<SelectProps<T>, SelectEvents<T>, SelectSlots<T>> {
+}
+export {};
@@ -0,0 +1,5 @@
+export interface InputProps {
+	/** Current input value */
+	value?: string;
+	placeholder?: string;
+}
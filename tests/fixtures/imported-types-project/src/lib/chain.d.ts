@@ -0,0 +1,11 @@
+export interface Level1 extends Level2 {
+	one: string;
+}
+
+export interface Level2 extends Level3 {
+	two: string;
+}
+
+export interface Level3 {
+	three: string;
+}
@@ -0,0 +1,7 @@
+export interface LoopA extends LoopB {
+	a: string;
+}
+
+export interface LoopB extends LoopA {
+	b: string;
+}
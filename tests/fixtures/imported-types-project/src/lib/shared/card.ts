@@ -0,0 +1,5 @@
+import type { BaseProps } from '../types.js';
+
+export type CardProps = BaseProps & {
+	title: string;
+};
@@ -0,0 +1,2 @@
+export type { CardProps as PanelProps } from './card';
+export * from './layout';
@@ -0,0 +1,3 @@
+export interface StackProps {
+	gap?: number;
+}
@@ -0,0 +1,18 @@
+import type { HTMLButtonAttributes } from 'svelte/elements';
+
+export interface BaseProps {
+	/** Extra CSS classes */
+	class?: string;
+	id?: string;
+}
+
+export interface ButtonProps extends BaseProps, HTMLButtonAttributes {
+	/** Text shown on the button */
+	label: string;
+	variant?: 'primary' | 'secondary';
+	id: string;
+}
+
+export interface IconButtonProps extends Omit<ButtonProps, 'label'> {
+	icon: string;
+}
@@ -0,0 +1,21 @@
+import adapter from '@sveltejs/adapter-auto';
+import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';
+
+const generated = process.env.GENERATED_DIR;
+
+/** @type {import('@sveltejs/kit').Config} */
+const config = {
+	preprocess: vitePreprocess(),
+	kit: {
+		adapter: adapter(),
+		alias: {
+			// Directory alias
+			$components: 'src/components',
+			'$utils/*': 'src/utils/*',
+			// Computed at runtime, so it can't be read statically
+			$generated: generated
+		}
+	}
+};
+
+export default config;
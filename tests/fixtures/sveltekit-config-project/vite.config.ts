@@ -0,0 +1,14 @@
+import { sveltekit } from '@sveltejs/kit/vite';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+	plugins: [sveltekit()],
+	resolve: {
+		alias: {
+			'@ui': path.resolve(__dirname, './src/ui'),
+			'@icons': fileURLToPath(new URL('./src/icons', import.meta.url))
+		}
+	}
+});
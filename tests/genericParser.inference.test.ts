@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { TooltipFormatter } from '../src/classes/TooltipFormatter';
+import {
+	formatGenericSignature,
+	inferGenericArguments,
+	instantiateGenerics,
+	parseComponentGenerics
+} from '../src/parsers/genericParser';
+import { findComponentUsages } from '../src/parsers/tagParser';
+import { PropExtractionResult, TypeParameter } from '../src/types';
+import { extractComponentProps } from '../src/utils/componentProps';
+import { extractScriptBlocksFromText } from '../src/utils/extractor';
+
+describe('Generic Parser: Component type parameters', () => {
+	const table = extractComponentProps(
+		path.join(__dirname, 'fixtures', 'generics', 'Table.svelte')
+	);
+
+	const infer = (text: string): Record<string, string> =>
+		inferGenericArguments(
+			table.generics ?? [],
+			table.props ?? [],
+			findComponentUsages(text)[0],
+			text
+		);
+
+	it('1. Should read the generics attribute with constraints and defaults', () => {
+		assert.ok(table.success);
+		assert.deepStrictEqual(table.generics, [
+			{ name: 'T', constraint: '{ id: string }', default: undefined },
+			{ name: 'K', constraint: 'keyof T', default: 'keyof T' }
+		]);
+		assert.strictEqual(
+			formatGenericSignature('Table', table.generics ?? []),
+			'Table<T extends { id: string }, K extends keyof T = keyof T>'
+		);
+	});
+
+	it('2. Should keep script blocks whose generics contain `>`', () => {
+		const blocks = extractScriptBlocksFromText(
+			'<script lang="ts" generics="T extends Array<Item>, F extends () => void">let x = 1;</script>'
+		);
+		assert.strictEqual(blocks.length, 1);
+		assert.strictEqual(blocks[0].content, 'let x = 1;');
+		assert.deepStrictEqual(
+			parseComponentGenerics(blocks).map((p: TypeParameter) => [p.name, p.constraint]),
+			[
+				['T', 'Array<Item>'],
+				['F', '() => void']
+			]
+		);
+	});
+
+	it('3. Should infer type arguments from variables with declared types', () => {
+		assert.deepStrictEqual(
+			infer(`<script lang="ts">
+	let users: User[] = [];
+</script>
+<Table items={users} />`),
+			{ T: 'User' }
+		);
+		assert.deepStrictEqual(
+			infer(`<script lang="ts">
+	let current = $state<Product | null>(null);
+	const sortKey: 'name' = 'name';
+</script>
+<Table items={[]} selected={current} {sortKey} />`),
+			{ T: 'Product', K: "'name'" }
+		);
+		assert.deepStrictEqual(
+			infer(`<script lang="ts">
+	const rows: ReadonlyArray<Map<string, number>> = [];
+</script>
+<Table items={rows} />`),
+			{ T: 'Map<string, number>' }
+		);
+	});
+
+	it('4. Should infer nothing from untyped or unknown values', () => {
+		assert.deepStrictEqual(
+			infer(`<script lang="ts">
+	let users = loadUsers();
+</script>
+<Table items={users} selected={missing} onSelect={(u) => u} />`),
+			{}
+		);
+	});
+
+	it('5. Should substitute inferred arguments without changing the cached result', () => {
+		const instantiated = instantiateGenerics(table, { T: 'User | Admin' });
+
+		assert.deepStrictEqual(
+			instantiated.props?.map((p) => p.type),
+			[
+				'(User | Admin)[]',
+				'User | Admin | null',
+				'K',
+				'(item: User | Admin) => void',
+				'Snippet<[item: User | Admin]>'
+			]
+		);
+		assert.deepStrictEqual(instantiated.snippets?.[0].parameters, [
+			{ name: 'item', type: 'User | Admin' }
+		]);
+		assert.strictEqual(table.props?.[0].type, 'T[]');
+		assert.strictEqual(instantiateGenerics(table, {}), table);
+	});
+
+	it('6. Should show the signature and inferred arguments above the tooltip', () => {
+		const result: PropExtractionResult = instantiateGenerics(table, { T: 'User' });
+		assert.strictEqual(
+			TooltipFormatter.displayGenericSignature(
+				'Table',
+				result.generics,
+				result.genericArguments
+			),
+			'`Table<T extends { id: string }, K extends keyof T = keyof T>` _(inferred `T = User`)_\n\n'
+		);
+		assert.strictEqual(TooltipFormatter.displayGenericSignature('Button', []), '');
+	});
+});
@@ -0,0 +1,201 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import { parseModuleExports } from '../src/parsers/propParser';
+import { ManifestComponent, ScriptBlock } from '../src/types';
+import { PathResolver } from '../src/utils/pathResolver';
+import {
+	createManifest,
+	createManifestComponent,
+	formatManifest,
+	MANIFEST_SCHEMA_URL,
+	MANIFEST_VERSION
+} from '../src/utils/manifest';
+import { TypeResolver } from '../src/utils/typeResolver';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('Manifest: Component metadata', () => {
+	const fixturePath = path.join(__dirname, 'fixtures', 'docs-project', 'src');
+	let typeResolver: TypeResolver;
+
+	beforeEach(() => {
+		const mockLogger = new MockLogger() as any;
+		const pathResolver = new PathResolver(new PathResolverCache(), mockLogger, false);
+		typeResolver = new TypeResolver(pathResolver, mockLogger, false);
+	});
+
+	function findComponent(components: ManifestComponent[], name: string): ManifestComponent {
+		const component = components.find((c) => c.name === name);
+		assert.ok(component, `Expected component '${name}'`);
+		return component;
+	}
+
+	it('1. Should emit a versioned document listing every component', () => {
+		const manifest = createManifest(fixturePath, typeResolver);
+
+		assert.strictEqual(manifest.version, MANIFEST_VERSION);
+		assert.strictEqual(manifest.$schema, MANIFEST_SCHEMA_URL);
+		const schemaPath = path.join(
+			__dirname,
+			'..',
+			'schemas',
+			path.basename(MANIFEST_SCHEMA_URL)
+		);
+		const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf8')) as { $id: string };
+		assert.strictEqual(schema.$id, MANIFEST_SCHEMA_URL);
+		assert.ok(MANIFEST_SCHEMA_URL.includes('/sveltedoc/master/'));
+		assert.ok(/^sveltedoc@\d+\.\d+\.\d+/.test(manifest.generator));
+		assert.deepStrictEqual(
+			manifest.components.map((c) => c.path),
+			['lib/Button.svelte', 'lib/Icon.svelte', 'lib/forms/Input.svelte']
+		);
+	});
+
+	it('2. Should describe props in declaration order with snippets listed separately', () => {
+		const button = findComponent(
+			createManifest(fixturePath, typeResolver).components,
+			'Button'
+		);
+
+		assert.deepStrictEqual(button.props[0], {
+			name: 'label',
+			type: 'string',
+			required: true,
+			bindable: false,
+			comment: 'Text shown on the button'
+		});
+		assert.deepStrictEqual(
+			button.props.map((p) => p.name),
+			['label', 'variant', 'children']
+		);
+		assert.strictEqual(button.props[1].default, "'primary'");
+		assert.deepStrictEqual(button.snippets, [
+			{ name: 'children', type: 'Snippet', required: false, parameters: [] }
+		]);
+		assert.deepStrictEqual(button.inherits, []);
+	});
+
+	it('3. Should follow imported props types and keep components without props', () => {
+		const components = createManifest(fixturePath, typeResolver).components;
+
+		const input = findComponent(components, 'Input');
+		const value = input.props.find((p) => p.name === 'value');
+		assert.ok(value);
+		assert.strictEqual(value.bindable, true);
+		assert.strictEqual(value.comment, 'Current input value');
+
+		const icon = findComponent(components, 'Icon');
+		assert.deepStrictEqual(icon.props, []);
+		assert.deepStrictEqual(icon.snippets, []);
+	});
+
+	it('4. Should list module script exports with their kinds', () => {
+		const button = findComponent(
+			createManifest(fixturePath, typeResolver).components,
+			'Button'
+		);
+		assert.deepStrictEqual(button.moduleExports, [
+			{ name: 'VARIANTS', kind: 'const' },
+			{ name: 'SIZES', kind: 'const' },
+			{ name: 'Variant', kind: 'type' },
+			{ name: 'format', kind: 'function' }
+		]);
+
+		// Legacy context="module" scripts, re-exports; instance scripts are ignored
+		const blocks: ScriptBlock[] = [
+			{
+				content: `export async function load() {}
+				// export const commented = 1;
+				export { helper } from './helpers';
+				export type { Options } from './types';`,
+				attributes: { context: 'module' }
+			},
+			{ content: 'export let value;', attributes: {} }
+		];
+		assert.deepStrictEqual(parseModuleExports(blocks), [
+			{ name: 'load', kind: 'function' },
+			{ name: 'helper', kind: undefined },
+			{ name: 'Options', kind: 'type' }
+		]);
+	});
+
+	it('5. Should serialise to formatted JSON', () => {
+		const manifest = createManifest(fixturePath, typeResolver);
+		const json = formatManifest(manifest);
+
+		assert.ok(json.endsWith('}\n'));
+		assert.deepStrictEqual(JSON.parse(json), JSON.parse(JSON.stringify(manifest)));
+	});
+
+	it('6. Should describe legacy slots, events, generics and component documentation', () => {
+		const fixtures = path.join(__dirname, 'fixtures');
+		const list = findComponent(
+			createManifest(path.join(fixtures, 'snippets'), typeResolver).components,
+			'LegacyList'
+		);
+		assert.deepStrictEqual(
+			list.snippets.find((s) => s.name === 'empty'),
+			{ name: 'empty', required: false, parameters: [], slot: true }
+		);
+		assert.deepStrictEqual(
+			list.snippets.find((s) => s.name === 'item')?.parameters.slice(0, 2),
+			[{ name: 'item' }, { name: 'index' }]
+		);
+
+		const form = findComponent(
+			createManifest(path.join(fixtures, 'events'), typeResolver).components,
+			'LegacyForm'
+		);
+		assert.deepStrictEqual(form.events[0], {
+			name: 'save',
+			type: 'Item',
+			required: false,
+			comment: 'Fired with the saved item',
+			dispatched: true
+		});
+
+		const table = findComponent(
+			createManifest(path.join(fixtures, 'generics'), typeResolver).components,
+			'Table'
+		);
+		assert.deepStrictEqual(JSON.parse(JSON.stringify(table.generics)), [
+			{ name: 'T', constraint: '{ id: string }' },
+			{ name: 'K', constraint: 'keyof T', default: 'keyof T' }
+		]);
+		assert.deepStrictEqual(
+			table.snippets.map((s) => [s.name, s.type, s.parameters]),
+			[['row', 'Snippet<[item: T]>', [{ name: 'item', type: 'T' }]]]
+		);
+		assert.deepStrictEqual(
+			table.events.map((e) => e.name),
+			['onSelect']
+		);
+
+		const input = findComponent(createManifest(fixturePath, typeResolver).components, 'Input');
+		assert.ok(input.documentation?.startsWith('A text input bound to `value`.'));
+		assert.strictEqual(input.deprecated, undefined);
+
+		const legacy = createManifestComponent(
+			{
+				name: 'OldButton',
+				sourcePath: 'OldButton.svelte',
+				pagePath: 'OldButton.md',
+				result: {
+					success: true,
+					props: [],
+					documentation: 'Old.\n\n@deprecated Use Button'
+				}
+			},
+			path.join(fixturePath, 'lib', 'Icon.svelte')
+		);
+		assert.strictEqual(legacy.deprecated, 'Use Button');
+		assert.deepStrictEqual([legacy.snippets, legacy.events, legacy.generics], [[], [], []]);
+	});
+});
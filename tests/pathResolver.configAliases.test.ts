@@ -0,0 +1,212 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import { PathResolver } from '../src/utils/pathResolver';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('PathResolver - svelte.config.js and vite.config.ts aliases', () => {
+	let cache: PathResolverCache;
+	let resolver: PathResolver;
+	let tempRoot: string | undefined;
+
+	const fixtureRoot = path.join(__dirname, 'fixtures', 'sveltekit-config-project');
+	const page = path.join(fixtureRoot, 'src', 'routes', '+page.svelte');
+
+	/**
+	 * Create a temporary project from the given files.
+	 * @returns The project root
+	 */
+	const createProject = (files: Record<string, string>): string => {
+		tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sveltedoc-config-aliases-'));
+		for (const [file, content] of Object.entries(files)) {
+			const filePath = path.join(tempRoot, file);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, content);
+		}
+		return tempRoot;
+	};
+
+	beforeEach(() => {
+		cache = new PathResolverCache();
+		resolver = new PathResolver(cache, new MockLogger() as any, false);
+	});
+
+	afterEach(() => {
+		if (tempRoot) fs.rmSync(tempRoot, { recursive: true, force: true });
+		tempRoot = undefined;
+	});
+
+	it('1. Should resolve $lib before .svelte-kit/tsconfig.json is generated', () => {
+		assert.strictEqual(
+			resolver.resolve(page, '$lib/Button.svelte'),
+			path.join(fixtureRoot, 'src', 'lib', 'Button.svelte')
+		);
+	});
+
+	it('2. Should resolve kit.alias entries with and without /*', () => {
+		assert.strictEqual(
+			resolver.resolve(page, '$components/Card.svelte'),
+			path.join(fixtureRoot, 'src', 'components', 'Card.svelte')
+		);
+		assert.strictEqual(
+			resolver.resolve(page, '$utils/tooltips/Tooltip.svelte'),
+			path.join(fixtureRoot, 'src', 'utils', 'tooltips', 'Tooltip.svelte')
+		);
+	});
+
+	it('3. Should resolve Vite resolve.alias targets built with path helpers', () => {
+		assert.strictEqual(
+			resolver.resolve(page, '@ui/Badge.svelte'),
+			path.join(fixtureRoot, 'src', 'ui', 'Badge.svelte')
+		);
+		assert.strictEqual(
+			resolver.resolve(page, '@icons/Star.svelte'),
+			path.join(fixtureRoot, 'src', 'icons', 'Star.svelte')
+		);
+	});
+
+	it('4. Should skip aliases whose target cannot be read statically', () => {
+		const aliases = cache.getConfigAliases(path.dirname(page));
+		assert.ok(aliases);
+		assert.strictEqual(aliases.root, fixtureRoot);
+		assert.deepStrictEqual(Object.keys(aliases.aliases).sort(), [
+			'$components',
+			'$lib',
+			'$utils',
+			'@icons',
+			'@ui'
+		]);
+	});
+
+	it('5. Should keep the compiler options of a tsconfig extending a missing SvelteKit tsconfig', () => {
+		const tsconfig = cache.getTsconfig(fixtureRoot);
+		assert.strictEqual(tsconfig?.path, path.join(fixtureRoot, 'tsconfig.json'));
+		assert.strictEqual(tsconfig.config.compilerOptions?.strict, true);
+	});
+
+	it('6. Should read the Vite array form, kit.files.lib and aliases declared in a variable', () => {
+		const root = createProject({
+			'svelte.config.js': [
+				"const alias = { '$shared': './packages/shared' };",
+				'export default { kit: { alias, files: { lib: "source/library" } } };'
+			].join('\n'),
+			'vite.config.js': [
+				'export default {',
+				"\tresolve: { alias: [{ find: '~', replacement: path.join(process.cwd(), 'src') }] }",
+				'};'
+			].join('\n'),
+			'source/library/Button.svelte': '<button></button>\n',
+			'packages/shared/Card.svelte': '<div></div>\n',
+			'src/Home.svelte': ''
+		});
+		const home = path.join(root, 'src', 'Home.svelte');
+
+		assert.strictEqual(
+			resolver.resolve(home, '$lib/Button.svelte'),
+			path.join(root, 'source', 'library', 'Button.svelte')
+		);
+		assert.strictEqual(
+			resolver.resolve(home, '$shared/Card.svelte'),
+			path.join(root, 'packages', 'shared', 'Card.svelte')
+		);
+		assert.strictEqual(
+			resolver.resolve(home, '~/Home.svelte'),
+			path.join(root, 'src', 'Home.svelte')
+		);
+	});
+
+	it('7. Should re-read aliases when a config file changes', () => {
+		const root = createProject({
+			'svelte.config.js': "export default { kit: { alias: { $ui: 'src/one' } } };",
+			'src/one/Button.svelte': '<button></button>\n',
+			'src/two/Button.svelte': '<button></button>\n',
+			'src/App.svelte': ''
+		});
+		const app = path.join(root, 'src', 'App.svelte');
+		const configPath = path.join(root, 'svelte.config.js');
+
+		assert.strictEqual(
+			resolver.resolveConfigAlias('$ui/Button.svelte', app),
+			path.join(root, 'src', 'one', 'Button.svelte')
+		);
+
+		fs.writeFileSync(configPath, "export default { kit: { alias: { $ui: 'src/two' } } };");
+		const future = new Date(Date.now() + 5000);
+		fs.utimesSync(configPath, future, future);
+
+		assert.strictEqual(
+			resolver.resolveConfigAlias('$ui/Button.svelte', app),
+			path.join(root, 'src', 'two', 'Button.svelte')
+		);
+	});
+
+	it('8. Should load the full tsconfig once .svelte-kit/tsconfig.json is generated', () => {
+		const root = createProject({
+			'tsconfig.json': '{ "extends": "./.svelte-kit/tsconfig.json" }'
+		});
+		assert.strictEqual(cache.getTsconfig(root)?.config.compilerOptions?.paths, undefined);
+
+		fs.mkdirSync(path.join(root, '.svelte-kit'));
+		fs.writeFileSync(
+			path.join(root, '.svelte-kit', 'tsconfig.json'),
+			JSON.stringify({ compilerOptions: { paths: { $lib: ['../src/lib'] } } })
+		);
+
+		assert.ok(cache.getTsconfig(root)?.config.compilerOptions?.paths?.$lib);
+	});
+
+	it('9. Should resolve Vite targets starting with / from the project root', () => {
+		const root = createProject({
+			'vite.config.ts': [
+				"import path from 'node:path';",
+				'export default {',
+				"\tresolve: { alias: { '@': '/src', '~': path.resolve(__dirname, 'src/lib') } }",
+				'};'
+			].join('\n'),
+			'svelte.config.js': "export default { kit: { alias: { $abs: '/opt/shared' } } };",
+			'src/lib/Button.svelte': '<button></button>\n',
+			'src/App.svelte': ''
+		});
+		const app = path.join(root, 'src', 'App.svelte');
+
+		assert.strictEqual(
+			resolver.resolve(app, '@/lib/Button.svelte'),
+			path.join(root, 'src', 'lib', 'Button.svelte')
+		);
+		assert.strictEqual(
+			resolver.resolve(app, '~/Button.svelte'),
+			path.join(root, 'src', 'lib', 'Button.svelte')
+		);
+		// SvelteKit resolves kit.alias targets with path.resolve(), so / stays absolute
+		assert.strictEqual(cache.getConfigAliases(root)?.aliases.$abs, path.resolve('/opt/shared'));
+	});
+
+	it('10. Should pick up a config file added after no config was found', () => {
+		const root = createProject({
+			'src/lib/Button.svelte': '<button></button>\n',
+			'src/App.svelte': ''
+		});
+		const app = path.join(root, 'src', 'App.svelte');
+		assert.strictEqual(cache.getConfigAliases(path.join(root, 'src')), null);
+
+		fs.writeFileSync(
+			path.join(root, 'vite.config.js'),
+			"export default { resolve: { alias: { '@': './src' } } };"
+		);
+		const future = new Date(Date.now() + 5000);
+		fs.utimesSync(root, future, future);
+
+		assert.strictEqual(
+			resolver.resolveConfigAlias('@/lib/Button.svelte', app),
+			path.join(root, 'src', 'lib', 'Button.svelte')
+		);
+	});
+});
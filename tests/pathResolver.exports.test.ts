@@ -0,0 +1,168 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import { PathResolver } from '../src/utils/pathResolver';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('PathResolver - package.json exports', () => {
+	let resolver: PathResolver;
+	let tempRoot: string | undefined;
+
+	const fixtureRoot = path.join(__dirname, 'fixtures', 'pnpm-workspace-project');
+	const budgetAppPage = path.join(
+		fixtureRoot,
+		'code',
+		'budget-app',
+		'src',
+		'routes',
+		'+page.svelte'
+	);
+	const components = path.join(fixtureRoot, 'code', 'shared', 'src', 'lib', 'components');
+
+	/**
+	 * Create a temporary pnpm workspace with a `ui` package using the given exports field.
+	 * @returns The workspace root; the importing file is app/App.svelte
+	 */
+	const createWorkspace = (exports: unknown, files: string[]): string => {
+		tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sveltedoc-exports-'));
+		const contents: Record<string, string> = {
+			'pnpm-workspace.yaml': "packages:\n  - 'packages/*'\n",
+			'packages/ui/package.json': JSON.stringify({ name: 'ui', exports }),
+			'app/App.svelte': ''
+		};
+		for (const file of files) contents[`packages/ui/${file}`] = '<div></div>\n';
+
+		for (const [file, content] of Object.entries(contents)) {
+			const filePath = path.join(tempRoot, file);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, content);
+		}
+		return tempRoot;
+	};
+
+	beforeEach(() => {
+		const mockLogger = new MockLogger() as any;
+		resolver = new PathResolver(new PathResolverCache(), mockLogger, false);
+	});
+
+	afterEach(() => {
+		if (tempRoot) fs.rmSync(tempRoot, { recursive: true, force: true });
+		tempRoot = undefined;
+	});
+
+	it('1. Should resolve wildcard subpath patterns', () => {
+		const result = resolver.resolve(budgetAppPage, '@budget-suite/shared/components/Card');
+		assert.strictEqual(result, path.join(components, 'Card.svelte'));
+	});
+
+	it('2. Should prefer exact subpaths and the most specific pattern', () => {
+		assert.strictEqual(
+			resolver.resolve(budgetAppPage, '@budget-suite/shared/components/button'),
+			path.join(components, 'Button.svelte')
+		);
+		assert.strictEqual(
+			resolver.resolve(budgetAppPage, '@budget-suite/shared/components/widgets/Statistic'),
+			path.join(components, 'widgets', 'Statistic.svelte')
+		);
+	});
+
+	it('3. Should match nested conditions recursively', () => {
+		resolver.setExportConditions(['import', 'default']);
+		assert.strictEqual(
+			resolver.resolve(budgetAppPage, '@budget-suite/shared/components/widgets/Statistic'),
+			undefined,
+			'Without the svelte condition the unbuilt dist target is used'
+		);
+
+		resolver.setExportConditions(['svelte', 'import']);
+		assert.strictEqual(
+			resolver.resolve(budgetAppPage, '@budget-suite/shared/components/widgets/Statistic'),
+			path.join(components, 'widgets', 'Statistic.svelte')
+		);
+	});
+
+	it('4. Should not resolve subpaths excluded with null', () => {
+		assert.strictEqual(
+			resolver.resolve(budgetAppPage, '@budget-suite/shared/components/Dialog'),
+			undefined
+		);
+		assert.strictEqual(
+			resolver.resolve(budgetAppPage, '@budget-suite/shared/components/Input'),
+			path.join(components, 'Input.svelte')
+		);
+	});
+
+	it('5. Should use the first array fallback that applies', () => {
+		const result = resolver.resolve(budgetAppPage, '@budget-suite/shared/alert');
+		assert.strictEqual(result, path.join(components, 'Alert.svelte'));
+	});
+
+	it('6. Should accept exports given as a string, array or conditions object', () => {
+		const forms: unknown[] = [
+			'./Button.svelte',
+			['./Button.svelte'],
+			{ svelte: './Button.svelte', default: './dist/index.js' }
+		];
+
+		for (const exports of forms) {
+			const root = createWorkspace(exports, ['Button.svelte']);
+			assert.strictEqual(
+				resolver.resolve(path.join(root, 'app', 'App.svelte'), 'ui'),
+				path.join(root, 'packages', 'ui', 'Button.svelte'),
+				JSON.stringify(exports)
+			);
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('7. Should try conditions in the configured priority order', () => {
+		const root = createWorkspace(
+			{ '.': { types: './Types.svelte', svelte: './Source.svelte' } },
+			['Types.svelte', 'Source.svelte']
+		);
+		const app = path.join(root, 'app', 'App.svelte');
+		const packageDirectory = path.join(root, 'packages', 'ui');
+		assert.strictEqual(
+			resolver.resolve(app, 'ui'),
+			path.join(packageDirectory, 'Source.svelte')
+		);
+
+		// Cached resolutions are cleared when settings change
+		resolver = new PathResolver(new PathResolverCache(), new MockLogger() as any, false);
+		resolver.setExportConditions(['types', 'svelte']);
+		assert.strictEqual(
+			resolver.resolve(app, 'ui'),
+			path.join(packageDirectory, 'Types.svelte')
+		);
+	});
+
+	it('8. Should match patterns with a trailer after the wildcard', () => {
+		const root = createWorkspace(
+			{
+				'./*.svelte': './src/*.svelte',
+				'./icons/*.svelte': './src/icons/*.svelte'
+			},
+			['src/Card.svelte', 'src/icons/Star.svelte']
+		);
+		const app = path.join(root, 'app', 'App.svelte');
+		const packageDirectory = path.join(root, 'packages', 'ui');
+
+		assert.strictEqual(
+			resolver.resolve(app, 'ui/Card.svelte'),
+			path.join(packageDirectory, 'src', 'Card.svelte')
+		);
+		assert.strictEqual(
+			resolver.resolve(app, 'ui/icons/Star.svelte'),
+			path.join(packageDirectory, 'src', 'icons', 'Star.svelte')
+		);
+		assert.strictEqual(resolver.resolve(app, 'ui/Card'), undefined);
+	});
+});
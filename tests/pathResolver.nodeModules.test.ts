@@ -0,0 +1,165 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import { PathResolver } from '../src/utils/pathResolver';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('PathResolver - node_modules Package Resolution', () => {
+	let resolver: PathResolver;
+	let tempRoot: string | undefined;
+
+	const fixtureRoot = path.join(__dirname, 'fixtures', 'node-modules-project');
+	const page = path.join(fixtureRoot, 'src', 'routes', '+page.svelte');
+	const nodeModules = path.join(fixtureRoot, 'node_modules');
+
+	beforeEach(() => {
+		const mockLogger = new MockLogger() as any;
+		resolver = new PathResolver(new PathResolverCache(), mockLogger, false);
+	});
+
+	afterEach(() => {
+		if (tempRoot) fs.rmSync(tempRoot, { recursive: true, force: true });
+		tempRoot = undefined;
+	});
+
+	it('1. Should resolve a component through the svelte export condition and barrel', () => {
+		const result = resolver.resolve(page, 'svelte-ui-kit', 'Button');
+		assert.strictEqual(
+			result,
+			path.join(nodeModules, 'svelte-ui-kit', 'dist', 'Button.svelte')
+		);
+	});
+
+	it('2. Should follow wildcard re-exports inside the package dist', () => {
+		const result = resolver.resolve(page, 'svelte-ui-kit', 'Input');
+		assert.strictEqual(
+			result,
+			path.join(nodeModules, 'svelte-ui-kit', 'dist', 'forms', 'Input.svelte')
+		);
+	});
+
+	it('3. Should resolve subpath exports', () => {
+		const result = resolver.resolve(page, 'svelte-ui-kit/button', 'default');
+		assert.strictEqual(
+			result,
+			path.join(nodeModules, 'svelte-ui-kit', 'dist', 'Button.svelte')
+		);
+	});
+
+	it('4. Should use the svelte field of packages without exports', () => {
+		const result = resolver.resolve(page, 'legacy-svelte-lib', 'Tooltip');
+		assert.strictEqual(
+			result,
+			path.join(nodeModules, 'legacy-svelte-lib', 'src', 'Tooltip.svelte')
+		);
+	});
+
+	it('5. Should prefer the types condition over a default bundle', () => {
+		const result = resolver.resolve(page, '@acme/svelte-badges', 'Badge');
+		assert.strictEqual(
+			result,
+			path.join(nodeModules, '@acme', 'svelte-badges', 'dist', 'Badge.svelte')
+		);
+	});
+
+	it('6. Should return undefined for packages that are not installed', () => {
+		assert.strictEqual(resolver.resolve(page, 'not-installed-lib', 'Button'), undefined);
+	});
+
+	it("7. Should follow pnpm's symlinked .pnpm layout", () => {
+		tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sveltedoc-pnpm-'));
+		const store = path.join(tempRoot, 'node_modules', '.pnpm');
+		const files: Record<string, string> = {
+			'ui-kit@1.0.0/node_modules/ui-kit/package.json': JSON.stringify({
+				name: 'ui-kit',
+				exports: { '.': { svelte: './dist/index.js' } }
+			}),
+			'ui-kit@1.0.0/node_modules/ui-kit/dist/index.js':
+				"export { default as Card } from './Card.svelte';\n",
+			'ui-kit@1.0.0/node_modules/ui-kit/dist/Card.svelte': '<div></div>\n',
+			'ui-kit@1.0.0/node_modules/ui-kit/dist/Layout.svelte': '<div></div>\n',
+			'icons@2.0.0/node_modules/icons/package.json': JSON.stringify({
+				name: 'icons',
+				svelte: './Icon.svelte'
+			}),
+			'icons@2.0.0/node_modules/icons/Icon.svelte': '<svg></svg>\n'
+		};
+		for (const [file, content] of Object.entries(files)) {
+			fs.mkdirSync(path.dirname(path.join(store, file)), { recursive: true });
+			fs.writeFileSync(path.join(store, file), content);
+		}
+
+		// The app's dependency is a symlink into the store; `icons` is a dependency of ui-kit
+		// linked next to it, and only hoisted into the hidden .pnpm/node_modules directory
+		const realKit = path.join(store, 'ui-kit@1.0.0', 'node_modules', 'ui-kit');
+		const realIcons = path.join(store, 'icons@2.0.0', 'node_modules', 'icons');
+		fs.symlinkSync(realKit, path.join(tempRoot, 'node_modules', 'ui-kit'), 'junction');
+		fs.symlinkSync(
+			realIcons,
+			path.join(store, 'ui-kit@1.0.0', 'node_modules', 'icons'),
+			'junction'
+		);
+		fs.mkdirSync(path.join(store, 'node_modules'));
+		fs.symlinkSync(realIcons, path.join(store, 'node_modules', 'icons'), 'junction');
+		fs.mkdirSync(path.join(tempRoot, 'src'));
+		const app = path.join(tempRoot, 'src', 'App.svelte');
+		fs.writeFileSync(app, '');
+
+		const card = resolver.resolve(app, 'ui-kit', 'Card');
+		assert.strictEqual(card, path.join(fs.realpathSync(realKit), 'dist', 'Card.svelte'));
+
+		// Imports inside the package resolve from its real location in the store
+		const icon = resolver.resolve(path.join(realKit, 'dist', 'Layout.svelte'), 'icons');
+		assert.strictEqual(icon, path.join(fs.realpathSync(realIcons), 'Icon.svelte'));
+		assert.strictEqual(
+			resolver.resolve(app, 'icons'),
+			path.join(fs.realpathSync(realIcons), 'Icon.svelte')
+		);
+	});
+
+	it('8. Should only accept wildcard re-exports that export the requested name', () => {
+		tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sveltedoc-wildcard-'));
+		const kit = path.join(tempRoot, 'node_modules', 'ui-kit');
+		const files: Record<string, string> = {
+			'package.json': JSON.stringify({ name: 'ui-kit', svelte: './dist/index.js' }),
+			'dist/index.js': [
+				"export * from './helpers.js';",
+				"export * from './icons.js';",
+				"export * from './theme.js';"
+			].join('\n'),
+			'dist/helpers.js': 'export function cn(...classes) {}\n',
+			'dist/icons.js': "export { default as Star } from './Star.svelte';\n",
+			'dist/Star.svelte': '<svg></svg>\n',
+			'dist/theme.js': 'export const Theme = {};\n'
+		};
+		for (const [file, content] of Object.entries(files)) {
+			fs.mkdirSync(path.dirname(path.join(kit, file)), { recursive: true });
+			fs.writeFileSync(path.join(kit, file), content);
+		}
+		const app = path.join(tempRoot, 'App.svelte');
+		fs.writeFileSync(app, '');
+
+		assert.strictEqual(
+			resolver.resolve(app, 'ui-kit', 'Theme'),
+			path.join(kit, 'dist', 'theme.js')
+		);
+		assert.strictEqual(
+			resolver.resolve(app, 'ui-kit', 'Star'),
+			path.join(kit, 'dist', 'icons.js')
+		);
+
+		// helpers.js is not a match for a name it doesn't export: the package entry is kept
+		assert.strictEqual(
+			resolver.resolve(app, 'ui-kit', 'Missing'),
+			path.join(kit, 'dist', 'index.js')
+		);
+	});
+});
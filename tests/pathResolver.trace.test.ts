@@ -0,0 +1,179 @@
+import * as assert from 'node:assert';
+import * as path from 'node:path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import { ResolutionTrace } from '../src/types';
+import { PathResolver } from '../src/utils/pathResolver';
+import { explainComponentResolution } from '../src/utils/resolutionTrace';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('PathResolver - Resolution trace', () => {
+	let resolver: PathResolver;
+
+	const aliasRoot = path.join(__dirname, 'fixtures', 'path-alias-project');
+	const appFile = path.join(aliasRoot, 'src', 'App.svelte');
+	const workspaceRoot = path.join(__dirname, 'fixtures', 'pnpm-workspace-project');
+	const budgetAppPage = path.join(
+		workspaceRoot,
+		'code',
+		'budget-app',
+		'src',
+		'routes',
+		'+page.svelte'
+	);
+
+	const trace = (
+		fromFile: string,
+		specifier: string,
+		componentName?: string
+	): ResolutionTrace => {
+		const { result, traces } = resolver.traceResolution(() =>
+			resolver.resolve(fromFile, specifier, componentName)
+		);
+		assert.strictEqual(traces.length, 1);
+		assert.strictEqual(traces[0].resolvedPath, result);
+		return traces[0];
+	};
+
+	beforeEach(() => {
+		resolver = new PathResolver(new PathResolverCache(), new MockLogger() as any, false);
+	});
+
+	it('1. Should record the matched tsconfig pattern and the files probed', () => {
+		const result = trace(appFile, '@components/Card');
+
+		assert.strictEqual(
+			result.resolvedPath,
+			path.join(aliasRoot, 'src', 'lib', 'components', 'Card.svelte')
+		);
+		assert.deepStrictEqual(
+			result.steps.map((s) => [s.strategy, s.outcome]),
+			[
+				['tsconfig', 'matched'],
+				['probe', 'rejected'],
+				['probe', 'matched']
+			]
+		);
+		assert.ok(result.steps[0].message.includes('@components/*'));
+		assert.strictEqual(result.steps[0].path, path.join(aliasRoot, 'tsconfig.json'));
+		assert.strictEqual(
+			result.steps[1].path,
+			path.join(aliasRoot, 'src', 'lib', 'components', 'Card')
+		);
+	});
+
+	it('2. Should record why each strategy was rejected for an unresolved import', () => {
+		const result = trace(appFile, '$lib/components/Missing.svelte');
+
+		assert.strictEqual(result.resolvedPath, undefined);
+		const strategies = result.steps
+			.filter((s) => s.strategy !== 'probe')
+			.map((s) => [s.strategy, s.outcome]);
+		assert.deepStrictEqual(strategies.slice(0, 1), [['tsconfig', 'matched']]);
+		assert.ok(strategies.some(([strategy]) => strategy === 'workspace'));
+		assert.deepStrictEqual(strategies.at(-1), ['nodeModules', 'rejected']);
+
+		// Every probed file is rejected with the reason
+		const probes = result.steps.filter((s) => s.strategy === 'probe');
+		assert.ok(probes.length >= 9);
+		assert.ok(probes.every((s) => s.outcome === 'rejected' && s.message !== ''));
+	});
+
+	it('3. Should record the workspace package, exports key and condition', () => {
+		const result = trace(budgetAppPage, '@budget-suite/shared/components/widgets/Statistic');
+		const packageJsonPath = path.join(workspaceRoot, 'code', 'shared', 'package.json');
+
+		const workspace = result.steps.find((s) => s.strategy === 'workspace');
+		assert.strictEqual(workspace?.outcome, 'matched');
+		assert.strictEqual(workspace.path, path.join(workspaceRoot, 'code', 'shared'));
+
+		const exportsSteps = result.steps.filter((s) => s.strategy === 'exports');
+		assert.ok(exportsSteps.some((s) => s.outcome === 'info' && s.message.includes("'svelte'")));
+		const matched = exportsSteps.find((s) => s.outcome === 'matched');
+		assert.strictEqual(matched?.path, packageJsonPath);
+		assert.ok(matched.message.includes('./components/widgets/*'));
+	});
+
+	it('4. Should record rejected conditions and excluded subpaths', () => {
+		resolver.setExportConditions(['import']);
+		const unbuilt = trace(budgetAppPage, '@budget-suite/shared/components/widgets/Statistic');
+		assert.ok(
+			unbuilt.steps.some((s) => s.strategy === 'probe' && s.path?.includes('dist')),
+			'The dist target of the import condition is probed'
+		);
+
+		const excluded = trace(budgetAppPage, '@budget-suite/shared/components/Dialog');
+		assert.ok(
+			excluded.steps.some(
+				(s) =>
+					s.strategy === 'exports' &&
+					s.outcome === 'rejected' &&
+					s.message.includes('./components/Dialog')
+			)
+		);
+	});
+
+	it('5. Should record barrel hops with their depth', () => {
+		const result = trace(budgetAppPage, '@budget-suite/shared', 'Card');
+		const hops = result.steps.filter((s) => s.strategy === 'barrel');
+
+		assert.deepStrictEqual(
+			[...new Set(hops.map((s) => s.barrelDepth))],
+			[1, 2],
+			'Card is re-exported through two barrel files'
+		);
+		const found = hops.at(-1);
+		assert.strictEqual(found?.outcome, 'matched');
+		assert.strictEqual(found.path, result.resolvedPath);
+		assert.ok(result.resolvedPath?.endsWith('Card.svelte'));
+	});
+
+	it('6. Should only trace while traceResolution runs', () => {
+		const { result, traces } = resolver.traceResolution(() => [
+			resolver.resolve(appFile, './lib/components/Button.svelte'),
+			resolver.resolve(appFile, '$lib/components/Button.svelte')
+		]);
+
+		assert.deepStrictEqual(
+			traces.map((t) => t.resolvedPath),
+			result
+		);
+		assert.strictEqual(traces[0].steps[0].strategy, 'relative');
+		assert.strictEqual(
+			resolver.resolve(appFile, '$lib/components/Button.svelte'),
+			result[1],
+			'Resolution is unchanged outside of a trace'
+		);
+		assert.strictEqual(traces.length, 2);
+	});
+
+	it('7. Should explain a component tag as a markdown document', () => {
+		const document = {
+			fileName: appFile,
+			getText: (): string =>
+				"<script>\n\timport Button from '$lib/components/Button.svelte';\n\timport Missing from '@components/Missing';\n</script>\n"
+		};
+
+		const resolved = explainComponentResolution(document, 'Button', resolver);
+		assert.ok(resolved.startsWith('# Explain Resolution: `<Button>`'));
+		assert.ok(resolved.includes('### tsconfig.json paths'));
+		assert.ok(
+			resolved.includes(
+				`- ✅ \`${path.join(aliasRoot, 'src', 'lib', 'components', 'Button.svelte')}\` — File found`
+			)
+		);
+
+		const unresolved = explainComponentResolution(document, 'Missing', resolver);
+		assert.ok(unresolved.includes('❌ Could not resolve import path'));
+		assert.ok(unresolved.includes('### node_modules package'));
+		assert.ok(unresolved.includes('  - ❌ `'), 'Probed files are nested under their step');
+
+		const notImported = explainComponentResolution(document, 'Card', resolver);
+		assert.ok(notImported.includes('No import found for `<Card>`'));
+	});
+});
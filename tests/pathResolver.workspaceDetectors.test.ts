@@ -0,0 +1,193 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import { PathResolver } from '../src/utils/pathResolver';
+import {
+	DEFAULT_WORKSPACE_DETECTORS,
+	isWorkspaceManifest,
+	npmWorkspaceDetector
+} from '../src/utils/workspaceDetectors';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('PathResolver - Workspace Detectors', () => {
+	let resolver: PathResolver;
+	let tempRoot: string | undefined;
+
+	const npmPage = path.join(
+		__dirname,
+		'fixtures',
+		'npm-workspace-project',
+		'apps',
+		'web',
+		'src',
+		'routes',
+		'+page.svelte'
+	);
+	const yarnApp = path.join(
+		__dirname,
+		'fixtures',
+		'yarn-workspace-project',
+		'apps',
+		'site',
+		'src',
+		'App.svelte'
+	);
+
+	/**
+	 * Create a temporary workspace from a map of relative file paths to contents.
+	 */
+	const createWorkspace = (files: Record<string, string>): string => {
+		tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sveltedoc-workspace-'));
+		for (const [file, content] of Object.entries(files)) {
+			const filePath = path.join(tempRoot, file);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, content);
+		}
+		return tempRoot;
+	};
+
+	/**
+	 * Name of the first built-in detector recognising a directory.
+	 */
+	const detect = (directory: string): string | undefined =>
+		DEFAULT_WORKSPACE_DETECTORS.find((d) => d.getPackagePatterns(directory))?.name;
+
+	beforeEach(() => {
+		const mockLogger = new MockLogger() as any;
+		resolver = new PathResolver(new PathResolverCache(), mockLogger, false);
+	});
+
+	afterEach(() => {
+		if (tempRoot) fs.rmSync(tempRoot, { recursive: true, force: true });
+		tempRoot = undefined;
+	});
+
+	it('1. Should resolve packages from the package.json workspaces field (npm)', () => {
+		const result = resolver.resolve(npmPage, '@acme/ui/button', 'Button');
+
+		assert.ok(result, 'Should resolve workspace package');
+		assert.ok(result.endsWith(path.join('packages', 'ui', 'src', 'Button.svelte')));
+	});
+
+	it('2. Should expand ** patterns to nested packages', () => {
+		const result = resolver.resolve(npmPage, '@acme/inputs/text-input', 'TextInput');
+
+		assert.ok(result, 'Should resolve nested workspace package');
+		assert.ok(result.endsWith(path.join('forms', 'inputs', 'src', 'TextInput.svelte')));
+	});
+
+	it('3. Should skip packages excluded with ! patterns', () => {
+		const result = resolver.resolve(npmPage, '@acme/legacy-ui/button', 'Button');
+		assert.strictEqual(result, undefined);
+	});
+
+	it('4. Should read the Yarn classic { packages } workspaces form', () => {
+		const result = resolver.resolve(yarnApp, '@design/core/card', 'Card');
+
+		assert.ok(result, 'Should resolve Yarn workspace package');
+		assert.ok(result.endsWith(path.join('libs', 'design', 'src', 'Card.svelte')));
+	});
+
+	it('5. Should identify the package manager from its marker files', () => {
+		const fixtures = path.join(__dirname, 'fixtures');
+		assert.strictEqual(detect(path.join(fixtures, 'pnpm-workspace-project')), 'pnpm');
+		assert.strictEqual(detect(path.join(fixtures, 'npm-workspace-project')), 'npm');
+		assert.strictEqual(detect(path.join(fixtures, 'yarn-workspace-project')), 'yarn-classic');
+		assert.strictEqual(detect(path.join(fixtures, 'npm-workspace-project', 'apps')), undefined);
+
+		const root = createWorkspace({
+			'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+			'berry/package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+			'berry/.yarnrc.yml': 'nodeLinker: node-modules\n',
+			'bun/package.json': JSON.stringify({ workspaces: { packages: ['packages/*'] } }),
+			'bun/bun.lock': '{}\n',
+			'none/package.json': JSON.stringify({ name: 'not-a-workspace' })
+		});
+		assert.strictEqual(detect(path.join(root, 'berry')), 'yarn-berry');
+		assert.strictEqual(detect(path.join(root, 'bun')), 'bun');
+		assert.strictEqual(detect(path.join(root, 'none')), undefined);
+		assert.deepStrictEqual(npmWorkspaceDetector.getPackagePatterns(root), ['packages/*']);
+	});
+
+	it('6. Should prefer pnpm-workspace.yaml over the package.json workspaces field', () => {
+		const root = createWorkspace({
+			'package.json': JSON.stringify({ workspaces: ['npm/*'] }),
+			'pnpm-workspace.yaml': "packages:\n  - 'pnpm/*'\n",
+			'pnpm/ui/package.json': JSON.stringify({
+				name: 'ui',
+				exports: { './button': './Button.svelte' }
+			}),
+			'pnpm/ui/Button.svelte': '<button></button>\n',
+			'app/App.svelte': ''
+		});
+
+		const result = resolver.resolve(path.join(root, 'app', 'App.svelte'), 'ui/button');
+		assert.strictEqual(result, path.join(root, 'pnpm', 'ui', 'Button.svelte'));
+	});
+
+	it('7. Should reload packages when a member package.json is invalidated', () => {
+		const root = createWorkspace({
+			'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+			'packages/ui/package.json': JSON.stringify({
+				name: 'old-ui',
+				exports: { './button': './Button.svelte' }
+			}),
+			'packages/ui/Button.svelte': '<button></button>\n',
+			'app/App.svelte': ''
+		});
+		const fromFile = path.join(root, 'app', 'App.svelte');
+		assert.ok(resolver.resolve(fromFile, 'old-ui/button'));
+
+		const packageJsonPath = path.join(root, 'packages', 'ui', 'package.json');
+		fs.writeFileSync(
+			packageJsonPath,
+			JSON.stringify({ name: 'new-ui', exports: { './button': './Button.svelte' } })
+		);
+		assert.strictEqual(resolver.resolve(fromFile, 'new-ui/button'), undefined);
+
+		resolver.invalidateWorkspace(packageJsonPath);
+		assert.ok(resolver.resolve(fromFile, 'new-ui/button'));
+		assert.ok(isWorkspaceManifest(packageJsonPath));
+		assert.ok(!isWorkspaceManifest(path.join(root, 'tsconfig.json')));
+	});
+
+	it('8. Should use custom workspace detectors', () => {
+		const root = createWorkspace({
+			'lerna.json': JSON.stringify({ packages: ['modules/*'] }),
+			'modules/ui/package.json': JSON.stringify({
+				name: 'lerna-ui',
+				exports: { './button': './Button.svelte' }
+			}),
+			'modules/ui/Button.svelte': '<button></button>\n',
+			'app/App.svelte': ''
+		});
+		const fromFile = path.join(root, 'app', 'App.svelte');
+		assert.strictEqual(resolver.resolve(fromFile, 'lerna-ui/button'), undefined);
+
+		resolver.setWorkspaceDetectors([
+			{
+				name: 'lerna',
+				manifest: 'lerna.json',
+				getPackagePatterns: (directory) => {
+					const lernaPath = path.join(directory, 'lerna.json');
+					if (!fs.existsSync(lernaPath)) return null;
+					return (
+						JSON.parse(fs.readFileSync(lernaPath, 'utf8')) as { packages: string[] }
+					).packages;
+				}
+			}
+		]);
+		assert.strictEqual(
+			resolver.resolve(fromFile, 'lerna-ui/button'),
+			path.join(root, 'modules', 'ui', 'Button.svelte')
+		);
+	});
+});
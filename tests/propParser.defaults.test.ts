@@ -963,7 +963,11 @@ describe('Prop Parser (Extracting Defaults and Bindables)', () => {
 			assert.ok(itemsProp.comment);
 			assert.ok(itemsProp.comment.includes('Complex'));
 			assert.ok(itemsProp.comment.includes('generics'));
-			assert.ok(itemsProp.comment.includes('data: someValue'));
+			// @example code is moved from the comment into the structured JSDoc
+			assert.ok(!itemsProp.comment.includes('data: someValue'));
+			assert.deepStrictEqual(itemsProp.jsdoc?.examples, [
+				"items = [{ id: 1, label: 'First', data: someValue }]"
+			]);
 
 			//#endregion
 
@@ -1007,7 +1011,7 @@ describe('Prop Parser (Extracting Defaults and Bindables)', () => {
 			assert.ok(transformConfigProp.comment);
 			assert.ok(transformConfigProp.comment.includes('Ultra-complex'));
 			assert.ok(transformConfigProp.comment.includes('types'));
-			assert.ok(transformConfigProp.comment.includes('getNum() > 0'));
+			assert.ok(transformConfigProp.jsdoc?.examples?.[0].includes('getNum() > 0'));
 
 			//#endregion
 
@@ -1342,7 +1346,11 @@ describe('Prop Parser (Extracting Defaults and Bindables)', () => {
 			assert.ok(itemsProp.comment);
 			assert.ok(itemsProp.comment.includes('Complex'));
 			assert.ok(itemsProp.comment.includes('generics'));
-			assert.ok(itemsProp.comment.includes('data: someValue'));
+			// @example code is moved from the comment into the structured JSDoc
+			assert.ok(!itemsProp.comment.includes('data: someValue'));
+			assert.deepStrictEqual(itemsProp.jsdoc?.examples, [
+				"items = [{ id: 1, label: 'First', data: someValue }]"
+			]);
 
 			//#endregion
 
@@ -1386,7 +1394,7 @@ describe('Prop Parser (Extracting Defaults and Bindables)', () => {
 			assert.ok(transformConfigProp.comment);
 			assert.ok(transformConfigProp.comment.includes('Ultra-complex'));
 			assert.ok(transformConfigProp.comment.includes('types'));
-			assert.ok(transformConfigProp.comment.includes('getNum() > 0'));
+			assert.ok(transformConfigProp.jsdoc?.examples?.[0].includes('getNum() > 0'));
 
 			//#endregion
 
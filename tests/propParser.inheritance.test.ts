@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import { hasRestProps, parsePropsFromScriptBlocks } from '../src/parsers/propParser';
+import { PropInfo, ScriptBlock } from '../src/types';
+
+// Test normalization settings - set to true for consistent test behavior
+const TEST_NORMALISE_COMMENT = true;
+const TEST_NORMALISE_TYPE = true;
+const TEST_NORMALISE_DEFAULT_VALUE = true;
+
+function parse(content: string): { props: PropInfo[]; inherits: string[] } {
+	const blocks: ScriptBlock[] = [{ content, attributes: { lang: 'ts' } }];
+	return parsePropsFromScriptBlocks(
+		blocks,
+		TEST_NORMALISE_COMMENT,
+		TEST_NORMALISE_TYPE,
+		TEST_NORMALISE_DEFAULT_VALUE
+	);
+}
+
+function findProp(props: PropInfo[], name: string): PropInfo {
+	const prop = props.find((p) => p.name === name);
+	assert.ok(prop, `Expected prop '${name}'`);
+	return prop;
+}
+
+describe('Prop Parser (Expanding local extends chains and intersections)', () => {
+	it('1. Interface extends chain is merged transitively', () => {
+		const result = parse(`
+			interface RootProps { /** Element id */ id?: string; }
+			interface BaseProps extends RootProps { class?: string; }
+			interface Props extends BaseProps, ExternalProps { label: string; }
+			let { label, class: className = '' }: Props = $props();
+		`);
+
+		assert.deepStrictEqual(result.props.map((p) => p.name).sort(), ['class', 'id', 'label']);
+		assert.strictEqual(findProp(result.props, 'label').inheritedFrom, undefined);
+		assert.strictEqual(findProp(result.props, 'class').inheritedFrom, 'BaseProps');
+		// Entries keep the type that declared them, not the intermediate parent
+		assert.strictEqual(findProp(result.props, 'id').inheritedFrom, 'RootProps');
+		assert.strictEqual(findProp(result.props, 'id').comment, 'Element id');
+		// Only unresolved parents remain under "Extends"
+		assert.deepStrictEqual(result.inherits, ['ExternalProps']);
+	});
+
+	it('2. Intersections before and after the body, and aliases without a body', () => {
+		const result = parse(`
+			type A = { a: string };
+			type B = { b?: number };
+			type C = { c: boolean }
+			type AB = A & B
+			type Props = AB & { own: string } & C;
+			let { own }: Props = $props();
+		`);
+
+		assert.deepStrictEqual(
+			result.props.map((p) => [p.name, p.inheritedFrom]),
+			[
+				['a', 'A'],
+				['b', 'B'],
+				['c', 'C'],
+				['own', undefined]
+			]
+		);
+		assert.strictEqual(result.inherits.length, 0);
+	});
+
+	it('3. Own entries override inherited ones', () => {
+		const result = parse(`
+			interface BaseProps { value?: string; size?: 'sm' | 'lg'; }
+			interface Props extends BaseProps { value: number; }
+			let { value }: Props = $props();
+		`);
+
+		const value = findProp(result.props, 'value');
+		assert.strictEqual(value.type, 'number');
+		assert.strictEqual(value.required, true);
+		assert.strictEqual(value.inheritedFrom, undefined);
+		assert.strictEqual(findProp(result.props, 'size').inheritedFrom, 'BaseProps');
+	});
+
+	it('4. Cycles do not loop forever', () => {
+		const result = parse(`
+			interface LoopA extends LoopB { a: string; }
+			interface LoopB extends LoopA { b: string; }
+			let { a }: LoopA = $props();
+		`);
+
+		assert.deepStrictEqual(result.props.map((p) => p.name).sort(), ['a', 'b']);
+		assert.strictEqual(result.inherits.length, 0);
+	});
+
+	it('5. Generic parameters are substituted, including defaults', () => {
+		const result = parse(`
+			interface ListProps<T, K extends keyof T = keyof T> {
+				items: T[];
+				key?: K;
+				render?: (item: T) => string;
+			}
+			type Item = { id: number };
+			interface Props extends ListProps<Item> { title: string; }
+			let { items }: Props = $props();
+		`);
+
+		assert.strictEqual(findProp(result.props, 'items').type, 'Item[]');
+		assert.strictEqual(findProp(result.props, 'key').type, 'keyof Item');
+		assert.strictEqual(findProp(result.props, 'render').type, '(item: Item) => string');
+		assert.strictEqual(findProp(result.props, 'items').inheritedFrom, 'ListProps');
+	});
+
+	it('6. Generic alias with defaults in its parameter list', () => {
+		const result = parse(`
+			type WithValue<V = string> = { value: V };
+			let { value }: WithValue = $props();
+		`);
+
+		assert.strictEqual(findProp(result.props, 'value').type, 'string');
+		assert.strictEqual(result.inherits.length, 0);
+	});
+
+	it('7. Rest elements and whole props objects accept any attribute', () => {
+		const accepts = (content: string): boolean =>
+			hasRestProps([{ content, attributes: { lang: 'ts' } }]);
+
+		assert.strictEqual(accepts('let { label, ...rest }: Props = $props();'), true);
+		assert.strictEqual(
+			accepts('let { a, ...others }: { a: string; b: number } = $props();'),
+			true
+		);
+		assert.strictEqual(accepts('let props: { onClick: () => void } = $props();'), true);
+		assert.strictEqual(accepts('const props = $props();'), true);
+		assert.strictEqual(accepts('let { label }: Props = $props();'), false);
+		assert.strictEqual(
+			accepts('const { ...copy } = other;\nlet count: number = 0;\nlet { a } = $props();'),
+			false
+		);
+		assert.strictEqual(accepts('// let { ...rest } = $props();\nlet { a } = $props();'), false);
+	});
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { PropertyScanner } from '../src/classes/PropertyScanner';
+import { parsePropsFromScriptBlocks } from '../src/parsers/propParser';
+import { PropInfo } from '../src/types';
+
+describe('Prop Parser (Structured JSDoc tags)', () => {
+	const parse = (script: string): PropInfo[] =>
+		parsePropsFromScriptBlocks(
+			[{ content: script, attributes: { lang: 'ts' } }],
+			true,
+			true,
+			true
+		).props;
+
+	it('1. Should split supported tags out of the description', () => {
+		const { comment, jsdoc } = PropertyScanner.parseJSDoc(
+			`*
+	 * The button size.
+	 * @deprecated Use {@link scale} instead
+	 * @default 'md'
+	 * @since 2.1.0
+	 * @see https://example.com/sizes
+	 * @remarks Kept in the comment
+	 `,
+			true
+		);
+
+		assert.strictEqual(comment, 'The button size. @remarks Kept in the comment');
+		assert.deepStrictEqual(jsdoc, {
+			description: comment,
+			deprecated: 'Use scale instead',
+			default: "'md'",
+			since: '2.1.0',
+			see: ['https://example.com/sizes']
+		});
+	});
+
+	it('2. Should keep example code, line breaks and indentation included', () => {
+		const { jsdoc } = PropertyScanner.parseJSDoc(
+			`*
+	 * @example
+	 * <Button size="lg">
+	 *   Save
+	 * </Button>
+	 * @example <Button />
+	 `,
+			true
+		);
+
+		assert.deepStrictEqual(jsdoc?.examples, [
+			'<Button size="lg">\n  Save\n</Button>',
+			'<Button />'
+		]);
+		assert.strictEqual(jsdoc.description, '');
+	});
+
+	it('3. Should turn {@link} tags into Markdown links', () => {
+		const { jsdoc } = PropertyScanner.parseJSDoc(
+			'* @see {@link https://svelte.dev Svelte docs}\n * @see {@link Other|the other prop}',
+			true
+		);
+		assert.deepStrictEqual(jsdoc?.see, [
+			'[Svelte docs](https://svelte.dev)',
+			'[the other prop](Other)'
+		]);
+	});
+
+	it('4. Should leave comments without supported tags untouched', () => {
+		const raw = '* Plain text\n * @param value Not a prop tag';
+		assert.deepStrictEqual(PropertyScanner.parseJSDoc(raw, true), {
+			comment: PropertyScanner.formatComment(raw, true)
+		});
+	});
+
+	it('5. Should attach JSDoc to interface props and legacy exports', () => {
+		const props = parse(`
+	interface Props {
+		/** Size of the button
+		 * @deprecated
+		 */
+		size?: string;
+		/** @default 3 */
+		count?: number;
+	}
+	let { size, count }: Props = $props();`);
+
+		assert.strictEqual(props[0].comment, 'Size of the button');
+		assert.strictEqual(props[0].jsdoc?.deprecated, '');
+		assert.strictEqual(props[1].jsdoc?.default, '3');
+		assert.strictEqual(props[1].defaultValue, undefined);
+
+		const legacy = parse(`
+	/**
+	 * Old label
+	 * @deprecated Use title
+	 */
+	export let label: string = '';`);
+		assert.strictEqual(legacy[0].comment, 'Old label');
+		assert.strictEqual(legacy[0].jsdoc?.deprecated, 'Use title');
+	});
+});
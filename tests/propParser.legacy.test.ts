@@ -0,0 +1,227 @@
+import * as assert from 'assert';
+import { parsePropsFromScriptBlocks } from '../src/parsers/propParser';
+import { PropInfo, ScriptBlock } from '../src/types';
+
+// Test normalization settings - set to true for consistent test behavior
+const TEST_NORMALISE_COMMENT = true;
+const TEST_NORMALISE_TYPE = true;
+const TEST_NORMALISE_DEFAULT_VALUE = true;
+
+function parse(blocks: ScriptBlock[]): { props: PropInfo[]; inherits: string[] } {
+	return parsePropsFromScriptBlocks(
+		blocks,
+		TEST_NORMALISE_COMMENT,
+		TEST_NORMALISE_TYPE,
+		TEST_NORMALISE_DEFAULT_VALUE
+	);
+}
+
+function findProp(props: PropInfo[], name: string): PropInfo {
+	const prop = props.find((p) => p.name === name);
+	assert.ok(prop, `Expected prop '${name}'`);
+	return prop;
+}
+
+describe('Prop Parser (Legacy Svelte 4 exports)', () => {
+	it('1. export let with types, defaults and required status', () => {
+		const result = parse([
+			{
+				content: `
+	export let title: string;
+	export let count: number = 0;
+	export let items: Array<{ id: number }> = [];
+	export let untyped;
+`,
+				attributes: { lang: 'ts' }
+			}
+		]);
+
+		assert.strictEqual(result.props.length, 4);
+		assert.strictEqual(result.inherits.length, 0);
+
+		const title = findProp(result.props, 'title');
+		assert.strictEqual(title.type, 'string');
+		assert.strictEqual(title.required, true);
+		assert.strictEqual(title.defaultValue, undefined);
+
+		const count = findProp(result.props, 'count');
+		assert.strictEqual(count.type, 'number');
+		assert.strictEqual(count.required, false);
+		assert.strictEqual(count.defaultValue, '0');
+
+		const items = findProp(result.props, 'items');
+		assert.strictEqual(items.type, 'Array<{ id: number }>');
+		assert.strictEqual(items.defaultValue, '[]');
+
+		const untyped = findProp(result.props, 'untyped');
+		assert.strictEqual(untyped.type, 'unknown');
+		assert.strictEqual(untyped.required, true);
+	});
+
+	it('2. Multiple declarators, inferred types and no semicolons', () => {
+		const result = parse([
+			{
+				content: `
+	export let a = 'hello', b = 5, c: Record<string, number> = {}
+	export let flag = false
+	export let handler: (value: string) => void = () => {}
+`,
+				attributes: {}
+			}
+		]);
+
+		assert.deepStrictEqual(
+			result.props.map((p) => [p.name, p.type, p.defaultValue]),
+			[
+				['a', 'string', "'hello'"],
+				['b', 'number', '5'],
+				['c', 'Record<string, number>', '{}'],
+				['flag', 'boolean', 'false'],
+				['handler', '(value: string) => void', '() => {}']
+			]
+		);
+	});
+
+	it('3. export const and export function are read-only props', () => {
+		const result = parse([
+			{
+				content: `
+	export const VERSION = '1.0';
+	export function focus(options?: FocusOptions): void {
+		input.focus(options);
+	}
+	export function reset() {}
+`,
+				attributes: {}
+			}
+		]);
+
+		const version = findProp(result.props, 'VERSION');
+		assert.strictEqual(version.readonly, true);
+		assert.strictEqual(version.required, false);
+		assert.strictEqual(version.type, 'string');
+		assert.strictEqual(version.defaultValue, undefined);
+
+		const focus = findProp(result.props, 'focus');
+		assert.strictEqual(focus.readonly, true);
+		assert.strictEqual(focus.type, '(options?: FocusOptions) => void');
+
+		const reset = findProp(result.props, 'reset');
+		assert.strictEqual(reset.type, '() => unknown');
+	});
+
+	it('4. JSDoc comments above exports are attached', () => {
+		const result = parse([
+			{
+				content: `
+	/**
+	 * The button label.
+	 */
+	export let label: string;
+	/** Disable the button */
+	export let disabled = false;
+	// Not a JSDoc comment
+	export let size = 'md';
+`,
+				attributes: {}
+			}
+		]);
+
+		assert.strictEqual(findProp(result.props, 'label').comment, 'The button label.');
+		assert.strictEqual(findProp(result.props, 'disabled').comment, 'Disable the button');
+		assert.strictEqual(findProp(result.props, 'size').comment, undefined);
+	});
+
+	it('5. $$Props interface provides types, exports provide defaults', () => {
+		const result = parse([
+			{
+				content: `
+	interface $$Props extends HTMLButtonAttributes {
+		/** Visual style */
+		variant?: 'primary' | 'secondary';
+		label: string;
+	}
+	export let variant: $$Props['variant'] = 'primary';
+	export let label: $$Props['label'];
+	export const id = 'btn';
+`,
+				attributes: {}
+			}
+		]);
+
+		assert.deepStrictEqual(result.inherits, ['HTMLButtonAttributes']);
+
+		const variant = findProp(result.props, 'variant');
+		assert.strictEqual(variant.type, "'primary' | 'secondary'");
+		assert.strictEqual(variant.defaultValue, "'primary'");
+		assert.strictEqual(variant.comment, 'Visual style');
+		assert.strictEqual(variant.required, false);
+
+		const label = findProp(result.props, 'label');
+		assert.strictEqual(label.required, true);
+
+		assert.strictEqual(findProp(result.props, 'id').readonly, true);
+	});
+
+	it('6. Module scripts and commented-out exports are ignored', () => {
+		const result = parse([
+			{
+				content: 'export const shared = 1;\nexport let notAProp = 2;',
+				attributes: { context: 'module' }
+			},
+			{
+				content: '// export let commented: string;\nexport let real: string;',
+				attributes: {}
+			}
+		]);
+
+		assert.deepStrictEqual(
+			result.props.map((p) => p.name),
+			['real']
+		);
+	});
+
+	it('7. Runes mode takes precedence over legacy exports', () => {
+		const result = parse([
+			{
+				content: `
+	type Props = { active: boolean };
+	let { active }: Props = $props();
+	export const helper = () => {};
+`,
+				attributes: {}
+			}
+		]);
+
+		assert.deepStrictEqual(
+			result.props.map((p) => p.name),
+			['active']
+		);
+	});
+
+	it('8. Renamed exports in export lists become props under their exported name', () => {
+		const result = parse([
+			{
+				content: `
+	/** Extra CSS classes */
+	let klass: string = '';
+	let disabled = false;
+	const id = 'field';
+	export { klass as class, disabled, id };
+	// export { ignored };
+`,
+				attributes: {}
+			}
+		]);
+
+		assert.deepStrictEqual(
+			result.props.map((p) => [p.name, p.type, p.defaultValue, p.required, p.readonly]),
+			[
+				['class', 'string', "''", false, undefined],
+				['disabled', 'boolean', 'false', false, undefined],
+				['id', 'string', undefined, false, true]
+			]
+		);
+		assert.strictEqual(findProp(result.props, 'class').comment, 'Extra CSS classes');
+	});
+});
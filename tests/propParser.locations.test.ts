@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { parsePropsFromScriptBlocks } from '../src/parsers/propParser';
+import { PropInfo } from '../src/types';
+import { extractScriptBlocksFromText } from '../src/utils/extractor';
+
+/**
+ * Parse a full component source and return the text at each prop's recorded location.
+ */
+function parseLocations(source: string): Record<string, string | undefined> {
+	const result = parsePropsFromScriptBlocks(extractScriptBlocksFromText(source));
+	const locations: Record<string, string | undefined> = {};
+	for (const prop of result.props) locations[prop.name] = lineAtLocation(source, prop);
+	return locations;
+}
+
+/**
+ * Return the rest of the line starting at the prop's location.
+ */
+function lineAtLocation(source: string, prop: PropInfo): string | undefined {
+	if (!prop.location) return undefined;
+	const end = source.indexOf('\n', prop.location.offset);
+	return source.slice(prop.location.offset, end === -1 ? undefined : end);
+}
+
+describe('Prop Parser (Source locations)', () => {
+	it('1. Props type entries are located in the component file', () => {
+		const source = [
+			'<!-- A component with <script> in a comment -->',
+			'<script lang="ts">',
+			'\tinterface Props {',
+			'\t\t/** The label */',
+			'\t\tlabel: string;',
+			"\t\tvariant?: 'primary' | 'secondary';",
+			'\t\tonclick(event: MouseEvent): void;',
+			'\t}',
+			"\tlet { label, variant = 'primary', onclick }: Props = $props();",
+			'</script>',
+			'<button {onclick}>{label}</button>'
+		].join('\n');
+
+		assert.deepStrictEqual(parseLocations(source), {
+			label: 'label: string;',
+			variant: "variant?: 'primary' | 'secondary';",
+			onclick: 'onclick(event: MouseEvent): void;'
+		});
+	});
+
+	it('2. Destructuring entries are used when the type entry has no location', () => {
+		const source = [
+			'<script lang="ts">',
+			'\t// A comment before the props',
+			'\tlet {',
+			'\t\tid,',
+			'\t\tsize = 2, /* inline comment */ count: total = 0',
+			'\t}: ExternalProps & { size?: number } = $props();',
+			'</script>'
+		].join('\n');
+
+		assert.deepStrictEqual(parseLocations(source), {
+			id: 'id,',
+			size: 'size = 2, /* inline comment */ count: total = 0',
+			count: 'count: total = 0'
+		});
+	});
+
+	it('3. Legacy exports are located at their declared names', () => {
+		const source = [
+			'<script context="module">',
+			"\texport const shared = 'x';",
+			'</script>',
+			'<script>',
+			'\texport let title: string, subtitle = "";',
+			'\texport function focus() {}',
+			'</script>'
+		].join('\n');
+
+		assert.deepStrictEqual(parseLocations(source), {
+			title: 'title: string, subtitle = "";',
+			subtitle: 'subtitle = "";',
+			focus: 'focus() {}'
+		});
+	});
+
+	it('4. Inherited entries keep the location of the declaring type', () => {
+		const source = [
+			'<script lang="ts">',
+			'\tinterface BaseProps { id: string }',
+			'\tinterface Props extends BaseProps { label: string }',
+			'\tlet { id, label }: Props = $props();',
+			'</script>'
+		].join('\n');
+
+		assert.deepStrictEqual(parseLocations(source), {
+			id: 'id: string }',
+			label: 'label: string }'
+		});
+	});
+});
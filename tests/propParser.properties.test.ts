@@ -1477,6 +1477,29 @@ describe('Prop Parser (Extracting the correct Types/Interfaces)', () => {
 		assert.ok(classProp);
 		assert.strictEqual(classProp.type, 'number');
 	});
+
+	it('21. Index signatures are skipped instead of becoming props', () => {
+		const blocks: ScriptBlock[] = [
+			{
+				content:
+					'interface Props {\n\t/** Any data attribute */\n\t[key: string]: unknown;\n\t[`data-${string}`]: string | { id: number }\n\tlabel: string;\n}',
+				attributes: {}
+			},
+			{ content: 'const { label, ...rest }: Props = $props();', attributes: {} }
+		];
+
+		const result = parsePropsFromScriptBlocks(
+			blocks,
+			TEST_NORMALISE_COMMENT,
+			TEST_NORMALISE_TYPE,
+			TEST_NORMALISE_DEFAULT_VALUE
+		);
+
+		assert.deepStrictEqual(
+			result.props.map((p) => [p.name, p.type, p.required, p.comment]),
+			[['label', 'string', true, undefined]]
+		);
+	});
 });
 
 /**
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import { parsePropsFromScriptBlocks } from '../src/parsers/propParser';
+import { PropInfo, ScriptBlock } from '../src/types';
+
+// Test normalization settings - set to true for consistent test behavior
+const TEST_NORMALISE_COMMENT = true;
+const TEST_NORMALISE_TYPE = true;
+const TEST_NORMALISE_DEFAULT_VALUE = true;
+
+const BASE_PROPS = `
+	interface BaseProps {
+		/** Extra CSS classes */
+		class?: string;
+		id: string;
+		disabled?: boolean;
+	}
+`;
+
+function parse(content: string): { props: PropInfo[]; inherits: string[] } {
+	const blocks: ScriptBlock[] = [{ content: BASE_PROPS + content, attributes: { lang: 'ts' } }];
+	return parsePropsFromScriptBlocks(
+		blocks,
+		TEST_NORMALISE_COMMENT,
+		TEST_NORMALISE_TYPE,
+		TEST_NORMALISE_DEFAULT_VALUE
+	);
+}
+
+function summarise(props: PropInfo[]): [string, string, boolean][] {
+	return props
+		.map((p): [string, string, boolean] => [p.name, p.type, p.required])
+		.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+describe('Prop Parser (Utility types in props annotations)', () => {
+	it('1. Omit with an intersected inline object on $props()', () => {
+		const result = parse(
+			"let { variant, ...rest }: Omit<BaseProps, 'class'> & { variant: string } = $props();"
+		);
+
+		assert.deepStrictEqual(summarise(result.props), [
+			['disabled', 'boolean', false],
+			['id', 'string', true],
+			['variant', 'string', true]
+		]);
+		assert.strictEqual(result.inherits.length, 0);
+	});
+
+	it('2. Pick with a union of keys', () => {
+		const result = parse(`let { id }: Pick<BaseProps, 'id' | "class"> = $props();`);
+
+		assert.deepStrictEqual(summarise(result.props), [
+			['class', 'string', false],
+			['id', 'string', true]
+		]);
+		assert.strictEqual(
+			result.props.find((p) => p.name === 'class')?.comment,
+			'Extra CSS classes'
+		);
+	});
+
+	it('3. Partial, Required and Readonly change required flags', () => {
+		const partial = parse('let { id }: Partial<BaseProps> = $props();');
+		assert.ok(partial.props.every((p) => !p.required));
+
+		const required = parse('let { id }: Required<BaseProps> = $props();');
+		assert.ok(required.props.every((p) => p.required));
+
+		const readonly = parse('let { id }: Readonly<BaseProps> = $props();');
+		assert.deepStrictEqual(summarise(readonly.props), [
+			['class', 'string', false],
+			['disabled', 'boolean', false],
+			['id', 'string', true]
+		]);
+	});
+
+	it('4. Nested utilities and utilities in extends clauses', () => {
+		const result = parse(`
+			interface Props extends Partial<Omit<BaseProps, 'disabled'>> {
+				label: string;
+			}
+			let { label }: Props = $props();
+		`);
+
+		assert.deepStrictEqual(summarise(result.props), [
+			['class', 'string', false],
+			['id', 'string', false],
+			['label', 'string', true]
+		]);
+		// Inherited props report the type the utility was applied to
+		assert.strictEqual(result.props.find((p) => p.name === 'id')?.inheritedFrom, 'BaseProps');
+	});
+
+	it('5. Utilities over unknown types or non-literal keys stay under Extends', () => {
+		const result = parse(`
+			type Props = Omit<ExternalProps, 'a'> & Pick<BaseProps, keyof Other> & { own: string };
+			let { own }: Props = $props();
+		`);
+
+		assert.deepStrictEqual(summarise(result.props), [['own', 'string', true]]);
+		assert.deepStrictEqual(result.inherits, [
+			"Omit<ExternalProps, 'a'>",
+			'Pick<BaseProps, keyof Other>'
+		]);
+	});
+
+	it('6. Local types named like utilities take precedence', () => {
+		const result = parse(`
+			type Partial<T> = { custom: T };
+			let { custom }: Partial<number> = $props();
+		`);
+
+		assert.deepStrictEqual(summarise(result.props), [['custom', 'number', true]]);
+	});
+});
@@ -0,0 +1,188 @@
+import * as assert from 'assert';
+import { findComponentUsages } from '../src/parsers/tagParser';
+import { PropExtractionResult } from '../src/types';
+import { getPropNameFromAttribute, validateComponentUsages } from '../src/utils/propValidation';
+
+/**
+ * Build a successful extraction result for the given props.
+ */
+function createResult(
+	props: { name: string; required: boolean }[],
+	inherits: string[] = []
+): PropExtractionResult {
+	return {
+		success: true,
+		props: props.map((p) => ({ ...p, type: 'string', bindable: false })),
+		inherits,
+		componentPath: '/components/Button.svelte'
+	};
+}
+
+describe('Prop Validation: Component usages', () => {
+	const buttonResult = createResult([
+		{ name: 'label', required: true },
+		{ name: 'variant', required: false },
+		{ name: 'value', required: false }
+	]);
+
+	it('1. Should report nothing when all required props are provided', () => {
+		const usages = findComponentUsages('<Button label="Save" bind:value on:click={go} />');
+		const issues = validateComponentUsages(usages, () => buttonResult);
+
+		assert.strictEqual(issues.length, 0);
+	});
+
+	it('2. Should report missing required props on the tag name', () => {
+		const text = '<Button variant="primary" />';
+		const issues = validateComponentUsages(findComponentUsages(text), () => buttonResult);
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].kind, 'missingRequired');
+		assert.strictEqual(issues[0].propName, 'label');
+		assert.strictEqual(text.slice(issues[0].start, issues[0].end), 'Button');
+	});
+
+	it('3. Should report unknown attributes on the attribute name', () => {
+		const text = '<Button label="Save" colour="red" />';
+		const issues = validateComponentUsages(findComponentUsages(text), () => buttonResult);
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].kind, 'unknownAttribute');
+		assert.strictEqual(text.slice(issues[0].start, issues[0].end), 'colour');
+	});
+
+	it('4. Should not report unknown attributes when the props type extends unresolved types', () => {
+		const result = createResult([{ name: 'label', required: true }], ['HTMLButtonAttributes']);
+		const usages = findComponentUsages('<Button label="Save" disabled />');
+		const issues = validateComponentUsages(usages, () => result);
+
+		assert.strictEqual(issues.length, 0);
+	});
+
+	it('5. Should not report missing props when a spread is present', () => {
+		const usages = findComponentUsages('<Button {...props} />');
+		const issues = validateComponentUsages(usages, () => buttonResult);
+
+		assert.strictEqual(issues.length, 0);
+	});
+
+	it('6. Should treat content and snippets as provided props', () => {
+		const result = createResult([
+			{ name: 'children', required: true },
+			{ name: 'header', required: true }
+		]);
+		const usages = findComponentUsages(
+			'<Card>{#snippet header()}<h1>Title</h1>{/snippet}Body</Card>'
+		);
+		const issues = validateComponentUsages(usages, () => result);
+
+		assert.strictEqual(issues.length, 0);
+	});
+
+	it('7. Should skip components whose props could not be extracted', () => {
+		const usages = findComponentUsages('<Unknown whatever="x" />');
+		const issues = validateComponentUsages(usages, () => ({
+			success: false,
+			failureReason: 'No import found for component'
+		}));
+
+		assert.strictEqual(issues.length, 0);
+	});
+
+	it('8. Should extract prop names from attributes and directives', () => {
+		assert.strictEqual(getPropNameFromAttribute('variant'), 'variant');
+		assert.strictEqual(getPropNameFromAttribute('bind:value'), 'value');
+		assert.strictEqual(getPropNameFromAttribute('on:click'), undefined);
+		assert.strictEqual(getPropNameFromAttribute('class:active'), undefined);
+		assert.strictEqual(getPropNameFromAttribute('slot'), undefined);
+	});
+
+	it('9. Should report attributes that set deprecated props', () => {
+		const result = createResult([
+			{ name: 'label', required: true },
+			{ name: 'size', required: false },
+			{ name: 'kind', required: false }
+		]);
+		result.props![1].jsdoc = { description: '', deprecated: 'Use scale' };
+		result.props![2].jsdoc = { description: '', deprecated: '' };
+		const text = '<Button label="Save" bind:size kind="x" />';
+		const issues = validateComponentUsages(findComponentUsages(text), () => result);
+
+		assert.deepStrictEqual(
+			issues.map((i) => [i.kind, i.propName, i.reason, text.slice(i.start, i.end)]),
+			[
+				['deprecatedProp', 'size', 'Use scale', 'bind:size'],
+				['deprecatedProp', 'kind', undefined, 'kind']
+			]
+		);
+	});
+
+	it('10. Should report deprecated components on the tag name', () => {
+		const result: PropExtractionResult = {
+			...buttonResult,
+			documentation: 'An old button.\n\n@deprecated Use\n<NewButton> instead\n\nMore docs'
+		};
+		const text = '<Button label="Save" />';
+		const issues = validateComponentUsages(findComponentUsages(text), () => result);
+
+		assert.strictEqual(issues.length, 1);
+		assert.strictEqual(issues[0].kind, 'deprecatedComponent');
+		assert.strictEqual(issues[0].reason, 'Use <NewButton> instead');
+		assert.strictEqual(text.slice(issues[0].start, issues[0].end), 'Button');
+	});
+
+	it('11. Should match snippet props whose names contain regex characters', () => {
+		const result = createResult([
+			{ name: '$row', required: true },
+			{ name: 'a.b', required: true }
+		]);
+		const provided = findComponentUsages('<Table>{#snippet $row()}{/snippet}</Table>');
+		const notProvided = findComponentUsages(
+			'<Table>{#snippet row()}{/snippet}{#snippet axb()}{/snippet}</Table>'
+		);
+
+		assert.deepStrictEqual(
+			validateComponentUsages(provided, () => result).map((i) => i.propName),
+			['a.b']
+		);
+		assert.deepStrictEqual(
+			validateComponentUsages(notProvided, () => result).map((i) => i.propName),
+			['$row', 'a.b']
+		);
+	});
+
+	it('12. Should ignore CSS custom properties', () => {
+		const usages = findComponentUsages('<Button label="Save" --color="red" --gap={gap} />');
+
+		assert.strictEqual(getPropNameFromAttribute('--color'), undefined);
+		assert.strictEqual(validateComponentUsages(usages, () => buttonResult).length, 0);
+	});
+
+	it('13. Should accept any attribute on components that forward rest props', () => {
+		const result: PropExtractionResult = { ...buttonResult, restProps: true };
+		const text = '<Button label="Save" id="save" aria-label="Save" />';
+		const issues = validateComponentUsages(findComponentUsages(text), () => result);
+
+		assert.strictEqual(issues.length, 0);
+		assert.deepStrictEqual(
+			validateComponentUsages(findComponentUsages(text), () => buttonResult).map(
+				(i) => i.propName
+			),
+			['id', 'aria-label']
+		);
+	});
+
+	it('14. Should report deprecated components without extracted props', () => {
+		const text = '<OldBanner />';
+		const issues = validateComponentUsages(findComponentUsages(text), () => ({
+			success: false,
+			documentation: '@deprecated Use <Banner> instead',
+			failureReason: 'No $props() found'
+		}));
+
+		assert.deepStrictEqual(
+			issues.map((i) => [i.kind, i.reason, text.slice(i.start, i.end)]),
+			[['deprecatedComponent', 'Use <Banner> instead', 'OldBanner']]
+		);
+	});
+});
@@ -0,0 +1,211 @@
+import * as assert from 'assert';
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import {
+	CompletionItem,
+	CompletionRequest,
+	DefinitionRequest,
+	Diagnostic,
+	DidOpenTextDocumentNotification,
+	ExitNotification,
+	Hover,
+	HoverRequest,
+	InitializedNotification,
+	InitializeRequest,
+	InitializeResult,
+	InsertTextFormat,
+	Location,
+	MarkupContent,
+	ProtocolConnection,
+	PublishDiagnosticsNotification,
+	ShutdownRequest,
+	StreamMessageReader,
+	StreamMessageWriter,
+	createProtocolConnection
+} from 'vscode-languageserver/node';
+import type { ResolutionExplanation } from '../src/types';
+import {
+	CLEAR_CACHE_REQUEST,
+	EXPLAIN_RESOLUTION_REQUEST,
+	EXPORT_MANIFEST_REQUEST
+} from '../src/utils/serverRequests';
+
+describe('Language Server: LSP client harness', function () {
+	// Starting the server through ts-node takes a few seconds
+	this.timeout(60000);
+
+	const rootPath = path.join(__dirname, '..');
+	const fixturePath = path.join(__dirname, 'fixtures', 'path-alias-project');
+	const buttonPath = path.join(fixturePath, 'src', 'lib', 'components', 'Button.svelte');
+	const appUri = pathToFileURL(path.join(fixturePath, 'src', 'App.svelte')).href;
+	const appText = `<script lang="ts">
+	import Button from '$lib/components/Button.svelte';
+</script>
+
+<Button label="Click me"  />
+`;
+	let server: ChildProcess;
+	let connection: ProtocolConnection;
+	let initializeResult: InitializeResult;
+	const diagnosticsListeners = new Map<string, (diagnostics: Diagnostic[]) => void>();
+
+	// Resolves with the next diagnostics the server publishes for a document
+	function nextDiagnostics(uri: string): Promise<Diagnostic[]> {
+		return new Promise((resolve) => diagnosticsListeners.set(uri, resolve));
+	}
+
+	before(async () => {
+		server = spawn(
+			process.execPath,
+			['-r', 'ts-node/register', path.join(rootPath, 'src', 'server.ts'), '--stdio'],
+			{ cwd: rootPath, env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' } }
+		);
+		if (!server.stdout || !server.stdin) throw new Error('Server streams are unavailable');
+
+		connection = createProtocolConnection(
+			new StreamMessageReader(server.stdout),
+			new StreamMessageWriter(server.stdin)
+		);
+		connection.onNotification(PublishDiagnosticsNotification.type, (params) => {
+			diagnosticsListeners.get(params.uri)?.(params.diagnostics);
+		});
+		connection.listen();
+
+		initializeResult = await connection.sendRequest(InitializeRequest.type, {
+			processId: process.pid,
+			rootUri: pathToFileURL(fixturePath).href,
+			capabilities: {},
+			initializationOptions: { tooltipFormat: 'code-block' }
+		});
+		await connection.sendNotification(InitializedNotification.type, {});
+		await connection.sendNotification(DidOpenTextDocumentNotification.type, {
+			textDocument: { uri: appUri, languageId: 'svelte', version: 1, text: appText }
+		});
+	});
+
+	after(async () => {
+		await connection.sendRequest(ShutdownRequest.type);
+		await connection.sendNotification(ExitNotification.type);
+		connection.dispose();
+		server.kill();
+	});
+
+	it('1. Should advertise hover, completion and definition support', () => {
+		const capabilities = initializeResult.capabilities;
+		assert.strictEqual(capabilities.hoverProvider, true);
+		assert.strictEqual(capabilities.definitionProvider, true);
+		assert.deepStrictEqual(capabilities.completionProvider?.triggerCharacters, [' ']);
+	});
+
+	it('2. Should show the props of a hovered component tag', async () => {
+		const hover: Hover | null = await connection.sendRequest(HoverRequest.type, {
+			textDocument: { uri: appUri },
+			position: { line: 4, character: 3 }
+		});
+
+		assert.ok(hover);
+		const value = (hover.contents as MarkupContent).value;
+		assert.ok(value.includes('let label: string;'));
+		assert.ok(value.includes('let disabled?: boolean;'));
+	});
+
+	it('3. Should show a single prop when hovering an attribute name', async () => {
+		const hover: Hover | null = await connection.sendRequest(HoverRequest.type, {
+			textDocument: { uri: appUri },
+			position: { line: 4, character: 10 }
+		});
+
+		assert.ok(hover);
+		const value = (hover.contents as MarkupContent).value;
+		assert.ok(value.includes('let label: string;'));
+		assert.ok(!value.includes('disabled'));
+		assert.deepStrictEqual(hover.range, {
+			start: { line: 4, character: 8 },
+			end: { line: 4, character: 13 }
+		});
+	});
+
+	it('4. Should complete props that are not yet set as snippets', async () => {
+		const items = (await connection.sendRequest(CompletionRequest.type, {
+			textDocument: { uri: appUri },
+			position: { line: 4, character: 25 }
+		})) as CompletionItem[] | null;
+
+		assert.ok(items);
+		assert.deepStrictEqual(
+			items.map((item) => item.label),
+			['disabled']
+		);
+		assert.strictEqual(items[0].insertText, 'disabled={$1}');
+		assert.strictEqual(items[0].insertTextFormat, InsertTextFormat.Snippet);
+	});
+
+	it('5. Should jump to the component and to the declaration of a prop', async () => {
+		const buttonUri = pathToFileURL(buttonPath).href;
+
+		const component = (await connection.sendRequest(DefinitionRequest.type, {
+			textDocument: { uri: appUri },
+			position: { line: 4, character: 3 }
+		})) as Location | null;
+		assert.ok(component);
+		assert.strictEqual(component.uri, buttonUri);
+		assert.deepStrictEqual(component.range.start, { line: 0, character: 0 });
+
+		const prop = (await connection.sendRequest(DefinitionRequest.type, {
+			textDocument: { uri: appUri },
+			position: { line: 4, character: 10 }
+		})) as Location | null;
+		assert.ok(prop);
+		assert.strictEqual(prop.uri, buttonUri);
+
+		const line = fs.readFileSync(buttonPath, 'utf8').split('\n')[prop.range.start.line];
+		assert.strictEqual(line.slice(prop.range.start.character).startsWith('label'), true);
+	});
+
+	it('6. Should publish prop validation diagnostics for opened documents', async () => {
+		const uri = pathToFileURL(path.join(fixturePath, 'src', 'Missing.svelte')).href;
+		const published = nextDiagnostics(uri);
+		await connection.sendNotification(DidOpenTextDocumentNotification.type, {
+			textDocument: {
+				uri,
+				languageId: 'svelte',
+				version: 1,
+				text: appText.replace('<Button label="Click me"  />', '<Button disabled />')
+			}
+		});
+
+		const diagnostics = await published;
+		assert.strictEqual(diagnostics.length, 1);
+		assert.strictEqual(diagnostics[0].source, 'SvelteDoc');
+		assert.ok((diagnostics[0].message as string).includes('label'));
+		assert.strictEqual(diagnostics[0].range.start.line, 4);
+	});
+
+	it('7. Should explain the resolution of the component tag at a position', async () => {
+		const explanation: ResolutionExplanation | null = await connection.sendRequest(
+			EXPLAIN_RESOLUTION_REQUEST,
+			{ textDocument: { uri: appUri }, position: { line: 4, character: 3 } }
+		);
+		assert.ok(explanation);
+		assert.strictEqual(explanation.tagName, 'Button');
+		assert.ok(explanation.trace.includes('$lib/components/Button.svelte'));
+
+		const none: ResolutionExplanation | null = await connection.sendRequest(
+			EXPLAIN_RESOLUTION_REQUEST,
+			{ textDocument: { uri: appUri }, position: { line: 0, character: 0 } }
+		);
+		assert.strictEqual(none, null);
+	});
+
+	it('8. Should export the manifest of a folder and clear the caches', async () => {
+		const json: string = await connection.sendRequest(EXPORT_MANIFEST_REQUEST, {
+			rootUri: pathToFileURL(fixturePath).href
+		});
+		const manifest = JSON.parse(json) as { components: { name: string }[] };
+		assert.ok(manifest.components.some((component) => component.name === 'Button'));
+
+		assert.strictEqual(await connection.sendRequest(CLEAR_CACHE_REQUEST), null);
+	});
+});
@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import {
+	getSnippetsFromProps,
+	isSnippetType,
+	parseLegacySlots,
+	parseSnippetParameters
+} from '../src/parsers/snippetParser';
+import { PropInfo } from '../src/types';
+
+describe('Snippet Parser: Snippet props and legacy slots', () => {
+	it('1. Should recognise snippet types', () => {
+		assert.strictEqual(isSnippetType('Snippet'), true);
+		assert.strictEqual(isSnippetType('Snippet<[item: Item]>'), true);
+		assert.strictEqual(isSnippetType("import('svelte').Snippet<[string]>"), true);
+		assert.strictEqual(isSnippetType('SnippetOptions'), false);
+		assert.strictEqual(isSnippetType('() => void'), false);
+	});
+
+	it('2. Should read the parameter tuple as named arguments', () => {
+		assert.deepStrictEqual(parseSnippetParameters('Snippet'), []);
+		assert.deepStrictEqual(parseSnippetParameters('Snippet<[]>'), []);
+		assert.deepStrictEqual(parseSnippetParameters('Snippet<[row: T, index: number]>'), [
+			{ name: 'row', type: 'T' },
+			{ name: 'index', type: 'number' }
+		]);
+		assert.deepStrictEqual(
+			parseSnippetParameters('Snippet<[Record<string, number>, { a: string }, meta?: Meta]>'),
+			[
+				{ name: 'arg0', type: 'Record<string, number>' },
+				{ name: 'arg1', type: '{ a: string }' },
+				{ name: 'meta?', type: 'Meta' }
+			]
+		);
+	});
+
+	it('3. Should collect snippets from props, including fallback-typed children', () => {
+		const props: PropInfo[] = [
+			{ name: 'label', type: 'string', required: true, bindable: false },
+			{
+				name: 'row',
+				type: 'Snippet<[item: Item]>',
+				required: true,
+				bindable: false,
+				comment: 'Renders a row'
+			},
+			{ name: 'children', type: 'Snippet', required: false, bindable: false }
+		];
+
+		assert.deepStrictEqual(getSnippetsFromProps(props), [
+			{
+				name: 'row',
+				parameters: [{ name: 'item', type: 'Item' }],
+				required: true,
+				comment: 'Renders a row'
+			},
+			{ name: 'children', parameters: [], required: false }
+		]);
+	});
+
+	it('4. Should parse legacy slots with their slot props, merging repeated slots', () => {
+		const slots = parseLegacySlots(`<script>
+	const markup = '<slot name="inScript" />';
+</script>
+
+<!-- <slot name="commented" /> -->
+<ul>
+	<li><slot name="item" {item} index={i} /></li>
+	<slot name='empty'>Nothing here</slot>
+</ul>
+<slot />
+<slot name="item" item={first} let:extra></slot>`);
+
+		assert.deepStrictEqual(slots, [
+			{
+				name: 'item',
+				parameters: [{ name: 'item' }, { name: 'index' }, { name: 'extra' }],
+				required: false,
+				slot: true
+			},
+			{ name: 'empty', parameters: [], required: false, slot: true },
+			{ name: 'default', parameters: [], required: false, slot: true }
+		]);
+	});
+
+	it('5. Should ignore elements that only start with "slot"', () => {
+		assert.deepStrictEqual(
+			parseLegacySlots('<slotted-card><p slot="x">Hi</p></slotted-card>'),
+			[]
+		);
+	});
+});
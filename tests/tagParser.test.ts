@@ -1,6 +1,13 @@
 import * as assert from 'assert';
 import type { Position, TextDocument } from '../src/interfaces/vscode';
-import { getTagNameAtPosition, TagDetectionOptions } from '../src/parsers/tagParser';
+import {
+	findAttributeAtOffset,
+	findComponentUsages,
+	getTagCompletionContext,
+	getTagNameAtPosition,
+	scanTagAttributes,
+	TagDetectionOptions
+} from '../src/parsers/tagParser';
 
 /** Options with hoverWithinTag disabled (legacy behavior) */
 const DISABLED_OPTIONS: TagDetectionOptions = { hoverWithinTag: false, maxLines: 50 };
@@ -450,3 +457,176 @@ describe('Tag Parser: Hover within tag (hoverWithinTag: true)', () => {
 		assert.strictEqual(result, 'Foo.Bar');
 	});
 });
+
+describe('Tag Parser: Completion context within tag', () => {
+	it('1. Should return tag after a space following the tag name', () => {
+		const doc = createMockDocument('<Button ');
+		const result = getTagCompletionContext(doc, createPosition(8));
+
+		assert.strictEqual(result?.tagName, 'Button');
+		assert.deepStrictEqual(result.existingAttributes, []);
+	});
+
+	it('2. Should return undefined while typing the tag name', () => {
+		const doc = createMockDocument('<Button');
+		const result = getTagCompletionContext(doc, createPosition(7));
+
+		assert.strictEqual(result, undefined);
+	});
+
+	it('3. Should list existing attributes and exclude the one being typed', () => {
+		const doc = createMockDocument('<Button label="Save" bind:open {disabled} {...rest} var');
+		const result = getTagCompletionContext(doc, createPosition(55));
+
+		assert.strictEqual(result?.tagName, 'Button');
+		assert.deepStrictEqual(result.existingAttributes, ['label', 'bind:open', 'disabled']);
+	});
+
+	it('4. Should return undefined inside an attribute value string', () => {
+		const doc = createMockDocument('<Button label="Sa');
+		const result = getTagCompletionContext(doc, createPosition(17));
+
+		assert.strictEqual(result, undefined);
+	});
+
+	it('5. Should return undefined inside an expression', () => {
+		const doc = createMockDocument('<Button onclick={() => ');
+		const result = getTagCompletionContext(doc, createPosition(23));
+
+		assert.strictEqual(result, undefined);
+	});
+
+	it('6. Should return undefined directly after an equals sign', () => {
+		const doc = createMockDocument('<Button label=');
+		const result = getTagCompletionContext(doc, createPosition(14));
+
+		assert.strictEqual(result, undefined);
+	});
+
+	it('7. Should return undefined after the opening tag is closed', () => {
+		const doc = createMockDocument('<Button label="Save"> ');
+		const result = getTagCompletionContext(doc, createPosition(22));
+
+		assert.strictEqual(result, undefined);
+	});
+
+	it('8. Should work on a later line of a multi-line tag', () => {
+		const doc = createMockDocument(
+			'<Button\n    label="Save"\n    onclick={() => {\n    }}\n    '
+		);
+		const result = getTagCompletionContext(doc, createPosition(4, 4));
+
+		assert.strictEqual(result?.tagName, 'Button');
+		assert.deepStrictEqual(result.existingAttributes, ['label', 'onclick']);
+	});
+});
+
+describe('Tag Parser: Attribute scanning', () => {
+	it('1. Should report attribute offsets and the closing bracket', () => {
+		const text = ' a="1" b={x > 1} c d=e />';
+		const scan = scanTagAttributes(text, 0, text.length);
+
+		assert.deepStrictEqual(
+			scan.attributes.map((a) => [a.name, a.start, a.end]),
+			[
+				['a', 1, 2],
+				['b', 7, 8],
+				['c', 17, 18],
+				['d', 19, 20]
+			]
+		);
+		assert.strictEqual(scan.closed, true);
+		assert.strictEqual(scan.closeOffset, text.length - 1);
+	});
+
+	it('2. Should ignore > inside strings and expressions', () => {
+		const text = ' label="a > b" when={a > b}>';
+		const scan = scanTagAttributes(text, 0, text.length);
+
+		assert.deepStrictEqual(
+			scan.attributes.map((a) => a.name),
+			['label', 'when']
+		);
+		assert.strictEqual(scan.closeOffset, text.length - 1);
+	});
+
+	it('3. Should keep a bare attribute name that ends the tag', () => {
+		const text = ' variant="primary" disabled>';
+		const scan = scanTagAttributes(text, 0, text.length);
+
+		assert.deepStrictEqual(
+			scan.attributes.map((a) => [a.name, a.start, a.end]),
+			[
+				['variant', 1, 8],
+				['disabled', 19, 27]
+			]
+		);
+		assert.strictEqual(scan.closeOffset, text.length - 1);
+	});
+});
+
+describe('Tag Parser: Finding component usages', () => {
+	it('1. Should find component tags in markup only', () => {
+		const text = [
+			'<script lang="ts">',
+			"\tconst html = '<Fake prop />';",
+			'</script>',
+			'<!-- <Commented /> -->',
+			'<Button label="Save" />',
+			'<div><Card title="x">Body</Card></div>'
+		].join('\n');
+
+		const usages = findComponentUsages(text);
+
+		assert.deepStrictEqual(
+			usages.map((u) => u.tagName),
+			['Button', 'Card']
+		);
+		assert.strictEqual(text.slice(usages[0].nameStart, usages[0].nameEnd), 'Button');
+		assert.strictEqual(usages[0].selfClosing, true);
+		assert.strictEqual(usages[1].selfClosing, false);
+		assert.strictEqual(usages[1].children, 'Body');
+	});
+
+	it('2. Should report absolute attribute offsets and spreads', () => {
+		const text = '<p></p>\n<Button label="Save" {...rest} />';
+		const usage = findComponentUsages(text)[0];
+
+		assert.strictEqual(usage.hasSpread, true);
+		assert.strictEqual(usage.attributes.length, 1);
+		assert.strictEqual(text.slice(usage.attributes[0].start, usage.attributes[0].end), 'label');
+	});
+
+	it('3. Should match nested closing tags with the same name', () => {
+		const text = '<Box><Box>inner</Box>outer</Box>';
+		const usages = findComponentUsages(text);
+
+		assert.strictEqual(usages.length, 2);
+		assert.strictEqual(usages[0].children, '<Box>inner</Box>outer');
+		assert.strictEqual(usages[1].children, 'inner');
+	});
+});
+
+describe('Tag Parser: Attribute at offset', () => {
+	it('1. Should find the attribute name under an offset and its component tag', () => {
+		const text = '<div class="x"></div>\n<Button variant="primary" bind:value={v} />';
+
+		const hit = findAttributeAtOffset(text, text.indexOf('variant') + 3);
+		assert.ok(hit);
+		assert.strictEqual(hit.usage.tagName, 'Button');
+		assert.strictEqual(hit.attribute.name, 'variant');
+
+		assert.strictEqual(
+			findAttributeAtOffset(text, text.indexOf('bind:value'))?.attribute.name,
+			'bind:value'
+		);
+	});
+
+	it('2. Should return undefined outside attribute names', () => {
+		const text = '<Button variant="primary" />';
+
+		assert.strictEqual(findAttributeAtOffset(text, text.indexOf('primary')), undefined);
+		assert.strictEqual(findAttributeAtOffset(text, text.indexOf('Button')), undefined);
+		assert.strictEqual(findAttributeAtOffset('<div class="x" />', 6), undefined);
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { TooltipFormatter } from '../src/classes/TooltipFormatter';
+import { FormatSettings, PropExtractionResult, TooltipFormat } from '../src/types';
+
+describe('TooltipFormatter - Component documentation', () => {
+	const result: Required<PropExtractionResult> = {
+		success: true,
+		props: [{ name: 'label', type: 'string', required: true, bindable: false }],
+		inherits: [],
+		restProps: false,
+		snippets: [],
+		events: [],
+		documentation: 'A clickable button.\n\n```svelte\n<Button label="Save" />\n```',
+		generics: [],
+		genericArguments: {},
+		componentPath: '/project/Button.svelte',
+		failureReason: '',
+		fromCache: false,
+		dependencies: []
+	};
+	const settings: FormatSettings = {
+		showComments: true,
+		showTypes: true,
+		showDefaults: true,
+		showInheritance: true,
+		showDocumentation: true
+	};
+
+	it('1. Should render the documentation above the props in every format', () => {
+		const formats: TooltipFormat[] = ['bullet-list', 'table', 'code-block'];
+		for (const format of formats) {
+			const md = TooltipFormatter.formatTooltip(format, 'normal', result, settings);
+			assert.ok(md.startsWith(`${result.documentation}\n\n---\n\n`), format);
+			assert.ok(md.includes('label'), format);
+		}
+	});
+
+	it('2. Should leave the documentation out when the setting is off', () => {
+		const md = TooltipFormatter.formatTooltip('bullet-list', 'normal', result, {
+			...settings,
+			showDocumentation: false
+		});
+		assert.ok(md.startsWith('- ⚠️ `label`'));
+		assert.ok(!md.includes('A clickable button.'));
+	});
+});
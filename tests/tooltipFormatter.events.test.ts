@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { TooltipFormatter } from '../src/classes/TooltipFormatter';
+import { FormatSettings, PropExtractionResult } from '../src/types';
+import { extractComponentProps } from '../src/utils/componentProps';
+
+describe('TooltipFormatter - Events section', () => {
+	const fixturePath = path.join(__dirname, 'fixtures', 'events');
+	const settings: FormatSettings = {
+		showComments: true,
+		showTypes: true,
+		showDefaults: true,
+		showInheritance: true,
+		showDocumentation: true
+	};
+
+	const extract = (fileName: string): Required<PropExtractionResult> => {
+		const result = extractComponentProps(path.join(fixturePath, fileName));
+		assert.ok(result.success);
+		return result as Required<PropExtractionResult>;
+	};
+
+	it('1. Should group callback props, including method shorthand, into events', () => {
+		const result = extract('Editor.svelte');
+
+		assert.deepStrictEqual(
+			result.events.map((e) => [e.name, e.type, e.required]),
+			[
+				['onSave', '(item: Item) => void', true],
+				['onCancel', '() => void', false],
+				['onClose', 'MouseEventHandler<HTMLButtonElement>', false]
+			]
+		);
+
+		const md = TooltipFormatter.formatTooltip('bullet-list', 'normal', result, settings);
+		const [propsPart, eventsPart] = md.split('**Events:**');
+		assert.ok(propsPart.includes('`item`'));
+		assert.ok(propsPart.includes('`onlineOnly`'));
+		assert.ok(!propsPart.includes('onSave'));
+		assert.ok(
+			eventsPart.includes(
+				'- ⚠️ `onSave`: **(item: Item) => void**\n  - _Called with the edited item_'
+			)
+		);
+		assert.ok(eventsPart.includes('- `onCancel`: **() => void**'));
+	});
+
+	it('2. Should list legacy dispatched events with their detail types', () => {
+		const result = extract('LegacyForm.svelte');
+		assert.deepStrictEqual(
+			result.events.map((e) => [e.name, e.type]),
+			[
+				['save', 'Item'],
+				['cancel', 'void'],
+				['reset', 'null'],
+				['progress', 'number']
+			]
+		);
+
+		const md = TooltipFormatter.formatTooltip('table', 'normal', result, settings);
+		assert.ok(md.includes('| `value` |'));
+		assert.ok(md.includes('| Event | Type | Notes |'));
+		assert.ok(md.includes('| `on:save` | `CustomEvent<Item>` | Fired with the saved item |'));
+		assert.ok(md.includes('| `on:reset` | `CustomEvent<null>` | — |'));
+		assert.ok(!md.includes('commented'));
+	});
+
+	it('3. Should leave out event types when types are hidden', () => {
+		const md = TooltipFormatter.formatTooltip(
+			'code-block',
+			'normal',
+			extract('LegacyForm.svelte'),
+			{
+				...settings,
+				showTypes: false,
+				showComments: false
+			}
+		);
+
+		assert.ok(md.includes('**Events:**\n\n- `on:save`\n- `on:cancel`\n'));
+	});
+
+	it('4. Should leave callback props out of the listed props', () => {
+		const result = extract('Editor.svelte');
+		const listed = TooltipFormatter.getListedProps(result).map((p) => p.name);
+
+		assert.ok(listed.includes('item'));
+		assert.ok(!listed.includes('onSave'));
+		assert.strictEqual(listed.length, result.props.length - result.events.length);
+		assert.deepStrictEqual(TooltipFormatter.getListedProps({ success: false }), []);
+	});
+});
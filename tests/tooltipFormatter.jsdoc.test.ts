@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { TooltipFormatter } from '../src/classes/TooltipFormatter';
+import { FormatSettings, PropExtractionResult } from '../src/types';
+
+describe('TooltipFormatter - JSDoc tags', () => {
+	const result: Required<PropExtractionResult> = {
+		success: true,
+		props: [
+			{
+				name: 'size',
+				type: 'string',
+				required: false,
+				bindable: false,
+				comment: 'Size of the button',
+				jsdoc: {
+					description: 'Size of the button',
+					deprecated: 'Use scale instead',
+					default: "'md'",
+					examples: ['<Button size="lg" />'],
+					since: '2.1.0'
+				}
+			},
+			{ name: 'label', type: 'string', required: true, bindable: false }
+		],
+		inherits: [],
+		restProps: false,
+		snippets: [],
+		events: [],
+		documentation: '',
+		generics: [],
+		genericArguments: {},
+		componentPath: '/project/Button.svelte',
+		failureReason: '',
+		fromCache: false,
+		dependencies: []
+	};
+	const settings: FormatSettings = {
+		showComments: true,
+		showTypes: true,
+		showDefaults: true,
+		showInheritance: true,
+		showDocumentation: true
+	};
+
+	it('1. Should strike through deprecated props with the reason', () => {
+		const md = TooltipFormatter.formatTooltip('bullet-list', 'normal', result, settings);
+		assert.ok(md.includes("- ~~`size`~~: **string** = `'md'`"));
+		assert.ok(md.includes('  - _🚫 Deprecated: Use scale instead_'));
+		assert.ok(md.includes('  - _Since 2.1.0_'));
+		assert.ok(md.includes('  ```svelte\n  <Button size="lg" />\n  ```'));
+		assert.ok(md.includes('- ⚠️ `label`'));
+	});
+
+	it('2. Should render examples as fenced Svelte code', () => {
+		const md = TooltipFormatter.formatTooltip('table', 'normal', result, settings);
+		assert.ok(md.includes("| ~~`size`~~ | `string` | `'md'` |"));
+		assert.ok(md.includes('**Examples:**'));
+		assert.ok(md.includes('```svelte\n<Button size="lg" />\n```'));
+	});
+
+	it('3. Should fall back to @default only without a destructuring default', () => {
+		const withDefault: Required<PropExtractionResult> = {
+			...result,
+			props: [{ ...result.props[0], defaultValue: "'sm'" }]
+		};
+		const md = TooltipFormatter.formatTooltip('code-block', 'normal', withDefault, settings);
+		assert.ok(md.includes("size?: string = 'sm';"));
+		assert.ok(md.includes('// @deprecated Use scale instead'));
+	});
+});
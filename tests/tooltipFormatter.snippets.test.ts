@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { TooltipFormatter } from '../src/classes/TooltipFormatter';
+import { FormatSettings, PropExtractionResult } from '../src/types';
+import { extractComponentProps } from '../src/utils/componentProps';
+
+describe('TooltipFormatter - Snippets section', () => {
+	const fixturePath = path.join(__dirname, 'fixtures', 'snippets');
+	const settings: FormatSettings = {
+		showComments: true,
+		showTypes: true,
+		showDefaults: true,
+		showInheritance: true,
+		showDocumentation: true
+	};
+
+	const extract = (fileName: string): Required<PropExtractionResult> => {
+		const result = extractComponentProps(path.join(fixturePath, fileName));
+		assert.ok(result.success);
+		return result as Required<PropExtractionResult>;
+	};
+
+	it('1. Should extract snippet props, including the children fallback', () => {
+		const result = extract('DataTable.svelte');
+
+		assert.deepStrictEqual(
+			result.snippets.map((s) => [s.name, s.required]),
+			[
+				['row', true],
+				['empty', false],
+				['children', false]
+			]
+		);
+		assert.deepStrictEqual(result.snippets[0].parameters, [
+			{ name: 'row', type: 'T' },
+			{ name: 'index', type: 'number' }
+		]);
+		// Snippet props stay props, so completions and diagnostics still see them
+		assert.strictEqual(result.props.length, 5);
+	});
+
+	it('2. Should move snippets out of the prop list into their own section', () => {
+		const md = TooltipFormatter.formatTooltip(
+			'bullet-list',
+			'normal',
+			extract('DataTable.svelte'),
+			settings
+		);
+		const [propsPart, snippetsPart] = md.split('**Snippets:**');
+
+		assert.ok(propsPart.includes('`rows`'));
+		assert.ok(propsPart.includes('`caption`'));
+		assert.ok(!propsPart.includes('`row`'));
+		assert.ok(!propsPart.includes('children'));
+		assert.ok(
+			snippetsPart.includes('- ⚠️ `row(row: T, index: number)`\n  - _Renders a single row_')
+		);
+		assert.ok(snippetsPart.includes('- `empty()`'));
+		assert.ok(snippetsPart.includes('- `children()`'));
+	});
+
+	it('3. Should list legacy slots with their slot props', () => {
+		const md = TooltipFormatter.formatTooltip(
+			'table',
+			'normal',
+			extract('LegacyList.svelte'),
+			settings
+		);
+
+		assert.ok(md.includes('| `items` |'));
+		assert.ok(md.includes('| Snippet | Notes |'));
+		assert.ok(md.includes('| `item(item, index, first)` | _slot_ |'));
+		assert.ok(md.includes('| `empty()` | _slot_ |'));
+		assert.ok(md.includes('| `default()` | _slot_ |'));
+		assert.ok(!md.includes('commented'));
+	});
+
+	it('4. Should document components that only declare slots', () => {
+		const result = extract('SlotsOnly.svelte');
+		assert.deepStrictEqual(result.props, []);
+
+		const md = TooltipFormatter.formatTooltip('code-block', 'normal', result, {
+			...settings,
+			showComments: false
+		});
+		assert.ok(!md.includes('```'));
+		assert.ok(md.includes('- `header()` _(slot)_\n- `default()` _(slot)_'));
+	});
+});
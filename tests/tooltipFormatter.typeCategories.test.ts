@@ -12,6 +12,7 @@ describe('PropSorting - Type Categorization', () => {
 	const ARRAY = 2;
 	const OBJECT = 3;
 	const FUNCTION = 4;
+	const SNIPPET = 5;
 
 	describe('1. Primitive Type Detection', () => {
 		it('should recognize all primitive types', () => {
@@ -125,9 +126,18 @@ describe('PropSorting - Type Categorization', () => {
 		});
 	});
 
-	describe('6. Category Ordering', () => {
+	describe('6. Snippet Type Detection', () => {
+		it('should detect snippets before generics are treated as objects', () => {
+			assert.strictEqual(categorizeType('Snippet'), SNIPPET);
+			assert.strictEqual(categorizeType('Snippet<[item: Item]>'), SNIPPET);
+			assert.strictEqual(categorizeType("import('svelte').Snippet<[string]>"), SNIPPET);
+		});
+	});
+
+	describe('7. Category Ordering', () => {
 		it('should categorize mixed types correctly', () => {
 			const types = [
+				{ type: 'Snippet<[string]>', expected: SNIPPET },
 				{ type: '() => void', expected: FUNCTION },
 				{ type: '{ x: number }', expected: OBJECT },
 				{ type: 'string[]', expected: ARRAY },
@@ -0,0 +1,174 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PathResolverCache } from '../src/classes/caches/PathResolverCache';
+import { parsePropsFromScriptBlocks } from '../src/parsers/propParser';
+import { PropInfo, ScriptBlock } from '../src/types';
+import { PathResolver } from '../src/utils/pathResolver';
+import { TypeResolver } from '../src/utils/typeResolver';
+
+// Mock LoggingService for tests (avoid vscode dependency)
+class MockLogger {
+	public logResolverMessage(): void {
+		// No-op for tests
+	}
+}
+
+describe('TypeResolver: Imported props types', () => {
+	const fixturePath = path.join(__dirname, 'fixtures', 'imported-types-project');
+	const libPath = path.join(fixturePath, 'src', 'lib');
+	const componentPath = path.join(libPath, 'Component.svelte');
+	let typeResolver: TypeResolver;
+
+	beforeEach(() => {
+		const mockLogger = new MockLogger() as any;
+		const pathResolver = new PathResolver(new PathResolverCache(), mockLogger, false);
+		typeResolver = new TypeResolver(pathResolver, mockLogger, false);
+	});
+
+	function parse(
+		script: string,
+		dependencies?: Set<string>
+	): { props: PropInfo[]; inherits: string[] } {
+		const blocks: ScriptBlock[] = [{ content: script, attributes: { lang: 'ts' } }];
+		return parsePropsFromScriptBlocks(
+			blocks,
+			true,
+			true,
+			true,
+			{},
+			typeResolver.createResolver(blocks, componentPath, dependencies)
+		);
+	}
+
+	function findProp(props: PropInfo[], name: string): PropInfo {
+		const prop = props.find((p) => p.name === name);
+		assert.ok(prop, `Expected prop '${name}'`);
+		return prop;
+	}
+
+	it('1. Should resolve an imported interface and merge its extends chain', () => {
+		const dependencies = new Set<string>();
+		const result = parse(
+			`import type { ButtonProps } from './types';
+			let { label, variant = 'primary', ...rest }: ButtonProps = $props();`,
+			dependencies
+		);
+
+		assert.deepStrictEqual(result.props.map((p) => p.name).sort(), [
+			'class',
+			'id',
+			'label',
+			'variant'
+		]);
+		assert.strictEqual(findProp(result.props, 'label').type, 'string');
+		assert.strictEqual(findProp(result.props, 'label').comment, 'Text shown on the button');
+		assert.strictEqual(findProp(result.props, 'variant').defaultValue, "'primary'");
+		assert.strictEqual(findProp(result.props, 'class').comment, 'Extra CSS classes');
+		// The child's redeclaration overrides the parent's optional `id`
+		assert.strictEqual(findProp(result.props, 'id').required, true);
+
+		// Types that can't be found remain as inherited
+		assert.deepStrictEqual(result.inherits, ['HTMLButtonAttributes']);
+		assert.deepStrictEqual(Array.from(dependencies), [path.join(libPath, 'types.ts')]);
+	});
+
+	it('2. Should follow named and wildcard re-exports with aliases', () => {
+		const result = parse(
+			`import { type PanelProps, type StackProps as Stack } from './shared';
+			let { title, gap }: PanelProps & Stack = $props();`
+		);
+
+		assert.deepStrictEqual(result.props.map((p) => p.name).sort(), [
+			'class',
+			'gap',
+			'id',
+			'title'
+		]);
+		assert.strictEqual(findProp(result.props, 'title').required, true);
+		assert.strictEqual(result.inherits.length, 0);
+	});
+
+	it('3. Should stop at cycles in extends chains', () => {
+		const result = parse(
+			`import type { LoopA } from './cycle';
+			let { a, b }: LoopA = $props();`
+		);
+
+		assert.deepStrictEqual(result.props.map((p) => p.name).sort(), ['a', 'b']);
+	});
+
+	it('4. Should respect the maximum depth and resolve .d.ts files', () => {
+		const mockLogger = new MockLogger() as any;
+		const pathResolver = new PathResolver(new PathResolverCache(), mockLogger, false);
+		typeResolver = new TypeResolver(pathResolver, mockLogger, false, 2);
+
+		const result = parse(
+			`import type { Level1 } from './chain';
+			let { one }: Level1 = $props();`
+		);
+
+		assert.deepStrictEqual(result.props.map((p) => p.name).sort(), ['one', 'two']);
+		assert.deepStrictEqual(result.inherits, ['Level3']);
+	});
+
+	it('5. Should leave types that are not imported as inherited', () => {
+		const result = parse(`let { a }: UnknownProps = $props();`);
+
+		assert.strictEqual(result.props.length, 1);
+		assert.strictEqual(result.props[0].type, 'unknown');
+		assert.deepStrictEqual(result.inherits, ['UnknownProps']);
+	});
+
+	it('6. Should evaluate utility types used as parents in type files', () => {
+		const result = parse(
+			`import type { IconButtonProps } from './types';
+			let { icon }: IconButtonProps = $props();`
+		);
+
+		assert.deepStrictEqual(result.props.map((p) => p.name).sort(), [
+			'class',
+			'icon',
+			'id',
+			'variant'
+		]);
+		assert.strictEqual(findProp(result.props, 'variant').inheritedFrom, 'ButtonProps');
+		assert.strictEqual(findProp(result.props, 'class').inheritedFrom, 'BaseProps');
+		assert.deepStrictEqual(result.inherits, ['HTMLButtonAttributes']);
+	});
+
+	it('7. Should record the file and offset that declare imported entries', () => {
+		const result = parse(
+			`import type { ButtonProps } from './types';
+			let { label, variant }: ButtonProps = $props();`
+		);
+
+		const typesPath = path.join(libPath, 'types.ts');
+		const content = fs.readFileSync(typesPath, 'utf8');
+		for (const name of ['label', 'class']) {
+			const location = findProp(result.props, name).location;
+			assert.ok(location);
+			assert.strictEqual(location.file, typesPath);
+			assert.strictEqual(content.slice(location.offset, location.offset + name.length), name);
+		}
+	});
+
+	it('8. Should not expand svelte/elements types installed in node_modules', () => {
+		const dependencies = new Set<string>();
+		const result = parse(
+			`import type { HTMLButtonAttributes } from 'svelte/elements';
+			interface Props extends HTMLButtonAttributes {
+				label: string;
+			}
+			let { label, ...rest }: Props = $props();`,
+			dependencies
+		);
+
+		assert.deepStrictEqual(
+			result.props.map((p) => p.name),
+			['label']
+		);
+		assert.deepStrictEqual(result.inherits, ['HTMLButtonAttributes']);
+		assert.strictEqual(dependencies.size, 0);
+	});
+});